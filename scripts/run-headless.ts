@@ -0,0 +1,109 @@
+/**
+ * Batch-run games without the browser and write each result to JSON
+ *
+ * Usage:
+ *   pnpm headless --games 20 --seed 1000
+ *   pnpm headless --provider openai --api-url http://localhost:11434 --model qwen2.5 --games 5
+ *   pnpm headless --config my-setup.json --out runs/
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { GameConfig } from '@/types/game';
+import { DEFAULT_CONFIG, validateGameConfig } from '@/lib/game-presets';
+import { runHeadlessGame } from '@/lib/headless-runner';
+import { createOpenAIProvider, createScriptedProvider } from '@/lib/response-providers';
+import type { ResponseProvider } from '@/lib/gemini';
+import { createSeed } from '@/lib/random';
+import { summarizeUsage } from '@/lib/usage-stats';
+
+const { values } = parseArgs({
+  options: {
+    games: { type: 'string', default: '1' },
+    seed: { type: 'string' },
+    config: { type: 'string' },
+    provider: { type: 'string', default: 'scripted' },
+    'api-url': { type: 'string' },
+    'api-key': { type: 'string' },
+    model: { type: 'string' },
+    out: { type: 'string', default: 'headless-runs' },
+  },
+});
+
+/**
+ * Load the game setup from a JSON file, or fall back to the default setup
+ */
+function loadConfig(file: string | undefined): GameConfig {
+  if (!file) return DEFAULT_CONFIG;
+  return { ...DEFAULT_CONFIG, ...(JSON.parse(readFileSync(file, 'utf-8')) as Partial<GameConfig>) };
+}
+
+/**
+ * Build the response provider selected on the command line
+ */
+function buildProvider(seed: number): ResponseProvider {
+  if (values.provider === 'openai') {
+    const apiUrl = values['api-url'];
+    if (!apiUrl) {
+      throw new Error('--api-url is required for the openai provider');
+    }
+    return createOpenAIProvider({
+      apiUrl,
+      apiKey: values['api-key'] ?? process.env.OPENAI_API_KEY,
+      model: values.model,
+    });
+  }
+  if (values.provider === 'scripted') {
+    return createScriptedProvider(seed);
+  }
+  throw new Error(`Unknown provider: ${values.provider}`);
+}
+
+/**
+ * Run every requested game in sequence and print a summary
+ */
+async function main(): Promise<void> {
+  const config = loadConfig(values.config);
+  const errors = validateGameConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid game config:\n${errors.join('\n')}`);
+  }
+
+  const games = Number(values.games);
+  const firstSeed = values.seed !== undefined ? Number(values.seed) : createSeed();
+  mkdirSync(values.out, { recursive: true });
+
+  const wins: Record<string, number> = {};
+
+  for (let i = 0; i < games; i++) {
+    const seed = (firstSeed + i) >>> 0;
+    const result = await runHeadlessGame({
+      config: { ...config, seed },
+      provider: buildProvider(seed),
+    });
+
+    const file = path.join(values.out, `game-${seed}.json`);
+    writeFileSync(file, JSON.stringify(result, null, 2));
+
+    const outcome = result.winner ? `${result.winner.faction}/${result.winner.reason}` : 'unfinished';
+    wins[outcome] = (wins[outcome] ?? 0) + 1;
+    const { total } = summarizeUsage(result.gameState.apiLogs ?? []);
+    const usage = total.promptTokens + total.completionTokens > 0
+      ? ` tokens=${total.promptTokens}/${total.completionTokens}`
+      : '';
+    console.log(
+      `[${i + 1}/${games}] seed=${seed} winner=${outcome} rounds=${result.gameState.round} steps=${result.steps}` +
+        usage +
+        (result.error ? ` error=${result.error}` : '') +
+        ` -> ${file}`,
+    );
+  }
+
+  console.log('Summary:', wins);
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
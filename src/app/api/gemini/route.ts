@@ -1,14 +1,26 @@
 /**
- * OpenAI compatible API proxy route
+ * Model API proxy route - OpenAI compatible, Anthropic, Gemini and Ollama
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import type { APIType } from '@/types/game';
+import {
+  PROVIDER_INFO,
+  getProviderAdapter,
+  type CompletionRequest,
+  type ProviderAdapter,
+} from '@/lib/llm-providers';
 
 /**
  * Validate request body
  */
 function validateRequest(body: { apiKey?: string; apiUrl?: string; prompt?: string; apiType?: string }) {
-  if (!body.apiKey) {
+  const apiType = body.apiType ?? 'openai';
+  if (!getProviderAdapter(apiType)) {
+    return NextResponse.json({ error: `不支持的 API 类型: ${apiType}` }, { status: 400 });
+  }
+  // 本地 Ollama 不需要 API Key
+  if (!body.apiKey && PROVIDER_INFO[apiType as APIType].requiresApiKey) {
     return NextResponse.json({ error: '缺少 API Key' }, { status: 400 });
   }
   if (!body.prompt) {
@@ -18,7 +30,7 @@ function validateRequest(body: { apiKey?: string; apiUrl?: string; prompt?: stri
 }
 
 /**
- * POST handler for OpenAI API requests
+ * POST handler for model API requests
  */
 export async function POST(request: NextRequest) {
   try {
@@ -30,7 +42,9 @@ export async function POST(request: NextRequest) {
         apiUrl?: string;
         model?: string;
         prompt?: string;
-        apiType?: 'openai';
+        apiType?: APIType;
+        jsonMode?: boolean;
+        stream?: boolean;
       };
     } catch (parseError) {
       console.error('Failed to parse request body:', parseError);
@@ -43,18 +57,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { apiKey, apiUrl, model, prompt, apiType = 'openai' } = body;
+    const { apiKey, apiUrl = '', model, prompt, apiType = 'openai', jsonMode = false, stream = false } = body;
 
     const validationError = validateRequest(body);
     if (validationError) return validationError;
 
-    if (apiType === 'openai') {
-      return handleOpenAIRequest(apiKey as string, apiUrl, model, prompt as string);
-    }
-
-    return NextResponse.json(
-      { error: '不支持的 API 类型，仅支持 OpenAI 兼容 API' },
-      { status: 400 }
+    return await handleCompletionRequest(
+      apiType,
+      getProviderAdapter(apiType) as ProviderAdapter,
+      { apiKey, apiUrl, model: model ?? 'gpt-3.5-turbo', prompt: prompt as string, stream },
+      jsonMode,
     );
   } catch (error) {
     console.error('代理请求失败:', error);
@@ -70,54 +82,44 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Handle OpenAI compatible API requests
+ * Send one completion request through the provider's adapter
+ * jsonMode asks for the provider's JSON output mode; endpoints that reject it get the plain request instead
+ * stream relays the completion as server-sent events instead of waiting for the whole text
  */
-async function handleOpenAIRequest(
-  apiKey: string,
-  apiUrl: string | undefined,
-  model: string | undefined,
-  prompt: string,
+async function handleCompletionRequest(
+  apiType: APIType,
+  adapter: ProviderAdapter,
+  request: Omit<CompletionRequest, 'temperature' | 'jsonMode'>,
+  jsonMode: boolean,
 ): Promise<NextResponse> {
-  if (!apiUrl) {
+  const { label } = PROVIDER_INFO[apiType];
+  if (!request.apiUrl) {
     return NextResponse.json(
       {
-        error: 'OpenAI API URL 不能为空',
+        error: `${label} API URL 不能为空`,
       },
       { status: 400 },
     );
   }
 
-  // Build completions endpoint URL
-  // If URL already ends with /v1, add /chat/completions directly
-  // Otherwise, add /v1/chat/completions
-  const completionsUrl = apiUrl.endsWith('/v1')
-    ? `${apiUrl}/chat/completions`
-    : `${apiUrl}/v1/chat/completions`;
-
   // Determine temperature based on model
   // Claude thinking models require temperature: 1
-  const isThinkingModel = model?.includes('thinking') ?? false;
+  const isThinkingModel = request.model.includes('thinking');
   const temperature = isThinkingModel ? 1 : 0.9;
 
+  const requestCompletion = (withJSONFormat: boolean) => {
+    const { url, init } = adapter.buildCompletion({ ...request, temperature, jsonMode: withJSONFormat });
+    return fetch(url, init);
+  };
+
   let response;
   try {
-    response = await fetch(completionsUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: model ?? 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature,
-      }),
-    });
+    response = await requestCompletion(jsonMode);
+    // 模型不支持 JSON 模式时去掉 JSON 参数再试一次，答案仍按提示词写成 JSON
+    if (jsonMode && (response.status === 400 || response.status === 422)) {
+      console.warn('模型不支持 JSON 模式，改用普通请求');
+      response = await requestCompletion(false);
+    }
   } catch (fetchError) {
     console.error('网络请求失败:', fetchError);
     return NextResponse.json(
@@ -137,7 +139,7 @@ async function handleOpenAIRequest(
       errorText = 'Unable to read error response';
     }
 
-    console.error('OpenAI API 错误:', {
+    console.error(`${label} API 错误:`, {
       status: response.status,
       statusText: response.statusText,
       body: errorText,
@@ -145,43 +147,33 @@ async function handleOpenAIRequest(
 
     return NextResponse.json(
       {
-        error: `OpenAI API 错误 (${response.status})`,
-        details: errorText.slice(0, 200),
+        error: `${label} API 错误 (${response.status})`,
+        details: adapter.parseError(response.status, errorText),
       },
       { status: response.status },
     );
   }
 
+  // 不支持流式的服务会直接返回完整答案，按普通响应处理
+  if (request.stream && response.headers.get('content-type')?.includes(adapter.streamContentType)) {
+    return relayCompletionStream(response, adapter);
+  }
+
   let data;
   try {
     const responseText = await response.text();
     if (!responseText || responseText.trim() === '') {
-      console.error('OpenAI API 返回空响应');
+      console.error(`${label} API 返回空响应`);
       return NextResponse.json(
         {
-          error: 'OpenAI API 返回空响应',
+          error: `${label} API 返回空响应`,
           details: 'Empty response body',
         },
         { status: 500 }
       );
     }
 
-    data = JSON.parse(responseText) as {
-      choices?: Array<{
-        message?: {
-          content?: string;
-        };
-      }>;
-      content?: Array<{
-        type: string;
-        text?: string;
-      }>;
-      usage?: {
-        prompt_tokens?: number;
-        completion_tokens?: number;
-        total_tokens?: number;
-      };
-    };
+    data = JSON.parse(responseText) as unknown;
   } catch (jsonError) {
     console.error('JSON 解析失败:', jsonError);
     return NextResponse.json(
@@ -193,21 +185,13 @@ async function handleOpenAIRequest(
     );
   }
 
-  // Extract text from response
-  // Try standard OpenAI format first
-  let text = data.choices?.[0]?.message?.content || '';
-
-  // If no text, try Claude's native response format
-  if (!text && data.content) {
-    const textContent = data.content.find((item: any) => item.type === 'text');
-    text = textContent?.text || '';
-  }
+  const { text, usage, error } = adapter.parseCompletion(data);
 
   if (!text) {
-    console.error('OpenAI API 响应无文本:', data);
+    console.error(`${label} API 响应无文本:`, data);
     return NextResponse.json(
       {
-        error: 'AI 响应为空',
+        error: error ?? 'AI 响应为空',
       },
       { status: 500 },
     );
@@ -215,6 +199,64 @@ async function handleOpenAIRequest(
 
   return NextResponse.json({
     text,
-    usage: data.usage,
+    usage,
+  });
+}
+
+/**
+ * Relay an upstream completion stream as SSE - each event carries a text delta, [DONE] marks a complete answer
+ * A stream that ends before the provider's final event is reported as an error event so the client can retry
+ */
+function relayCompletionStream(upstream: Response, adapter: ProviderAdapter): NextResponse {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: string) => controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+      let buffer = '';
+      let completed = false;
+
+      const relayLine = (line: string) => {
+        const chunk = adapter.parseStreamLine(line.trim());
+        completed ||= chunk.done === true;
+        if (chunk.text) send(JSON.stringify({ text: chunk.text }));
+        if (chunk.usage) send(JSON.stringify({ usage: chunk.usage }));
+      };
+
+      try {
+        if (!upstream.body) {
+          throw new Error('Empty response body');
+        }
+        const reader = upstream.body.getReader();
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) break;
+
+          // 事件可能被拆在两个数据块里，留下最后半行等下一块
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+
+          lines.forEach(relayLine);
+        }
+        relayLine(buffer);
+
+        send(completed ? '[DONE]' : JSON.stringify({ error: '流式响应中断' }));
+      } catch (streamError) {
+        console.error('流式响应失败:', streamError);
+        send(JSON.stringify({ error: `流式响应失败: ${streamError instanceof Error ? streamError.message : String(streamError)}` }));
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
   });
 }
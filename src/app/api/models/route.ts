@@ -1,8 +1,10 @@
 /**
- * List available models from OpenAI-compatible API
+ * List available models from the configured provider
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import type { APIType } from '@/types/game';
+import { PROVIDER_INFO, getProviderAdapter } from '@/lib/llm-providers';
 
 /**
  * GET handler for listing models
@@ -11,29 +13,27 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const apiUrl = searchParams.get('apiUrl');
-    const apiKey = searchParams.get('apiKey');
+    const apiKey = searchParams.get('apiKey') ?? undefined;
+    const apiType = searchParams.get('apiType') ?? 'openai';
 
-    if (!apiUrl || !apiKey) {
+    const adapter = getProviderAdapter(apiType);
+    if (!adapter) {
       return NextResponse.json(
-        { error: 'Missing apiUrl or apiKey' },
+        { error: `Unsupported apiType: ${apiType}` },
         { status: 400 },
       );
     }
 
-    // Build models endpoint URL
-    // If URL already ends with /v1, add /models directly
-    // Otherwise, add /v1/models
-    const modelsUrl = apiUrl.endsWith('/v1')
-      ? `${apiUrl}/models`
-      : `${apiUrl}/v1/models`;
+    if (!apiUrl || (!apiKey && PROVIDER_INFO[apiType as APIType].requiresApiKey)) {
+      return NextResponse.json(
+        { error: 'Missing apiUrl or apiKey' },
+        { status: 400 },
+      );
+    }
 
-    // Call OpenAI-compatible /v1/models endpoint
-    const response = await fetch(modelsUrl, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-      },
-    });
+    // /v1/models, /v1beta/models or Ollama's /api/tags
+    const { url, init } = adapter.buildModelList(apiUrl, apiKey);
+    const response = await fetch(url, init);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -46,23 +46,14 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(
         {
           error: `Failed to fetch models (${response.status})`,
-          details: errorText.slice(0, 200),
+          details: adapter.parseError(response.status, errorText),
         },
         { status: response.status },
       );
     }
 
-    const data = (await response.json()) as {
-      data?: Array<{
-        id: string;
-        object?: string;
-        created?: number;
-        owned_by?: string;
-      }>;
-    };
-
     // Extract model IDs from response
-    const models = data.data?.map((model) => model.id) || [];
+    const models = adapter.parseModelList(await response.json());
 
     return NextResponse.json({
       models,
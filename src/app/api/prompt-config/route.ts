@@ -1,24 +1,53 @@
 /**
  * Save and retrieve prompt configurations
+ * Configs and their version history live in a JSON file in the data directory (see prompt-config-store)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import type { PromptConfig } from '@/types/game';
+import type { PromptConfig, PromptRevisionInfo } from '@/types/game';
+import { getPromptConfigStore, type PromptConfigPatch } from '@/lib/prompt-config-store';
 
-// In-memory storage (replace with database in production)
-const promptConfigs = new Map<string, PromptConfig>();
+/**
+ * PUT body - a partial update, or a restore of an older version
+ */
+interface PromptConfigUpdate extends PromptConfigPatch, PromptRevisionInfo {
+  id?: string;
+  restoreVersion?: number;
+}
+
+/**
+ * Only the fields the PUT body sets - the rest of the config stays as it is
+ */
+function toPatch({ name, description, items }: PromptConfigUpdate): PromptConfigPatch {
+  return Object.fromEntries(
+    Object.entries({ name, description, items }).filter(([, value]) => value !== undefined),
+  ) as PromptConfigPatch;
+}
 
 /**
  * GET handler for retrieving prompt configurations
+ * ?id=xxx returns one config, ?id=xxx&versions=true its version history
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const configId = searchParams.get('id');
+    const store = getPromptConfigStore();
+
+    if (configId && searchParams.get('versions') === 'true') {
+      const versions = await store.listVersions(configId);
+      if (!versions) {
+        return NextResponse.json(
+          { error: 'Configuration not found' },
+          { status: 404 },
+        );
+      }
+      return NextResponse.json({ versions });
+    }
 
     if (configId) {
       // Get specific config
-      const config = promptConfigs.get(configId);
+      const config = await store.get(configId);
       if (!config) {
         return NextResponse.json(
           { error: 'Configuration not found' },
@@ -29,7 +58,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get all configs
-    const configs = Array.from(promptConfigs.values());
+    const configs = await store.list();
     return NextResponse.json({ configs });
   } catch (error) {
     console.error('Failed to retrieve prompt config:', error);
@@ -44,11 +73,12 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST handler for saving prompt configurations
+ * POST handler for saving prompt configurations - creates the config or replaces it as a new version
+ * author and note in the body are recorded on the version
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = (await request.json()) as PromptConfig;
+    const body = (await request.json()) as PromptConfig & PromptRevisionInfo;
 
     if (!body.id || !body.name || !body.items) {
       return NextResponse.json(
@@ -66,16 +96,14 @@ export async function POST(request: NextRequest) {
     }
 
     // Save configuration
-    const config: PromptConfig = {
+    const config = await getPromptConfigStore().save({
       id: body.id,
       name: body.name,
       description: body.description,
-      items: body.items.sort((a, b) => a.order - b.order),
-      createdAt: body.createdAt || Date.now(),
+      items: body.items,
+      createdAt: body.createdAt,
       updatedAt: Date.now(),
-    };
-
-    promptConfigs.set(config.id, config);
+    }, { author: body.author, note: body.note });
 
     return NextResponse.json(
       {
@@ -97,7 +125,61 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * DELETE handler for removing prompt configurations
+ * PUT handler for partial updates - only the fields given change
+ * { restoreVersion: n } saves version n again as the newest version
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const body = (await request.json()) as PromptConfigUpdate;
+    const configId = searchParams.get('id') ?? body.id;
+
+    if (!configId) {
+      return NextResponse.json(
+        { error: 'Missing configId' },
+        { status: 400 },
+      );
+    }
+
+    if (body.items !== undefined && !Array.isArray(body.items)) {
+      return NextResponse.json(
+        { error: 'items must be an array' },
+        { status: 400 },
+      );
+    }
+
+    const store = getPromptConfigStore();
+    const restoring = body.restoreVersion !== undefined;
+    const revision = { author: body.author, note: body.note };
+    const config = restoring
+      ? await store.restore(configId, body.restoreVersion as number, revision)
+      : await store.update(configId, toPatch(body), revision);
+
+    if (!config) {
+      return NextResponse.json(
+        { error: restoring ? 'Configuration or version not found' : 'Configuration not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      config,
+    });
+  } catch (error) {
+    console.error('Failed to update prompt config:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update prompt config',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE handler for removing prompt configurations, together with their history
  */
 export async function DELETE(request: NextRequest) {
   try {
@@ -111,15 +193,13 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    if (!promptConfigs.has(configId)) {
+    if (!(await getPromptConfigStore().remove(configId))) {
       return NextResponse.json(
         { error: 'Configuration not found' },
         { status: 404 },
       );
     }
 
-    promptConfigs.delete(configId);
-
     return NextResponse.json({
       success: true,
       message: 'Configuration deleted',
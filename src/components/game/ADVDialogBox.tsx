@@ -16,6 +16,7 @@ interface ADVDialogBoxProps {
   currentPlayer?: Player;
   className?: string;
   onMessageClick?: () => void;
+  isStreaming?: boolean;  // The message is still arriving - update in place instead of fading in again
 }
 
 /**
@@ -28,6 +29,8 @@ const roleNames: Record<string, { name: string; subtitle: string }> = {
   coroner: { name: '食灰者', subtitle: 'Ash-Walker' },
   twin: { name: '共誓者', subtitle: 'The Twin' },
   guard: { name: '设闩者', subtitle: 'Guardian' },
+  witch: { name: '秘药者', subtitle: 'The Apothecary' },
+  hunter: { name: '鸣枪者', subtitle: 'The Last Shot' },
   innocent: { name: '无知者', subtitle: 'The Innocent' },
 };
 
@@ -41,6 +44,7 @@ const messageTypeNames: Record<string, string> = {
   action: '行动',
   death: '死亡',
   secret: '密会',
+  last_words: '遗言',
 };
 
 function EmptyDialogState({ className }: { className?: string }) {
@@ -77,12 +81,13 @@ function CharacterPortrait({ player, isVisible }: { player: Player; isVisible: b
   );
 }
 
-function DialogContent({ message, displayText, roleInfo, messageTypeName, isVisible }: {
+function DialogContent({ message, displayText, roleInfo, messageTypeName, isVisible, isStreaming }: {
   message: Message;
   displayText: string;
   roleInfo: { name: string; subtitle: string } | null;
   messageTypeName: string;
   isVisible: boolean;
+  isStreaming: boolean;
 }) {
   return (
     <div className={cn('flex-1 flex flex-col h-full min-h-0 transition-all duration-500', isVisible ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4')}>
@@ -107,6 +112,7 @@ function DialogContent({ message, displayText, roleInfo, messageTypeName, isVisi
       <div className="flex-1 overflow-y-auto pr-2 min-h-0" style={{ scrollbarWidth: 'thin', scrollbarColor: 'rgb(120 113 108) transparent' }}>
         <div className={cn('text-slate-200 text-base leading-relaxed font-serif', message.type === 'thinking' && 'italic text-emerald-400/90', message.type === 'system' && 'text-amber-100/90')}>
           {displayText}
+          {isStreaming && <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-amber-500/70 animate-pulse" />}
         </div>
       </div>
       <div className="mt-3 pt-2 border-t border-amber-600/10 flex-shrink-0">
@@ -119,19 +125,23 @@ function DialogContent({ message, displayText, roleInfo, messageTypeName, isVisi
   );
 }
 
-export function ADVDialogBox({ currentMessage, currentPlayer, className, onMessageClick }: ADVDialogBoxProps) {
+export function ADVDialogBox({ currentMessage, currentPlayer, className, onMessageClick, isStreaming = false }: ADVDialogBoxProps) {
   const [isVisible, setIsVisible] = useState(false);
   const [displayText, setDisplayText] = useState('');
 
   useEffect(() => {
-    if (currentMessage) {
+    if (currentMessage && isStreaming) {
+      // 流式发言逐字追加，不重新淡入
+      setIsVisible(true);
+      setDisplayText(currentMessage.content);
+    } else if (currentMessage) {
       setIsVisible(false);
       setTimeout(() => {
         setIsVisible(true);
         setDisplayText(currentMessage.content);
       }, 100);
     }
-  }, [currentMessage]);
+  }, [currentMessage, isStreaming]);
 
   if (!currentMessage) {
     return <EmptyDialogState className={className} />;
@@ -172,6 +182,7 @@ export function ADVDialogBox({ currentMessage, currentPlayer, className, onMessa
           roleInfo={roleInfo}
           messageTypeName={messageTypeName}
           isVisible={isVisible}
+          isStreaming={isStreaming}
         />
       </div>
 
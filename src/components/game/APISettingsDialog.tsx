@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { useGameStore } from '@/stores/game-store';
 import { testOpenAIKey } from '@/lib/gemini';
+import { API_TYPES, PROVIDER_INFO, isAPIConfigured } from '@/lib/llm-providers';
+import type { APIType } from '@/types/game';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
@@ -17,7 +19,7 @@ interface APISettingsDialogProps {
 
 /**
  * API Settings Dialog Component
- * Allows users to configure OpenAI compatible APIs
+ * Allows users to pick the model provider and configure its API
  */
 export function APISettingsDialog({ open, onOpenChange }: APISettingsDialogProps) {
   const [isTesting, setIsTesting] = useState(false);
@@ -44,6 +46,22 @@ export function APISettingsDialog({ open, onOpenChange }: APISettingsDialogProps
   const [localModel, setLocalModel] = useState(model);
   const [localAvailableModels, setLocalAvailableModels] = useState(availableModels);
 
+  const providerInfo = PROVIDER_INFO[localApiType];
+  const isConfigured = isAPIConfigured(localApiType, localApiKey, localApiUrl);
+
+  // 切换服务商时，默认地址跟着换，已获取的模型列表作废
+  const handleProviderChange = (type: APIType) => {
+    const isDefaultUrl = !localApiUrl.trim() || API_TYPES.some((t) => PROVIDER_INFO[t].defaultUrl === localApiUrl.trim());
+    setLocalApiType(type);
+    if (isDefaultUrl) {
+      setLocalApiUrl(PROVIDER_INFO[type].defaultUrl);
+    }
+    setLocalModel('');
+    setLocalAvailableModels([]);
+    setShowCustomModel(false);
+    setTestResult(null);
+  };
+
   const handleSave = () => {
     setApiType(localApiType);
     setApiKey(localApiKey);
@@ -58,7 +76,7 @@ export function APISettingsDialog({ open, onOpenChange }: APISettingsDialogProps
     setTestResult(null);
 
     try {
-      const success = await testOpenAIKey(localApiKey, localApiUrl, localModel);
+      const success = await testOpenAIKey(localApiKey, localApiUrl, localModel, localApiType);
 
       setTestResult({
         success,
@@ -75,10 +93,10 @@ export function APISettingsDialog({ open, onOpenChange }: APISettingsDialogProps
   };
 
   const handleFetchModels = async () => {
-    if (localApiType !== 'openai' || !localApiUrl || !localApiKey) {
+    if (!isConfigured) {
       setTestResult({
         success: false,
-        message: '请先填写 API URL 和 API Key',
+        message: providerInfo.requiresApiKey ? '请先填写 API URL 和 API Key' : '请先填写 API URL',
       });
       return;
     }
@@ -88,7 +106,7 @@ export function APISettingsDialog({ open, onOpenChange }: APISettingsDialogProps
 
     try {
       const response = await fetch(
-        `/api/models?apiUrl=${encodeURIComponent(localApiUrl)}&apiKey=${encodeURIComponent(localApiKey)}`
+        `/api/models?apiType=${localApiType}&apiUrl=${encodeURIComponent(localApiUrl)}&apiKey=${encodeURIComponent(localApiKey)}`
       );
 
       if (!response.ok) {
@@ -118,63 +136,60 @@ export function APISettingsDialog({ open, onOpenChange }: APISettingsDialogProps
         <DialogHeader>
           <DialogTitle>API 配置</DialogTitle>
           <DialogDescription>
-            配置 OpenAI 兼容 API 服务。
+            选择模型服务商并填写连接信息。
           </DialogDescription>
         </DialogHeader>
 
-        <Tabs value={localApiType} onValueChange={(value) => {
-          setLocalApiType(value as 'openai');
-          setShowCustomModel(false);
-        }}>
-          <TabsList className="grid w-full grid-cols-1">
-            <TabsTrigger value="openai">OpenAI 兼容</TabsTrigger>
+        <Tabs value={localApiType} onValueChange={(value) => handleProviderChange(value as APIType)}>
+          <TabsList className="grid w-full grid-cols-4">
+            {API_TYPES.map((type) => (
+              <TabsTrigger key={type} value={type}>
+                {PROVIDER_INFO[type].label}
+              </TabsTrigger>
+            ))}
           </TabsList>
 
-          <TabsContent value="openai" className="space-y-4">
+          <TabsContent value={localApiType} className="space-y-4">
+            <p className="text-xs text-muted-foreground">{providerInfo.description}</p>
+
             <div className="space-y-2">
-              <Label htmlFor="openai-url">API Base URL</Label>
+              <Label htmlFor="api-url">API Base URL</Label>
               <Input
-                id="openai-url"
-                placeholder="https://api.openai.com/v1 或其他兼容 API 的地址"
-                value={localApiType === 'openai' ? localApiUrl : ''}
-                onChange={(e) => {
-                  if (localApiType === 'openai') {
-                    setLocalApiUrl(e.target.value);
-                  }
-                }}
+                id="api-url"
+                placeholder={providerInfo.defaultUrl}
+                value={localApiUrl}
+                onChange={(e) => setLocalApiUrl(e.target.value)}
               />
               <p className="text-xs text-muted-foreground">
-                例如: https://api.openai.com/v1 或其他 OpenAI 兼容 API 的基础 URL
+                {providerInfo.urlHint}
               </p>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="openai-key">API Key</Label>
+              <Label htmlFor="api-key">
+                API Key{!providerInfo.requiresApiKey && '（可选）'}
+              </Label>
               <Input
-                id="openai-key"
+                id="api-key"
                 type="password"
-                placeholder="输入你的 API Key"
-                value={localApiType === 'openai' ? localApiKey : ''}
-                onChange={(e) => {
-                  if (localApiType === 'openai') {
-                    setLocalApiKey(e.target.value);
-                  }
-                }}
+                placeholder={providerInfo.requiresApiKey ? '输入你的 API Key' : '本地服务可留空'}
+                value={localApiKey}
+                onChange={(e) => setLocalApiKey(e.target.value)}
               />
               <p className="text-xs text-muted-foreground">
-                输入 Bearer token（不需要 'Bearer ' 前缀）
+                {providerInfo.keyHint}
               </p>
             </div>
 
             {/* Model Selection */}
             <div className="space-y-2">
               <div className="flex items-center justify-between">
-                <Label htmlFor="openai-model">模型名称</Label>
+                <Label htmlFor="api-model">模型名称</Label>
                 <Button
                   variant="ghost"
                   size="sm"
                   onClick={handleFetchModels}
-                  disabled={isLoadingModels || !localApiUrl || !localApiKey || localApiType !== 'openai'}
+                  disabled={isLoadingModels || !isConfigured}
                 >
                   {isLoadingModels ? (
                     <>
@@ -193,7 +208,7 @@ export function APISettingsDialog({ open, onOpenChange }: APISettingsDialogProps
               {localAvailableModels.length > 0 && !showCustomModel ? (
                 <>
                   <select
-                    id="openai-model"
+                    id="api-model"
                     value={localModel}
                     onChange={(e) => setLocalModel(e.target.value)}
                     className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
@@ -216,14 +231,10 @@ export function APISettingsDialog({ open, onOpenChange }: APISettingsDialogProps
               ) : (
                 <>
                   <Input
-                    id="openai-model"
-                    placeholder="例如: gpt-4 或 gpt-3.5-turbo"
-                    value={localApiType === 'openai' ? localModel : ''}
-                    onChange={(e) => {
-                      if (localApiType === 'openai') {
-                        setLocalModel(e.target.value);
-                      }
-                    }}
+                    id="api-model"
+                    placeholder={providerInfo.modelPlaceholder}
+                    value={localModel}
+                    onChange={(e) => setLocalModel(e.target.value)}
                   />
                   {localAvailableModels.length > 0 && (
                     <Button
@@ -269,7 +280,7 @@ export function APISettingsDialog({ open, onOpenChange }: APISettingsDialogProps
           <Button
             variant="outline"
             onClick={handleTestConnection}
-            disabled={isTesting || !localApiKey || !localApiUrl}
+            disabled={isTesting || !isConfigured}
           >
             {isTesting ? (
               <>
@@ -282,7 +293,7 @@ export function APISettingsDialog({ open, onOpenChange }: APISettingsDialogProps
           </Button>
           <Button
             onClick={handleSave}
-            disabled={!localApiKey || !localApiUrl || !localModel}
+            disabled={!isConfigured || !localModel}
           >
             保存配置
           </Button>
@@ -13,11 +13,17 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Kbd } from '@/components/ui/kbd';
 import { useGameStore } from '@/stores/game-store';
 import { testOpenAIKey } from '@/lib/gemini';
+import { PROVIDER_INFO } from '@/lib/llm-providers';
 import { SaveGameManager } from '@/components/game/SaveGameManager';
 import { PersonalityEditor } from '@/components/game/PersonalityEditor';
 import { GameGuide } from '@/components/game/GameGuide';
 import { PromptViewer } from '@/components/game/PromptViewer';
-import type { GameConfig, GameState } from '@/types/game';
+import { HumanActionPanel } from '@/components/game/HumanActionPanel';
+import { GameSetupDialog } from '@/components/game/GameSetupDialog';
+import { getActingPlayers } from '@/lib/game-engine';
+import { countRoles, validateGameConfig } from '@/lib/game-presets';
+import { resolveRules } from '@/lib/house-rules';
+import type { GameConfig, GameState, Player } from '@/types/game';
 import {
   Gamepad2,
   Loader2,
@@ -37,23 +43,6 @@ import {
   Brain,
 } from 'lucide-react';
 
-const DEFAULT_CONFIG: GameConfig = {
-  playerCount: 15,
-  roles: [
-    // 收割阵营 (4人)
-    'marked', 'marked', 'marked',  // 烙印者 x3
-    'heretic',  // 背誓者 x1
-    // 羔羊阵营 (11人)
-    'listener',  // 聆心者 x1
-    'coroner',   // 食灰者 x1
-    'twin', 'twin',  // 共誓者 x2
-    'guard',  // 设闩者 x1
-    'innocent', 'innocent', 'innocent', 'innocent', 'innocent', 'innocent',  // 无知者 x6
-  ],
-  enableWitch: false,
-  enableHunter: false,
-};
-
 function ApiKeyInput({
   value,
   onChange,
@@ -193,22 +182,31 @@ function ErrorDisplay({
   );
 }
 
-function DefaultConfigInfo() {
+function GameConfigInfo({ config, onEdit }: { config: GameConfig; onEdit: () => void }) {
+  const counts = countRoles(config.roles);
+  const harvestCount = counts.marked + counts.heretic;
+
   return (
     <div className="rounded-lg bg-muted p-3 space-y-2">
       <p className="text-sm font-medium">白烬山口 - 寂静山庄</p>
-      <p className="text-xs text-muted-foreground">15 名旅人被暴风雪困于山庄，山灵的契约已成...</p>
+      <p className="text-xs text-muted-foreground">{config.playerCount} 名旅人被暴风雪困于山庄，山灵的契约已成...</p>
       <ul className="text-xs space-y-1 text-muted-foreground mt-2">
-        <li className="font-semibold">收割阵营 (4人):</li>
-        <li className="pl-2">• 3 名烙印者 (The Marked)</li>
-        <li className="pl-2">• 1 名背誓者 (The Heretic)</li>
-        <li className="font-semibold mt-2">羔羊阵营 (11人):</li>
-        <li className="pl-2">• 1 名聆心者 (The Heart-Listener)</li>
-        <li className="pl-2">• 1 名食灰者 (The Ash-Walker)</li>
-        <li className="pl-2">• 2 名共誓者 (The Co-Sworn)</li>
-        <li className="pl-2">• 1 名设闩者 (The Bar-Setter)</li>
-        <li className="pl-2">• 6 名无知者 (The Unknowing)</li>
+        <li className="font-semibold">收割阵营 ({harvestCount}人):</li>
+        <li className="pl-2">• {counts.marked} 名烙印者 (The Marked)</li>
+        {counts.heretic > 0 && <li className="pl-2">• {counts.heretic} 名背誓者 (The Heretic)</li>}
+        <li className="font-semibold mt-2">羔羊阵营 ({config.playerCount - harvestCount}人):</li>
+        {counts.listener > 0 && <li className="pl-2">• {counts.listener} 名聆心者 (The Heart-Listener)</li>}
+        {counts.coroner > 0 && <li className="pl-2">• {counts.coroner} 名食灰者 (The Ash-Walker)</li>}
+        {counts.twin > 0 && <li className="pl-2">• {counts.twin} 名共誓者 (The Co-Sworn)</li>}
+        {counts.guard > 0 && <li className="pl-2">• {counts.guard} 名设闩者 (The Bar-Setter)</li>}
+        {counts.witch > 0 && <li className="pl-2">• {counts.witch} 名秘药者 (The Apothecary)</li>}
+        {counts.hunter > 0 && <li className="pl-2">• {counts.hunter} 名鸣枪者 (The Last Shot)</li>}
+        {counts.innocent > 0 && <li className="pl-2">• {counts.innocent} 名无知者 (The Unknowing)</li>}
       </ul>
+      <Button onClick={onEdit} variant="outline" size="sm" className="w-full flex items-center gap-2">
+        <Users className="w-4 h-4" />
+        修改角色配置
+      </Button>
     </div>
   );
 }
@@ -278,6 +276,8 @@ function ControlTabContent({
   isAutoExecuting,
   canExecuteNext,
   lastError,
+  humanPlayer,
+  gameConfig,
   onStart,
   onNextStep,
   onAutoExecute,
@@ -285,10 +285,12 @@ function ControlTabContent({
   onRetry,
   onReset,
   onClearError,
+  onHumanSubmit,
   onOpenPersonalityEditor,
   onOpenGameGuide,
   onOpenPromptViewer,
   onOpenSecretMeeting,
+  onOpenGameSetup,
 }: {
   hasActiveGame: boolean;
   gameState: GameState | null;
@@ -298,6 +300,8 @@ function ControlTabContent({
   isAutoExecuting: boolean;
   canExecuteNext: boolean;
   lastError: string | null;
+  humanPlayer: Player | null;
+  gameConfig: GameConfig;
   onStart: () => void;
   onNextStep: () => void;
   onAutoExecute: () => void;
@@ -305,10 +309,12 @@ function ControlTabContent({
   onRetry: () => void;
   onReset: () => void;
   onClearError: () => void;
+  onHumanSubmit: (content: string) => void;
   onOpenPersonalityEditor: () => void;
   onOpenGameGuide: () => void;
   onOpenPromptViewer: () => void;
   onOpenSecretMeeting: () => void;
+  onOpenGameSetup: () => void;
 }) {
   return (
     <>
@@ -319,9 +325,18 @@ function ControlTabContent({
             isRunning={isProcessing}
             phase={gameState.phase}
             round={gameState.round}
-            winner={gameState.winner}
+            seed={gameState.seed}
+            winner={gameState.winner?.faction}
           />
           {!isGameEnded && <CurrentPlayerDisplay gameState={gameState} />}
+          {humanPlayer && (
+            <HumanActionPanel
+              key={`${gameState.round}-${gameState.phase}-${gameState.nightPhase ?? ''}-${gameState.currentPlayerIndex}`}
+              gameState={gameState}
+              player={humanPlayer}
+              onSubmit={onHumanSubmit}
+            />
+          )}
           {lastError && <ErrorDisplay error={lastError} onClear={onClearError} />}
         </>
       )}
@@ -375,7 +390,7 @@ function ControlTabContent({
         游戏说明
       </Button>
 
-      {!hasActiveGame && <DefaultConfigInfo />}
+      {!hasActiveGame && <GameConfigInfo config={gameConfig} onEdit={onOpenGameSetup} />}
     </>
   );
 }
@@ -390,17 +405,27 @@ const PHASE_DISPLAY_MAP: Record<string, string> = {
   'event': '事件阶段',
   'end': '游戏结束',
   'night-listener': '夜晚 - 聆心者查验',
+  'night-twins': '夜晚 - 共誓者密谈',
   'night-marked-discuss': '夜晚 - 烙印者讨论',
   'night-marked-vote': '夜晚 - 烙印者投票',
   'night-guard': '夜晚 - 设闩者守护',
+  'night-witch': '夜晚 - 秘药者用药',
   'night-coroner': '夜晚 - 食灰者验尸',
   'night': '夜晚',
+  'hunter-shot': '鸣枪者的最后一枪',
+  'last-words': '遗言',
 };
 
 function CurrentPlayerDisplay({ gameState }: { gameState: GameState }) {
   // Get phase display name
   const getPhaseDisplay = () => {
     const { phase, nightPhase } = gameState;
+    if (gameState.pendingHunterShot) {
+      return PHASE_DISPLAY_MAP['hunter-shot'];
+    }
+    if (gameState.pendingLastWords) {
+      return PHASE_DISPLAY_MAP['last-words'];
+    }
     if (phase === 'night' && nightPhase) {
       return PHASE_DISPLAY_MAP[`night-${nightPhase}`] || PHASE_DISPLAY_MAP['night'];
     }
@@ -416,6 +441,8 @@ function CurrentPlayerDisplay({ gameState }: { gameState: GameState }) {
       coroner: '食灰者',
       twin: '共誓者',
       guard: '设闩者',
+      witch: '秘药者',
+      hunter: '鸣枪者',
       innocent: '无知者',
     };
     return roleNames[role] || role;
@@ -475,18 +502,7 @@ function CurrentPlayerDisplay({ gameState }: { gameState: GameState }) {
   }
 
   // Filter players based on current phase
-  let alivePlayers = gameState.players.filter((p) => p.isAlive);
-
-  // During night, filter by night phase
-  if (gameState.phase === 'night' && gameState.nightPhase) {
-    if (gameState.nightPhase === 'listener') {
-      alivePlayers = alivePlayers.filter((p) => p.role === 'listener');
-    } else if (gameState.nightPhase === 'marked-discuss' || gameState.nightPhase === 'marked-vote') {
-      alivePlayers = alivePlayers.filter((p) => p.role === 'marked');
-    } else if (gameState.nightPhase === 'guard') {
-      alivePlayers = alivePlayers.filter((p) => p.role === 'guard');
-    }
-  }
+  const alivePlayers = getActingPlayers(gameState);
 
   const currentPlayer = alivePlayers[gameState.currentPlayerIndex];
 
@@ -719,11 +735,13 @@ function GameStatus({
   isRunning,
   phase,
   round,
+  seed,
   winner,
 }: {
   isRunning: boolean;
   phase: string;
   round: number;
+  seed?: number;
   winner?: string;
 }) {
   return (
@@ -752,6 +770,12 @@ function GameStatus({
         <span className="text-sm font-medium">回合：</span>
         <Badge>{round}</Badge>
       </div>
+      {seed !== undefined && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">种子：</span>
+          <Badge variant="outline" className="font-mono select-all">{seed}</Badge>
+        </div>
+      )}
       {winner && (
         <div className="flex items-center justify-between">
           <span className="text-sm font-medium">胜利者：</span>
@@ -779,7 +803,12 @@ export function ControlPanel() {
     gameState,
     isProcessing,
     isAutoExecuting,
+    awaitingHumanInput,
+    humanPlayerName,
+    gameConfig,
     lastError,
+    apiType,
+    model,
     apiKey: storedApiKey,
     apiUrl: storedApiUrl,
     setApiKey: saveApiKey,
@@ -791,6 +820,7 @@ export function ControlPanel() {
     stopAutoExecution,
     retryCurrentStep,
     clearError,
+    submitHumanAction,
     openSecretMeetingSelector,
   } = useGameStore();
   const [apiKey, setApiKey] = useState(storedApiKey);
@@ -799,6 +829,7 @@ export function ControlPanel() {
   const [personalityEditorOpen, setPersonalityEditorOpen] = useState(false);
   const [gameGuideOpen, setGameGuideOpen] = useState(false);
   const [promptViewerOpen, setPromptViewerOpen] = useState(false);
+  const [gameSetupOpen, setGameSetupOpen] = useState(false);
 
   // Sync local state with persisted apiKey from store
   useEffect(() => {
@@ -816,19 +847,19 @@ export function ControlPanel() {
 
   const handleSaveSettings = async () => {
     const trimmedKey = apiKey.trim();
-    if (!trimmedKey) {
-      alert('请输入你的 OpenAI API 密钥');
+    if (!trimmedKey && PROVIDER_INFO[apiType].requiresApiKey) {
+      alert('请输入你的 API 密钥');
       return;
     }
 
     const trimmedUrl = apiUrl.trim();
     if (!trimmedUrl) {
-      alert('请输入 OpenAI API URL');
+      alert('请输入 API URL');
       return;
     }
 
     setIsValidating(true);
-    const isValid = await testOpenAIKey(trimmedKey, trimmedUrl);
+    const isValid = await testOpenAIKey(trimmedKey, trimmedUrl, model || undefined, apiType);
     setIsValidating(false);
 
     if (!isValid) {
@@ -847,20 +878,27 @@ export function ControlPanel() {
   };
 
   const handleStart = async () => {
+    const configErrors = validateGameConfig(gameConfig);
+    if (configErrors.length > 0) {
+      alert(`角色配置无效：\n${configErrors.join('\n')}`);
+      setGameSetupOpen(true);
+      return;
+    }
+
     const trimmedKey = apiKey.trim();
-    if (!trimmedKey) {
-      alert('请输入你的 OpenAI API 密钥');
+    if (!trimmedKey && PROVIDER_INFO[apiType].requiresApiKey) {
+      alert('请输入你的 API 密钥');
       return;
     }
 
     const trimmedUrl = apiUrl.trim();
     if (!trimmedUrl) {
-      alert('请输入 OpenAI API URL');
+      alert('请输入 API URL');
       return;
     }
 
     setIsValidating(true);
-    const isValid = await testOpenAIKey(trimmedKey, trimmedUrl);
+    const isValid = await testOpenAIKey(trimmedKey, trimmedUrl, model || undefined, apiType);
     setIsValidating(false);
 
     if (!isValid) {
@@ -874,10 +912,14 @@ export function ControlPanel() {
     if (trimmedUrl) {
       saveApiUrl(trimmedUrl);
     }
-    startGame(DEFAULT_CONFIG);
+    startGame({ ...gameConfig, humanPlayerName: humanPlayerName ?? undefined });
   };
 
-  const canExecuteNext = Boolean(gameState && !isProcessing && gameState.phase !== 'end' && !lastError);
+  const canExecuteNext = Boolean(gameState && !isProcessing && !awaitingHumanInput && gameState.phase !== 'end' && !lastError);
+  // 同时投票时人类不一定坐在当前座次
+  const humanPlayer = gameState && awaitingHumanInput
+    ? getActingPlayers(gameState).find((p) => !p.isAI) ?? null
+    : null;
   const hasActiveGame = Boolean(gameState);
   const isGameEnded = gameState?.phase === 'end' || gameState?.phase === 'setup';
 
@@ -922,6 +964,8 @@ export function ControlPanel() {
               isAutoExecuting={isAutoExecuting}
               canExecuteNext={canExecuteNext}
               lastError={lastError}
+              humanPlayer={humanPlayer}
+              gameConfig={gameConfig}
               onStart={() => void handleStart()}
               onNextStep={() => void executeNextStep()}
               onAutoExecute={() => void executePhaseAuto()}
@@ -929,10 +973,12 @@ export function ControlPanel() {
               onRetry={() => void retryCurrentStep()}
               onReset={resetGame}
               onClearError={clearError}
+              onHumanSubmit={submitHumanAction}
               onOpenPersonalityEditor={() => setPersonalityEditorOpen(true)}
               onOpenGameGuide={() => setGameGuideOpen(true)}
               onOpenPromptViewer={() => setPromptViewerOpen(true)}
               onOpenSecretMeeting={openSecretMeetingSelector}
+              onOpenGameSetup={() => setGameSetupOpen(true)}
             />
           </TabsContent>
 
@@ -964,6 +1010,7 @@ export function ControlPanel() {
     <GameGuide
       open={gameGuideOpen}
       onOpenChange={setGameGuideOpen}
+      rules={gameState?.rules ?? resolveRules(gameConfig.rules)}
     />
 
     {/* Prompt Viewer Dialog */}
@@ -971,6 +1018,12 @@ export function ControlPanel() {
       open={promptViewerOpen}
       onOpenChange={setPromptViewerOpen}
     />
+
+    {/* Game Setup Dialog */}
+    <GameSetupDialog
+      open={gameSetupOpen}
+      onOpenChange={setGameSetupOpen}
+    />
   </>
   );
 }
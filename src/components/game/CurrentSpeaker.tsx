@@ -4,7 +4,7 @@
 
 'use client';
 
-import type { GameState, Player } from '@/types/game';
+import type { GameState, Player, StreamingResponse } from '@/types/game';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -17,17 +17,22 @@ import {
   Eye,
   Flame,
   Shield,
+  FlaskConical,
+  Crosshair,
   Search,
   Users,
   Ghost,
   Ear,
   User,
   Sparkles,
+  Heart,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getActingPlayers } from '@/lib/game-engine';
 
 interface CurrentSpeakerProps {
   gameState: GameState;
+  streaming?: StreamingResponse | null;  // Speech still arriving from the API
 }
 
 const roleNames: Record<string, { name: string; subtitle: string }> = {
@@ -37,6 +42,8 @@ const roleNames: Record<string, { name: string; subtitle: string }> = {
   coroner: { name: '食灰者', subtitle: 'Ash-Walker' },
   twin: { name: '共誓者', subtitle: 'The Twin' },
   guard: { name: '设闩者', subtitle: 'Guardian' },
+  witch: { name: '秘药者', subtitle: 'The Apothecary' },
+  hunter: { name: '鸣枪者', subtitle: 'The Last Shot' },
   innocent: { name: '无知者', subtitle: 'The Innocent' },
 };
 
@@ -47,6 +54,8 @@ const roleColors: Record<string, string> = {
   coroner: 'bg-cyan-700',
   twin: 'bg-teal-700',
   guard: 'bg-amber-700',
+  witch: 'bg-emerald-700',
+  hunter: 'bg-orange-700',
   innocent: 'bg-blue-700',
 };
 
@@ -57,6 +66,8 @@ const roleGradients: Record<string, string> = {
   coroner: 'from-cyan-700 to-cyan-900',
   twin: 'from-teal-600 to-teal-900',
   guard: 'from-amber-600 to-amber-900',
+  witch: 'from-emerald-600 to-emerald-900',
+  hunter: 'from-orange-600 to-orange-900',
   innocent: 'from-blue-600 to-blue-900',
 };
 
@@ -68,40 +79,36 @@ const getRoleIcon = (role: string) => {
     coroner: <Search className="w-8 h-8" />,
     twin: <Users className="w-8 h-8" />,
     guard: <Shield className="w-8 h-8" />,
+    witch: <FlaskConical className="w-8 h-8" />,
+    hunter: <Crosshair className="w-8 h-8" />,
     innocent: <User className="w-8 h-8" />,
   };
   return icons[role] || <User className="w-8 h-8" />;
 };
 
 // eslint-disable-next-line complexity
-export function CurrentSpeaker({ gameState }: CurrentSpeakerProps) {
-  const { players, currentPlayerIndex, phase } = gameState;
+export function CurrentSpeaker({ gameState, streaming }: CurrentSpeakerProps) {
+  const { currentPlayerIndex, phase } = gameState;
 
-  // Get current speaker
-  const alivePlayers = players.filter((p) => p.isAlive);
+  // Get current speaker (night sub-phases only include the acting role)
   let currentPlayer: Player | null = null;
 
-  if (phase === 'night' && gameState.nightPhase) {
-    // During night, filter by night phase
-    let nightPlayers = alivePlayers;
-    if (gameState.nightPhase === 'listener') {
-      nightPlayers = alivePlayers.filter((p) => p.role === 'listener');
-    } else if (gameState.nightPhase === 'marked-discuss' || gameState.nightPhase === 'marked-vote') {
-      nightPlayers = alivePlayers.filter((p) => p.role === 'marked');
-    }
-    currentPlayer = nightPlayers[currentPlayerIndex] || null;
-  } else if (phase === 'day' || phase === 'voting') {
-    currentPlayer = alivePlayers[currentPlayerIndex] || null;
+  if ((phase === 'night' && gameState.nightPhase) || phase === 'day' || phase === 'voting') {
+    currentPlayer = getActingPlayers(gameState)[currentPlayerIndex] || null;
   }
 
   // Get phase display and icon
   const getPhaseDisplay = () => {
+    if (gameState.pendingHunterShot) return '鸣枪者的最后一枪';
+    if (gameState.pendingLastWords) return '遗言';
     if (phase === 'night' && gameState.nightPhase) {
       const nightPhaseNames: Record<string, string> = {
         'listener': '聆心者查验',
+        'twins': '共誓者密谈',
         'marked-discuss': '烙印者讨论',
         'marked-vote': '烙印者投票',
         'guard': '设闩者守护',
+        'witch': '秘药者用药',
         'coroner': '食灰者验尸',
       };
       return nightPhaseNames[gameState.nightPhase] || '夜晚';
@@ -123,9 +130,11 @@ export function CurrentSpeaker({ gameState }: CurrentSpeakerProps) {
     if (phase === 'night' && gameState.nightPhase) {
       const icons: Record<string, React.ReactNode> = {
         'listener': <Eye className="w-3 h-3" />,
+        'twins': <Heart className="w-3 h-3" />,
         'marked-discuss': <Users className="w-3 h-3" />,
         'marked-vote': <Flame className="w-3 h-3" />,
         'guard': <Shield className="w-3 h-3" />,
+        'witch': <FlaskConical className="w-3 h-3" />,
         'coroner': <Search className="w-3 h-3" />,
       };
       return icons[gameState.nightPhase] || <Moon className="w-3 h-3" />;
@@ -207,15 +216,20 @@ export function CurrentSpeaker({ gameState }: CurrentSpeakerProps) {
               </div>
               <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
                 <Loader2 className="w-3 h-3 animate-spin" />
-                正在发言...
+                {streaming?.player === currentPlayer.name && !streaming.speech && streaming.thinking ? '正在思考...' : '正在发言...'}
               </div>
+              {streaming?.player === currentPlayer.name && streaming.speech && (
+                <p className="text-xs text-left text-foreground/80 line-clamp-4 border-t pt-2">
+                  {streaming.speech}
+                </p>
+              )}
             </div>
           ) : phase === 'end' ? (
             <div className="text-center space-y-2">
               <CheckCircle2 className="w-12 h-12 mx-auto text-green-500" />
               <div className="text-base font-semibold text-foreground">游戏结束</div>
               <div className="text-xs text-muted-foreground">
-                {gameState.winner === 'marked' ? '收割阵营获胜' : '羔羊阵营获胜'}
+                {gameState.winner?.faction === 'marked' ? '收割阵营获胜' : '羔羊阵营获胜'}
               </div>
             </div>
           ) : (
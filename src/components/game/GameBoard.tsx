@@ -10,6 +10,7 @@ import { PlayerCard } from './PlayerCard';
 import { MessageFlow } from './MessageFlow';
 import { ControlPanel } from './ControlPanel';
 import { VoteTracker } from './VoteTracker';
+import { UsageStatsPanel } from './UsageStatsPanel';
 import { VotingProgress } from './VotingProgress';
 import { CurrentSpeaker } from './CurrentSpeaker';
 import { StartMenu } from './StartMenu';
@@ -24,7 +25,7 @@ import { SpeechModal } from './SpeechModal';
 import { APISettingsDialog } from './APISettingsDialog';
 import { PromptEditorFloating } from './PromptEditorFloating';
 import { Mountain, Gamepad2, Moon, Sun, Users as UsersIcon, Volume2, VolumeX, Settings } from 'lucide-react';
-import type { Message } from '@/types/game';
+import type { GameState, Message, StreamingResponse } from '@/types/game';
 import { cn } from '@/lib/utils';
 import { TYPOGRAPHY, CARD_HEADER, getBorderClass, ICON, SHADOWS } from '@/lib/design-tokens';
 import { SECTION_TITLES, DECORATIVE_QUOTES } from '@/lib/latin-text';
@@ -33,6 +34,7 @@ import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { useBGM } from '@/hooks/useBGM';
+import { resolveModelSettings } from '@/lib/model-profiles';
 
 /**
  * Get phase-specific background gradient and theme
@@ -105,6 +107,32 @@ function getPhaseTheme(phase: string) {
   }
 }
 
+/**
+ * Draft messages for an AI answer still streaming in - thinking goes to the private log, speech to the dialog box
+ */
+function getStreamingDrafts(
+  streaming: StreamingResponse | null,
+  gameState: GameState | null,
+): { thinking?: Message; speech?: Message } {
+  if (!streaming || !gameState) return {};
+
+  const draft = (type: 'thinking' | 'speech', content: string): Message => ({
+    id: `streaming-${type}`,
+    type,
+    from: streaming.player,
+    content,
+    timestamp: Date.now(),
+    round: gameState.round,
+    phase: gameState.phase,
+    visibility: type === 'thinking' ? { player: streaming.player } : 'all',
+  });
+
+  return {
+    thinking: streaming.thinking ? draft('thinking', streaming.thinking) : undefined,
+    speech: streaming.speech ? draft('speech', streaming.speech) : undefined,
+  };
+}
+
 // eslint-disable-next-line complexity
 export function GameBoard() {
   const {
@@ -122,6 +150,11 @@ export function GameBoard() {
     showSecretMeetingSelector,
     setSecretMeetingParticipants,
     executeSecretMeeting,
+    streamingResponse,
+    apiType,
+    apiUrl,
+    apiKey,
+    model,
   } = useGameStore();
   const phase = gameState?.phase || 'setup';
   const theme = getPhaseTheme(phase);
@@ -148,7 +181,7 @@ export function GameBoard() {
 
     // Find the latest message that should be displayed in ADV box
     // Only show player messages, not narrator/system messages
-    const displayableTypes = ['speech', 'action', 'secret'];
+    const displayableTypes = ['speech', 'action', 'secret', 'last_words'];
     const latestMessage = [...gameState.messages]
       .reverse()
       .find(msg =>
@@ -159,7 +192,9 @@ export function GameBoard() {
     return latestMessage;
   };
 
-  const latestMessage = getLatestDisplayMessage();
+  // 正在流式返回的发言优先显示在对话框里
+  const streamingDrafts = getStreamingDrafts(streamingResponse, gameState);
+  const latestMessage = streamingDrafts.speech ?? getLatestDisplayMessage();
   const currentSpeaker = latestMessage && latestMessage.from !== '叙述者'
     ? gameState?.players.find(p => p.name === latestMessage.from)
     : undefined;
@@ -358,6 +393,10 @@ export function GameBoard() {
                       player={player}
                       showRole={true}
                       isCurrent={isCurrent}
+                      model={player.isAI
+                        ? resolveModelSettings({ apiType, apiUrl, apiKey, model }, player.modelProfile).model
+                        : undefined}
+                      notebook={gameState.notebooks?.[player.name]}
                     />
                   );
                 })
@@ -419,12 +458,15 @@ export function GameBoard() {
                     <MessageFlow
                       messages={filteredGameMessages.length > 0 ? filteredGameMessages : gameState.messages}
                       players={gameState.players}
-                      filterTypes={['system', 'speech', 'vote', 'death', 'action', 'secret']}
+                      filterTypes={['system', 'speech', 'vote', 'death', 'action', 'secret', 'last_words']}
                     />
                   </TabsContent>
                   <TabsContent value="thinking" className="flex-1 overflow-hidden m-0">
                     <MessageFlow
-                      messages={filteredGameMessages.length > 0 ? filteredGameMessages : gameState.messages}
+                      messages={[
+                        ...(filteredGameMessages.length > 0 ? filteredGameMessages : gameState.messages),
+                        ...(streamingDrafts.thinking ? [streamingDrafts.thinking] : []),
+                      ]}
                       players={gameState.players}
                       filterTypes={['thinking']}
                     />
@@ -455,6 +497,7 @@ export function GameBoard() {
               <ADVDialogBox
                 currentMessage={latestMessage}
                 currentPlayer={currentSpeaker}
+                isStreaming={Boolean(streamingDrafts.speech)}
                 onMessageClick={() => setShowSpeechModal(true)}
               />
             </div>
@@ -465,10 +508,10 @@ export function GameBoard() {
             <div className="w-full md:w-80 flex flex-col gap-4 md:overflow-hidden">
               {/* Current Speaker - Upper section */}
               <div className="flex-shrink-0 rounded-lg bg-card/90 backdrop-blur-sm border border-border shadow-xl shadow-inner-glow">
-                <CurrentSpeaker gameState={gameState} />
+                <CurrentSpeaker gameState={gameState} streaming={streamingResponse} />
               </div>
 
-              {/* Tabs - Lower section (Vote Tracker / Clues Panel) - Mobile: auto height, Desktop: flex-1 */}
+              {/* Tabs - Lower section (Vote Tracker / Clues Panel / Usage) - Mobile: auto height, Desktop: flex-1 */}
               <div className="rounded-lg bg-card/90 backdrop-blur-sm border border-border shadow-xl shadow-inner-glow overflow-hidden flex flex-col md:flex-1 min-h-[300px]">
                 <Tabs defaultValue="votes" className="h-full flex flex-col">
                   <TabsList className="flex-shrink-0 w-full justify-start rounded-none border-b bg-background/50">
@@ -481,10 +524,14 @@ export function GameBoard() {
                         </span>
                       )}
                     </TabsTrigger>
+                    <TabsTrigger value="usage">用量统计</TabsTrigger>
                   </TabsList>
                   <TabsContent value="votes" className="flex-1 overflow-hidden m-0">
                     <VoteTracker gameState={gameState} />
                   </TabsContent>
+                  <TabsContent value="usage" className="flex-1 overflow-hidden m-0">
+                    <UsageStatsPanel gameState={gameState} />
+                  </TabsContent>
                   <TabsContent value="clues" className="flex-1 overflow-hidden m-0">
                     <CluesPanel clues={clues} onClueRead={markClueAsRead} />
                   </TabsContent>
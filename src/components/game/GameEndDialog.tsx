@@ -6,7 +6,8 @@
 
 'use client';
 
-import type { GameState } from '@/types/game';
+import { useState } from 'react';
+import type { GameState, WinReason } from '@/types/game';
 import {
   Dialog,
   DialogContent,
@@ -15,10 +16,26 @@ import {
   DialogDescription,
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
-import { Skull, Heart, Moon, Users, Eye, Flame } from 'lucide-react';
+import { Skull, Heart, Moon, Users, Eye, Flame, Film, Coins } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useGameStore } from '@/stores/game-store';
+import { formatCost, formatTokens, summarizeUsage } from '@/lib/usage-stats';
+import { ReplayViewer } from './ReplayViewer';
+
+/**
+ * What ended the game, in Chinese
+ */
+const winReasonText: Record<WinReason, string> = {
+  harvest_eliminated: '所有烙印者与背誓者都已死去',
+  parity: '收割者的数量已不少于羔羊',
+  specials_eliminated: '屠边：身怀异能的羔羊全部死去',
+  innocents_eliminated: '屠边：无知者全部死去',
+  lambs_eliminated: '屠城：所有羔羊全部死去',
+  round_limit: '回合上限已到，按存活人数决出胜负',
+};
 
 interface GameEndDialogProps {
   gameState: GameState;
@@ -27,10 +44,14 @@ interface GameEndDialogProps {
 }
 
 export function GameEndDialog({ gameState, open, onOpenChange }: GameEndDialogProps) {
-  const { winner, players, round, voteHistory, nightVoteHistory, listenerChecks, coronerReports } = gameState;
+  const { winner, players, round, seed, voteHistory, nightVoteHistory, listenerChecks, coronerReports } = gameState;
+  const [showReplay, setShowReplay] = useState(false);
+  const modelPrices = useGameStore((state) => state.modelPrices);
 
   if (!winner) return null;
 
+  const usage = summarizeUsage(gameState.apiLogs ?? [], modelPrices);
+
   // Calculate statistics
   const alivePlayers = players.filter(p => p.isAlive);
   const deadPlayers = players.filter(p => !p.isAlive);
@@ -43,6 +64,8 @@ export function GameEndDialog({ gameState, open, onOpenChange }: GameEndDialogPr
     heretic: '背誓者',
     listener: '聆心者',
     guard: '设闩者',
+    witch: '秘药者',
+    hunter: '鸣枪者',
     coroner: '食灰者',
     twin: '共誓者',
     villager: '羔羊',
@@ -54,7 +77,7 @@ export function GameEndDialog({ gameState, open, onOpenChange }: GameEndDialogPr
       <DialogContent className="max-w-2xl max-h-[85vh] overflow-hidden">
         <DialogHeader className="flex-shrink-0">
           <DialogTitle className="text-2xl font-cinzel tracking-wide">
-            {winner === 'marked' ? (
+            {winner.faction === 'marked' ? (
               <div className="flex items-center gap-2 text-red-400">
                 <Moon className="w-6 h-6" />
                 收割阵营获胜
@@ -67,9 +90,10 @@ export function GameEndDialog({ gameState, open, onOpenChange }: GameEndDialogPr
             )}
           </DialogTitle>
           <DialogDescription className="text-base">
-            {winner === 'marked'
+            {winner.faction === 'marked'
               ? '山灵的收割已然完成，永夜吞噬了白烬山口'
               : '黎明的光芒刺破了永夜，诅咒终于被打破'}
+            <span className="block text-sm mt-1">胜利条件：{winReasonText[winner.reason]}</span>
           </DialogDescription>
         </DialogHeader>
 
@@ -99,8 +123,64 @@ export function GameEndDialog({ gameState, open, onOpenChange }: GameEndDialogPr
                   <div className="text-2xl font-bold">{nightVoteHistory.length}</div>
                 </div>
               </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                随机种子：<span className="font-mono select-all">{seed}</span>（在角色配置中填入此种子即可复现本局的发牌与事件）
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-3 w-full flex items-center gap-2"
+                onClick={() => setShowReplay(true)}
+              >
+                <Film className="w-4 h-4" />
+                回放本局
+              </Button>
             </div>
 
+            {/* Usage */}
+            {usage.total.requests > 0 && (
+              <>
+                <Separator />
+                <div>
+                  <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                    <Coins className="w-4 h-4" />
+                    本局用量
+                  </h3>
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="rounded-lg border bg-card p-3">
+                      <div className="text-xs text-muted-foreground">AI 请求</div>
+                      <div className="text-xl font-bold">{usage.total.requests}</div>
+                    </div>
+                    <div className="rounded-lg border bg-card p-3">
+                      <div className="text-xs text-muted-foreground">Token（输入 / 输出）</div>
+                      <div className="text-xl font-bold font-mono">
+                        {formatTokens(usage.total.promptTokens)} / {formatTokens(usage.total.completionTokens)}
+                      </div>
+                    </div>
+                    <div className="rounded-lg border bg-card p-3">
+                      <div className="text-xs text-muted-foreground">预估费用</div>
+                      <div className="text-xl font-bold font-mono">{formatCost(usage.total.cost)}</div>
+                    </div>
+                  </div>
+                  <div className="rounded-lg border bg-card/50 p-3 mt-3 space-y-1">
+                    {usage.byPlayer.map((row) => (
+                      <div key={row.key} className="flex items-center justify-between text-xs">
+                        <span>{row.key}</span>
+                        <span className="font-mono text-muted-foreground">
+                          {formatTokens(row.promptTokens + row.completionTokens)} · {formatCost(row.cost)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {usage.total.unpricedRequests > 0 && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {usage.total.unpricedRequests} 次请求的模型没有设置价格，可在「用量统计」面板中填写
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+
             <Separator />
 
             {/* Death List */}
@@ -254,6 +334,8 @@ export function GameEndDialog({ gameState, open, onOpenChange }: GameEndDialogPr
             )}
           </div>
         </ScrollArea>
+
+        <ReplayViewer gameState={gameState} open={showReplay} onOpenChange={setShowReplay} />
       </DialogContent>
     </Dialog>
   );
@@ -11,6 +11,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import type { RuleSet } from '@/types/game';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { SECTION_TITLES, FACTION_LABELS, DECORATIVE_QUOTES } from '@/lib/latin-text';
@@ -21,6 +22,8 @@ import {
   Search,
   Users,
   Shield,
+  FlaskConical,
+  Crosshair,
   User,
   Skull,
   Mountain,
@@ -30,9 +33,51 @@ import {
 interface GameGuideProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  rules: RuleSet;  // 当前对局（或下一局）的房规
 }
 
-export function GameGuide({ open, onOpenChange }: GameGuideProps) {
+/**
+ * Day tie outcomes in Chinese
+ */
+const dayTieText: Record<RuleSet['dayTie'], string> = {
+  revote: '平票则平票者不得发言，其余人讨论后重投，再次平票则无人献祭',
+  revote_then_random: '平票则平票者不得发言，其余人讨论后重投，再次平票则从平票者中随机献祭一人',
+  no_sacrifice: '平票则无人献祭',
+};
+
+/**
+ * Night tie outcomes in Chinese
+ */
+const nightTieText: Record<RuleSet['nightTie'], string> = {
+  revote: '烙印者平票须重新商议直到一致',
+  random: '烙印者平票则随机选中一名平票目标',
+  no_kill: '烙印者平票则当晚无人死亡',
+};
+
+/**
+ * Harvest win conditions in Chinese
+ */
+const victoryModeText: Record<RuleSet['victoryMode'], string> = {
+  parity: '当收割者（烙印者+背誓者）数量 ≥ 羔羊数量时，收割阵营获胜',
+  slaughter_side: '屠边：身怀异能的羔羊全灭，或无知者全灭时，收割阵营获胜',
+  slaughter_all: '屠城：所有羔羊全灭时，收割阵营获胜',
+};
+
+/**
+ * Short form for the day flow
+ */
+const victoryCheckText: Record<RuleSet['victoryMode'], string> = {
+  parity: '收割者 ≥ 羔羊，收割获胜',
+  slaughter_side: '异能者或无知者全灭，收割获胜',
+  slaughter_all: '羔羊全灭，收割获胜',
+};
+
+export function GameGuide({ open, onOpenChange, rules }: GameGuideProps) {
+  const guardLimits = [
+    rules.guardSelf ? '可以守护自己' : '不能守护自己',
+    rules.guardRepeat ? '可以连续两晚守护同一人' : '不能连续两晚守护同一人',
+  ].join('，');
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-3xl max-h-[85vh]">
@@ -104,7 +149,7 @@ export function GameGuide({ open, onOpenChange }: GameGuideProps) {
                     <span className="font-semibold text-red-400">收割阵营获胜</span>
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    当收割者（烙印者+背誓者）数量 ≥ 羔羊数量时，收割阵营获胜
+                    {victoryModeText[rules.victoryMode]}
                   </p>
                 </div>
                 <div className="bg-blue-950/30 border border-blue-500/30 rounded-lg p-3">
@@ -117,6 +162,11 @@ export function GameGuide({ open, onOpenChange }: GameGuideProps) {
                   </p>
                 </div>
               </div>
+              {rules.roundLimit > 0 && (
+                <p className="text-xs text-muted-foreground mt-3">
+                  第 {rules.roundLimit} 回合结束仍未分出胜负时清点人数：存活多的一方获胜，人数相同则收割阵营获胜
+                </p>
+              )}
             </section>
 
             {/* Harvest Faction */}
@@ -162,7 +212,7 @@ export function GameGuide({ open, onOpenChange }: GameGuideProps) {
                     </div>
                   </div>
                   <ul className="text-sm space-y-1 text-muted-foreground ml-13">
-                    <li>• <strong className="text-foreground">特殊觉醒：</strong>第1天不知道自己身份，第2天才觉醒堕落</li>
+                    <li>• <strong className="text-foreground">特殊觉醒：</strong>起初不知道自己身份，第{rules.hereticAwakenRound}天才觉醒堕落</li>
                     <li>• <strong className="text-foreground">孤独存在：</strong>无法参与烙印者的夜晚讨论和杀人</li>
                     <li>• <strong className="text-foreground">查验显示：</strong>被聆心者查验会显示为"污秽"（与烙印者相同）</li>
                     <li>• <strong className="text-foreground">混乱武器：</strong>只能在白天通过发言和投票帮助收割阵营</li>
@@ -254,10 +304,50 @@ export function GameGuide({ open, onOpenChange }: GameGuideProps) {
                   </div>
                   <ul className="text-sm space-y-1 text-muted-foreground ml-13">
                     <li>• <strong className="text-foreground">夜晚能力：</strong>每晚可从外锁死一扇门，被守护者当晚不会被杀</li>
-                    <li>• <strong className="text-foreground">守护限制：</strong>不能守护自己，不能连续两晚守护同一人</li>
+                    <li>• <strong className="text-foreground">守护限制：</strong>{guardLimits}</li>
                     <li>• <strong className="text-foreground">秘密行动：</strong>守护行为对所有人保密，只有设闩者自己知道</li>
                     <li>• <strong className="text-amber-400">生死责任：</strong>守对了有人活下来，守错了会有人死</li>
-                    <li>• <strong className="text-red-400">无法自保：</strong>一旦被盯上且无法自保，必死无疑</li>
+                    <li>• <strong className="text-red-400">{rules.guardSelf ? '自保代价：' : '无法自保：'}</strong>{rules.guardSelf ? '守护自己的那一夜，其他人都暴露在利爪之下' : '一旦被盯上且无法自保，必死无疑'}</li>
+                  </ul>
+                </div>
+
+                {/* Witch */}
+                <div className="bg-emerald-950/20 border border-emerald-500/30 rounded-lg p-4">
+                  <div className="flex items-center gap-3 mb-2">
+                    <div className="w-10 h-10 bg-gradient-to-br from-emerald-600 to-emerald-900 rounded-full flex items-center justify-center">
+                      <FlaskConical className="w-5 h-5 text-white" />
+                    </div>
+                    <div>
+                      <h4 className="font-bold text-base">秘药者 (The Apothecary)</h4>
+                      <Badge className="bg-emerald-600 text-xs">可选 · 女巫</Badge>
+                    </div>
+                  </div>
+                  <ul className="text-sm space-y-1 text-muted-foreground ml-13">
+                    <li>• <strong className="text-foreground">启用方式：</strong>在角色配置中开启后，替换一名无知者</li>
+                    <li>• <strong className="text-foreground">夜晚能力：</strong>烙印者投票后得知当晚的猎物，可选择用药或放弃</li>
+                    <li>• <strong className="text-foreground">解药：</strong>救活当晚的猎物，整局只能使用一次</li>
+                    <li>• <strong className="text-foreground">毒药：</strong>毒杀任意一名存活玩家，整局只能使用一次</li>
+                    <li>• <strong className="text-red-400">毒不分善恶：</strong>毒药不会分辨清白与污秽，毒错了人就是凶手</li>
+                  </ul>
+                </div>
+
+                {/* Hunter */}
+                <div className="bg-orange-950/20 border border-orange-500/30 rounded-lg p-4">
+                  <div className="flex items-center gap-3 mb-2">
+                    <div className="w-10 h-10 bg-gradient-to-br from-orange-600 to-orange-900 rounded-full flex items-center justify-center">
+                      <Crosshair className="w-5 h-5 text-white" />
+                    </div>
+                    <div>
+                      <h4 className="font-bold text-base">鸣枪者 (The Last Shot)</h4>
+                      <Badge className="bg-orange-600 text-xs">可选 · 猎人</Badge>
+                    </div>
+                  </div>
+                  <ul className="text-sm space-y-1 text-muted-foreground ml-13">
+                    <li>• <strong className="text-foreground">启用方式：</strong>在角色配置中开启后，替换一名无知者</li>
+                    <li>• <strong className="text-foreground">最后一枪：</strong>夜晚被杀或白天被献祭时，可立即开枪带走一名存活的人，也可放弃</li>
+                    <li>• <strong className="text-foreground">毒药封枪：</strong>被秘药者毒死时来不及开枪</li>
+                    <li>• <strong className="text-foreground">结算顺序：</strong>枪声响过之后才判定胜负，游戏再继续进行</li>
+                    <li>• <strong className="text-red-400">一颗子弹：</strong>打错了人，带走的就是一个无辜者</li>
                   </ul>
                 </div>
 
@@ -296,28 +386,37 @@ export function GameGuide({ open, onOpenChange }: GameGuideProps) {
                   <Badge variant="outline" className="mt-0.5">1</Badge>
                   <div>
                     <strong className="text-foreground">夜晚阶段：</strong>
-                    <span className="text-muted-foreground">聆心者查验 → 烙印者讨论并投票杀人 → 设闩者守护 → 食灰者被动验尸（如有献祭）</span>
+                    <span className="text-muted-foreground">
+                      聆心者查验 → 共誓者密谈（如开启） → 烙印者讨论并投票杀人{rules.firstNightNoKill ? '（首夜不出手）' : ''} → 秘药者用药（如启用） → 设闩者守护 → 食灰者选择一具尸体验尸 · {nightTieText[rules.nightTie]}
+                    </span>
                   </div>
                 </div>
                 <div className="flex items-start gap-2">
                   <Badge variant="outline" className="mt-0.5">2</Badge>
                   <div>
                     <strong className="text-foreground">白天阶段：</strong>
-                    <span className="text-muted-foreground">公布夜晚死者 → 所有存活玩家依次发言讨论 → 分析线索，寻找收割者</span>
+                    <span className="text-muted-foreground">
+                      公布夜晚死者{rules.revealRoleOnDeath ? '（并公开死者身份）' : ''} → 所有存活玩家依次发言讨论 → 分析线索，寻找收割者
+                    </span>
                   </div>
                 </div>
                 <div className="flex items-start gap-2">
                   <Badge variant="outline" className="mt-0.5">3</Badge>
                   <div>
                     <strong className="text-foreground">投票阶段：</strong>
-                    <span className="text-muted-foreground">所有存活玩家投票献祭一人 → 得票最多者被推入白蜡篝火 → 平票则无人献祭</span>
+                    <span className="text-muted-foreground">
+                      所有存活玩家投票献祭一人 → 得票最多者被推入白蜡篝火 → {dayTieText[rules.dayTie]}
+                    </span>
                   </div>
                 </div>
                 <div className="flex items-start gap-2">
                   <Badge variant="outline" className="mt-0.5">4</Badge>
                   <div>
                     <strong className="text-foreground">检查胜利：</strong>
-                    <span className="text-muted-foreground">收割者 ≥ 羔羊，收割获胜 · 收割者全灭，羔羊获胜 · 否则进入下一夜晚</span>
+                    <span className="text-muted-foreground">
+                      {victoryCheckText[rules.victoryMode]} · 收割者全灭，羔羊获胜
+                      {rules.roundLimit > 0 ? ` · 第 ${rules.roundLimit} 回合后清点人数` : ''} · 否则进入下一夜晚
+                    </span>
                   </div>
                 </div>
               </div>
@@ -0,0 +1,795 @@
+/**
+ * Game setup dialog - choose player count, characters and role counts
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useGameStore } from '@/stores/game-store';
+import { CHARACTER_NAMES } from '@/lib/game-engine';
+import {
+  BUILT_IN_PRESETS,
+  LAST_WORDS_OPTIONS,
+  MAX_PLAYERS,
+  MIN_PLAYERS,
+  buildRoles,
+  countRoles,
+  validateGameConfig,
+} from '@/lib/game-presets';
+import {
+  DAY_TIE_OPTIONS,
+  HERETIC_AWAKEN_ROUNDS,
+  NIGHT_TIE_OPTIONS,
+  ROUND_LIMIT_OPTIONS,
+  VICTORY_MODE_OPTIONS,
+  resolveRules,
+} from '@/lib/house-rules';
+import { API_TYPES, PROVIDER_INFO } from '@/lib/llm-providers';
+import { cleanModelProfile, describeModelProfile } from '@/lib/model-profiles';
+import {
+  MEMORY_BUDGET_OPTIONS,
+  MEMORY_RECENT_ROUND_OPTIONS,
+  MEMORY_SUMMARIZER_OPTIONS,
+  resolveMemorySettings,
+} from '@/lib/player-memory';
+import { VOTE_PARALLELISM_OPTIONS, VOTING_MODE_OPTIONS, resolveVotingSettings } from '@/lib/simultaneous-voting';
+import type {
+  APIType,
+  GameConfig,
+  GamePreset,
+  LastWordsMode,
+  MemorySettings,
+  ModelAssignment,
+  ModelProfile,
+  Role,
+  RuleSet,
+  VotingSettings,
+} from '@/types/game';
+import { AlertCircle, CheckCircle2, Cpu, Minus, Plus, Save, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface GameSetupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Editable special roles - 无知者 fills the remaining seats
+ */
+const SPECIAL_ROLES: { role: Role; name: string; faction: 'harvest' | 'lamb' }[] = [
+  { role: 'marked', name: '烙印者', faction: 'harvest' },
+  { role: 'heretic', name: '背誓者', faction: 'harvest' },
+  { role: 'listener', name: '聆心者', faction: 'lamb' },
+  { role: 'coroner', name: '食灰者', faction: 'lamb' },
+  { role: 'twin', name: '共誓者', faction: 'lamb' },
+  { role: 'guard', name: '设闩者', faction: 'lamb' },
+];
+
+/**
+ * Optional roles toggled by GameConfig flags - each takes one 无知者 seat
+ */
+const OPTIONAL_ROLES: { role: Role; name: string; description: string }[] = [
+  { role: 'witch', name: '秘药者', description: '一瓶解药、一瓶毒药' },
+  { role: 'hunter', name: '鸣枪者', description: '死亡时可开枪带走一人' },
+];
+
+/**
+ * On/off house rules
+ */
+const HOUSE_RULE_TOGGLES: { key: 'guardSelf' | 'guardRepeat' | 'firstNightNoKill' | 'revealRoleOnDeath'; name: string }[] = [
+  { key: 'guardSelf', name: '设闩者可以守护自己' },
+  { key: 'guardRepeat', name: '设闩者可以连续守护同一人' },
+  { key: 'firstNightNoKill', name: '首夜烙印者不出手' },
+  { key: 'revealRoleOnDeath', name: '死者公开身份' },
+];
+
+/**
+ * Build a config from the editor's draft values
+ */
+function buildConfig(
+  base: GameConfig,
+  playerCount: number,
+  counts: Record<Role, number>,
+  characters: string[],
+  settings: Pick<GameConfig, 'seed' | 'lastWords' | 'twinChannel' | 'rules' | 'models' | 'memory' | 'voting'>,
+): GameConfig {
+  const specialTotal = [...SPECIAL_ROLES, ...OPTIONAL_ROLES].reduce((sum, { role }) => sum + counts[role], 0);
+  return {
+    ...base,
+    playerCount,
+    roles: buildRoles({ ...counts, innocent: Math.max(0, playerCount - specialTotal) }),
+    characters,
+    enableWitch: counts.witch > 0,
+    enableHunter: counts.hunter > 0,
+    ...settings,
+  };
+}
+
+/**
+ * Summarize a config as a short description
+ */
+function describeConfig(config: GameConfig): string {
+  const counts = countRoles(config.roles);
+  const parts = [...SPECIAL_ROLES, ...OPTIONAL_ROLES]
+    .filter(({ role }) => counts[role] > 0)
+    .map(({ role, name }) => `${counts[role]}${name}`);
+  return `${config.playerCount}人：${[...parts, `${counts.innocent}无知者`].join(' ')}`;
+}
+
+/**
+ * Resize the character selection, keeping existing picks and filling in seating order
+ */
+function resizeCharacters(characters: string[], count: number): string[] {
+  if (characters.length >= count) return characters.slice(0, count);
+  const extra = CHARACTER_NAMES.filter((name) => !characters.includes(name));
+  return [...characters, ...extra.slice(0, count - characters.length)];
+}
+
+function PresetList({
+  presets,
+  onSelect,
+  onDelete,
+}: {
+  presets: GamePreset[];
+  onSelect: (preset: GamePreset) => void;
+  onDelete?: (presetId: string) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {presets.map((preset) => (
+        <div
+          key={preset.id}
+          className="rounded-md border p-2 hover:bg-accent/50 cursor-pointer flex items-start justify-between gap-2"
+          onClick={() => onSelect(preset)}
+        >
+          <div className="min-w-0">
+            <p className="text-sm font-medium">{preset.name}</p>
+            {preset.description && (
+              <p className="text-xs text-muted-foreground truncate">{preset.description}</p>
+            )}
+          </div>
+          {onDelete && (
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-red-600"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete(preset.id);
+              }}
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RoleCounter({
+  name,
+  count,
+  faction,
+  onChange,
+}: {
+  name: string;
+  count: number;
+  faction: 'harvest' | 'lamb';
+  onChange: (count: number) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between rounded-md border px-3 py-1.5">
+      <span className={cn('text-sm', faction === 'harvest' ? 'text-red-600' : 'text-blue-600')}>
+        {name}
+      </span>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={() => onChange(Math.max(0, count - 1))}
+        >
+          <Minus className="w-3 h-3" />
+        </Button>
+        <span className="w-4 text-center text-sm font-semibold">{count}</span>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => onChange(count + 1)}>
+          <Plus className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Provider, model and optional connection for one profile - blank fields use the global API settings
+ */
+function ModelProfileFields({
+  idPrefix,
+  profile,
+  onChange,
+}: {
+  idPrefix: string;
+  profile: ModelProfile;
+  onChange: (profile: ModelProfile) => void;
+}) {
+  const providerInfo = profile.apiType ? PROVIDER_INFO[profile.apiType] : null;
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <select
+        id={`${idPrefix}-provider`}
+        value={profile.apiType ?? ''}
+        onChange={(e) => onChange({ ...profile, apiType: (e.target.value || undefined) as APIType | undefined })}
+        className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+      >
+        <option value="">沿用全局服务商</option>
+        {API_TYPES.map((type) => (
+          <option key={type} value={type}>
+            {PROVIDER_INFO[type].label}
+          </option>
+        ))}
+      </select>
+      <Input
+        placeholder={providerInfo?.modelPlaceholder ?? '模型名称（留空沿用全局）'}
+        value={profile.model ?? ''}
+        onChange={(e) => onChange({ ...profile, model: e.target.value })}
+      />
+      <Input
+        placeholder={providerInfo?.defaultUrl ?? 'API URL（留空沿用全局）'}
+        value={profile.apiUrl ?? ''}
+        onChange={(e) => onChange({ ...profile, apiUrl: e.target.value })}
+      />
+      <Input
+        type="password"
+        placeholder="API Key（留空沿用全局）"
+        value={profile.apiKey ?? ''}
+        onChange={(e) => onChange({ ...profile, apiKey: e.target.value })}
+      />
+    </div>
+  );
+}
+
+/**
+ * Game Setup Dialog Component
+ * Edits the role setup used by the next game and manages presets
+ */
+export function GameSetupDialog({ open, onOpenChange }: GameSetupDialogProps) {
+  const { gameConfig, gamePresets, setGameConfig, saveGamePreset, deleteGamePreset } = useGameStore();
+
+  const [playerCount, setPlayerCount] = useState(gameConfig.playerCount);
+  const [counts, setCounts] = useState(countRoles(gameConfig.roles));
+  const [characters, setCharacters] = useState(
+    gameConfig.characters ?? CHARACTER_NAMES.slice(0, gameConfig.playerCount),
+  );
+  const [seedText, setSeedText] = useState(gameConfig.seed?.toString() ?? '');
+  const [lastWords, setLastWords] = useState<LastWordsMode>(gameConfig.lastWords ?? 'off');
+  const [twinChannel, setTwinChannel] = useState(gameConfig.twinChannel ?? false);
+  const [rules, setRules] = useState<RuleSet>(resolveRules(gameConfig.rules));
+  const [models, setModels] = useState<ModelAssignment>(gameConfig.models ?? {});
+  const [memory, setMemory] = useState<MemorySettings>(resolveMemorySettings(gameConfig.memory));
+  const [voting, setVoting] = useState<VotingSettings>(resolveVotingSettings(gameConfig.voting));
+  const [editingModelFor, setEditingModelFor] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState('');
+
+  const loadConfig = (config: GameConfig) => {
+    setPlayerCount(config.playerCount);
+    setCounts(countRoles(config.roles));
+    setCharacters(config.characters ?? CHARACTER_NAMES.slice(0, config.playerCount));
+    setSeedText(config.seed?.toString() ?? '');
+    setLastWords(config.lastWords ?? 'off');
+    setTwinChannel(config.twinChannel ?? false);
+    setRules(resolveRules(config.rules));
+    setMemory(resolveMemorySettings(config.memory));
+    setVoting(resolveVotingSettings(config.voting));
+  };
+
+  // Reset draft from the stored setup whenever the dialog opens
+  // 模型分配不随预设切换，只在打开时读取
+  useEffect(() => {
+    if (open) {
+      loadConfig(gameConfig);
+      setModels(gameConfig.models ?? {});
+      setEditingModelFor(null);
+      setPresetName('');
+    }
+  }, [open, gameConfig]);
+
+  // 留空表示每局随机生成种子
+  const seed = seedText.trim() === '' ? undefined : Number(seedText.trim());
+  const draft = buildConfig(gameConfig, playerCount, counts, characters, { seed, lastWords, twinChannel, rules, models, memory, voting });
+  const errors = validateGameConfig(draft);
+  const roleCounts = countRoles(draft.roles);
+
+  const handlePlayerCountChange = (value: number) => {
+    const next = Math.min(MAX_PLAYERS, Math.max(MIN_PLAYERS, value));
+    setPlayerCount(next);
+    setCharacters(resizeCharacters(characters, next));
+  };
+
+  const toggleCharacter = (name: string) => {
+    setCharacters(
+      characters.includes(name)
+        ? characters.filter((c) => c !== name)
+        : [...characters, name],
+    );
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim() || errors.length > 0) return;
+    // 预设只记录角色配置，不带模型和 API Key
+    saveGamePreset(presetName.trim(), { ...draft, models: undefined }, describeConfig(draft));
+    setPresetName('');
+  };
+
+  const setCharacterModel = (name: string, profile: ModelProfile | undefined) => {
+    const { [name]: _previous, ...others } = models.characters ?? {};
+    setModels({ ...models, characters: profile ? { ...others, [name]: profile } : others });
+  };
+
+  const handleApply = () => {
+    if (errors.length > 0) return;
+    setGameConfig(draft);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>角色配置</DialogTitle>
+          <DialogDescription>
+            选择人数、参与的旅者以及各身份的数量
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[65vh] pr-3">
+          <div className="space-y-5">
+            {/* Presets */}
+            <div className="space-y-2">
+              <Label>预设</Label>
+              <PresetList presets={BUILT_IN_PRESETS} onSelect={(p) => loadConfig(p.config)} />
+              {gamePresets.length > 0 && (
+                <PresetList
+                  presets={gamePresets}
+                  onSelect={(p) => loadConfig(p.config)}
+                  onDelete={deleteGamePreset}
+                />
+              )}
+            </div>
+
+            {/* Player count */}
+            <div className="space-y-2">
+              <Label htmlFor="player-count">人数（{MIN_PLAYERS}-{MAX_PLAYERS}）</Label>
+              <Input
+                id="player-count"
+                type="number"
+                min={MIN_PLAYERS}
+                max={MAX_PLAYERS}
+                value={playerCount}
+                onChange={(e) => handlePlayerCountChange(Number(e.target.value) || MIN_PLAYERS)}
+                className="w-32"
+              />
+            </div>
+
+            {/* Role counts */}
+            <div className="space-y-2">
+              <Label>身份数量</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {SPECIAL_ROLES.map(({ role, name, faction }) => (
+                  <RoleCounter
+                    key={role}
+                    name={name}
+                    count={counts[role]}
+                    faction={faction}
+                    onChange={(count) => setCounts({ ...counts, [role]: count })}
+                  />
+                ))}
+              </div>
+              {OPTIONAL_ROLES.map(({ role, name, description }) => (
+                <label key={role} className="flex items-center gap-2 rounded-md border px-3 py-2 cursor-pointer">
+                  <Checkbox
+                    checked={counts[role] > 0}
+                    onCheckedChange={(checked) => setCounts({ ...counts, [role]: checked === true ? 1 : 0 })}
+                  />
+                  <span className="text-sm text-blue-600">启用{name}</span>
+                  <span className="text-xs text-muted-foreground">{description}，占用一个无知者席位</span>
+                </label>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                其余 {roleCounts.innocent} 个席位为无知者
+              </p>
+            </div>
+
+            {/* Characters */}
+            <div className="space-y-2">
+              <Label>参与的旅者（{characters.length}/{playerCount}）</Label>
+              <div className="grid grid-cols-3 gap-1.5">
+                {CHARACTER_NAMES.map((name) => (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => toggleCharacter(name)}
+                    className={cn(
+                      'text-xs rounded-md border px-2 py-1.5 text-left transition-colors',
+                      characters.includes(name)
+                        ? 'bg-primary text-primary-foreground border-primary'
+                        : 'hover:bg-accent',
+                    )}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Last words */}
+            <div className="space-y-2">
+              <Label htmlFor="last-words">遗言</Label>
+              <select
+                id="last-words"
+                value={lastWords}
+                onChange={(e) => setLastWords(e.target.value as LastWordsMode)}
+                className="w-48 px-3 py-2 border border-input rounded-md bg-background text-sm"
+              >
+                {LAST_WORDS_OPTIONS.map(({ mode, name }) => (
+                  <option key={mode} value={mode}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                被献祭或在夜里死去的旅者可以留下最后一段话（鸣枪者先开枪，再发表遗言）
+              </p>
+            </div>
+
+            {/* Twins night channel */}
+            <label className="flex items-center gap-2 rounded-md border px-3 py-2 cursor-pointer">
+              <Checkbox
+                checked={twinChannel}
+                onCheckedChange={(checked) => setTwinChannel(checked === true)}
+              />
+              <span className="text-sm">共誓者夜间密谈</span>
+              <span className="text-xs text-muted-foreground">
+                每晚两名共誓者可以低声交谈；同伴死后，幸存者会独自守过一夜
+              </span>
+            </label>
+
+            {/* House rules */}
+            <div className="space-y-2">
+              <Label>房规</Label>
+              <div className="grid grid-cols-2 gap-1.5">
+                {HOUSE_RULE_TOGGLES.map(({ key, name }) => (
+                  <label key={key} className="flex items-center gap-2 rounded-md border px-3 py-2 cursor-pointer">
+                    <Checkbox
+                      checked={rules[key]}
+                      onCheckedChange={(checked) => setRules({ ...rules, [key]: checked === true })}
+                    />
+                    <span className="text-sm">{name}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="day-tie" className="text-xs text-muted-foreground">白天平票</Label>
+                  <select
+                    id="day-tie"
+                    value={rules.dayTie}
+                    onChange={(e) => setRules({ ...rules, dayTie: e.target.value as RuleSet['dayTie'] })}
+                    className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                  >
+                    {DAY_TIE_OPTIONS.map(({ rule, name }) => (
+                      <option key={rule} value={rule}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="night-tie" className="text-xs text-muted-foreground">烙印者平票</Label>
+                  <select
+                    id="night-tie"
+                    value={rules.nightTie}
+                    onChange={(e) => setRules({ ...rules, nightTie: e.target.value as RuleSet['nightTie'] })}
+                    className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                  >
+                    {NIGHT_TIE_OPTIONS.map(({ rule, name }) => (
+                      <option key={rule} value={rule}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="heretic-awaken" className="text-xs text-muted-foreground">背誓者觉醒</Label>
+                  <select
+                    id="heretic-awaken"
+                    value={rules.hereticAwakenRound}
+                    onChange={(e) => setRules({ ...rules, hereticAwakenRound: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                  >
+                    {HERETIC_AWAKEN_ROUNDS.map((round) => (
+                      <option key={round} value={round}>
+                        第 {round} 天
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="victory-mode" className="text-xs text-muted-foreground">胜利条件</Label>
+                  <select
+                    id="victory-mode"
+                    value={rules.victoryMode}
+                    onChange={(e) => setRules({ ...rules, victoryMode: e.target.value as RuleSet['victoryMode'] })}
+                    className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                  >
+                    {VICTORY_MODE_OPTIONS.map(({ mode, name }) => (
+                      <option key={mode} value={mode}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="round-limit" className="text-xs text-muted-foreground">回合上限</Label>
+                  <select
+                    id="round-limit"
+                    value={rules.roundLimit}
+                    onChange={(e) => setRules({ ...rules, roundLimit: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                  >
+                    {ROUND_LIMIT_OPTIONS.map((limit) => (
+                      <option key={limit} value={limit}>
+                        {limit === 0 ? '不限' : `${limit} 回合后清点人数`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {VICTORY_MODE_OPTIONS.find(({ mode }) => mode === rules.victoryMode)?.description}
+              </p>
+            </div>
+
+            {/* Voting mode */}
+            <div className="space-y-2">
+              <Label htmlFor="voting-mode">投票方式</Label>
+              <div className="flex gap-2">
+                <select
+                  id="voting-mode"
+                  value={voting.mode}
+                  onChange={(e) => setVoting({ ...voting, mode: e.target.value as VotingSettings['mode'] })}
+                  className="w-48 px-3 py-2 border border-input rounded-md bg-background text-sm"
+                >
+                  {VOTING_MODE_OPTIONS.map(({ mode, name }) => (
+                    <option key={mode} value={mode}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+                {voting.mode === 'simultaneous' && (
+                  <select
+                    id="voting-parallelism"
+                    aria-label="并行请求数"
+                    value={voting.parallelism}
+                    onChange={(e) => setVoting({ ...voting, parallelism: Number(e.target.value) })}
+                    className="w-48 px-3 py-2 border border-input rounded-md bg-background text-sm"
+                  >
+                    {VOTE_PARALLELISM_OPTIONS.map((parallelism) => (
+                      <option key={parallelism} value={parallelism}>
+                        最多 {parallelism} 个请求同时进行
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {VOTING_MODE_OPTIONS.find(({ mode }) => mode === voting.mode)?.description}（白天献祭投票与烙印者夜间投票）
+              </p>
+            </div>
+
+            {/* Model assignment */}
+            <div className="space-y-2">
+              <Label className="flex items-center gap-1.5">
+                <Cpu className="w-4 h-4" />
+                模型分配
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                让不同模型同台对弈：先设置阵营默认模型，再为个别旅者单独指定；留空的项沿用 API 配置中的全局设置
+              </p>
+              {(['marked', 'lamb'] as const).map((faction) => (
+                <div key={faction} className="space-y-1">
+                  <Label className={cn('text-xs', faction === 'marked' ? 'text-red-600' : 'text-blue-600')}>
+                    {faction === 'marked' ? '收割阵营（烙印者、背誓者）' : '羔羊阵营'}
+                  </Label>
+                  <ModelProfileFields
+                    idPrefix={`model-${faction}`}
+                    profile={models[faction] ?? {}}
+                    onChange={(profile) => setModels({ ...models, [faction]: profile })}
+                  />
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">单独指定</Label>
+                {characters.map((name) => {
+                  const profile = cleanModelProfile(models.characters?.[name]);
+                  return (
+                    <div key={name} className="rounded-md border px-3 py-1.5 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm">{name}</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground truncate">
+                            {profile ? describeModelProfile(profile) : '按阵营'}
+                          </span>
+                          {profile && (
+                            <button
+                              type="button"
+                              className="text-muted-foreground hover:text-red-600"
+                              onClick={() => setCharacterModel(name, undefined)}
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => setEditingModelFor(editingModelFor === name ? null : name)}
+                          >
+                            {editingModelFor === name ? '收起' : '设置'}
+                          </Button>
+                        </div>
+                      </div>
+                      {editingModelFor === name && (
+                        <ModelProfileFields
+                          idPrefix={`model-${name}`}
+                          profile={models.characters?.[name] ?? {}}
+                          onChange={(next) => setCharacterModel(name, next)}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Long-game memory */}
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 rounded-md border px-3 py-2 cursor-pointer">
+                <Checkbox
+                  checked={memory.enabled}
+                  onCheckedChange={(checked) => setMemory({ ...memory, enabled: checked === true })}
+                />
+                <span className="text-sm">长局记忆</span>
+                <span className="text-xs text-muted-foreground">
+                  对话超出预算时，把较早的回合压缩成每名旅者各自的记忆，只保留最近的回合原文
+                </span>
+              </label>
+              {memory.enabled && (
+                <>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="memory-budget" className="text-xs text-muted-foreground">对话预算</Label>
+                      <select
+                        id="memory-budget"
+                        value={memory.tokenBudget}
+                        onChange={(e) => setMemory({ ...memory, tokenBudget: Number(e.target.value) })}
+                        className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                      >
+                        {MEMORY_BUDGET_OPTIONS.map((budget) => (
+                          <option key={budget} value={budget}>
+                            约 {budget} tokens
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="memory-recent" className="text-xs text-muted-foreground">保留原文</Label>
+                      <select
+                        id="memory-recent"
+                        value={memory.recentRounds}
+                        onChange={(e) => setMemory({ ...memory, recentRounds: Number(e.target.value) })}
+                        className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                      >
+                        {MEMORY_RECENT_ROUND_OPTIONS.map((rounds) => (
+                          <option key={rounds} value={rounds}>
+                            最近 {rounds} 回合
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="memory-summarizer" className="text-xs text-muted-foreground">压缩方式</Label>
+                      <select
+                        id="memory-summarizer"
+                        value={memory.summarizer}
+                        onChange={(e) => setMemory({ ...memory, summarizer: e.target.value as MemorySettings['summarizer'] })}
+                        className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                      >
+                        {MEMORY_SUMMARIZER_OPTIONS.map(({ summarizer, name }) => (
+                          <option key={summarizer} value={summarizer}>
+                            {name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {MEMORY_SUMMARIZER_OPTIONS.find(({ summarizer }) => summarizer === memory.summarizer)?.description}
+                  </p>
+                </>
+              )}
+            </div>
+
+            {/* Seed */}
+            <div className="space-y-2">
+              <Label htmlFor="game-seed">随机种子</Label>
+              <Input
+                id="game-seed"
+                inputMode="numeric"
+                placeholder="留空则每局随机"
+                value={seedText}
+                onChange={(e) => setSeedText(e.target.value)}
+                className="w-48 font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                相同的种子会得到相同的身份分配、随机事件与情感变化，便于复现对局
+              </p>
+            </div>
+
+            {/* Validation */}
+            {errors.length > 0 ? (
+              <div className="rounded-md bg-red-50 p-3 space-y-1">
+                {errors.map((error) => (
+                  <div key={error} className="flex items-center gap-2 text-xs text-red-700">
+                    <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                    {error}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 rounded-md bg-green-50 p-3 text-xs text-green-700">
+                <CheckCircle2 className="w-3 h-3" />
+                {describeConfig(draft)}
+              </div>
+            )}
+
+            {/* Save as preset */}
+            <div className="flex gap-2">
+              <Input
+                placeholder="预设名称..."
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                onClick={handleSavePreset}
+                disabled={!presetName.trim() || errors.length > 0}
+                className="flex-shrink-0"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                保存预设
+              </Button>
+            </div>
+          </div>
+        </ScrollArea>
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            取消
+          </Button>
+          <Button onClick={handleApply} disabled={errors.length > 0}>
+            应用配置
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
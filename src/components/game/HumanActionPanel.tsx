@@ -0,0 +1,185 @@
+/**
+ * Human action panel - collects speech, votes and night targets from the human player
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { GameState, Player } from '@/types/game';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Send, Target, User } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getNightKillTarget, getRemainingPotions, getUnexaminedCorpses } from '@/lib/game-engine';
+
+interface HumanActionPanelProps {
+  gameState: GameState;
+  player: Player;
+  onSubmit: (content: string) => void;
+}
+
+const roleNames: Record<string, string> = {
+  marked: '烙印者',
+  heretic: '背誓者',
+  listener: '聆心者',
+  coroner: '食灰者',
+  twin: '共誓者',
+  guard: '设闩者',
+  witch: '秘药者',
+  hunter: '鸣枪者',
+  innocent: '无知者',
+};
+
+/**
+ * Get action title for the current phase
+ */
+function getActionTitle(gameState: GameState): string {
+  if (gameState.pendingHunterShot) return '开出最后一枪';
+  if (gameState.pendingLastWords) return '留下你的遗言';
+  if (gameState.phase === 'voting') return '选择献祭对象';
+  if (gameState.phase === 'night') {
+    const nightTitles: Record<string, string> = {
+      'listener': '选择要倾听的灵魂',
+      'twins': '与同伴低声交谈',
+      'marked-discuss': '与同伴商议今晚的猎物',
+      'marked-vote': '选择今晚的猎物',
+      'witch': '决定是否动用药瓶',
+      'guard': '选择今晚要守护的人',
+      'coroner': '选择要品尝的尸体',
+    };
+    return nightTitles[gameState.nightPhase ?? ''] ?? '夜晚行动';
+  }
+  return gameState.isRevote ? '平票后的讨论发言' : '轮到你发言';
+}
+
+interface ActionOption {
+  label: string;
+  value: string;
+}
+
+/**
+ * Get witch options - the submitted value uses the same wording an AI response would
+ */
+function getWitchOptions(gameState: GameState, player: Player): ActionOption[] {
+  const potions = getRemainingPotions(gameState);
+  const victim = getNightKillTarget(gameState);
+  const options: ActionOption[] = [];
+
+  if (potions.antidote && victim) {
+    options.push({ label: `解药：救 ${victim.name}`, value: '解药' });
+  }
+  if (potions.poison) {
+    gameState.players
+      .filter((p) => p.isAlive && p.id !== player.id)
+      .forEach((p) => options.push({ label: `毒药：${p.name}`, value: `毒药：${p.name}` }));
+  }
+  options.push({ label: '放弃', value: '放弃' });
+  return options;
+}
+
+/**
+ * Get selectable options, or null when the phase expects free speech
+ */
+function getOptions(gameState: GameState, player: Player): ActionOption[] | null {
+  const others = gameState.players.filter((p) => p.isAlive && p.id !== player.id);
+  const toOptions = (players: Player[]) => players.map((p) => ({ label: p.name, value: p.name }));
+
+  if (gameState.pendingHunterShot) return [...toOptions(others), { label: '放弃', value: '放弃' }];
+  if (gameState.pendingLastWords) return null;
+  if (gameState.phase === 'voting') return toOptions(others);
+  if (gameState.phase !== 'night') return null;
+
+  switch (gameState.nightPhase) {
+    case 'listener':
+      return toOptions(others);
+    case 'marked-vote':
+      return toOptions(others.filter((p) => p.role !== 'marked'));
+    case 'witch':
+      return getWitchOptions(gameState, player);
+    case 'guard': {
+      // 房规决定能否守护自己、能否连续两晚守护同一人
+      const { guardSelf, guardRepeat } = gameState.rules;
+      const candidates = guardSelf ? gameState.players.filter((p) => p.isAlive) : others;
+      return toOptions(candidates.filter((p) => guardRepeat || p.name !== gameState.lastGuardedPlayer));
+    }
+    case 'coroner':
+      return toOptions(getUnexaminedCorpses(gameState));
+    default:
+      return null;
+  }
+}
+
+export function HumanActionPanel({ gameState, player, onSubmit }: HumanActionPanelProps) {
+  const [speech, setSpeech] = useState('');
+  const [target, setTarget] = useState<string | null>(null);
+
+  const targets = getOptions(gameState, player);
+  const canSubmit = targets ? Boolean(target) : Boolean(speech.trim());
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit(targets ? target ?? '' : speech);
+    setSpeech('');
+    setTarget(null);
+  };
+
+  return (
+    <div className="rounded-lg bg-amber-50 border border-amber-300 p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <User className="w-4 h-4 text-amber-700" />
+        <div>
+          <p className="text-sm font-medium text-amber-900">{getActionTitle(gameState)}</p>
+          <p className="text-xs text-amber-700">
+            你是 {player.name}（{roleNames[player.role] || player.role}）
+          </p>
+        </div>
+      </div>
+
+      {targets ? (
+        <div className="grid grid-cols-2 gap-1.5">
+          {targets.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setTarget(option.value)}
+              className={cn(
+                'text-xs rounded-md border px-2 py-1.5 text-left transition-colors',
+                target === option.value
+                  ? 'bg-amber-600 border-amber-700 text-white'
+                  : 'bg-white border-amber-200 text-amber-900 hover:bg-amber-100',
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <Textarea
+          placeholder="输入你的发言..."
+          value={speech}
+          onChange={(e) => setSpeech(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              handleSubmit();
+            }
+          }}
+          className="min-h-[96px] text-sm bg-white"
+        />
+      )}
+
+      <Button onClick={handleSubmit} className="w-full" disabled={!canSubmit}>
+        {targets ? (
+          <>
+            <Target className="w-4 h-4 mr-2" />
+            确认选择
+          </>
+        ) : (
+          <>
+            <Send className="w-4 h-4 mr-2" />
+            提交发言
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
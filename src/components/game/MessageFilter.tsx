@@ -28,6 +28,8 @@ const roleNames: Record<string, string> = {
   coroner: '食灰者',
   twin: '共誓者',
   guard: '设闩者',
+  witch: '秘药者',
+  hunter: '鸣枪者',
   innocent: '无知者',
 };
 
@@ -43,6 +45,7 @@ const messageTypeNames: Record<string, string> = {
   death: '死亡',
   action: '行动',
   secret: '密会',
+  last_words: '遗言',
 };
 
 /**
@@ -88,7 +91,7 @@ export function MessageFilter({ messages, players, onFilterChange }: MessageFilt
     } else {
       // Default: show all game-relevant messages
       filtered = filtered.filter(msg =>
-        ['system', 'speech', 'death', 'action', 'secret', 'thinking', 'prompt', 'vote'].includes(msg.type)
+        ['system', 'speech', 'death', 'action', 'secret', 'last_words', 'thinking', 'prompt', 'vote'].includes(msg.type)
       );
     }
 
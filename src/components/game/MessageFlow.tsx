@@ -19,6 +19,8 @@ import {
   FileText,
   AlertCircle,
   RotateCcw,
+  Feather,
+  Heart,
 } from 'lucide-react';
 import { useGameStore } from '@/stores/game-store';
 
@@ -26,6 +28,7 @@ interface MessageFlowProps {
   messages: Message[];
   players?: Player[];  // Optional players list to show roles
   filterTypes?: string[];  // Optional filter for message types
+  readOnly?: boolean;  // Replays - no retry button
 }
 
 /**
@@ -40,6 +43,7 @@ const messageStyles: Record<string, string> = {
   prompt: 'bg-secondary border-l-4 border-cyan-500',
   thinking: 'bg-accent/30 border-l-4 border-emerald-500 italic',
   secret: 'bg-purple-950/30 border-l-4 border-purple-400',
+  last_words: 'bg-stone-900/60 border-l-4 border-stone-400 border-dashed',
 };
 
 /**
@@ -54,6 +58,7 @@ const messageTypeNames: Record<string, string> = {
   prompt: 'AI提示词',
   thinking: 'AI思考',
   secret: '密会',
+  last_words: '遗言',
 };
 
 /**
@@ -100,6 +105,8 @@ function getMessageIcon(type: string) {
       return <FileText className="w-4 h-4" />;
     case 'thinking':
       return <Brain className="w-4 h-4" />;
+    case 'last_words':
+      return <Feather className="w-4 h-4" />;
     default:
       return <MessageSquare className="w-4 h-4" />;
   }
@@ -139,6 +146,8 @@ const roleNames: Record<string, { name: string; subtitle: string }> = {
   coroner: { name: '食灰者', subtitle: 'Ash-Walker' },
   twin: { name: '共誓者', subtitle: 'The Twin' },
   guard: { name: '设闩者', subtitle: 'Guardian' },
+  witch: { name: '秘药者', subtitle: 'The Apothecary' },
+  hunter: { name: '鸣枪者', subtitle: 'The Last Shot' },
   innocent: { name: '无知者', subtitle: 'The Innocent' },
 };
 
@@ -164,6 +173,12 @@ function MessageBadges({ message, messageTypeName, playerRole }: {
           )}
         </>
       )}
+      {message.visibility === 'twins' && (
+        <Badge variant="outline" className="text-xs flex items-center gap-1 border-rose-300 text-rose-600">
+          <Heart className="w-3 h-3" />
+          仅共誓者
+        </Badge>
+      )}
     </>
   );
 }
@@ -202,11 +217,12 @@ function PhaseDivider({ round, phase }: { round?: number; phase?: string }) {
 /**
  * Individual message item component
  */
-function MessageItem({ message, index, players, isLastAIMessage }: {
+function MessageItem({ message, index, players, isLastAIMessage, readOnly }: {
   message: Message;
   index: number;
   players?: Player[];
   isLastAIMessage?: boolean;
+  readOnly?: boolean;
 }) {
   const messageStyle = messageStyles[message.type] ?? 'bg-card';
   const messageTypeName = messageTypeNames[message.type] ?? message.type;
@@ -220,7 +236,7 @@ function MessageItem({ message, index, players, isLastAIMessage }: {
 
   // Show retry button for AI messages (speech, vote, thinking) that are the last AI message
   const isAIMessage = ['speech', 'vote', 'thinking'].includes(message.type) && message.from !== '叙述者';
-  const showRetryButton = isAIMessage && isLastAIMessage;
+  const showRetryButton = isAIMessage && isLastAIMessage && !readOnly;
 
   return (
     <div
@@ -270,7 +286,7 @@ function MessageItem({ message, index, players, isLastAIMessage }: {
   );
 }
 
-export function MessageFlow({ messages, players, filterTypes }: MessageFlowProps) {
+export function MessageFlow({ messages, players, filterTypes, readOnly }: MessageFlowProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
 
   // Filter messages if filterTypes is provided
@@ -324,6 +340,7 @@ export function MessageFlow({ messages, players, filterTypes }: MessageFlowProps
           index={idx}
           players={players}
           isLastAIMessage={isLastAIMessage}
+          readOnly={readOnly}
         />
       );
 
@@ -239,6 +239,8 @@ function TravelerDetail({ player }: { player: Player }) {
     coroner: { name: '食灰者', subtitle: 'Ash-Walker' },
     twin: { name: '共誓者', subtitle: 'The Twin' },
     guard: { name: '设闩者', subtitle: 'Guardian' },
+    witch: { name: '秘药者', subtitle: 'The Apothecary' },
+    hunter: { name: '鸣枪者', subtitle: 'The Last Shot' },
     innocent: { name: '无知者', subtitle: 'The Innocent' },
   };
 
@@ -4,11 +4,13 @@
 
 'use client';
 
-import type { Player } from '@/types/game';
+import { useState } from 'react';
+import type { Player, PlayerNotebook } from '@/types/game';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import { ROLE_MOTTOS } from '@/lib/latin-text';
+import { formatEntries } from '@/lib/notebook';
 import {
   User,
   Skull,
@@ -18,12 +20,19 @@ import {
   Search,
   Users,
   Shield,
+  FlaskConical,
+  Crosshair,
+  Cpu,
+  NotebookPen,
+  ChevronDown,
 } from 'lucide-react';
 
 interface PlayerCardProps {
   player: Player;
   showRole?: boolean;
   isCurrent?: boolean;  // Whether this player is currently speaking
+  model?: string;  // Model driving this player, shown under the name
+  notebook?: PlayerNotebook;  // The AI's private notebook, shown in the detail view
 }
 
 /**
@@ -36,6 +45,8 @@ const roleColors: Record<string, string> = {
   coroner: 'bg-cyan-700 hover:bg-cyan-800',
   twin: 'bg-teal-700 hover:bg-teal-800',
   guard: 'bg-amber-700 hover:bg-amber-800',
+  witch: 'bg-emerald-700 hover:bg-emerald-800',
+  hunter: 'bg-orange-700 hover:bg-orange-800',
   innocent: 'bg-blue-700 hover:bg-blue-800',
 };
 
@@ -49,6 +60,8 @@ const roleBorderColors: Record<string, string> = {
   coroner: 'border-cyan-400/40',
   twin: 'border-teal-400/40',
   guard: 'border-amber-400/40',
+  witch: 'border-emerald-400/40',
+  hunter: 'border-orange-400/40',
   innocent: 'border-blue-400/40',
 };
 
@@ -62,6 +75,8 @@ const roleGradients: Record<string, string> = {
   coroner: 'from-cyan-700 to-cyan-900',
   twin: 'from-teal-600 to-teal-900',
   guard: 'from-amber-600 to-amber-900',
+  witch: 'from-emerald-600 to-emerald-900',
+  hunter: 'from-orange-600 to-orange-900',
   innocent: 'from-blue-600 to-blue-900',
 };
 
@@ -75,6 +90,8 @@ const roleIconComponents: Record<string, React.ComponentType<{ className?: strin
   coroner: Search,
   twin: Users,
   guard: Shield,
+  witch: FlaskConical,
+  hunter: Crosshair,
   innocent: User,
 };
 
@@ -88,6 +105,8 @@ const roleNames: Record<string, { name: string; subtitle: string }> = {
   coroner: { name: '食灰者', subtitle: 'Ash-Walker' },
   twin: { name: '共誓者', subtitle: 'The Twin' },
   guard: { name: '设闩者', subtitle: 'Guardian' },
+  witch: { name: '秘药者', subtitle: 'The Apothecary' },
+  hunter: { name: '鸣枪者', subtitle: 'The Last Shot' },
   innocent: { name: '无知者', subtitle: 'The Innocent' },
 };
 
@@ -120,8 +139,40 @@ function PlayerAvatar({
   );
 }
 
-export function PlayerCard({ player, showRole = false, isCurrent = false }: PlayerCardProps) {
+/**
+ * Notebook detail - suspicions, trusted players and what the character has claimed
+ */
+function NotebookDetail({ notebook }: { notebook: PlayerNotebook }) {
+  return (
+    <div className="space-y-1.5 pt-2 text-[11px] leading-relaxed">
+      <div>
+        <span className="font-semibold text-red-600">怀疑</span>
+        <span className="text-muted-foreground">：{formatEntries(notebook.suspects)}</span>
+      </div>
+      <div>
+        <span className="font-semibold text-green-600">信任</span>
+        <span className="text-muted-foreground">：{formatEntries(notebook.trusted)}</span>
+      </div>
+      <div>
+        <span className="font-semibold">说过的话</span>
+        {notebook.claims.length > 0 ? (
+          <ul className="list-disc pl-4 text-muted-foreground">
+            {notebook.claims.map((claim) => (
+              <li key={claim}>{claim}</li>
+            ))}
+          </ul>
+        ) : (
+          <span className="text-muted-foreground">：无</span>
+        )}
+      </div>
+      <div className="text-[10px] text-muted-foreground text-right">第 {notebook.updatedRound} 回合更新</div>
+    </div>
+  );
+}
+
+export function PlayerCard({ player, showRole = false, isCurrent = false, model, notebook }: PlayerCardProps) {
   const borderColor = roleBorderColors[player.role];
+  const [showNotebook, setShowNotebook] = useState(false);
 
   return (
     <Card
@@ -179,6 +230,29 @@ export function PlayerCard({ player, showRole = false, isCurrent = false }: Play
             <User className="w-3 h-3" />
             旅者
           </div>
+          {model && (
+            <div
+              className="text-[10px] text-muted-foreground text-center flex items-center justify-center gap-1 font-mono truncate"
+              title={model}
+            >
+              <Cpu className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{model}</span>
+            </div>
+          )}
+          {notebook && (
+            <div className="border-t pt-2">
+              <button
+                type="button"
+                onClick={() => setShowNotebook(!showNotebook)}
+                className="w-full flex items-center justify-center gap-1 text-[10px] text-muted-foreground hover:text-foreground"
+              >
+                <NotebookPen className="w-3 h-3" />
+                私人笔记
+                <ChevronDown className={cn('w-3 h-3 transition-transform', showNotebook && 'rotate-180')} />
+              </button>
+              {showNotebook && <NotebookDetail notebook={notebook} />}
+            </div>
+          )}
         </CardContent>
     </Card>
   );
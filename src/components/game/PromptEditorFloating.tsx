@@ -9,6 +9,8 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { PenTool, ChevronUp, ChevronDown, Trash2, Plus, Check, X, ArrowUp, ArrowDown, FileText, Clock, Edit2, History } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { DEFAULT_PROMPT_CONFIG, PROMPT_PLACEHOLDERS } from '@/lib/prompt-template';
+import { PromptHistoryDialog } from './PromptHistoryDialog';
 
 /**
  * Simple UUID generator
@@ -35,13 +37,18 @@ export function PromptEditorFloating() {
   const [newItemContent, setNewItemContent] = useState('');
   const [newItemRole, setNewItemRole] = useState<'user' | 'assistant'>('user');
   const [isSaving, setIsSaving] = useState(false);
+  const [revisionNote, setRevisionNote] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
 
   const {
     promptConfigs,
     currentPromptConfigId,
     addPromptConfig,
     updatePromptConfig,
+    mergePromptConfigs,
     setCurrentPromptConfig,
+    promptAuthor,
+    setPromptAuthor,
     gameState,
   } = useGameStore();
 
@@ -61,13 +68,25 @@ export function PromptEditorFloating() {
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
 
-  // Initialize editing items when dialog opens or config changes
+  // Initialize editing items when dialog opens or config changes - without a saved config, start from the built-in prompt
+  // 复制条目，编辑时不要改到 store 里或内置配置的对象
   useEffect(() => {
-    if (isOpen && currentConfig) {
-      setEditingItems([...currentConfig.items]);
+    if (isOpen) {
+      setEditingItems((currentConfig ?? DEFAULT_PROMPT_CONFIG).items.map((item) => ({ ...item })));
     }
   }, [isOpen, currentConfig]);
 
+  // Pull the configs saved on the server when the editor opens, so the whole team sees them
+  useEffect(() => {
+    if (!isOpen) return;
+    fetch('/api/prompt-config')
+      .then((res) => (res.ok ? (res.json() as Promise<{ configs: PromptConfig[] }>) : null))
+      .then((data) => {
+        if (data) mergePromptConfigs(data.configs);
+      })
+      .catch((error) => console.error('Failed to load prompt configs:', error));
+  }, [isOpen, mergePromptConfigs]);
+
   // Handle dragging (desktop only)
   const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
     if (isMobile) return; // Disable dragging on mobile
@@ -194,12 +213,13 @@ export function PromptEditorFloating() {
         const res = await fetch('/api/prompt-config', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(updated),
+          body: JSON.stringify({ ...updated, author: promptAuthor, note: revisionNote }),
         });
 
         if (!res.ok) {
           throw new Error(`Failed to save: ${res.status} ${res.statusText}`);
         }
+        updatePromptConfig(((await res.json()) as { config: PromptConfig }).config);
       } else {
         // Create new config
         const newConfig: PromptConfig = {
@@ -217,14 +237,16 @@ export function PromptEditorFloating() {
         const res = await fetch('/api/prompt-config', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(newConfig),
+          body: JSON.stringify({ ...newConfig, author: promptAuthor, note: revisionNote }),
         });
 
         if (!res.ok) {
           throw new Error(`Failed to save: ${res.status} ${res.statusText}`);
         }
+        updatePromptConfig(((await res.json()) as { config: PromptConfig }).config);
       }
 
+      setRevisionNote('');
       setIsOpen(false);
     } catch (error) {
       console.error('Failed to save prompt config:', error);
@@ -336,7 +358,10 @@ export function PromptEditorFloating() {
                 !isMobile && 'rounded-t-lg'
               } ${isMobile ? 'cursor-auto' : 'cursor-grab active:cursor-grabbing'}`}
             >
-              <h2 className="font-semibold text-lg md:text-base">Prompt 编辑器</h2>
+              <h2 className="font-semibold text-lg md:text-base">
+                Prompt 编辑器
+                <span className="ml-2 text-xs font-normal opacity-80">{currentConfig?.name ?? DEFAULT_PROMPT_CONFIG.name}</span>
+              </h2>
               <button
                 onClick={() => setIsOpen(false)}
                 className="hover:bg-white/20 p-1 rounded transition-colors"
@@ -348,6 +373,26 @@ export function PromptEditorFloating() {
 
             {/* Content - Scrollable */}
             <div className="flex-1 overflow-y-auto p-4 md:p-4">
+              {/* Config picker */}
+              <div className="mb-3" data-no-drag>
+                <Select
+                  value={currentConfig?.id ?? DEFAULT_PROMPT_CONFIG.id}
+                  onValueChange={(id) => setCurrentPromptConfig(id === DEFAULT_PROMPT_CONFIG.id ? null : id)}
+                >
+                  <SelectTrigger className="text-xs h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_PROMPT_CONFIG.id} className="text-xs">{DEFAULT_PROMPT_CONFIG.name}</SelectItem>
+                    {promptConfigs.map((config) => (
+                      <SelectItem key={config.id} value={config.id} className="text-xs">
+                        {config.name}{config.version ? ` · v${config.version}` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               {editingItems.length === 0 ? (
                 <p className="text-gray-500 text-sm">暂无 Prompt 项目</p>
               ) : (
@@ -436,6 +481,21 @@ export function PromptEditorFloating() {
                 </Select>
               </div>
 
+              {/* Placeholders - click to insert */}
+              <div className="mb-2 flex flex-wrap gap-1" data-no-drag>
+                {PROMPT_PLACEHOLDERS.map(({ name, description }) => (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => setNewItemContent((content) => `${content}{{${name}}}`)}
+                    className="text-[10px] font-mono px-1.5 py-0.5 rounded border border-gray-300 bg-white hover:bg-blue-50 text-gray-600"
+                    title={description}
+                  >
+                    {`{{${name}}}`}
+                  </button>
+                ))}
+              </div>
+
               {/* Content Input */}
               <div className="mb-2">
                 <Input
@@ -476,10 +536,52 @@ export function PromptEditorFloating() {
                 </Button>
               </div>
             </div>
+
+            {/* Revision info - recorded on the saved version */}
+            <div className="mt-4 pt-4 border-t border-gray-200">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs font-medium text-gray-600">保存说明</p>
+                {currentConfig && (
+                  <button
+                    onClick={() => setShowHistory(true)}
+                    className="text-xs text-blue-600 hover:underline flex items-center gap-1"
+                    data-no-drag
+                  >
+                    <History className="h-3.5 w-3.5" />
+                    版本历史{currentConfig.version ? `（v${currentConfig.version}）` : ''}
+                  </button>
+                )}
+              </div>
+              <div className={`flex gap-2 ${isMobile ? 'flex-col' : ''}`}>
+                <Input
+                  value={promptAuthor}
+                  onChange={(e) => setPromptAuthor(e.target.value)}
+                  placeholder="署名"
+                  className={cn('text-xs', !isMobile && 'w-28')}
+                  data-no-drag
+                />
+                <Input
+                  value={revisionNote}
+                  onChange={(e) => setRevisionNote(e.target.value)}
+                  placeholder="这次改了什么、为什么改"
+                  className="text-xs flex-1"
+                  data-no-drag
+                />
+              </div>
+            </div>
             </div>
 
             {/* Footer - Responsive Buttons */}
             <div className={`border-t border-gray-200 px-4 py-3 bg-gray-50 ${!isMobile && 'rounded-b-lg'} flex gap-2 ${isMobile ? 'flex-col-reverse' : 'justify-end'}`}>
+              <Button
+                onClick={() => setEditingItems(DEFAULT_PROMPT_CONFIG.items.map((item) => ({ ...item })))}
+                variant="ghost"
+                size={isMobile ? 'default' : 'sm'}
+                className={cn(isMobile ? 'w-full' : 'mr-auto', 'text-xs')}
+                data-no-drag
+              >
+                恢复内置模板
+              </Button>
               <Button
                 onClick={() => setIsOpen(false)}
                 variant="outline"
@@ -517,6 +619,15 @@ export function PromptEditorFloating() {
         </>
       )}
 
+      {currentConfig && (
+        <PromptHistoryDialog
+          configId={currentConfig.id}
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          onRestored={updatePromptConfig}
+        />
+      )}
+
       {/* Logs Viewer Modal */}
       {showLogs && (
         <>
@@ -583,15 +694,18 @@ export function PromptEditorFloating() {
                             style={{
                               backgroundColor: log.type === 'request' ? '#dbeafe' :
                                                log.type === 'response' ? '#dcfce7' :
+                                               log.type === 'rejected' ? '#fef3c7' :
                                                '#fee2e2',
                               color: log.type === 'request' ? '#0369a1' :
                                      log.type === 'response' ? '#166534' :
+                                     log.type === 'rejected' ? '#92400e' :
                                      '#991b1b'
                             }}
                           >
                             {log.type === 'request' && '📤 请求'}
                             {log.type === 'response' && '📥 响应'}
                             {log.type === 'error' && '❌ 错误'}
+                            {log.type === 'rejected' && '⚠️ 驳回'}
                           </span>
                           {log.playerName && (
                             <span className="text-xs text-gray-600 font-medium">
@@ -625,6 +739,23 @@ export function PromptEditorFloating() {
                               耗时: {log.duration}ms
                             </div>
                           )}
+                          {(log.promptTokens !== undefined || log.completionTokens !== undefined) && (
+                            <div className="text-xs text-gray-500">
+                              {log.model && `${log.model} · `}Token: 输入 {log.promptTokens ?? 0} / 输出 {log.completionTokens ?? 0}
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {log.type === 'rejected' && (
+                        <div className="bg-amber-50 rounded p-2 text-xs text-gray-700 max-h-32 overflow-y-auto border border-amber-100">
+                          <div className="font-semibold text-amber-700 mb-1">不合规则的选择：</div>
+                          <pre className="whitespace-pre-wrap break-words text-xs font-mono">
+                            {log.response || '（无内容）'}
+                          </pre>
+                          <div className="text-xs text-amber-700 mt-1">
+                            驳回原因: {log.error}
+                          </div>
                         </div>
                       )}
 
@@ -0,0 +1,258 @@
+/**
+ * Prompt history dialog - saved versions of a prompt config, side-by-side diff and rollback
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { PromptConfig, PromptConfigVersion } from '@/types/game';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useGameStore } from '@/stores/game-store';
+import { diffPromptConfigs, type DiffRow, type PromptItemDiff } from '@/lib/prompt-diff';
+import { RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PromptHistoryDialogProps {
+  configId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: (config: PromptConfig) => void;
+}
+
+const CHANGE_BADGES: Record<PromptItemDiff['change'], { name: string; className: string }> = {
+  added: { name: '新增', className: 'bg-green-600' },
+  removed: { name: '删除', className: 'bg-red-600' },
+  changed: { name: '修改', className: 'bg-amber-600' },
+  unchanged: { name: '未改动', className: 'bg-gray-400' },
+};
+
+function formatSavedAt(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('zh-CN', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Two columns of lines - removed lines red on the left, added lines green on the right
+ */
+function SideBySide({ rows }: { rows: DiffRow[] }) {
+  return (
+    <div className="grid grid-cols-2 text-[11px] font-mono border rounded overflow-hidden">
+      {rows.map((row, index) => (
+        <div key={index} className="contents">
+          <div
+            className={cn(
+              'px-2 py-0.5 whitespace-pre-wrap break-all border-r min-h-[1.25rem]',
+              row.changed && row.left !== undefined && 'bg-red-50 text-red-800',
+              row.left === undefined && 'bg-gray-50',
+            )}
+          >
+            {row.left}
+          </div>
+          <div
+            className={cn(
+              'px-2 py-0.5 whitespace-pre-wrap break-all min-h-[1.25rem]',
+              row.changed && row.right !== undefined && 'bg-green-50 text-green-800',
+              row.right === undefined && 'bg-gray-50',
+            )}
+          >
+            {row.right}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function VersionSelect({
+  id,
+  label,
+  value,
+  versions,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number | null;
+  versions: PromptConfigVersion[];
+  onChange: (version: number) => void;
+}) {
+  return (
+    <label htmlFor={id} className="flex items-center gap-2 text-xs">
+      {label}
+      <select
+        id={id}
+        value={value ?? ''}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="px-2 py-1 border border-input rounded-md bg-background text-xs"
+      >
+        {versions.map((v) => (
+          <option key={v.version} value={v.version}>
+            v{v.version} · {formatSavedAt(v.savedAt)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export function PromptHistoryDialog({ configId, open, onOpenChange, onRestored }: PromptHistoryDialogProps) {
+  const promptAuthor = useGameStore((s) => s.promptAuthor);
+  const [versions, setVersions] = useState<PromptConfigVersion[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/prompt-config?id=${encodeURIComponent(configId)}&versions=true`);
+      if (!res.ok) {
+        throw new Error(res.status === 404 ? '这个配置还没有保存到服务器' : `${res.status} ${res.statusText}`);
+      }
+      const data = (await res.json()) as { versions: PromptConfigVersion[] };
+      setVersions(data.versions);
+      // 默认对比最新版本和它的上一版
+      const latest = data.versions.at(-1)?.version ?? null;
+      setToVersion(latest);
+      setFromVersion(data.versions.at(-2)?.version ?? latest);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [configId]);
+
+  useEffect(() => {
+    if (open) void loadVersions();
+  }, [open, loadVersions]);
+
+  const handleRestore = async (version: number) => {
+    setRestoring(version);
+    try {
+      const res = await fetch(`/api/prompt-config?id=${encodeURIComponent(configId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ restoreVersion: version, author: promptAuthor, note: `回滚到 v${version}` }),
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status} ${res.statusText}`);
+      }
+      onRestored(((await res.json()) as { config: PromptConfig }).config);
+      await loadVersions();
+    } catch (err) {
+      setError(`回滚失败: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const latestVersion = versions.at(-1)?.version;
+  const before = versions.find((v) => v.version === fromVersion);
+  const after = versions.find((v) => v.version === toVersion);
+  const diffs = before && after ? diffPromptConfigs(before.config, after.config) : [];
+  const shownDiffs = showUnchanged ? diffs : diffs.filter((diff) => diff.change !== 'unchanged');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl w-[95vw] h-[85vh] flex flex-col gap-3">
+        <DialogHeader>
+          <DialogTitle>Prompt 版本历史</DialogTitle>
+          <DialogDescription>每次保存都会留下一个版本。选两个版本并排对比，或把配置回滚到任意版本。</DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex-1 min-h-0 flex gap-3">
+          {/* Version list - newest first */}
+          <ScrollArea className="w-64 flex-shrink-0 border rounded-md">
+            <div className="p-2 space-y-2">
+              {[...versions].reverse().map((v) => (
+                <div
+                  key={v.version}
+                  className={cn(
+                    'rounded border p-2 text-xs space-y-1',
+                    (v.version === fromVersion || v.version === toVersion) && 'border-primary bg-primary/5',
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-1">
+                    <span className="font-semibold">v{v.version}</span>
+                    <span className="text-muted-foreground">{formatSavedAt(v.savedAt)}</span>
+                  </div>
+                  {v.author && <div className="text-muted-foreground">{v.author}</div>}
+                  {v.note && <div>{v.note}</div>}
+                  {v.restoredFrom !== undefined && (
+                    <div className="text-muted-foreground">由 v{v.restoredFrom} 恢复</div>
+                  )}
+                  <div className="flex gap-1 pt-1">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-6 px-2 text-[11px]"
+                      onClick={() => {
+                        setToVersion(v.version);
+                        setFromVersion(versions[versions.indexOf(v) - 1]?.version ?? v.version);
+                      }}
+                    >
+                      看改动
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-6 px-2 text-[11px]"
+                      disabled={v.version === latestVersion || restoring !== null}
+                      onClick={() => void handleRestore(v.version)}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      {restoring === v.version ? '回滚中...' : '回滚'}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {/* Diff */}
+          <div className="flex-1 min-w-0 flex flex-col gap-2">
+            <div className="flex flex-wrap items-center gap-3">
+              <VersionSelect id="diff-from" label="旧版本" value={fromVersion} versions={versions} onChange={setFromVersion} />
+              <VersionSelect id="diff-to" label="新版本" value={toVersion} versions={versions} onChange={setToVersion} />
+              <label className="flex items-center gap-1 text-xs">
+                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                显示未改动的条目
+              </label>
+            </div>
+
+            <ScrollArea className="flex-1 border rounded-md">
+              <div className="p-3 space-y-3">
+                {shownDiffs.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-8">
+                    {versions.length === 0 ? '还没有保存过的版本' : '这两个版本之间没有改动'}
+                  </p>
+                )}
+                {shownDiffs.map((diff) => (
+                  <div key={diff.id} className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <Badge className={CHANGE_BADGES[diff.change].className}>{CHANGE_BADGES[diff.change].name}</Badge>
+                      <span className="font-medium">{diff.label}</span>
+                      {diff.notes.map((note) => (
+                        <span key={note} className="text-xs text-muted-foreground">{note}</span>
+                      ))}
+                    </div>
+                    <SideBySide rows={diff.rows} />
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,6 +9,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { useGameStore } from '@/stores/game-store';
 import { buildPrompt } from '@/lib/gemini';
+import { getActivePromptConfig } from '@/lib/prompt-template';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Brain, User, Users, Skull } from 'lucide-react';
 import type { Player } from '@/types/game';
@@ -28,6 +29,8 @@ const roleNames: Record<string, { name: string; subtitle: string }> = {
   coroner: { name: '食灰者', subtitle: 'Ash-Walker' },
   twin: { name: '共誓者', subtitle: 'The Twin' },
   guard: { name: '设闩者', subtitle: 'Guardian' },
+  witch: { name: '秘药者', subtitle: 'The Apothecary' },
+  hunter: { name: '鸣枪者', subtitle: 'The Last Shot' },
   innocent: { name: '无知者', subtitle: 'The Innocent' },
 };
 
@@ -45,13 +48,13 @@ function getFactionDisplay(role: string): { name: string; color: string } {
  * Individual player prompt display
  */
 function PlayerPromptDisplay({ player }: { player: Player }) {
-  const { gameState } = useGameStore();
+  const { gameState, promptConfigs, currentPromptConfigId } = useGameStore();
 
   if (!gameState) {
     return null;
   }
 
-  const prompt = buildPrompt(player, gameState);
+  const prompt = buildPrompt(player, gameState, undefined, getActivePromptConfig(promptConfigs, currentPromptConfigId));
   const roleInfo = roleNames[player.role] || { name: player.role, subtitle: '' };
   const faction = getFactionDisplay(player.role);
 
@@ -0,0 +1,252 @@
+/**
+ * Replay viewer - step through a saved or finished game with a round/phase scrubber
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { GameState } from '@/types/game';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { buildReplayTimeline, getReplayFrame } from '@/lib/replay';
+import { cn } from '@/lib/utils';
+import { PlayerCard } from './PlayerCard';
+import { MessageFlow } from './MessageFlow';
+import { VoteTracker } from './VoteTracker';
+import { Brain, Film, Pause, Play, Skull, SkipBack, SkipForward } from 'lucide-react';
+
+interface ReplayViewerProps {
+  gameState: GameState;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Phase names in Chinese
+ */
+const phaseNames: Record<string, string> = {
+  prologue: '序章',
+  setup: '序章',
+  night: '夜晚',
+  day: '白天',
+  voting: '投票',
+  secret_meeting: '密会',
+  event: '事件',
+  end: '结束',
+};
+
+/**
+ * Playback speeds - milliseconds per message
+ */
+const SPEED_OPTIONS = [
+  { label: '0.5x', interval: 3000 },
+  { label: '1x', interval: 1500 },
+  { label: '2x', interval: 750 },
+  { label: '4x', interval: 375 },
+  { label: '8x', interval: 180 },
+];
+
+const GAME_MESSAGE_TYPES = ['system', 'speech', 'vote', 'death', 'action', 'secret', 'last_words'];
+
+export function ReplayViewer({ gameState, open, onOpenChange }: ReplayViewerProps) {
+  const timeline = useMemo(() => buildReplayTimeline(gameState), [gameState]);
+  const lastStep = Math.max(0, timeline.steps.length - 1);
+
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playInterval, setPlayInterval] = useState(1500);
+  const [showThinking, setShowThinking] = useState(false);
+
+  const frame = getReplayFrame(gameState, timeline, step);
+  const { segments } = timeline;
+
+  // Segments with a death get a skull on the scrubber
+  const deathSegments = useMemo(() => {
+    const marked = new Set<number>();
+    timeline.deaths.forEach((death) => {
+      const deathStep = timeline.steps.findIndex((messageIndex) => messageIndex + 1 >= death.messageCount);
+      const segmentIndex = segments.findIndex((s) => s.start <= deathStep && deathStep <= s.end);
+      if (segmentIndex >= 0) marked.add(segmentIndex);
+    });
+    return marked;
+  }, [timeline, segments]);
+
+  // Start from the beginning whenever a new game is opened
+  useEffect(() => {
+    if (open) {
+      setStep(0);
+      setIsPlaying(false);
+    }
+  }, [open, gameState]);
+
+  // Play forward one message at a time
+  useEffect(() => {
+    if (!open || !isPlaying) return;
+    if (step >= lastStep) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep((s) => Math.min(s + 1, lastStep)), playInterval);
+    return () => clearTimeout(timer);
+  }, [open, isPlaying, step, lastStep, playInterval]);
+
+  const jumpToSegment = (segmentIndex: number) => {
+    const segment = segments[Math.max(0, Math.min(segmentIndex, segments.length - 1))];
+    if (segment) setStep(segment.start);
+  };
+
+  // Back to the start of this phase, or to the previous phase when already there
+  const previousSegment = frame.step > (segments[frame.segmentIndex]?.start ?? 0)
+    ? frame.segmentIndex
+    : frame.segmentIndex - 1;
+
+  const segmentLabel = (round: number, phase?: string) =>
+    `${round > 0 ? `R${round} ` : ''}${phase ? (phaseNames[phase] ?? phase) : ''}`;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) setIsPlaying(false);
+        onOpenChange(nextOpen);
+      }}
+    >
+      <DialogContent className="max-w-7xl w-[95vw] h-[90vh] flex flex-col gap-3">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle className="flex items-center gap-2 font-cinzel tracking-wide">
+            <Film className="w-5 h-5" />
+            对局回放
+          </DialogTitle>
+          <DialogDescription>
+            第 {frame.state.round} 回合 · {phaseNames[frame.state.phase] ?? frame.state.phase}
+            {' · '}随机种子 <span className="font-mono">{gameState.seed}</span>
+            {frame.state.winner && (
+              <span className="ml-2 font-semibold">
+                {frame.state.winner.faction === 'marked' ? '收割阵营获胜' : '羔羊阵营获胜'}
+              </span>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Board at the current step */}
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row gap-3">
+          <div className="md:w-64 flex-shrink-0 overflow-y-auto space-y-2 pr-1">
+            {frame.state.players.map((player) => (
+              <PlayerCard
+                key={player.id}
+                player={player}
+                showRole={true}
+                isCurrent={player.name === frame.speaker}
+                model={player.modelProfile?.model}
+              />
+            ))}
+          </div>
+
+          <div className="flex-1 min-h-0 rounded-lg border bg-card/50 overflow-hidden">
+            <MessageFlow
+              messages={frame.state.messages}
+              players={gameState.players}
+              filterTypes={showThinking ? [...GAME_MESSAGE_TYPES, 'thinking'] : GAME_MESSAGE_TYPES}
+              readOnly
+            />
+          </div>
+
+          <div className="md:w-72 flex-shrink-0 min-h-0">
+            <VoteTracker gameState={frame.state} />
+          </div>
+        </div>
+
+        {/* Round / phase scrubber */}
+        <div className="flex-shrink-0 space-y-3 border-t pt-3">
+          <div className="flex gap-1 overflow-x-auto pb-1">
+            {segments.map((segment, index) => (
+              <button
+                key={`${segment.round}-${segment.phase}-${segment.start}`}
+                type="button"
+                onClick={() => jumpToSegment(index)}
+                className={cn(
+                  'flex-shrink-0 flex items-center gap-1 px-2 py-1 rounded border text-xs transition-colors',
+                  index === frame.segmentIndex
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : 'bg-background hover:bg-accent',
+                )}
+              >
+                {segmentLabel(segment.round, segment.phase)}
+                {deathSegments.has(index) && <Skull className="w-3 h-3" />}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => jumpToSegment(previousSegment)}
+              title="上一阶段"
+            >
+              <SkipBack className="w-4 h-4" />
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                if (step >= lastStep) setStep(0);
+                setIsPlaying(!isPlaying);
+              }}
+              title={isPlaying ? '暂停' : '播放'}
+            >
+              {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => jumpToSegment(frame.segmentIndex + 1)}
+              title="下一阶段"
+            >
+              <SkipForward className="w-4 h-4" />
+            </Button>
+
+            <Slider
+              value={[frame.step]}
+              onValueChange={(value) => setStep(value[0])}
+              max={lastStep}
+              step={1}
+              className="flex-1"
+            />
+            <span className="text-xs text-muted-foreground font-mono w-20 text-right">
+              {frame.step + 1}/{lastStep + 1}
+            </span>
+
+            <select
+              value={playInterval}
+              onChange={(e) => setPlayInterval(Number(e.target.value))}
+              className="px-2 py-1 border border-input rounded-md bg-background text-xs"
+              title="播放速度"
+            >
+              {SPEED_OPTIONS.map((option) => (
+                <option key={option.label} value={option.interval}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+
+            <Button
+              size="sm"
+              variant={showThinking ? 'default' : 'outline'}
+              onClick={() => setShowThinking(!showThinking)}
+              title="显示内心独白"
+            >
+              <Brain className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,6 +6,7 @@
 
 import { useState } from 'react';
 import { useGameStore } from '@/stores/game-store';
+import type { GameState } from '@/types/game';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -18,12 +19,15 @@ import {
   Clock,
   Users,
   AlertCircle,
+  Film,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ReplayViewer } from './ReplayViewer';
 
 export function SaveGameManager() {
   const [saveName, setSaveName] = useState('');
   const [saveError, setSaveError] = useState('');
+  const [replayState, setReplayState] = useState<GameState | null>(null);
   const gameState = useGameStore((state) => state.gameState);
   const saveGame = useGameStore((state) => state.saveGame);
   const loadGame = useGameStore((state) => state.loadGame);
@@ -171,6 +175,14 @@ export function SaveGameManager() {
                               <FolderOpen className="w-3 h-3" />
                               读取
                             </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setReplayState(save.state)}
+                              title="回放"
+                            >
+                              <Film className="w-3 h-3" />
+                            </Button>
                             <Button
                               size="sm"
                               variant="outline"
@@ -191,7 +203,7 @@ export function SaveGameManager() {
                           </Badge>
                           {save.state.winner && (
                             <Badge className="text-xs">
-                              {save.state.winner === 'marked' ? '收割胜利' : '羔羊胜利'}
+                              {save.state.winner.faction === 'marked' ? '收割胜利' : '羔羊胜利'}
                             </Badge>
                           )}
                         </div>
@@ -203,6 +215,16 @@ export function SaveGameManager() {
           )}
         </div>
       </CardContent>
+
+      {replayState && (
+        <ReplayViewer
+          gameState={replayState}
+          open={true}
+          onOpenChange={(open) => {
+            if (!open) setReplayState(null);
+          }}
+        />
+      )}
     </Card>
   );
 }
@@ -9,7 +9,7 @@ import type { Player } from '@/types/game';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Users, Check, Flame, Ghost, Ear, Search, Users as UsersIcon, Shield, User } from 'lucide-react';
+import { Users, Check, Flame, Ghost, Ear, Search, Users as UsersIcon, Shield, FlaskConical, Crosshair, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface SecretMeetingSelectorProps {
@@ -28,6 +28,8 @@ const roleNames: Record<string, { name: string; subtitle: string }> = {
   coroner: { name: '食灰者', subtitle: 'Ash-Walker' },
   twin: { name: '共誓者', subtitle: 'The Twin' },
   guard: { name: '设闩者', subtitle: 'Guardian' },
+  witch: { name: '秘药者', subtitle: 'The Apothecary' },
+  hunter: { name: '鸣枪者', subtitle: 'The Last Shot' },
   innocent: { name: '无知者', subtitle: 'The Innocent' },
 };
 
@@ -41,6 +43,8 @@ const roleIconComponents: Record<string, React.ComponentType<{ className?: strin
   coroner: Search,
   twin: UsersIcon,
   guard: Shield,
+  witch: FlaskConical,
+  hunter: Crosshair,
   innocent: User,
 };
 
@@ -54,6 +58,8 @@ const roleColors: Record<string, string> = {
   coroner: 'text-cyan-400 bg-cyan-950/30 border-cyan-500/40',
   twin: 'text-teal-400 bg-teal-950/30 border-teal-500/40',
   guard: 'text-amber-400 bg-amber-950/30 border-amber-500/40',
+  witch: 'text-emerald-400 bg-emerald-950/30 border-emerald-500/40',
+  hunter: 'text-orange-400 bg-orange-950/30 border-orange-500/40',
   innocent: 'text-blue-400 bg-blue-950/30 border-blue-500/40',
 };
 
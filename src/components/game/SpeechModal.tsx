@@ -26,6 +26,8 @@ const roleNames: Record<string, { name: string; subtitle: string }> = {
   coroner: { name: '食灰者', subtitle: 'Ash-Walker' },
   twin: { name: '共誓者', subtitle: 'The Twin' },
   guard: { name: '设闩者', subtitle: 'Guardian' },
+  witch: { name: '秘药者', subtitle: 'The Apothecary' },
+  hunter: { name: '鸣枪者', subtitle: 'The Last Shot' },
   innocent: { name: '无知者', subtitle: 'The Innocent' },
 };
 
@@ -39,6 +41,7 @@ const messageTypeNames: Record<string, string> = {
   action: '行动',
   death: '死亡',
   secret: '密会',
+  last_words: '遗言',
 };
 
 export function SpeechModal({ message, player, isOpen, onClose }: SpeechModalProps) {
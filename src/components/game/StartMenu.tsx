@@ -6,11 +6,15 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import { Mountain, Play, Settings } from 'lucide-react';
+import { Mountain, Play, Settings, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useGameStore } from '@/stores/game-store';
 import { APISettingsDialog } from './APISettingsDialog';
-import type { GameConfig } from '@/types/game';
+import { GameSetupDialog } from './GameSetupDialog';
+import { CHARACTER_NAMES } from '@/lib/game-engine';
+import { validateGameConfig } from '@/lib/game-presets';
+import { isAPIConfigured } from '@/lib/llm-providers';
+import { toChineseNumber } from '@/lib/utils';
 
 interface Snowflake {
   x: number;
@@ -21,21 +25,6 @@ interface Snowflake {
   drift: number;
 }
 
-const DEFAULT_CONFIG: GameConfig = {
-  playerCount: 15,
-  roles: [
-    'marked', 'marked', 'marked',
-    'heretic',
-    'listener',
-    'coroner',
-    'twin', 'twin',
-    'guard',
-    'innocent', 'innocent', 'innocent', 'innocent', 'innocent', 'innocent',
-  ],
-  enableWitch: false,
-  enableHunter: false,
-};
-
 export function StartMenu() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -44,15 +33,22 @@ export function StartMenu() {
   const [snowVisible, setSnowVisible] = useState(false);
   const [backgroundVisible, setBackgroundVisible] = useState(false);
 
-  // Settings dialog
+  // Settings dialogs
   const [showAPISettings, setShowAPISettings] = useState(false);
+  const [showGameSetup, setShowGameSetup] = useState(false);
 
   const {
     startGame,
+    apiType,
     apiKey,
     apiUrl,
+    gameConfig,
+    humanPlayerName,
+    setHumanPlayerName,
   } = useGameStore();
 
+  const seatOptions = gameConfig.characters ?? CHARACTER_NAMES.slice(0, gameConfig.playerCount);
+
 
   // Orchestrated entry animation sequence
   useEffect(() => {
@@ -142,13 +138,19 @@ export function StartMenu() {
 
 
   const handleStart = () => {
-    if (!apiKey?.trim() || !apiUrl?.trim()) {
+    if (!isAPIConfigured(apiType, apiKey ?? '', apiUrl ?? '')) {
       // Show API settings dialog if no API key/url configured
       setShowAPISettings(true);
       return;
     }
 
-    startGame(DEFAULT_CONFIG);
+    if (validateGameConfig(gameConfig).length > 0) {
+      // Invalid setup - let the user fix it first
+      setShowGameSetup(true);
+      return;
+    }
+
+    startGame({ ...gameConfig, humanPlayerName: humanPlayerName ?? undefined });
     // Game will start at prologue phase, user needs to click next to proceed
   };
 
@@ -262,7 +264,7 @@ export function StartMenu() {
               }
             `}
           >
-            1913年深冬，十五名旅人被困于寂静山庄，山灵的契约已成
+            1913年深冬，{toChineseNumber(gameConfig.playerCount)}名旅人被困于寂静山庄，山灵的契约已成
           </p>
 
           {/* Action Buttons - Slide up from bottom */}
@@ -296,6 +298,41 @@ export function StartMenu() {
                 配置 API
               </span>
             </Button>
+
+            <Button
+              onClick={() => setShowGameSetup(true)}
+              variant="outline"
+              className="group relative px-8 py-6 bg-white/80 hover:bg-white text-slate-700 rounded-full font-cinzel tracking-widest text-lg transition-all duration-300 shadow-lg hover:shadow-xl border-2 border-slate-300"
+            >
+              <span className="flex items-center gap-3">
+                <Users className="w-5 h-5" strokeWidth={2} />
+                {gameConfig.playerCount} 人局
+              </span>
+            </Button>
+          </div>
+
+          {/* Seat selection - claim one character or spectate */}
+          <div
+            className={`
+              flex justify-center items-center gap-3 text-sm font-serif text-slate-600
+              transition-all duration-800 ease-out
+              ${stage === 'complete' ? 'opacity-100' : 'opacity-0'}
+            `}
+          >
+            <label htmlFor="human-seat">亲自扮演</label>
+            <select
+              id="human-seat"
+              value={humanPlayerName && seatOptions.includes(humanPlayerName) ? humanPlayerName : ''}
+              onChange={(e) => setHumanPlayerName(e.target.value || null)}
+              className="px-3 py-1.5 border border-slate-300 rounded-full bg-white/80 text-slate-700"
+            >
+              <option value="">旁观（全员 AI）</option>
+              {seatOptions.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
           </div>
 
         </div>
@@ -325,6 +362,12 @@ export function StartMenu() {
         open={showAPISettings}
         onOpenChange={setShowAPISettings}
       />
+
+      {/* Game Setup Dialog */}
+      <GameSetupDialog
+        open={showGameSetup}
+        onOpenChange={setShowGameSetup}
+      />
     </div>
     </>
   );
@@ -216,6 +216,8 @@ const ROLE_ENGLISH_NAMES: Record<string, string> = {
   coroner: 'ASH-WALKER',
   twin: 'THE TWIN',
   guard: 'GUARDIAN',
+  witch: 'THE APOTHECARY',
+  hunter: 'THE LAST SHOT',
   innocent: 'THE INNOCENT',
 };
 
@@ -505,6 +507,8 @@ function RoleSymbol({ role }: { role: string }) {
     coroner: '✟', // 食灰者 - 十字
     twin: '◐◑', // 共誓者 - 阴阳
     guard: '◆', // 设闩者 - 盾牌
+    witch: '⚗', // 秘药者 - 药瓶
+    hunter: '➹', // 鸣枪者 - 猎枪
     innocent: '○', // 无知者 - 圆
   };
 
@@ -523,6 +527,8 @@ export function TarotCard({ player, className, isFlipped = false, size = 'defaul
     coroner: { name: '食灰者', subtitle: 'Ash-Walker' },
     twin: { name: '共誓者', subtitle: 'The Twin' },
     guard: { name: '设闩者', subtitle: 'Guardian' },
+    witch: { name: '秘药者', subtitle: 'The Apothecary' },
+    hunter: { name: '鸣枪者', subtitle: 'The Last Shot' },
     innocent: { name: '无知者', subtitle: 'The Innocent' },
   };
 
@@ -0,0 +1,203 @@
+/**
+ * Usage stats panel - token usage and estimated cost by player, phase, round and model
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { GameState, ModelPrice } from '@/types/game';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useGameStore } from '@/stores/game-store';
+import { formatCost, formatTokens, summarizeUsage, type UsageRow } from '@/lib/usage-stats';
+import { BarChart3, Coins } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface UsageStatsPanelProps {
+  gameState: GameState;
+}
+
+/**
+ * Phase names in Chinese
+ */
+const phaseNames: Record<string, string> = {
+  prologue: '序章',
+  setup: '序章',
+  night: '夜晚',
+  day: '白天',
+  voting: '投票',
+  secret_meeting: '密会',
+  event: '事件',
+  end: '结束',
+};
+
+const BREAKDOWNS: { key: 'byPlayer' | 'byPhase' | 'byRound' | 'byModel'; name: string }[] = [
+  { key: 'byPlayer', name: '角色' },
+  { key: 'byPhase', name: '阶段' },
+  { key: 'byRound', name: '回合' },
+  { key: 'byModel', name: '模型' },
+];
+
+function rowLabel(breakdown: (typeof BREAKDOWNS)[number]['key'], key: string): string {
+  if (breakdown === 'byPhase') return phaseNames[key] ?? key;
+  if (breakdown === 'byRound' && key !== '未知') return `第 ${key} 回合`;
+  return key;
+}
+
+function UsageTable({ rows, label }: { rows: UsageRow[]; label: (key: string) => string }) {
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-muted-foreground">
+          <th className="text-left font-normal py-1"></th>
+          <th className="text-right font-normal py-1">请求</th>
+          <th className="text-right font-normal py-1">输入</th>
+          <th className="text-right font-normal py-1">输出</th>
+          <th className="text-right font-normal py-1">费用</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key} className="border-t border-border/50">
+            <td className="py-1 truncate max-w-[7rem]" title={label(row.key)}>{label(row.key)}</td>
+            <td className="py-1 text-right font-mono">{row.requests}</td>
+            <td className="py-1 text-right font-mono">{formatTokens(row.promptTokens)}</td>
+            <td className="py-1 text-right font-mono">{formatTokens(row.completionTokens)}</td>
+            <td className="py-1 text-right font-mono">{formatCost(row.cost)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Price inputs for one model - USD per million input/output tokens, blank clears the price
+ */
+function PriceEditor({
+  model,
+  price,
+  onChange,
+}: {
+  model: string;
+  price?: ModelPrice;
+  onChange: (price: ModelPrice | null) => void;
+}) {
+  const update = (field: keyof ModelPrice, text: string) => {
+    const value = text.trim() === '' ? NaN : Number(text);
+    const next = { input: price?.input ?? 0, output: price?.output ?? 0, [field]: value };
+    onChange(Number.isNaN(next.input) || Number.isNaN(next.output) ? null : next);
+  };
+
+  return (
+    <div className="grid grid-cols-[1fr_4.5rem_4.5rem] items-center gap-1.5">
+      <span className="text-xs font-mono truncate" title={model}>{model}</span>
+      <Input
+        inputMode="decimal"
+        placeholder="输入"
+        defaultValue={price?.input ?? ''}
+        onBlur={(e) => update('input', e.target.value)}
+        className="h-7 text-xs px-2"
+      />
+      <Input
+        inputMode="decimal"
+        placeholder="输出"
+        defaultValue={price?.output ?? ''}
+        onBlur={(e) => update('output', e.target.value)}
+        className="h-7 text-xs px-2"
+      />
+    </div>
+  );
+}
+
+export function UsageStatsPanel({ gameState }: UsageStatsPanelProps) {
+  const { modelPrices, setModelPrice } = useGameStore();
+  const [breakdown, setBreakdown] = useState<(typeof BREAKDOWNS)[number]['key']>('byPlayer');
+
+  const summary = summarizeUsage(gameState.apiLogs ?? [], modelPrices);
+  const { total } = summary;
+  const models = summary.byModel.map((row) => row.key).filter((model) => model !== '未知');
+
+  return (
+    <Card className="h-full flex flex-col">
+      <CardHeader className="flex-shrink-0 pb-2 px-3 py-2 bg-gradient-to-r from-card via-card/50 to-card border-b border-border">
+        <CardTitle className="text-sm font-cinzel tracking-wide">
+          <div className="flex items-center gap-2">
+            <BarChart3 className="w-4 h-4" />
+            <div>
+              用量统计
+              <span className="block text-[8px] text-muted-foreground font-normal tracking-widest opacity-60">
+                USAGE
+              </span>
+            </div>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex-1 overflow-hidden p-0">
+        <ScrollArea className="h-full px-3 pb-3">
+          <div className="space-y-3 pt-2">
+            {/* Totals */}
+            <div className="grid grid-cols-2 gap-2">
+              <div className="rounded-md border p-2">
+                <div className="text-[10px] text-muted-foreground">Token（输入 / 输出）</div>
+                <div className="text-sm font-mono font-semibold">
+                  {formatTokens(total.promptTokens)} / {formatTokens(total.completionTokens)}
+                </div>
+              </div>
+              <div className="rounded-md border p-2">
+                <div className="text-[10px] text-muted-foreground">预估费用（{total.requests} 次请求）</div>
+                <div className="text-sm font-mono font-semibold">{formatCost(total.cost)}</div>
+              </div>
+            </div>
+            {total.unpricedRequests > 0 && (
+              <p className="text-[10px] text-amber-600">
+                {total.unpricedRequests} 次请求的模型没有设置价格，未计入费用
+              </p>
+            )}
+
+            {/* Breakdown */}
+            <div className="flex gap-1">
+              {BREAKDOWNS.map(({ key, name }) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setBreakdown(key)}
+                  className={cn(
+                    'text-xs rounded border px-2 py-0.5 transition-colors',
+                    breakdown === key ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-accent',
+                  )}
+                >
+                  按{name}
+                </button>
+              ))}
+            </div>
+            {total.requests > 0 ? (
+              <UsageTable rows={summary[breakdown]} label={(key) => rowLabel(breakdown, key)} />
+            ) : (
+              <p className="text-xs text-muted-foreground text-center py-4">还没有 AI 请求</p>
+            )}
+
+            {/* Price table */}
+            {models.length > 0 && (
+              <div className="space-y-1.5">
+                <div className="flex items-center gap-1 text-xs font-semibold">
+                  <Coins className="w-3 h-3" />
+                  模型价格（美元 / 百万 token）
+                </div>
+                {models.map((model) => (
+                  <PriceEditor
+                    key={model}
+                    model={model}
+                    price={modelPrices[model]}
+                    onChange={(price) => setModelPrice(model, price)}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
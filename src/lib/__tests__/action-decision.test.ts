@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { describeDecision, parseActionDecision } from '@/lib/action-decision';
+
+describe('parseActionDecision', () => {
+  it('reads a fenced JSON answer and its thinking', () => {
+    const parsed = parseActionDecision(
+      '```json\n{"thinking": "她在躲闪", "target": "诺拉·格雷", "confidence": 0.8, "reason": "回避问题"}\n```',
+    );
+    expect(parsed).toEqual({
+      decision: { target: '诺拉·格雷', confidence: 0.8, reason: '回避问题' },
+      thinking: '她在躲闪',
+    });
+    expect(describeDecision({ target: '诺拉·格雷', confidence: 0.8, reason: '回避问题' })).toBe('诺拉·格雷（把握 80%） —— 回避问题');
+  });
+
+  it('treats null and "放弃" as passing', () => {
+    expect(parseActionDecision('{"target": null}')?.decision.target).toBeNull();
+    expect(parseActionDecision('{"target": "放弃"}')?.decision.target).toBeNull();
+    expect(parseActionDecision('{"action": "save", "target": null}')?.decision).toEqual({ target: null, action: 'save' });
+  });
+
+  it('rejects free text and malformed fields so the caller falls back to name matching', () => {
+    expect(parseActionDecision('【思考】嗯。\n【发言】诺拉·格雷')).toBeNull();
+    expect(parseActionDecision('{"target": "诺拉·格雷", "confidence": 80}')).toBeNull();
+    expect(parseActionDecision('{"target": ["诺拉·格雷"]}')).toBeNull();
+    expect(parseActionDecision('{"action": "kill"}')).toBeNull();
+    expect(parseActionDecision('{"target": "诺拉·格雷",}')).toBeNull();
+  });
+});
@@ -0,0 +1,446 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canHunterShoot,
+  checkWinCondition,
+  createGame,
+  gameReducer,
+  getActingPlayers,
+  getPlayerActionType,
+  getUnexaminedCorpses,
+  processNightPhase,
+  validatePlayerAction,
+} from '@/lib/game-engine';
+import { DEFAULT_CONFIG, buildRoles } from '@/lib/game-presets';
+import type { GameState, LastWordsMode, Player, Role } from '@/types/game';
+
+function createWitchGame(): GameState {
+  const state = createGame({
+    ...DEFAULT_CONFIG,
+    playerCount: 6,
+    roles: buildRoles({ marked: 1, witch: 1, guard: 1, innocent: 3 }),
+    characters: DEFAULT_CONFIG.characters?.slice(0, 6),
+    enableWitch: true,
+  });
+  state.phase = 'night';
+  state.round = 1;
+  return state;
+}
+
+function findRole(state: GameState, role: Role): Player {
+  const player = state.players.find((p) => p.role === role);
+  if (!player) throw new Error(`No ${role} in game`);
+  return player;
+}
+
+describe('processNightPhase', () => {
+  it('lets the antidote save the marked target', () => {
+    const state = createWitchGame();
+    const marked = findRole(state, 'marked');
+    const witch = findRole(state, 'witch');
+    const victim = findRole(state, 'innocent');
+
+    state.nightVotes = [{ from: marked.name, target: victim.name }];
+    state.nightActions = [{ playerId: witch.id, action: 'save', target: victim.name, round: 1 }];
+
+    const result = processNightPhase(state);
+    expect(result.killedPlayer).toBeNull();
+    expect(result.poisonedPlayer).toBeNull();
+  });
+
+  it('adds the poisoned player on top of the marked kill', () => {
+    const state = createWitchGame();
+    const marked = findRole(state, 'marked');
+    const witch = findRole(state, 'witch');
+    const [victim, poisoned] = state.players.filter((p) => p.role === 'innocent');
+
+    state.nightVotes = [{ from: marked.name, target: victim.name }];
+    state.nightActions = [{ playerId: witch.id, action: 'poison', target: poisoned.name, round: 1 }];
+
+    const result = processNightPhase(state);
+    expect(result.killedPlayer?.name).toBe(victim.name);
+    expect(result.poisonedPlayer?.name).toBe(poisoned.name);
+  });
+
+  it('ignores potions used on earlier nights', () => {
+    const state = createWitchGame();
+    const marked = findRole(state, 'marked');
+    const witch = findRole(state, 'witch');
+    const victim = findRole(state, 'innocent');
+
+    state.round = 2;
+    state.nightVotes = [{ from: marked.name, target: victim.name }];
+    state.nightActions = [{ playerId: witch.id, action: 'save', target: victim.name, round: 1 }];
+
+    expect(processNightPhase(state).killedPlayer?.name).toBe(victim.name);
+  });
+
+  it('reads the potion the witch chose past a negated one', () => {
+    const night = createWitchGame();
+    const marked = findRole(night, 'marked');
+    const witch = findRole(night, 'witch');
+    const [victim, other] = night.players.filter((p) => p.role === 'innocent');
+    night.nightPhase = 'witch';
+    night.nightVotes = [{ from: marked.name, target: victim.name }];
+
+    const answer = (content: string) =>
+      gameReducer(night, { type: 'NIGHT_ACTION', player: witch.name, content }).nightActions;
+    expect(answer('用解药救他，不用毒药')).toEqual([{ playerId: witch.id, action: 'save', target: victim.name, round: 1 }]);
+    expect(answer(`不救，毒死 ${other.name}`)).toEqual([{ playerId: witch.id, action: 'poison', target: other.name, round: 1 }]);
+    expect(answer('不毒')).toEqual([]);
+    expect(answer('放弃')).toEqual([]);
+  });
+});
+
+describe('canHunterShoot', () => {
+  it('lets the hunter shoot unless poisoned that night', () => {
+    const state = createGame({
+      ...DEFAULT_CONFIG,
+      playerCount: 6,
+      roles: buildRoles({ marked: 1, witch: 1, hunter: 1, innocent: 3 }),
+      characters: DEFAULT_CONFIG.characters?.slice(0, 6),
+      enableWitch: true,
+      enableHunter: true,
+    });
+    state.round = 1;
+    const hunter = findRole(state, 'hunter');
+    const witch = findRole(state, 'witch');
+
+    expect(canHunterShoot(state, hunter)).toBe(true);
+    expect(canHunterShoot(state, witch)).toBe(false);
+
+    state.nightActions = [{ playerId: witch.id, action: 'poison', target: hunter.name, round: 1 }];
+    expect(canHunterShoot(state, hunter)).toBe(false);
+  });
+});
+
+describe('validatePlayerAction', () => {
+  it('rejects dead, fellow marked and repeated guard targets but lets anyone pass', () => {
+    const state = createWitchGame();
+    const marked = findRole(state, 'marked');
+    const guard = findRole(state, 'guard');
+    const [victim, other] = state.players.filter((p) => p.role === 'innocent');
+    victim.isAlive = false;
+
+    state.nightPhase = 'marked-vote';
+    const markedVote = (content: string) => validatePlayerAction(state, { type: 'NIGHT_ACTION', player: marked.name, content });
+    expect(markedVote(victim.name)).toBe(`${victim.name} 已经死了`);
+    expect(markedVote(marked.name)).toBe(`${marked.name} 是你的同类`);
+    expect(markedVote(other.name)).toBeNull();
+    expect(markedVote('放弃')).toBeNull();
+    expect(markedVote('还没想好')).toBe('你的回答里没有任何人的名字');
+
+    state.nightPhase = 'guard';
+    state.lastGuardedPlayer = other.name;
+    expect(validatePlayerAction(state, {
+      type: 'NIGHT_ACTION',
+      player: guard.name,
+      content: other.name,
+      decision: { target: other.name },
+    })).toBe(`你昨晚守护了 ${other.name}，不能连续两晚守护同一个人`);
+  });
+});
+
+describe('checkWinCondition', () => {
+  it('ends a slaughter-side game once every special lamb is dead', () => {
+    const state = createWitchGame();
+    state.rules = { ...state.rules, victoryMode: 'slaughter_side' };
+    expect(checkWinCondition(state)).toBeNull();
+
+    findRole(state, 'witch').isAlive = false;
+    expect(checkWinCondition(state)).toBeNull();
+    findRole(state, 'guard').isAlive = false;
+    expect(checkWinCondition(state)).toEqual({ faction: 'marked', reason: 'specials_eliminated' });
+  });
+
+  it('counts survivors once the round limit has passed', () => {
+    const state = createWitchGame();
+    state.rules = { ...state.rules, roundLimit: 5 };
+    state.round = 5;
+    expect(checkWinCondition(state)).toBeNull();
+
+    state.round = 6;
+    expect(checkWinCondition(state)).toEqual({ faction: 'lamb', reason: 'round_limit' });
+  });
+});
+
+describe('createGame seeding', () => {
+  it('deals the same roles for the same seed', () => {
+    const config = { ...DEFAULT_CONFIG, seed: 12345 };
+    const deal = (state: GameState) => state.players.map((p) => `${p.name}:${p.role}`);
+
+    const first = createGame(config);
+    const second = createGame(config);
+    expect(deal(first)).toEqual(deal(second));
+    expect(first.seed).toBe(12345);
+    expect(first.rngState).toBe(second.rngState);
+  });
+});
+
+describe('gameReducer', () => {
+  function createPrologueGame(lastWords: LastWordsMode = 'off'): GameState {
+    return createGame({
+      ...DEFAULT_CONFIG,
+      playerCount: 6,
+      roles: buildRoles({ marked: 1, witch: 1, guard: 1, innocent: 3 }),
+      characters: DEFAULT_CONFIG.characters?.slice(0, 6),
+      seed: 7,
+      lastWords,
+    });
+  }
+
+  function createDayGame(lastWords?: LastWordsMode): GameState {
+    // Prologue leads into the morning secret meeting - skip it
+    const state = gameReducer(createPrologueGame(lastWords), { type: 'ADVANCE' });
+    return gameReducer(state, { type: 'ADVANCE' });
+  }
+
+  function sacrifice(state: GameState, target: Player): GameState {
+    let next = gameReducer(state, { type: 'ADVANCE' });
+    for (const voter of getActingPlayers(next)) {
+      next = gameReducer(next, { type: 'VOTE', player: voter.name, content: `我投 ${target.name}` });
+    }
+    return gameReducer(next, { type: 'ADVANCE' });
+  }
+
+  it('moves from the prologue through a skipped meeting into day one', () => {
+    const state = createDayGame();
+    expect(state.phase).toBe('day');
+    expect(state.round).toBe(1);
+    expect(state.pendingSecretMeeting).toBeUndefined();
+  });
+
+  it('ignores actions from anyone but the current actor', () => {
+    const state = createDayGame();
+    const [, second] = getActingPlayers(state);
+
+    expect(gameReducer(state, { type: 'SPEECH', player: second.name, content: '我先说' })).toBe(state);
+    expect(gameReducer(state, { type: 'VOTE', player: getActingPlayers(state)[0].name, content: second.name })).toBe(state);
+  });
+
+  it('leaves the input state untouched', () => {
+    const state = createDayGame();
+    const speaker = getActingPlayers(state)[0];
+    const messageCount = state.messages.length;
+
+    const next = gameReducer(state, { type: 'SPEECH', player: speaker.name, content: '早上好', thinking: '先观察' });
+    expect(next.currentPlayerIndex).toBe(1);
+    expect(next.messages).toHaveLength(messageCount + 2);
+    expect(state.currentPlayerIndex).toBe(0);
+    expect(state.messages).toHaveLength(messageCount);
+  });
+
+  it('takes the target from a structured decision over names in the text', () => {
+    let state = gameReducer(createDayGame(), { type: 'ADVANCE' });
+    const [voter, suspect, mentioned] = getActingPlayers(state);
+
+    state = gameReducer(state, {
+      type: 'VOTE',
+      player: voter.name,
+      content: `${mentioned.name} 替 ${suspect.name} 说过话`,
+      decision: { target: suspect.name, confidence: 0.6 },
+    });
+    expect(state.votes).toEqual([expect.objectContaining({ from: voter.name, target: suspect.name })]);
+  });
+
+  it('sacrifices the voted player and falls into night', () => {
+    const day = createDayGame();
+    const target = findRole(day, 'innocent');
+    const state = sacrifice(day, target);
+
+    expect(state.players.find((p) => p.name === target.name)?.isAlive).toBe(false);
+    expect(state.phase).toBe('night');
+    expect(state.lastSacrificedPlayer).toBe(target.name);
+  });
+
+  it('lets the sacrificed player speak last words before night falls', () => {
+    const day = createDayGame('all');
+    const target = findRole(day, 'innocent');
+    let state = sacrifice(day, target);
+
+    expect(state.pendingLastWords).toEqual({ players: [target.name], cause: 'sacrifice' });
+    expect(getActingPlayers(state).map((p) => p.name)).toEqual([target.name]);
+    expect(getPlayerActionType(state)).toBe('SPEECH');
+
+    state = gameReducer(state, { type: 'SPEECH', player: target.name, content: '我是清白的' });
+    expect(state.messages[state.messages.length - 1]).toMatchObject({ type: 'last_words', visibility: 'all' });
+
+    state = gameReducer(state, { type: 'ADVANCE' });
+    expect(state.pendingLastWords).toBeUndefined();
+    expect(state.phase).toBe('night');
+  });
+
+  it('fires the hunter shot before the hunter and the shot player say last words', () => {
+    const day = gameReducer(gameReducer(createGame({
+      ...DEFAULT_CONFIG,
+      playerCount: 6,
+      roles: buildRoles({ marked: 1, hunter: 1, guard: 1, innocent: 3 }),
+      characters: DEFAULT_CONFIG.characters?.slice(0, 6),
+      enableHunter: true,
+      seed: 7,
+      lastWords: 'all',
+    }), { type: 'ADVANCE' }), { type: 'ADVANCE' });
+    const hunter = findRole(day, 'hunter');
+    const target = findRole(day, 'innocent');
+    let state = sacrifice(day, hunter);
+
+    expect(getPlayerActionType(state)).toBe('NIGHT_ACTION');
+    state = gameReducer(state, { type: 'NIGHT_ACTION', player: hunter.name, content: target.name });
+    expect(state.messages[state.messages.length - 1].type).not.toBe('last_words');
+
+    state = gameReducer(state, { type: 'ADVANCE' });
+    expect(state.players.find((p) => p.name === target.name)?.isAlive).toBe(false);
+    expect(state.pendingLastWords).toEqual({ players: [hunter.name, target.name], cause: 'sacrifice' });
+    expect(getActingPlayers(state).map((p) => p.name)).toEqual([hunter.name, target.name]);
+    expect(getPlayerActionType(state)).toBe('SPEECH');
+
+    state = gameReducer(state, { type: 'SPEECH', player: hunter.name, content: '我带走了一个' });
+    state = gameReducer(state, { type: 'SPEECH', player: target.name, content: '我是清白的' });
+    expect(state.messages.filter((m) => m.type === 'last_words').map((m) => m.from)).toEqual([hunter.name, target.name]);
+
+    state = gameReducer(state, { type: 'ADVANCE' });
+    expect(state.pendingLastWords).toBeUndefined();
+    expect(state.phase).toBe('night');
+  });
+
+  it('skips last words for a day sacrifice under the first-night rule', () => {
+    const day = createDayGame('first_night');
+    const state = sacrifice(day, findRole(day, 'innocent'));
+
+    expect(state.pendingLastWords).toBeUndefined();
+    expect(state.phase).toBe('night');
+  });
+
+  function createTwinDayGame(): GameState {
+    const state = createGame({
+      ...DEFAULT_CONFIG,
+      playerCount: 6,
+      roles: buildRoles({ marked: 1, twin: 2, guard: 1, innocent: 2 }),
+      characters: DEFAULT_CONFIG.characters?.slice(0, 6),
+      seed: 7,
+      lastWords: 'off',
+      twinChannel: true,
+    });
+    return gameReducer(gameReducer(state, { type: 'ADVANCE' }), { type: 'ADVANCE' });
+  }
+
+  it('lets both twins whisper at night where only they can hear', () => {
+    const day = createTwinDayGame();
+    let state = sacrifice(day, findRole(day, 'innocent'));
+
+    expect(state.nightPhase).toBe('twins');
+    const twins = getActingPlayers(state);
+    expect(twins.map((p) => p.role)).toEqual(['twin', 'twin']);
+
+    for (const twin of twins) {
+      state = gameReducer(state, { type: 'SPEECH', player: twin.name, content: '我怀疑那个人' });
+      expect(state.messages[state.messages.length - 1]).toMatchObject({ type: 'speech', visibility: 'twins' });
+    }
+
+    state = gameReducer(state, { type: 'ADVANCE' });
+    expect(state.nightPhase).toBe('marked-discuss');
+  });
+
+  it('gives a lone twin one night of mourning', () => {
+    const day = createTwinDayGame();
+    const [dead, survivor] = day.players.filter((p) => p.role === 'twin');
+    let state = sacrifice(day, dead);
+
+    expect(state.nightPhase).toBe('twins');
+    expect(state.twinPair?.mourned).toBe(true);
+    expect(getActingPlayers(state).map((p) => p.name)).toEqual([survivor.name]);
+
+    state = gameReducer(state, { type: 'SPEECH', player: survivor.name, content: '你不该先走' });
+    state = gameReducer(state, { type: 'ADVANCE' });
+    expect(state.nightPhase).toBe('marked-discuss');
+  });
+
+  it('lets the coroner choose an unexamined corpse at night', () => {
+    const day = gameReducer(gameReducer(createGame({
+      ...DEFAULT_CONFIG,
+      playerCount: 6,
+      roles: buildRoles({ marked: 1, coroner: 1, guard: 1, innocent: 3 }),
+      characters: DEFAULT_CONFIG.characters?.slice(0, 6),
+      seed: 7,
+      lastWords: 'off',
+    }), { type: 'ADVANCE' }), { type: 'ADVANCE' });
+    const marked = findRole(day, 'marked');
+    const [sacrificed, victim] = day.players.filter((p) => p.role === 'innocent');
+    let state = sacrifice(day, sacrificed);
+
+    // Play the night up to the coroner - everyone picks the same victim
+    while (state.nightPhase !== 'coroner') {
+      expect(state.phase).toBe('night');
+      for (const player of getActingPlayers(state)) {
+        state = gameReducer(state, { type: getPlayerActionType(state), player: player.name, content: victim.name });
+      }
+      state = gameReducer(state, { type: 'ADVANCE' });
+    }
+
+    const coroner = findRole(state, 'coroner');
+    expect(getActingPlayers(state).map((p) => p.name)).toEqual([coroner.name]);
+    expect(getUnexaminedCorpses(state).map((p) => p.name)).toEqual([sacrificed.name]);
+    expect(getPlayerActionType(state)).toBe('NIGHT_ACTION');
+
+    state = gameReducer(state, { type: 'NIGHT_ACTION', player: coroner.name, content: marked.name });
+    expect(state.coronerReports).toHaveLength(0);
+
+    const retried = gameReducer({ ...state, currentPlayerIndex: 0 }, { type: 'NIGHT_ACTION', player: coroner.name, content: sacrificed.name });
+    expect(retried.coronerReports).toEqual([{ round: 1, target: sacrificed.name, isClean: true }]);
+    expect(retried.messages[retried.messages.length - 1].visibility).toBe('coroner');
+    expect(getUnexaminedCorpses(retried)).toHaveLength(0);
+  });
+
+  it('lets nobody die on a day tie under the no-sacrifice rule', () => {
+    const day = createDayGame();
+    day.rules = { ...day.rules, dayTie: 'no_sacrifice' };
+    let state = gameReducer(day, { type: 'ADVANCE' });
+    const [first, second] = getActingPlayers(state);
+    getActingPlayers(state).forEach((voter, index) => {
+      state = gameReducer(state, { type: 'VOTE', player: voter.name, content: index % 2 === 0 ? second.name : first.name });
+    });
+    state = gameReducer(state, { type: 'ADVANCE' });
+
+    expect(state.players.every((p) => p.isAlive)).toBe(true);
+    expect(state.phase).toBe('night');
+  });
+
+  it('skips the hunt on the first night and reveals the dead under house rules', () => {
+    const day = createDayGame();
+    day.rules = { ...day.rules, firstNightNoKill: true, revealRoleOnDeath: true };
+    const target = findRole(day, 'innocent');
+    let state = sacrifice(day, target);
+
+    expect(state.messages.some((m) => m.content === `${target.name} 的身份是：无知者。`)).toBe(true);
+    expect(state.nightPhase).toBe('witch');
+
+    // Witch passes, the guard watches - nobody is attacked
+    while (state.phase === 'night') {
+      for (const player of getActingPlayers(state)) {
+        state = gameReducer(state, { type: getPlayerActionType(state), player: player.name, content: '放弃' });
+      }
+      state = gameReducer(state, { type: 'ADVANCE' });
+    }
+    expect(state.phase).not.toBe('night');
+    expect(state.round).toBe(2);
+    expect(state.players.filter((p) => !p.isAlive)).toHaveLength(1);
+  });
+
+  it('records a held secret meeting for its two participants', () => {
+    let state = gameReducer(createPrologueGame(), { type: 'ADVANCE' });
+    expect(state.phase).toBe('secret_meeting');
+    const [first, second] = state.players;
+    state = {
+      ...state,
+      pendingSecretMeeting: { timing: 'before_discussion', selectedParticipants: [first.name, second.name] },
+    };
+
+    state = gameReducer(state, { type: 'SPEECH', player: first.name, content: '我们谈谈' });
+    state = gameReducer(state, { type: 'SPEECH', player: second.name, content: '好' });
+    state = gameReducer(state, { type: 'ADVANCE' });
+
+    expect(state.phase).toBe('day');
+    expect(state.secretMeetings).toHaveLength(1);
+    expect(state.secretMeetings[0].messageIds).toHaveLength(2);
+    expect(state.messages.filter((m) => m.type === 'secret')).toHaveLength(2);
+  });
+});
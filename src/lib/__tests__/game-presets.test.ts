@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { createGame } from '@/lib/game-engine';
+import { BUILT_IN_PRESETS, DEFAULT_CONFIG, buildRoles, validateGameConfig } from '@/lib/game-presets';
+import type { GameConfig } from '@/types/game';
+
+describe('validateGameConfig', () => {
+  it('accepts all built-in presets', () => {
+    BUILT_IN_PRESETS.forEach((preset) => {
+      expect(validateGameConfig(preset.config)).toEqual([]);
+    });
+  });
+
+  it('rejects setups without marked, with odd twins or too large a harvest faction', () => {
+    const config: GameConfig = {
+      ...DEFAULT_CONFIG,
+      playerCount: 6,
+      roles: buildRoles({ heretic: 3, twin: 1, innocent: 2 }),
+      characters: DEFAULT_CONFIG.characters?.slice(0, 6),
+    };
+    const errors = validateGameConfig(config);
+    expect(errors).toContain('至少需要 1 名烙印者');
+    expect(errors).toContain('共誓者必须成对出现（0 或 2 名）');
+    expect(errors.some((e) => e.startsWith('收割阵营'))).toBe(true);
+  });
+
+  it('rejects unknown house rules', () => {
+    const errors = validateGameConfig({
+      ...DEFAULT_CONFIG,
+      rules: { dayTie: 'coin_flip' as never, hereticAwakenRound: 9 },
+    });
+    expect(errors).toContain('未知的白天平票规则');
+    expect(errors.some((e) => e.startsWith('背誓者'))).toBe(true);
+  });
+});
+
+describe('createGame', () => {
+  it('only seats the chosen characters', () => {
+    const preset = BUILT_IN_PRESETS.find((p) => p.id === 'preset-9-quick');
+    const characters = ['诺拉·格雷', '马库斯·霍克', '艾琳·哈钦斯', '托马斯·克劳利', '莉迪亚·克劳利',
+      '奥利弗·佩恩', '索菲亚·阿什福德', '维克多·斯通', '夏洛特·温特斯'];
+    const state = createGame({ ...(preset?.config ?? DEFAULT_CONFIG), characters });
+
+    expect(state.players.map((p) => p.name)).toEqual(characters);
+    expect(state.players.filter((p) => p.role === 'marked')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { runHeadlessGame } from '@/lib/headless-runner';
+import { createScriptedProvider } from '@/lib/response-providers';
+import { DEFAULT_CONFIG } from '@/lib/game-presets';
+
+describe('runHeadlessGame', () => {
+  it('plays a scripted game through to a winner', async () => {
+    const result = await runHeadlessGame({
+      config: { ...DEFAULT_CONFIG, seed: 42 },
+      provider: createScriptedProvider(42),
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.winner).toBeDefined();
+    expect(result.gameState.phase).toBe('end');
+    expect(result.transcript.some((entry) => entry.type === 'prompt')).toBe(false);
+  });
+
+  it('asks again after an illegal vote and logs the rejection', async () => {
+    const scripted = createScriptedProvider(42);
+    const result = await runHeadlessGame({
+      config: { ...DEFAULT_CONFIG, seed: 42 },
+      // 第一次投票总是投给自己
+      provider: (player, gameState, rejection) =>
+        gameState.phase === 'voting' && !rejection
+          ? Promise.resolve(JSON.stringify({ target: player.name }))
+          : scripted(player, gameState, rejection),
+    });
+
+    const rejections = result.gameState.apiLogs.filter((log) => log.type === 'rejected');
+    expect(rejections.length).toBeGreaterThan(0);
+    expect(rejections[0].error).toBe('你不能选择自己');
+    expect(result.gameState.voteHistory.length).toBeGreaterThan(0);
+    expect(result.gameState.voteHistory.every((vote) => vote.from !== vote.target)).toBe(true);
+  });
+
+  it('replays the same game for the same seed', async () => {
+    const run = async (): Promise<string[]> => {
+      const result = await runHeadlessGame({
+        config: { ...DEFAULT_CONFIG, seed: 7 },
+        provider: createScriptedProvider(7),
+      });
+      return result.transcript.map((entry) => `${entry.from}: ${entry.content}`);
+    };
+
+    expect(await run()).toEqual(await run());
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getProviderAdapter, type CompletionRequest, type ProviderAdapter } from '@/lib/llm-providers';
+
+const request: CompletionRequest = {
+  apiUrl: '',
+  model: 'test-model',
+  prompt: '你好',
+  temperature: 0.9,
+  jsonMode: false,
+  stream: false,
+};
+
+function adapterFor(apiType: string): ProviderAdapter {
+  const adapter = getProviderAdapter(apiType);
+  if (!adapter) throw new Error(`no adapter for ${apiType}`);
+  return adapter;
+}
+
+describe('llm-providers', () => {
+  it('builds each provider endpoint from the base URL', () => {
+    expect(adapterFor('openai').buildCompletion({ ...request, apiUrl: 'https://api.openai.com/v1' }).url)
+      .toBe('https://api.openai.com/v1/chat/completions');
+    expect(adapterFor('anthropic').buildCompletion({ ...request, apiUrl: 'https://api.anthropic.com/' }).url)
+      .toBe('https://api.anthropic.com/v1/messages');
+    expect(adapterFor('gemini').buildCompletion({ ...request, apiUrl: 'https://generativelanguage.googleapis.com', stream: true }).url)
+      .toBe('https://generativelanguage.googleapis.com/v1beta/models/test-model:streamGenerateContent?alt=sse');
+    expect(adapterFor('ollama').buildCompletion({ ...request, apiUrl: 'http://localhost:11434/v1' }).url)
+      .toBe('http://localhost:11434/api/chat');
+    expect(getProviderAdapter('unknown')).toBeNull();
+  });
+
+  it('reads text and usage from native responses', () => {
+    expect(adapterFor('anthropic').parseCompletion({
+      content: [{ type: 'text', text: '【发言】好' }],
+      usage: { input_tokens: 10, output_tokens: 5 },
+    })).toEqual({ text: '【发言】好', usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } });
+
+    expect(adapterFor('gemini').parseCompletion({
+      candidates: [{ content: { parts: [{ text: '想一想', thought: true }, { text: '答案' }] } }],
+      usageMetadata: { promptTokenCount: 7, candidatesTokenCount: 3, totalTokenCount: 10 },
+    })).toEqual({ text: '答案', usage: { prompt_tokens: 7, completion_tokens: 3, total_tokens: 10 } });
+
+    expect(adapterFor('ollama').parseCompletion({ message: { content: '好' }, prompt_eval_count: 4, eval_count: 2 }))
+      .toEqual({ text: '好', usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 } });
+  });
+
+  it('marks the end of each provider stream', () => {
+    const anthropic = adapterFor('anthropic');
+    expect(anthropic.parseStreamLine('data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"诺"}}'))
+      .toEqual({ text: '诺' });
+    expect(anthropic.parseStreamLine('event: message_stop')).toEqual({});
+    expect(anthropic.parseStreamLine('data: {"type":"message_stop"}').done).toBe(true);
+
+    expect(adapterFor('gemini').parseStreamLine('data: {"candidates":[{"content":{"parts":[{"text":"拉"}]},"finishReason":"STOP"}]}'))
+      .toMatchObject({ text: '拉', done: true });
+
+    const ollama = adapterFor('ollama');
+    expect(ollama.parseStreamLine('{"message":{"content":"格"},"done":false}')).toMatchObject({ text: '格', done: false });
+    expect(() => ollama.parseStreamLine('{"error":"model not found"}')).toThrow('model not found');
+  });
+
+  it('asks OpenAI compatible streams for usage and reads the final usage chunk', () => {
+    const openai = adapterFor('openai');
+    const body = JSON.parse(openai.buildCompletion({ ...request, apiUrl: 'https://api.openai.com/v1', stream: true }).init.body as string) as Record<string, unknown>;
+    expect(body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    expect(JSON.parse(openai.buildCompletion(request).init.body as string)).not.toHaveProperty('stream_options');
+
+    expect(openai.parseStreamLine('data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":4,"total_tokens":16}}'))
+      .toEqual({ text: '', usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 } });
+  });
+
+  it('maps provider error bodies to readable messages', () => {
+    expect(adapterFor('anthropic').parseError(529, '{"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}'))
+      .toBe('Anthropic 服务过载：Overloaded');
+    expect(adapterFor('gemini').parseError(403, '{"error":{"code":403,"message":"API key not valid","status":"PERMISSION_DENIED"}}'))
+      .toBe('API Key 无效或没有权限：API key not valid');
+    expect(adapterFor('ollama').parseError(404, '{"error":"model \'x\' not found"}'))
+      .toBe('模型不存在，请先 ollama pull：model \'x\' not found');
+  });
+});
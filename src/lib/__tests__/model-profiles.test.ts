@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { createGame } from '@/lib/game-engine';
+import { DEFAULT_CONFIG } from '@/lib/game-presets';
+import { resolveModelSettings, type ModelSettings } from '@/lib/model-profiles';
+
+const global: ModelSettings = {
+  apiType: 'openai',
+  apiUrl: 'https://api.openai.com/v1',
+  apiKey: 'sk-global',
+  model: 'gpt-4o',
+};
+
+describe('model profiles', () => {
+  it('gives each player the faction default unless the character has its own model', () => {
+    const state = createGame({
+      ...DEFAULT_CONFIG,
+      seed: 7,
+      models: {
+        marked: { apiType: 'anthropic', model: 'claude-sonnet-4-5', apiKey: 'sk-ant' },
+        lamb: { model: '  ' },
+        characters: { '诺拉·格雷': { model: 'gpt-4o-mini' } },
+      },
+    });
+
+    state.players.forEach((player) => {
+      if (player.name === '诺拉·格雷') {
+        expect(player.modelProfile).toEqual({ model: 'gpt-4o-mini' });
+      } else if (player.role === 'marked' || player.role === 'heretic') {
+        expect(player.modelProfile?.apiType).toBe('anthropic');
+      } else {
+        // 空白的阵营设置等于没有设置
+        expect(player.modelProfile).toBeUndefined();
+      }
+    });
+  });
+
+  it('inherits the global connection only for the same provider', () => {
+    expect(resolveModelSettings(global, { model: 'gpt-4o-mini' })).toEqual({ ...global, model: 'gpt-4o-mini' });
+    expect(resolveModelSettings(global, { apiType: 'ollama', model: 'qwen2.5' })).toEqual({
+      apiType: 'ollama',
+      apiUrl: 'http://localhost:11434',
+      apiKey: '',
+      model: 'qwen2.5',
+    });
+    expect(resolveModelSettings(global, undefined)).toBe(global);
+  });
+});
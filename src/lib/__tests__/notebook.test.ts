@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { createGame } from '@/lib/game-engine';
+import { DEFAULT_CONFIG } from '@/lib/game-presets';
+import { buildPrompt } from '@/lib/gemini';
+import { applyNotebookUpdate, parseNotebookUpdate } from '@/lib/notebook';
+import { runHeadlessGame } from '@/lib/headless-runner';
+import { createScriptedProvider } from '@/lib/response-providers';
+
+describe('notebooks', () => {
+  it('reads the notebook lines and keeps what an update leaves out', () => {
+    const { players } = createGame({ ...DEFAULT_CONFIG, seed: 9 });
+    const [self, first, second] = players;
+
+    const update = parseNotebookUpdate(
+      `怀疑：${first.name}（投票前后矛盾）；不存在的人；${self.name}\n说法：我是无知者；昨晚一直在大厅`,
+      players,
+      self.name,
+    );
+    expect(update).toEqual({
+      suspects: [{ name: first.name, reason: '投票前后矛盾' }],
+      claims: ['我是无知者', '昨晚一直在大厅'],
+    });
+
+    const notebook = applyNotebookUpdate(
+      applyNotebookUpdate(undefined, update ?? {}, 1),
+      { trusted: [{ name: second.name }], claims: ['我是无知者'] },
+      2,
+    );
+    expect(notebook).toEqual({
+      suspects: [{ name: first.name, reason: '投票前后矛盾' }],
+      trusted: [{ name: second.name }],
+      claims: ['我是无知者', '昨晚一直在大厅'],
+      updatedRound: 2,
+    });
+
+    expect(parseNotebookUpdate('怀疑：无', players, self.name)).toEqual({ suspects: [] });
+    expect(parseNotebookUpdate('今天天气不错', players, self.name)).toBeNull();
+  });
+
+  it('keeps the notebook from the answers and shows it back in the prompt', async () => {
+    const scripted = createScriptedProvider(42);
+    const result = await runHeadlessGame({
+      config: { ...DEFAULT_CONFIG, seed: 42 },
+      provider: async (player, gameState, rejection) => {
+        const response = await scripted(player, gameState, rejection);
+        const suspect = gameState.players.find((p) => p.name !== player.name);
+        return response.startsWith('【思考】')
+          ? `${response}\n【笔记】\n怀疑：${suspect?.name}（发言太少）\n说法：我是清白的`
+          : response;
+      },
+    });
+
+    expect(result.error).toBeUndefined();
+    const [name, notebook] = Object.entries(result.gameState.notebooks ?? {})[0];
+    expect(notebook.suspects).toHaveLength(1);
+    expect(notebook.claims).toEqual(['我是清白的']);
+    expect(result.transcript.some((entry) => entry.content.includes('【笔记】'))).toBe(false);
+
+    const player = result.gameState.players.find((p) => p.name === name);
+    const prompt = buildPrompt(player ?? result.gameState.players[0], result.gameState);
+    expect(prompt).toContain('【你的笔记】');
+    expect(prompt).toContain(`怀疑：${notebook.suspects[0].name}（发言太少）`);
+  });
+});
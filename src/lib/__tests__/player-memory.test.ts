@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { addMessage, createGame } from '@/lib/game-engine';
+import { DEFAULT_CONFIG } from '@/lib/game-presets';
+import { buildPrompt } from '@/lib/gemini';
+import {
+  buildExtractiveSummary,
+  estimateTokens,
+  planMemoryUpdate,
+  withPlayerMemory,
+  type MemoryUpdate,
+} from '@/lib/player-memory';
+import { runHeadlessGame } from '@/lib/headless-runner';
+import { createScriptedProvider } from '@/lib/response-providers';
+import type { GameState, Player } from '@/types/game';
+
+describe('player memory', () => {
+  it('folds older rounds into a summary of what the player could see', () => {
+    const start = createGame({ ...DEFAULT_CONFIG, seed: 5, memory: { tokenBudget: 80 } });
+    const lamb = start.players.find((p) => p.role === 'innocent') as Player;
+    const marked = start.players.find((p) => p.role === 'marked') as Player;
+
+    const round1: GameState = { ...start, round: 1, phase: 'day' };
+    const round2: GameState = { ...start, round: 2, phase: 'day' };
+    const state: GameState = {
+      ...round2,
+      messages: [
+        addMessage(round1, marked.name, '今晚先动手除掉那个多嘴的人。', 'speech', 'marked'),
+        addMessage(round1, marked.name, '我整晚都在壁炉边，什么也没听见。'.repeat(5)),
+        addMessage(round2, lamb.name, '昨晚的血迹一直延伸到阁楼。'),
+      ],
+    };
+
+    const update = planMemoryUpdate(lamb, state) as MemoryUpdate;
+    expect(update).not.toBeNull();
+    expect(update.throughRound).toBe(1);
+    expect(update.messageCount).toBe(2);
+
+    const summary = buildExtractiveSummary('', update, lamb);
+    expect(summary).toContain('第 1 回合');
+    expect(summary).toContain('我整晚都在壁炉边');
+    // 烙印者的密谈只有烙印者能看到
+    expect(summary).not.toContain('多嘴');
+
+    const prompt = buildPrompt(lamb, withPlayerMemory(state, lamb.name, { summary, throughRound: 1, messageCount: 2 }));
+    expect(prompt).toContain('【你记得的往事】');
+    expect(prompt).toContain('昨晚的血迹一直延伸到阁楼。');
+    expect(prompt).not.toContain('我整晚都在壁炉边，什么也没听见。我整晚都在壁炉边');
+  });
+
+  it('keeps long games within the budget', async () => {
+    const result = await runHeadlessGame({
+      config: { ...DEFAULT_CONFIG, seed: 42, memory: { tokenBudget: 300 } },
+      provider: createScriptedProvider(42),
+    });
+
+    expect(result.error).toBeUndefined();
+    const memories = Object.values(result.gameState.memories ?? {});
+    expect(memories.length).toBeGreaterThan(0);
+    expect(memories.every((memory) => memory.throughRound < result.gameState.round)).toBe(true);
+    // 摘要本身也不会越积越长，最多占预算的一半
+    expect(memories.every((memory) => estimateTokens(memory.summary) <= 150)).toBe(true);
+    expect(memories.some((memory) => !memory.summary.startsWith('第 1 回合'))).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createPromptConfigStore } from '@/lib/prompt-config-store';
+import { DEFAULT_PROMPT_CONFIG } from '@/lib/prompt-template';
+
+describe('prompt config store', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'prompt-configs-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps configs on disk with a version per save, and restores old versions', async () => {
+    const file = path.join(dir, 'prompt-configs.json');
+    const store = createPromptConfigStore(file);
+    const config = { ...DEFAULT_PROMPT_CONFIG, id: 'team', name: '团队配置' };
+
+    await store.save(config, { author: '诺拉', note: '初版' });
+    await store.update('team', { items: config.items.slice(0, 2) });
+    const renamed = await store.update('team', { name: '新名字' });
+    expect(renamed).toMatchObject({ name: '新名字', version: 3 });
+    expect(renamed?.items).toHaveLength(2);
+
+    // 换一个实例读同一个文件，相当于服务重启
+    const reopened = createPromptConfigStore(file);
+    const versions = await reopened.listVersions('team');
+    expect(versions?.map((v) => v.version)).toEqual([1, 2, 3]);
+    expect(versions?.[0]).toMatchObject({ author: '诺拉', note: '初版' });
+
+    const restored = await reopened.restore('team', 1);
+    expect(restored).toMatchObject({ name: '团队配置', version: 4 });
+    expect(restored?.items).toHaveLength(config.items.length);
+    expect((await reopened.listVersions('team'))?.at(-1)?.restoredFrom).toBe(1);
+
+    expect(await reopened.restore('team', 99)).toBeNull();
+    expect(await reopened.update('missing', { name: 'x' })).toBeNull();
+    expect(await reopened.remove('team')).toBe(true);
+    expect(await reopened.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, diffPromptConfigs } from '@/lib/prompt-diff';
+import { DEFAULT_PROMPT_CONFIG } from '@/lib/prompt-template';
+import type { PromptConfig } from '@/types/game';
+
+describe('prompt diff', () => {
+  it('pairs removed and added lines side by side around the unchanged ones', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { left: 'a', right: 'a', changed: false },
+      { left: 'b', right: 'B', changed: true },
+      { left: 'c', right: 'c', changed: false },
+      { left: undefined, right: 'd', changed: true },
+    ]);
+  });
+
+  it('reports added, removed, edited, disabled and moved items', () => {
+    const [scene, dead, personality, ...rest] = DEFAULT_PROMPT_CONFIG.items;
+    const after: PromptConfig = {
+      ...DEFAULT_PROMPT_CONFIG,
+      items: [
+        { ...personality, order: 0 },
+        { ...scene, order: 1, content: `${scene.content}\n不要暴露你的身份。` },
+        ...rest.map((item, index) => ({ ...item, order: index + 2, enabled: item.id !== 'default-history' })),
+        { id: 'new', type: 'user', label: '新增提醒', content: '只说中文', order: 99, enabled: true },
+      ],
+    };
+
+    const diffs = diffPromptConfigs(DEFAULT_PROMPT_CONFIG, after);
+    const byId = Object.fromEntries(diffs.map((diff) => [diff.id, diff]));
+
+    expect(byId[scene.id].change).toBe('changed');
+    expect(byId[scene.id].rows.filter((row) => row.changed)).toEqual([
+      { left: undefined, right: '不要暴露你的身份。', changed: true },
+    ]);
+    expect(byId[personality.id].notes).toContain('顺序调整');
+    expect(byId['default-history'].notes).toEqual(['已停用']);
+    expect(byId['default-task'].change).toBe('unchanged');
+    expect(byId.new.change).toBe('added');
+    expect(diffs.at(-1)).toMatchObject({ id: dead.id, change: 'removed' });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { createGame } from '@/lib/game-engine';
+import { DEFAULT_CONFIG } from '@/lib/game-presets';
+import { buildPrompt } from '@/lib/gemini';
+import type { PromptConfig } from '@/types/game';
+
+describe('prompt templates', () => {
+  it('fills every placeholder of the built-in prompt from the game state', () => {
+    const state = createGame({ ...DEFAULT_CONFIG, seed: 3 });
+
+    state.players.forEach((player) => {
+      const prompt = buildPrompt(player, state);
+      expect(prompt).not.toMatch(/\{\{\w+\}\}/);
+      expect(prompt).toContain(`你是 ${player.name}。`);
+      expect(prompt).toContain(player.personality || '你是一个普通的旅人');
+    });
+  });
+
+  it('renders only the enabled items of a custom config, in order', () => {
+    const state = createGame({ ...DEFAULT_CONFIG, seed: 3 });
+    const player = state.players[0];
+    const config: PromptConfig = {
+      id: 'custom',
+      name: '测试',
+      createdAt: 0,
+      updatedAt: 0,
+      items: [
+        { id: 'a', type: 'user', label: '', content: '阶段：{{phase}}', order: 1, enabled: true },
+        { id: 'b', type: 'system', label: '', content: '我是 {{ playerName }}。', order: 0, enabled: true },
+        { id: 'c', type: 'placeholder', label: '', content: '{{visibleMessages}}', order: 2, enabled: false, isDynamic: true },
+        { id: 'd', type: 'user', label: '', content: '{{deadPlayers}}', order: 3, enabled: true },
+        { id: 'e', type: 'user', label: '', content: '{{typo}}', order: 4, enabled: true },
+      ],
+    };
+
+    // 开局没人死，已死亡者那一项整项省略；拼错的占位符原样保留
+    expect(buildPrompt(player, state, undefined, config)).toBe(`我是 ${player.name}。\n\n阶段：序章\n\n{{typo}}`);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { runHeadlessGame } from '@/lib/headless-runner';
+import { createScriptedProvider } from '@/lib/response-providers';
+import { DEFAULT_CONFIG } from '@/lib/game-presets';
+import { buildReplayTimeline, getReplayFrame } from '@/lib/replay';
+import type { GameState } from '@/types/game';
+
+async function playScriptedGame(): Promise<GameState> {
+  const result = await runHeadlessGame({
+    config: { ...DEFAULT_CONFIG, seed: 42 },
+    provider: createScriptedProvider(42),
+  });
+  return result.gameState;
+}
+
+describe('replay', () => {
+  it('shows everyone alive at the start and the final board at the end', async () => {
+    const gameState = await playScriptedGame();
+    const timeline = buildReplayTimeline(gameState);
+
+    const first = getReplayFrame(gameState, timeline, 0);
+    expect(first.state.players.every((p) => p.isAlive)).toBe(true);
+    expect(first.state.voteHistory).toHaveLength(0);
+    expect(first.state.winner).toBeUndefined();
+
+    const last = getReplayFrame(gameState, timeline, timeline.steps.length - 1);
+    expect(last.state.players.map((p) => p.isAlive)).toEqual(gameState.players.map((p) => p.isAlive));
+    expect(last.state.voteHistory).toEqual(gameState.voteHistory);
+    expect(last.state.winner).toBe(gameState.winner);
+  });
+
+  it('kills each player on the step that announces the death', async () => {
+    const gameState = await playScriptedGame();
+    const timeline = buildReplayTimeline(gameState);
+    const [firstDeath] = gameState.deaths;
+
+    const announceStep = timeline.steps.indexOf(firstDeath.messageCount - 1);
+    expect(gameState.messages[firstDeath.messageCount - 1].content).toContain(firstDeath.player);
+
+    const isAliveAt = (step: number) =>
+      getReplayFrame(gameState, timeline, step).state.players.find((p) => p.name === firstDeath.player)?.isAlive;
+    expect(isAliveAt(announceStep - 1)).toBe(true);
+    expect(isAliveAt(announceStep)).toBe(false);
+  });
+
+  it('splits the timeline by round and phase', async () => {
+    const gameState = await playScriptedGame();
+    const { segments, steps } = buildReplayTimeline(gameState);
+
+    expect(segments[0].start).toBe(0);
+    expect(segments[segments.length - 1].end).toBe(steps.length - 1);
+    segments.slice(1).forEach((segment, index) => {
+      expect(segment.start).toBe(segments[index].end + 1);
+    });
+  });
+
+  it('guesses deaths for saves without death records', async () => {
+    const gameState = await playScriptedGame();
+    const legacy = { ...gameState, deaths: undefined } as unknown as GameState;
+    const timeline = buildReplayTimeline(legacy);
+
+    const deadPlayers = gameState.players.filter((p) => !p.isAlive).map((p) => p.name);
+    expect(timeline.deaths.map((d) => d.player).sort()).toEqual(deadPlayers.sort());
+  });
+});
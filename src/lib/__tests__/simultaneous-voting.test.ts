@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { runHeadlessGame } from '@/lib/headless-runner';
+import { createScriptedProvider } from '@/lib/response-providers';
+import { DEFAULT_CONFIG } from '@/lib/game-presets';
+import { isSimultaneousVote } from '@/lib/simultaneous-voting';
+import { createHeadlessGameStore } from '@/stores/game-store';
+import type { GameConfig } from '@/types/game';
+
+const config: GameConfig = { ...DEFAULT_CONFIG, seed: 42, voting: { mode: 'simultaneous', parallelism: 3 } };
+
+describe('simultaneous voting', () => {
+  it('asks the voters in parallel without showing them each other\'s votes', async () => {
+    const scripted = createScriptedProvider(42);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const votesSeen: number[] = [];
+
+    const result = await runHeadlessGame({
+      config,
+      provider: async (player, gameState, rejection) => {
+        if (!isSimultaneousVote(gameState)) return scripted(player, gameState, rejection);
+
+        votesSeen.push(gameState.phase === 'voting' ? gameState.votes.length : gameState.nightVotes.length);
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight -= 1;
+        return scripted(player, gameState, rejection);
+      },
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.gameState.phase).toBe('end');
+    expect(maxInFlight).toBeGreaterThan(1);
+    expect(maxInFlight).toBeLessThanOrEqual(3);
+    expect(votesSeen.length).toBeGreaterThan(0);
+    expect(votesSeen.every((count) => count === 0)).toBe(true);
+  });
+
+  it('retries only the failed request and keeps the votes already collected', async () => {
+    const scripted = createScriptedProvider(42);
+    const asked: string[] = [];
+    let failedOnce = false;
+
+    const result = await runHeadlessGame({
+      config,
+      provider: (player, gameState, rejection) => {
+        // 只看第一轮投票的第一次提问（不算平票重投和非法答案的重问）
+        const firstVote = gameState.round === 1 && !gameState.voteHistory.some((vote) => vote.round === 1);
+        if (gameState.phase === 'voting' && firstVote && !rejection) {
+          asked.push(player.name);
+          if (!failedOnce) {
+            failedOnce = true;
+            return Promise.reject(new Error('HTTP 503'));
+          }
+        }
+        return scripted(player, gameState, rejection);
+      },
+    });
+
+    expect(result.error).toBeUndefined();
+    const firstVoter = asked[0];
+    // 第一个人失败后重问一次，其他人各问一次
+    expect(asked.filter((name) => name === firstVoter)).toHaveLength(2);
+    expect(new Set(asked).size).toBe(asked.length - 1);
+
+    const roundOneVotes = result.gameState.voteHistory.filter((vote) => vote.round === 1);
+    expect(new Set(roundOneVotes.map((vote) => vote.from)).size).toBe(roundOneVotes.length);
+    expect(result.gameState.apiLogs.some((log) => log.type === 'error' && log.playerName === firstVoter)).toBe(true);
+    // 失败请求留下的 prompt 已撤掉，票收齐后才一起揭晓
+    const voting = result.gameState.messages.filter((m) => m.round === 1 && m.phase === 'voting' && m.type !== 'system');
+    expect(voting.findIndex((m) => m.type !== 'prompt')).toBe(asked.length - 1);
+  });
+
+  it('holds the AI votes back until the human has voted too', async () => {
+    const store = createHeadlessGameStore(createScriptedProvider(42));
+    const human = DEFAULT_CONFIG.characters?.[0] ?? '';
+    store.getState().startGame({ ...config, humanPlayerName: human });
+
+    let votesBeforeHuman = -1;
+    for (let step = 0; step < 500; step++) {
+      const { gameState, awaitingHumanInput } = store.getState();
+      if (!gameState || gameState.votes.some((vote) => vote.from === human)) break;
+
+      if (gameState.phase === 'secret_meeting') {
+        store.getState().skipSecretMeeting();
+      } else if (awaitingHumanInput) {
+        const target = gameState.players.find((p) => p.isAlive && p.name !== human)?.name ?? '放弃';
+        if (gameState.phase === 'voting') votesBeforeHuman = gameState.votes.length;
+        store.getState().submitHumanAction(gameState.phase === 'voting' ? target : '我没什么要说的。');
+      } else {
+        await store.getState().executeNextStep();
+      }
+    }
+
+    // 人类投票时一张 AI 的票都还没亮出来，之后所有票一起揭晓
+    expect(votesBeforeHuman).toBe(0);
+    const { gameState } = store.getState();
+    const alive = gameState?.players.filter((p) => p.isAlive).length ?? 0;
+    expect(gameState?.votes.length).toBe(alive);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { runHeadlessGame } from '@/lib/headless-runner';
+import { createScriptedProvider } from '@/lib/response-providers';
+import { DEFAULT_CONFIG } from '@/lib/game-presets';
+import { summarizeUsage } from '@/lib/usage-stats';
+
+describe('usage stats', () => {
+  it('records reported usage on every response and rolls it up', async () => {
+    const scripted = createScriptedProvider(42);
+    const result = await runHeadlessGame({
+      config: { ...DEFAULT_CONFIG, seed: 42 },
+      provider: (player, gameState, rejection, onUsage) => {
+        onUsage?.({ prompt_tokens: 1000, completion_tokens: 100 }, 'test-model');
+        return scripted(player, gameState, rejection);
+      },
+    });
+
+    const responses = result.gameState.apiLogs.filter((log) => log.type === 'response');
+    expect(responses.every((log) => log.promptTokens === 1000 && log.model === 'test-model')).toBe(true);
+    expect(responses.every((log) => log.round !== undefined && log.phase !== undefined)).toBe(true);
+
+    const summary = summarizeUsage(result.gameState.apiLogs, { 'test-model': { input: 2, output: 10 } });
+    expect(summary.total.requests).toBe(responses.length);
+    expect(summary.total.promptTokens).toBe(responses.length * 1000);
+    // 每次请求 1000 × $2/M + 100 × $10/M = $0.003
+    expect(summary.total.cost).toBeCloseTo(responses.length * 0.003);
+    expect(summary.byPlayer.reduce((sum, row) => sum + row.requests, 0)).toBe(responses.length);
+    expect(summary.byRound.map((row) => Number(row.key))).toEqual(
+      [...summary.byRound.map((row) => Number(row.key))].sort((a, b) => a - b),
+    );
+  });
+
+  it('leaves the cost empty for models without a price', () => {
+    const summary = summarizeUsage([
+      { id: '1', timestamp: 0, type: 'response', prompt: '', model: 'unpriced', promptTokens: 10, completionTokens: 5 },
+      { id: '2', timestamp: 0, type: 'request', prompt: '' },
+    ]);
+
+    expect(summary.total).toEqual({ requests: 1, promptTokens: 10, completionTokens: 5, cost: null, unpricedRequests: 1 });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Structured AI answers for votes and night targets
+ * 结构化决策 - 投票与夜间目标以 JSON 作答，解析失败才退回按名字匹配
+ */
+
+import type { ActionDecision } from '@/types/game';
+
+const WITCH_ACTIONS: NonNullable<ActionDecision['action']>[] = ['save', 'poison', 'pass'];
+
+/**
+ * Parse the JSON answer - null when there is no JSON object or a field has the wrong shape
+ * The thinking field carries the inner monologue when the whole answer is JSON (JSON mode)
+ */
+export function parseActionDecision(
+  response: string,
+): { decision: ActionDecision; thinking?: string; notebook?: string } | null {
+  const json = extractJSONObject(response);
+  if (!json) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return null;
+
+  const fields = data as Record<string, unknown>;
+  const isOptional = (key: string, type: 'string' | 'number') => fields[key] === undefined || typeof fields[key] === type;
+  if (fields.target === undefined && fields.action === undefined) return null;
+  if (fields.target !== null && !isOptional('target', 'string')) return null;
+  if (fields.action !== undefined && !WITCH_ACTIONS.some((a) => a === fields.action)) return null;
+  if (!isOptional('confidence', 'number') || !isOptional('reason', 'string') || !isOptional('thinking', 'string')) return null;
+
+  const { target, action, confidence, reason, thinking, notebook } = fields as {
+    target?: string | null;
+    action?: ActionDecision['action'];
+    confidence?: number;
+    reason?: string;
+    thinking?: string;
+    notebook?: unknown;
+  };
+  if (confidence !== undefined && (confidence < 0 || confidence > 1)) return null;
+
+  // "放弃" 和空字符串都算弃权
+  const name = typeof target === 'string' ? target.trim() : '';
+  const decision: ActionDecision = {
+    target: name && name !== '放弃' ? name : null,
+    ...(action !== undefined && { action }),
+    ...(confidence !== undefined && { confidence }),
+    ...(reason?.trim() && { reason: reason.trim() }),
+  };
+
+  // 笔记写错格式不影响决策本身
+  return {
+    decision,
+    thinking: thinking?.trim() || undefined,
+    notebook: typeof notebook === 'string' && notebook.trim() ? notebook.trim() : undefined,
+  };
+}
+
+/**
+ * Readable form of a decision for the message log, e.g. "诺拉·格雷（把握 80%） —— 她一直在回避问题"
+ */
+export function describeDecision(decision: ActionDecision): string {
+  let choice = decision.target ?? '放弃';
+  if (decision.action === 'save') choice = '解药';
+  if (decision.action === 'poison') choice = `毒药：${decision.target ?? '放弃'}`;
+  if (decision.action === 'pass') choice = '放弃';
+
+  const confidence = decision.confidence !== undefined ? `（把握 ${Math.round(decision.confidence * 100)}%）` : '';
+  return `${choice}${confidence}${decision.reason ? ` —— ${decision.reason}` : ''}`;
+}
+
+/**
+ * The JSON object in the answer - a ```json fence if there is one, otherwise the outermost braces
+ */
+function extractJSONObject(response: string): string | null {
+  const fenced = response.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+  if (fenced) return fenced[1];
+
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  return start >= 0 && end > start ? response.slice(start, end + 1) : null;
+}
@@ -14,15 +14,35 @@ import type {
   EmotionalStateChange,
   SecretMeeting,
   GameEventRecord,
+  GameAction,
+  PlayerAction,
+  ActionDecision,
+  DeathRecord,
+  GameResult,
 } from '@/types/game';
-import { getTriggeredStateChanges } from './relationships';
+import { getTriggeredStateChanges, getTwinBondTrigger } from './relationships';
+import { EMOTIONAL_STATE_PROMPTS } from './emotional-prompts';
 import { selectRandomEvent, selectRandomParticipants, formatEventDescription } from './game-events';
+import { toChineseNumber } from './utils';
+import { createRandom, createSeed, shuffle, type RandomSource } from './random';
+import { resolveRules } from './house-rules';
+import { resolveMemorySettings } from './player-memory';
+import { applyNotebookUpdate } from './notebook';
+import { resolveVotingSettings } from './simultaneous-voting';
+import { getAssignedModelProfile } from './model-profiles';
 
 /**
  * Create initial game state
  */
 export function createGame(config: GameConfig): GameState {
-  const players = createPlayers(config.roles);
+  const characters = config.characters ?? CHARACTER_NAMES.slice(0, config.roles.length);
+  const seed = config.seed ?? createSeed();
+  const rng = { rngState: seed };
+  const players = createPlayers(config.roles, characters, createRandom(rng), config.humanPlayerName).map((player) => {
+    // 身份分好之后才知道阵营，按阵营/角色分配模型
+    const modelProfile = player.isAI ? getAssignedModelProfile(player, config.models) : undefined;
+    return modelProfile ? { ...player, modelProfile } : player;
+  });
 
   // Find twins and create twin pair
   const twins = players.filter((p) => p.role === 'twin');
@@ -51,7 +71,7 @@ export function createGame(config: GameConfig): GameState {
         from: '叙述者',
         content: `1913年，深冬。
 
-十五位旅者即将踏入命运的牢笼。
+${toChineseNumber(players.length)}位旅者即将踏入命运的牢笼。
 
 点击「下一步」，故事将会开始……`,
         timestamp: Date.now(),
@@ -76,23 +96,43 @@ export function createGame(config: GameConfig): GameState {
     revoteRound: 0,
     voteHistory: [],
     nightVoteHistory: [],
+    deaths: [],
+    lastWordsMode: config.lastWords ?? 'off',
+    twinChannel: config.twinChannel ?? false,
+    rules: resolveRules(config.rules),
+    memory: resolveMemorySettings(config.memory),
+    memories: {},
+    voting: resolveVotingSettings(config.voting),
     storyProgress: 0,
     pendingStateChanges: [],
     secretMeetings: [],
     gameEvents: [],
     apiLogs: [],
+    seed,
+    rngState: rng.rngState,
   };
 }
 
+/**
+ * Character names in seating order
+ */
+export const CHARACTER_NAMES = [
+  '诺拉·格雷', '马库斯·霍克', '艾琳·哈钦斯', '托马斯·克劳利', '莉迪亚·克劳利',
+  '奥利弗·佩恩', '索菲亚·阿什福德', '塞缪尔·布莱克伍德', '克莱尔·沃伦', '维克多·斯通',
+  '艾米莉·卡特', '本杰明·怀特', '伊莎贝拉·费尔法克斯', '亚历山大·莫里斯', '夏洛特·温特斯',
+];
+
 /**
  * Create players with assigned roles
+ * Only the given characters take part; humanPlayerName (if any) is controlled by a real player
  */
-function createPlayers(roles: Role[]): Player[] {
-  const names = [
-    '诺拉·格雷', '马库斯·霍克', '艾琳·哈钦斯', '托马斯·克劳利', '莉迪亚·克劳利',
-    '奥利弗·佩恩', '索菲亚·阿什福德', '塞缪尔·布莱克伍德', '克莱尔·沃伦', '维克多·斯通',
-    '艾米莉·卡特', '本杰明·怀特', '伊莎贝拉·费尔法克斯', '亚历山大·莫里斯', '夏洛特·温特斯',
-  ];
+function createPlayers(
+  roles: Role[],
+  characters: string[],
+  random: RandomSource,
+  humanPlayerName?: string,
+): Player[] {
+  const names = CHARACTER_NAMES;
 
   const englishNames = [
     'Nora Grey', 'Marcus Hawke', 'Eileen Hutchins', 'Thomas Crowley', 'Lydia Crowley',
@@ -290,18 +330,22 @@ function createPlayers(roles: Role[]): Player[] {
     { age: 21, gender: '女性' as const, occupation: '三流演员', trait: '野心勃勃', height: '163cm', bloodType: 'B型' },
   ];
 
-  const shuffledRoles = shuffle([...roles]);
+  const shuffledRoles = shuffle(roles, random);
 
-  return shuffledRoles.map((role, index) => ({
-    id: generateId(),
-    name: names[index],
-    englishName: englishNames[index],
-    role,
-    isAlive: true,
-    isAI: true,
-    personality: personalities[index],
-    ...characterInfo[index],
-  }));
+  return shuffledRoles.map((role, seat) => {
+    // 按角色名找到其在完整名单中的资料
+    const index = names.indexOf(characters[seat]);
+    return {
+      id: generateId(),
+      name: names[index],
+      englishName: englishNames[index],
+      role,
+      isAlive: true,
+      isAI: names[index] !== humanPlayerName,
+      personality: personalities[index],
+      ...characterInfo[index],
+    };
+  });
 }
 
 /**
@@ -352,51 +396,50 @@ export function advancePhase(state: GameState): GamePhase {
 }
 
 /**
- * Check if game has ended
+ * Check if game has ended - the result names the winning side and the condition that ended it
  */
-export function checkWinCondition(
-  state: GameState,
-): 'marked' | 'lamb' | null {
-  const alivePlayers = state.players.filter((p) => p.isAlive);
-  const aliveMarked = alivePlayers.filter(
-    (p) => p.role === 'marked' || p.role === 'heretic',
-  );
-  const aliveLambs = alivePlayers.filter(
-    (p) => p.role !== 'marked' && p.role !== 'heretic',
-  );
+export function checkWinCondition(state: GameState): GameResult | null {
+  const { victoryMode, roundLimit } = state.rules;
+  const isHarvest = (p: Player) => p.role === 'marked' || p.role === 'heretic';
+  const lambs = state.players.filter((p) => !isHarvest(p));
+  const specials = lambs.filter((p) => p.role !== 'innocent');
+  const innocents = lambs.filter((p) => p.role === 'innocent');
+  const allDead = (players: Player[]) => players.length > 0 && players.every((p) => !p.isAlive);
+
+  const aliveMarked = state.players.filter((p) => p.isAlive && isHarvest(p));
+  const aliveLambs = lambs.filter((p) => p.isAlive);
 
   // 所有烙印者+背誓者被淘汰，羔羊获胜
   if (aliveMarked.length === 0) {
-    return 'lamb';
+    return { faction: 'lamb', reason: 'harvest_eliminated' };
+  }
+
+  if (victoryMode === 'parity' && aliveMarked.length >= aliveLambs.length) {
+    // 烙印者+背誓者数量 >= 羔羊数量，收割阵营获胜
+    return { faction: 'marked', reason: 'parity' };
+  }
+  if (victoryMode === 'slaughter_side' && allDead(specials)) {
+    return { faction: 'marked', reason: 'specials_eliminated' };
+  }
+  if (victoryMode === 'slaughter_side' && allDead(innocents)) {
+    return { faction: 'marked', reason: 'innocents_eliminated' };
+  }
+  if (victoryMode === 'slaughter_all' && aliveLambs.length === 0) {
+    return { faction: 'marked', reason: 'lambs_eliminated' };
   }
 
-  // 烙印者+背誓者数量 >= 羔羊数量，收割阵营获胜
-  if (aliveMarked.length >= aliveLambs.length) {
-    return 'marked';
+  // 回合上限已过，存活人数多的一方获胜（持平算收割阵营）
+  if (roundLimit > 0 && state.round > roundLimit) {
+    return { faction: aliveLambs.length > aliveMarked.length ? 'lamb' : 'marked', reason: 'round_limit' };
   }
 
   return null;
 }
 
 /**
- * Process night phase - marked kill based on votes
+ * Tally marked votes - returns the agreed target, or all top targets on a tie
  */
-export function processNightPhase(state: GameState): {
-  killedPlayer: Player | null;
-  message: Message;
-  isTied: boolean;
-  tiedPlayers: string[];
-} {
-  if (state.nightVotes.length === 0) {
-    return {
-      killedPlayer: null,
-      message: createMessage('叙述者', '白蜡篝火跳动。这一夜，无人死去。'),
-      isTied: false,
-      tiedPlayers: [],
-    };
-  }
-
-  // Count votes
+function tallyNightVotes(state: GameState): { target: string | null; maxVotes: number; tiedPlayers: string[] } {
   const voteCounts = new Map<string, number>();
   state.nightVotes.forEach((vote) => {
     voteCounts.set(vote.target, (voteCounts.get(vote.target) ?? 0) + 1);
@@ -418,50 +461,101 @@ export function processNightPhase(state: GameState): {
     }
   });
 
+  if (playersWithMaxVotes.length === 1) {
+    return { target: playersWithMaxVotes[0], maxVotes, tiedPlayers: [] };
+  }
+  return { target: null, maxVotes, tiedPlayers: playersWithMaxVotes };
+}
+
+/**
+ * Get the player the marked agreed to kill tonight (null if no vote or tied)
+ */
+export function getNightKillTarget(state: GameState): Player | null {
+  const { target } = tallyNightVotes(state);
+  const player = state.players.find((p) => p.name === target);
+  return player?.isAlive ? player : null;
+}
+
+/**
+ * Get the 秘药者's remaining potions - each can be used once per game
+ */
+export function getRemainingPotions(state: GameState): { antidote: boolean; poison: boolean } {
+  return {
+    antidote: !state.nightActions.some((a) => a.action === 'save'),
+    poison: !state.nightActions.some((a) => a.action === 'poison'),
+  };
+}
+
+/**
+ * Get the dead players the 食灰者 has not examined yet
+ */
+export function getUnexaminedCorpses(state: GameState): Player[] {
+  return state.players.filter(
+    (p) => !p.isAlive && !state.coronerReports.some((report) => report.target === p.name),
+  );
+}
+
+/**
+ * Process night phase - marked kill based on votes, resolved against guard and potions
+ */
+export function processNightPhase(state: GameState): {
+  killedPlayer: Player | null;
+  poisonedPlayer: Player | null;
+  message: Message;
+  isTied: boolean;
+  tiedPlayers: string[];
+} {
+  const { maxVotes, tiedPlayers } = tallyNightVotes(state);
+
   // Check for tie
-  if (playersWithMaxVotes.length > 1) {
+  if (tiedPlayers.length > 1) {
     return {
       killedPlayer: null,
+      poisonedPlayer: null,
       message: createMessage(
         '叙述者',
-        `烙印者们的意见分歧。${playersWithMaxVotes.join('、')} 各得 ${maxVotes} 票。需要重新商议。`,
+        `烙印者们的意见分歧。${tiedPlayers.join('、')} 各得 ${maxVotes} 票。需要重新商议。`,
       ),
       isTied: true,
-      tiedPlayers: playersWithMaxVotes,
+      tiedPlayers,
     };
   }
 
-  const targetName = playersWithMaxVotes[0];
-  const player = state.players.find((p) => p.name === targetName);
-
-  if (!player || !player.isAlive) {
-    return {
-      killedPlayer: null,
-      message: createMessage('叙述者', '白蜡篝火跳动。这一夜，无人死去。'),
-      isTied: false,
-      tiedPlayers: [],
-    };
+  const target = getNightKillTarget(state);
+  const tonightActions = state.nightActions.filter((a) => a.round === state.round);
+  const lines: string[] = [];
+  let killedPlayer: Player | null = null;
+
+  if (target) {
+    // Check if player was guarded
+    const lastGuardRecord = state.guardRecords[state.guardRecords.length - 1];
+    const isGuarded = lastGuardRecord?.target === target.name && lastGuardRecord.round === state.round;
+    const isSaved = tonightActions.some((a) => a.action === 'save' && a.target === target.name);
+
+    if (isGuarded) {
+      lines.push(`门闩阻挡了利爪。${target.name} 的房门从外被锁死，躲过了一劫。`);
+    } else if (isSaved) {
+      lines.push(`利爪落下了，但 ${target.name} 在黎明时分醒来。某种苦涩的秘药把TA从死亡边缘拉了回来。`);
+    } else {
+      killedPlayer = target;
+      lines.push(`黎明时分，${target.name} 的房门被推开。冰冷的尸体躺在地上，灵魂已被收割。`);
+    }
   }
 
-  // Check if player was guarded
-  const lastGuardRecord = state.guardRecords[state.guardRecords.length - 1];
-  if (lastGuardRecord && lastGuardRecord.target === targetName && lastGuardRecord.round === state.round) {
-    return {
-      killedPlayer: null,
-      message: createMessage(
-        '叙述者',
-        `门闩阻挡了利爪。${targetName} 的房门从外被锁死，躲过了一劫。`,
-      ),
-      isTied: false,
-      tiedPlayers: [],
-    };
+  // 毒药带来额外的死亡（与利爪同一目标时只算一次）
+  const poisonAction = tonightActions.find((a) => a.action === 'poison');
+  const poisoned = state.players.find((p) => p.name === poisonAction?.target);
+  const poisonedPlayer = poisoned?.isAlive && poisoned !== killedPlayer ? poisoned : null;
+  if (poisonedPlayer) {
+    lines.push(`${poisonedPlayer.name} 在睡梦中停止了呼吸。TA的唇边残留着苦杏仁的气味。`);
   }
 
   return {
-    killedPlayer: player,
+    killedPlayer,
+    poisonedPlayer,
     message: createMessage(
       '叙述者',
-      `黎明时分，${player.name} 的房门被推开。冰冷的尸体躺在地上，灵魂已被收割。`,
+      lines.length > 0 ? lines.join('\n') : '白蜡篝火跳动。这一夜，无人死去。',
     ),
     isTied: false,
     tiedPlayers: [],
@@ -578,18 +672,6 @@ function createMessage(from: string, content: string): Message {
   };
 }
 
-/**
- * Shuffle array
- */
-function shuffle<T>(array: T[]): T[] {
-  const result = [...array];
-  for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [result[i], result[j]] = [result[j], result[i]];
-  }
-  return result;
-}
-
 /**
  * Generate unique ID
  */
@@ -604,6 +686,67 @@ export function getAlivePlayers(state: GameState): Player[] {
   return state.players.filter((p) => p.isAlive);
 }
 
+/**
+ * Get players who act in the current phase, in speaking order
+ * Night sub-phases only include the acting role; tied players sit out revote discussion;
+ * a pending hunter shot makes the (dead) hunter the only actor
+ */
+export function getActingPlayers(state: GameState): Player[] {
+  // 鸣枪者的最后一枪优先于当前阶段
+  if (state.pendingHunterShot) {
+    const hunterName = state.pendingHunterShot.hunter;
+    return state.players.filter((p) => p.name === hunterName);
+  }
+
+  // 遗言在枪响之后，死者依次发言
+  if (state.pendingLastWords) {
+    const speakers = state.pendingLastWords.players;
+    return state.players.filter((p) => speakers.includes(p.name))
+      .sort((a, b) => speakers.indexOf(a.name) - speakers.indexOf(b.name));
+  }
+
+  // 密会只有被选中的两人依次发言
+  if (state.phase === 'secret_meeting') {
+    const participants: string[] = state.pendingSecretMeeting?.selectedParticipants ?? [];
+    return state.players.filter((p) => participants.includes(p.name))
+      .sort((a, b) => participants.indexOf(a.name) - participants.indexOf(b.name));
+  }
+
+  let players = getAlivePlayers(state);
+
+  if (state.phase === 'night' && state.nightPhase) {
+    if (state.nightPhase === 'listener') {
+      players = players.filter((p) => p.role === 'listener');
+    } else if (state.nightPhase === 'twins') {
+      players = players.filter((p) => p.role === 'twin');
+    } else if (state.nightPhase === 'marked-discuss' || state.nightPhase === 'marked-vote') {
+      players = players.filter((p) => p.role === 'marked');
+    } else if (state.nightPhase === 'witch') {
+      players = players.filter((p) => p.role === 'witch');
+    } else if (state.nightPhase === 'guard') {
+      players = players.filter((p) => p.role === 'guard');
+    } else if (state.nightPhase === 'coroner') {
+      players = players.filter((p) => p.role === 'coroner');
+    }
+  }
+
+  if (state.phase === 'day' && state.isRevote && state.tiedPlayers.length > 0) {
+    players = players.filter((p) => !state.tiedPlayers.includes(p.name));
+  }
+
+  return players;
+}
+
+/**
+ * Check if a dead player gets the 鸣枪者's last shot - being poisoned tonight blocks it
+ */
+export function canHunterShoot(state: GameState, player: Player): boolean {
+  if (player.role !== 'hunter') return false;
+  return !state.nightActions.some(
+    (a) => a.action === 'poison' && a.target === player.name && a.round === state.round,
+  );
+}
+
 /**
  * Get player by name
  */
@@ -622,7 +765,11 @@ export function handleDeathTriggers(
   state: GameState,
   deadCharacterName: string,
 ): void {
-  const triggeredRelationships = getTriggeredStateChanges(deadCharacterName);
+  const triggeredRelationships = [
+    ...getTriggeredStateChanges(deadCharacterName),
+    ...getTwinBondTrigger(state.twinPair, deadCharacterName),
+  ];
+  const random = createRandom(state);
 
   for (const relationship of triggeredRelationships) {
     const affectedPlayer = state.players.find(p => p.name === relationship.character);
@@ -631,7 +778,7 @@ export function handleDeathTriggers(
     if (!affectedPlayer || !affectedPlayer.isAlive) continue;
 
     // Roll for emotional state change (dual direction probability)
-    const roll = Math.random();
+    const roll = random();
     let newState: EmotionalStateChange['newState'] | null = null;
 
     if (roll < relationship.virtueChance) {
@@ -647,8 +794,8 @@ export function handleDeathTriggers(
 
     // Check if character has the corresponding state prompt
     // (some characters only have virtue or vice, not both)
-    const statePrompts = require('./emotional-prompts').EMOTIONAL_STATE_PROMPTS[relationship.character];
-    if (!statePrompts || !statePrompts[newState]) {
+    const statePrompts = EMOTIONAL_STATE_PROMPTS[relationship.character];
+    if (!statePrompts?.[newState]) {
       // Character doesn't have this state prompt, stay normal
       continue;
     }
@@ -734,16 +881,18 @@ export function generateGameEvent(state: GameState): GameEventRecord | null {
   // Randomly select participant count (3-5)
   const maxParticipants = Math.min(5, alivePlayers.length);
   const minParticipants = 3;
-  const participantCount = Math.floor(Math.random() * (maxParticipants - minParticipants + 1)) + minParticipants;
+  const random = createRandom(state);
+  const participantCount = Math.floor(random() * (maxParticipants - minParticipants + 1)) + minParticipants;
 
   // Select random event with this participant count
-  const event = selectRandomEvent(participantCount);
+  const event = selectRandomEvent(participantCount, random);
   if (!event) return null;
 
   // Select random participants
   const participants = selectRandomParticipants(
     alivePlayers.map(p => p.name),
-    participantCount
+    participantCount,
+    random,
   );
   if (participants.length < participantCount) return null;
 
@@ -785,3 +934,1384 @@ ${effects.map(e => `• ${e}`).join("\n")}`,
 
   return eventRecord;
 }
+
+/**
+ * Work out which action the current actor owes
+ */
+export function getPlayerActionType(state: GameState): PlayerAction['type'] {
+  if (isTargetPhase(state)) return 'NIGHT_ACTION';
+  if (state.pendingLastWords) return 'SPEECH';
+  if (state.phase === 'voting') return 'VOTE';
+  return 'SPEECH';
+}
+
+/**
+ * Check if the game should ADVANCE instead of asking the next player
+ * (prologue, a decided game, or everyone in the current phase has acted)
+ */
+export function shouldAdvance(state: GameState): boolean {
+  if (state.phase === 'prologue') return true;
+  if (!state.pendingHunterShot && !state.pendingLastWords && checkWinCondition(state)) return true;
+  return state.currentPlayerIndex >= getActingPlayers(state).length;
+}
+
+/**
+ * Game state machine - applies one action and returns the next state, leaving the input untouched
+ */
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  if (action.type === 'ADVANCE') {
+    if (state.phase === 'end') return state;
+    const next = structuredClone(state);
+    advanceGame(next);
+    return next;
+  }
+
+  // Only the current actor may act, and only with the action this step expects
+  const actor = getActingPlayers(state)[state.currentPlayerIndex];
+  if (actor?.name !== action.player || getPlayerActionType(state) !== action.type) {
+    return state;
+  }
+
+  const next = structuredClone(state);
+  applyPlayerAction(next, action);
+  return next;
+}
+
+/**
+ * SPEECH / VOTE / NIGHT_ACTION - log the player's words, record the choice, hand over to the next player
+ */
+function applyPlayerAction(state: GameState, action: PlayerAction): void {
+  const player = getActingPlayers(state)[state.currentPlayerIndex];
+  const visibility = getMessageVisibility(state, player);
+
+  if (action.thinking) {
+    // 思考只有玩家自己可见
+    state.messages.push(
+      addMessage(state, player.name, action.thinking, 'thinking', { player: player.name }),
+    );
+  }
+
+  if (action.notebook) {
+    state.notebooks = {
+      ...state.notebooks,
+      [player.name]: applyNotebookUpdate(state.notebooks?.[player.name], action.notebook, state.round),
+    };
+  }
+
+  let messageType: Message['type'] = 'speech';
+  if (action.type === 'VOTE') {
+    messageType = 'vote';
+  } else if (state.pendingLastWords && !state.pendingHunterShot) {
+    messageType = 'last_words';
+  } else if (state.phase === 'secret_meeting') {
+    messageType = 'secret';
+  }
+  state.messages.push(addMessage(state, player.name, action.content, messageType, visibility));
+
+  if (action.type !== 'SPEECH') {
+    recordVote(state, player, action.content, action.decision);
+  }
+
+  state.currentPlayerIndex += 1;
+}
+
+/**
+ * ADVANCE - resolve the finished phase and enter the next one
+ */
+// eslint-disable-next-line complexity
+function advanceGame(state: GameState): void {
+  if (state.pendingHunterShot) {
+    // Hunter has decided - fire the shot, then the last words, then continue where the death interrupted
+    const { cause } = state.pendingHunterShot;
+    resolveHunterShot(state);
+    if (state.pendingLastWords) {
+      announceLastWords(state);
+    } else {
+      continueAfterDeath(state, cause);
+    }
+    return;
+  }
+
+  if (state.pendingLastWords) {
+    // Everyone has said their last words
+    const { cause } = state.pendingLastWords;
+    state.pendingLastWords = undefined;
+    state.currentPlayerIndex = 0;
+    continueAfterDeath(state, cause);
+    return;
+  }
+
+  const winner = state.phase === 'prologue' ? null : checkWinCondition(state);
+  if (winner) {
+    endGame(state, winner);
+    return;
+  }
+
+  switch (state.phase) {
+    case 'prologue':
+      playPrologue(state);
+      break;
+    case 'secret_meeting':
+      finishSecretMeeting(state);
+      break;
+    case 'day':
+      startVoting(state);
+      break;
+    case 'voting':
+      resolveVoting(state);
+      break;
+    case 'event':
+      runEventPhase(state);
+      break;
+    case 'night':
+      advanceNight(state);
+      break;
+    default:
+      break;
+  }
+}
+
+/**
+ * Prologue - tell the story once, then open the first day's secret meeting
+ */
+function playPrologue(state: GameState): void {
+  // Count roles for the final message
+  const roleCounts = state.players.reduce(
+    (acc, player) => {
+      acc[player.role] = (acc[player.role] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>,
+  );
+
+  const travelerCount = toChineseNumber(state.players.length);
+  const markedCount = toChineseNumber(roleCounts['marked'] || 0);
+
+  // Add all story messages at once
+  const storyMessages = [
+    {
+      from: '叙述者',
+      content: `一份神秘的委托书，将${travelerCount}个陌生人聚集在一起。
+
+有人为了钱，有人为了逃避，有人为了寻找，有人为了赎罪。他们从伦敦、爱丁堡、曼彻斯特等地出发，在1913年深冬的暴雪前夕，抵达了白烬山口。
+
+委托人承诺：完成任务，每人可得五百英镑——足以改变命运的金额。`,
+    },
+    {
+      from: '叙述者',
+      content: `第一天，他们在山口的寂静山庄集合。
+
+第二天，委托人没有出现。取而代之的是，暴风雪如约而至——一场诡异的、不合时节的暴雪，封死了下山的所有道路。
+
+第三天，他们在山庄的地窖里发现了一封遗书。`,
+    },
+    {
+      from: '叙述者',
+      content: `遗书是旧主人留下的，字迹潦草，像是在极度恐惧中写成：
+
+"山灵警告：你们之中混入了${markedCount}个非人者。它们会在夜晚猎杀真正的人类。你们必须在白昼找出这${markedCount}个非人者并献祭，否则所有人都会死。"
+
+"在收割与羔羊的对抗结束之前，暴风雪永远不会停止。"`,
+    },
+    {
+      from: '叙述者',
+      content: `一开始，没有人相信。
+
+有人说这是恶作剧，有人说委托人在戏弄他们。但暴风雪始终没有停止。
+
+第四天、第五天、第六天……食物越来越少，寒冷越来越深。有人开始发烧，有人开始绝望。
+
+这样下去，所有人都会饿死，或冻死。`,
+    },
+    {
+      from: '叙述者',
+      content: `今天，是第七天。
+
+在绝望与恐惧的驱使下，他们决定：按照遗书的指示，举行献祭仪式。
+
+无论这是真是假，他们已经没有别的选择。
+
+黎明到来。游戏，正式开始。`,
+    },
+    {
+      from: '叙述者',
+      content: `【身份已被烙印】
+
+收割阵营：${roleCounts['marked'] || 0}名烙印者
+羔羊阵营：${roleCounts['listener'] || 0}名聆心者、${roleCounts['coroner'] || 0}名食灰者、${roleCounts['twin'] || 0}名共誓者、${roleCounts['guard'] || 0}名设闩者、${roleCounts['witch'] ? `${roleCounts['witch']}名秘药者、` : ''}${roleCounts['hunter'] ? `${roleCounts['hunter']}名鸣枪者、` : ''}${roleCounts['innocent'] || 0}名无知者
+
+【角色说明】
+
+▸ 烙印者（收割阵营）
+  - 每晚集体投票杀死一名玩家
+  - 白天必须伪装成羔羊
+  - 目标：消灭所有羔羊
+
+▸ 聆心者（羔羊阵营）
+  - 每晚可查验一名玩家是"清白"还是"污秽"
+  - 掌握关键信息，但容易成为目标
+
+▸ 食灰者（羔羊阵营）
+  - 每次白天献祭后，当晚会得知被献祭者是"清白"还是"污秽"
+
+▸ 共誓者（羔羊阵营）
+  - 两名共誓者互相知晓身份
+  - 是彼此唯一的绝对信任
+
+▸ 设闩者（羔羊阵营）
+  - 每晚可守护一名玩家（不能是自己）
+  - 被守护者当晚不会被杀
+  - 不能连续两晚守护同一人
+${roleCounts['witch'] ? `
+▸ 秘药者（羔羊阵营）
+  - 烙印者投票后，会得知今晚的猎物
+  - 一瓶解药可救活当晚的猎物，一瓶毒药可毒杀任意一人
+  - 两瓶药各只能使用一次
+` : ''}${roleCounts['hunter'] ? `
+▸ 鸣枪者（羔羊阵营）
+  - 夜晚被杀或白天被献祭时，可以开枪带走一名存活的人
+  - 被毒死则无法开枪
+` : ''}
+▸ 无知者（羔羊阵营）
+  - 没有特殊能力
+  - 依靠观察和推理找出收割者
+
+天亮了。第一个白天，开始讨论...`,
+    },
+  ];
+
+  // Add all messages
+  storyMessages.forEach((msg) => {
+    state.messages.push(
+      addMessage(state, msg.from, msg.content, 'system', 'all')
+    );
+  });
+
+  state.round = 1;
+  enterSecretMeeting(state, 'before_discussion');
+}
+
+/**
+ * Enter a secret meeting phase - the user picks two participants, or skips it
+ */
+function enterSecretMeeting(state: GameState, timing: 'before_discussion' | 'after_sacrifice'): void {
+  state.phase = 'secret_meeting';
+  state.currentPlayerIndex = 0;
+  initSecretMeetingPhase(state, timing);
+}
+
+/**
+ * Close the secret meeting - recorded if both participants spoke, otherwise skipped
+ */
+function finishSecretMeeting(state: GameState): void {
+  const meeting = state.pendingSecretMeeting;
+  const timing = meeting?.timing ?? 'before_discussion';
+  const participants = meeting?.selectedParticipants;
+  const held = participants !== undefined && state.currentPlayerIndex >= participants.length;
+
+  if (held) {
+    // Everything said in the meeting stays in the two participants' memories
+    const messageIds = state.messages
+      .filter((m) => m.round === state.round && m.phase === 'secret_meeting')
+      .filter((m) => typeof m.visibility === 'object' && (
+        'secretMeeting' in m.visibility || participants.includes(m.visibility.player)
+      ))
+      .map((m) => m.id);
+    completeSecretMeeting(state, messageIds);
+  } else {
+    skipSecretMeeting(state);
+  }
+
+  state.currentPlayerIndex = 0;
+  if (timing === 'before_discussion') {
+    state.phase = 'day';
+    state.messages.push(
+      addMessage(state, '叙述者', held ? '密会结束。白天讨论开始。' : '跳过密会。白天讨论开始。', 'system', 'all'),
+    );
+  } else {
+    state.phase = 'event';
+  }
+}
+
+/**
+ * Day discussion ended - open the vote
+ */
+function startVoting(state: GameState): void {
+  state.phase = 'voting';
+  state.currentPlayerIndex = 0;
+  state.votes = [];
+  state.messages.push(
+    addMessage(state, '叙述者', '讨论结束。现在开始投票！', 'system', 'all'),
+  );
+}
+
+/**
+ * Voting ended - count the votes, then sacrifice, revote or fall into night
+ */
+function resolveVoting(state: GameState): void {
+  const { eliminated, message, isTied, tiedPlayers } = processVoting(state);
+  state.messages.push(message);
+
+  // Save votes to history before processing
+  if (state.votes.length > 0) {
+    const votesWithRound = state.votes.map((vote) => ({
+      ...vote,
+      round: state.round
+    }));
+    state.voteHistory.push(...votesWithRound);
+  }
+
+  handleDayVotingResult(state, eliminated, isTied, tiedPlayers);
+}
+
+/**
+ * Event phase - roll a random event, then night falls
+ */
+function runEventPhase(state: GameState): void {
+  generateGameEvent(state);
+  enterNightPhase(state);
+}
+
+/**
+ * Advance to the next night sub-phase (listener → marked → witch → guard → coroner → dawn)
+ */
+// eslint-disable-next-line complexity
+function advanceNight(state: GameState): void {
+  if (state.nightPhase === 'listener' && hasTwinNight(state)) {
+    // Listener phase ended, the twins whisper before the hunt
+    enterTwinNight(state);
+  } else if (state.nightPhase === 'listener' || state.nightPhase === 'twins') {
+    // Listener / twins phase ended, go to marked discuss
+    enterMarkedPhase(state);
+  } else if (state.nightPhase === 'marked-discuss') {
+    // Marked discuss ended, go to marked vote
+    state.nightPhase = 'marked-vote';
+    state.currentPlayerIndex = 0;
+    state.messages.push(
+      addMessage(state, '叙述者', '烙印者请投票选择今晚的猎物', 'system', 'marked'),
+    );
+  } else if (state.nightPhase === 'marked-vote') {
+    // Check werewolf votes for ties
+    const { isTied, tiedPlayers } = processNightPhase(state);
+
+    if (isTied && state.rules.nightTie !== 'revote') {
+      settleNightTie(state, tiedPlayers);
+      enterNightAbilities(state);
+    } else if (isTied) {
+      // Save night votes to history before clearing for revote
+      if (state.nightVotes.length > 0) {
+        const nightVotesWithRound = state.nightVotes.map((vote) => ({
+          ...vote,
+          round: state.round
+        }));
+        state.nightVoteHistory.push(...nightVotesWithRound);
+      }
+
+      // Tie - go back to discussion
+      state.revoteRound += 1;
+      state.nightPhase = 'marked-discuss';
+      state.currentPlayerIndex = 0;
+      state.nightVotes = [];  // Clear votes for new round
+      state.messages.push(
+        addMessage(
+          state,
+          '叙述者',
+          `第 ${state.revoteRound} 次平票（${tiedPlayers.join('、')}）！烙印者必须重新讨论并达成一致。`,
+          'system',
+          'marked',
+        ),
+      );
+    } else {
+      // Save successful night votes to history
+      if (state.nightVotes.length > 0) {
+        const nightVotesWithRound = state.nightVotes.map((vote) => ({
+          ...vote,
+          round: state.round
+        }));
+        state.nightVoteHistory.push(...nightVotesWithRound);
+      }
+
+      // Don't clear nightVotes here - they're needed for processNightPhase later
+      // They will be cleared when entering the next night phase
+
+      // No tie - proceed to witch phase, then guard phase, then coroner phase
+      state.revoteRound = 0;
+      enterNightAbilities(state);
+    }
+  } else if (state.nightPhase === 'witch') {
+    // Witch phase ended, go to guard phase
+    if (!enterGuardPhase(state) && !enterCoronerPhase(state)) {
+      resolveNight(state);
+    }
+  } else if (state.nightPhase === 'guard') {
+    // Guard phase ended, go to coroner phase
+    if (!enterCoronerPhase(state)) {
+      resolveNight(state);
+    }
+  } else if (state.nightPhase === 'coroner') {
+    // Coroner phase ended, proceed to day phase
+    resolveNight(state);
+  }
+}
+
+/**
+ * Night is over - apply the kill and the poison, then dawn and the morning's secret meeting
+ */
+function resolveNight(state: GameState): void {
+  const { killedPlayer, poisonedPlayer, message, isTied } = processNightPhase(state);
+
+  // Ties are sent back to discussion in the marked-vote step
+  if (isTied) return;
+
+  handleNightKillResult(state, killedPlayer, message, poisonedPlayer);
+
+  // A pending hunter shot holds the dawn until it is fired
+  if (state.phase === 'day') {
+    enterSecretMeeting(state, 'before_discussion');
+  }
+}
+
+/**
+ * Declare the winner and close the story
+ */
+function endGame(state: GameState, winner: GameResult): void {
+  state.winner = winner;
+  state.phase = 'end';
+
+  // Add atmospheric ending message - first what ended the game, then how the story closes for the winner
+  const closing = winner.faction === 'marked'
+    ? '黎明不再降临白烬山口，永夜吞噬了最后的希望。\n血肉献祭，灵魂皈依，收割者的呼唤得到了回应。\n\n这座村庄的故事，就此终结。'
+    : '幸存的羔羊们围聚在一起，泪水与血迹交织。\n\n白烬山口迎来了久违的宁静。';
+  const divider = '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━';
+  const endingMessage = `${divider}\n\n${getEndingCause(state, winner)}\n\n${closing}\n\n${divider}`;
+
+  state.messages.push(addMessage(state, '叙述者', endingMessage, 'system'));
+}
+
+/**
+ * Narrate the condition that ended the game
+ */
+function getEndingCause(state: GameState, winner: GameResult): string {
+  switch (winner.reason) {
+    case 'harvest_eliminated':
+      return '黎明的光芒刺破了永夜。\n\n最后的收割者倒在了祭坛之前，山灵的诅咒终于被打破。';
+    case 'parity':
+      return '山灵的收割已然完成。\n\n收割者已经和活着的羔羊一样多了。再没有人能把他们推进篝火。';
+    case 'specials_eliminated':
+      return '山灵的收割已然完成。\n\n聆心者、设闩者、食灰者……所有身怀异能的羔羊都已倒下。\n剩下的人再也无法分辨黑暗中的面孔。';
+    case 'innocents_eliminated':
+      return '山灵的收割已然完成。\n\n最后一个无知者停止了呼吸。那些毫无防备的普通人，一个也没有留下。';
+    case 'lambs_eliminated':
+      return '山灵的收割已然完成。\n\n再没有一只羔羊活着。篝火旁只剩下收割者，和他们餍足的沉默。';
+    case 'round_limit':
+      return winner.faction === 'lamb'
+        ? `第 ${state.rules.roundLimit} 回合过去，暴风雪终于停了。\n\n幸存者清点人数——羔羊仍占多数。收割者混在人群中，再也无从下手。`
+        : `第 ${state.rules.roundLimit} 回合过去，暴风雪终于停了。\n\n幸存者清点人数——收割者已不再是少数。下山的路通了，饥饿也跟着他们走了下去。`;
+  }
+}
+
+/**
+ * Determine who can see a player's message in the current phase
+ */
+function getMessageVisibility(state: GameState, player: Player): Message['visibility'] {
+  const participants = state.pendingSecretMeeting?.selectedParticipants;
+  if (state.phase === 'secret_meeting' && participants) {
+    return { secretMeeting: participants };  // Only the two participants remember the meeting
+  }
+  if (state.phase !== 'night' || state.pendingHunterShot || state.pendingLastWords) return 'all';
+
+  if (state.nightPhase === 'listener' && player.role === 'listener') {
+    return 'listener';  // Only listener can see their check
+  }
+  if (state.nightPhase === 'twins' && player.role === 'twin') {
+    return 'twins';  // Only the twins hear each other at night
+  }
+  if (state.nightPhase === 'witch' && player.role === 'witch') {
+    return 'witch';  // Only witch can see their potion choice
+  }
+  if (state.nightPhase === 'guard' && player.role === 'guard') {
+    return 'guard';  // Only guard can see their guard action
+  }
+  if (state.nightPhase === 'coroner' && player.role === 'coroner') {
+    return 'coroner';  // Only coroner can see their autopsy
+  }
+  if (player.role === 'marked') {
+    return 'marked';  // Only marked can see night discussion
+  }
+  return 'all';
+}
+
+/**
+ * Check if the current step requires choosing a target (night abilities or a hunter's last shot)
+ */
+function isTargetPhase(state: GameState): boolean {
+  if (state.pendingHunterShot) return true;
+  if (state.pendingLastWords) return false;
+  return state.phase === 'night' &&
+    (state.nightPhase === 'listener' ||
+     state.nightPhase === 'marked-vote' ||
+     state.nightPhase === 'witch' ||
+     state.nightPhase === 'guard' ||
+     state.nightPhase === 'coroner');
+}
+
+/**
+ * Extract player name from AI response text
+ * Tries to intelligently match player names even if AI added extra text
+ */
+// eslint-disable-next-line max-depth
+function extractPlayerName(text: string, allPlayers: Player[]): string | null {
+  const cleanedText = text.trim();
+
+  // Try exact match first
+  const exactMatch = allPlayers.find(p => cleanedText === p.name);
+  if (exactMatch) return exactMatch.name;
+
+  // Try to find any player name mentioned in the text
+  // Sort by name length (descending) to prioritize longer names
+  const sortedPlayers = [...allPlayers].sort((a, b) => b.name.length - a.name.length);
+
+  for (const player of sortedPlayers) {
+    if (cleanedText.includes(player.name)) {
+      return player.name;
+    }
+  }
+
+  // Try partial match (first or last name)
+  for (const player of sortedPlayers) {
+    const nameParts = player.name.split('·');
+    for (const part of nameParts) {
+      if (cleanedText.includes(part) && part.length >= 2) {
+        // Additional check: make sure this partial match uniquely identifies the player
+        const matchingPlayers = allPlayers.filter(p => p.name.includes(part));
+        // eslint-disable-next-line max-depth
+        if (matchingPlayers.length === 1) {
+          return player.name;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Target named by an answer - a structured decision names it directly, free text is searched for names
+ * Empty when the player passed or named nobody
+ */
+function resolveActionTarget(state: GameState, response: string, decision?: ActionDecision): string {
+  if (decision) {
+    // 结构化答案里的名字可能写得不全（只写了名），仍按名字匹配补全
+    return decision.target ? extractPlayerName(decision.target, state.players) ?? decision.target : '';
+  }
+  // Try to extract player name intelligently
+  return extractPlayerName(response, state.players) ?? '';
+}
+
+/**
+ * Witch's choice - from the decision, or from the potion keywords in free text
+ * A negated keyword does not count, so "用解药救他，不用毒药" still saves
+ */
+function getWitchChoice(response: string, decision?: ActionDecision): NonNullable<ActionDecision['action']> {
+  if (decision) return decision.action ?? (decision.target ? 'poison' : 'pass');
+  if (/(?<!不|不用|不使用|放弃|放弃使用)毒/.test(response)) return 'poison';
+  if (/(?<!不|不用|不使用|放弃|放弃使用)(解药|救)/.test(response)) return 'save';
+  return 'pass';
+}
+
+/**
+ * Check a vote or target choice before it is recorded - returns why it is illegal, or null if it may stand
+ * Passing is always allowed; speeches are never checked
+ */
+// eslint-disable-next-line complexity
+export function validatePlayerAction(state: GameState, action: PlayerAction): string | null {
+  const player = state.players.find((p) => p.name === action.player);
+  if (action.type === 'SPEECH' || !player) return null;
+
+  const nightPhase = state.phase === 'night' && !state.pendingHunterShot ? state.nightPhase : undefined;
+  if (nightPhase === 'witch') {
+    return validateWitchAction(state, player, action);
+  }
+
+  const targetName = resolveActionTarget(state, action.content, action.decision);
+  if (!targetName) {
+    // 结构化答案写 null、或原文写了放弃，都算弃权
+    return action.decision || action.content.includes('放弃') ? null : '你的回答里没有任何人的名字';
+  }
+  const target = getPlayerByName(state, targetName);
+  if (!target) return `这里没有叫「${targetName}」的人`;
+
+  if (nightPhase === 'coroner') {
+    return getUnexaminedCorpses(state).includes(target) ? null : `${target.name} 不是一具还没有品尝过的尸体`;
+  }
+  if (!target.isAlive) return `${target.name} 已经死了`;
+  if (nightPhase === 'marked-vote' && target.role === 'marked') return `${target.name} 是你的同类`;
+  if (nightPhase === 'guard') {
+    if (!state.rules.guardSelf && target.id === player.id) return '你不能守护自己';
+    if (!state.rules.guardRepeat && state.lastGuardedPlayer === target.name) {
+      return `你昨晚守护了 ${target.name}，不能连续两晚守护同一个人`;
+    }
+    return null;
+  }
+  if (target.id === player.id) return '你不能选择自己';
+  return null;
+}
+
+/**
+ * Witch's potions must still be there, and the poison needs another living player
+ */
+function validateWitchAction(state: GameState, player: Player, action: PlayerAction): string | null {
+  const choice = getWitchChoice(action.content.trim(), action.decision);
+  const potions = getRemainingPotions(state);
+
+  if (choice === 'save') {
+    if (!potions.antidote) return '你的解药已经用尽';
+    return getNightKillTarget(state) ? null : '今晚没有人需要解药';
+  }
+  if (choice === 'poison') {
+    if (!potions.poison) return '你的毒药已经用尽';
+    const others = state.players.filter((p) => p.isAlive && p.id !== player.id);
+    const text = action.decision ? action.decision.target ?? '' : action.content;
+    return extractPlayerName(text, others) ? null : '毒药必须用在另一名活着的人身上';
+  }
+  return null;
+}
+
+/**
+ * Record vote or action based on player response
+ */
+function recordVote(
+  state: GameState,
+  currentPlayer: Player,
+  response: string,
+  decision?: ActionDecision,
+): void {
+  const targetName = resolveActionTarget(state, response, decision);
+  const targetPlayer = getPlayerByName(state, targetName);
+
+  if (state.pendingHunterShot) {
+    recordHunterShot(state, currentPlayer, targetName, targetPlayer);
+  } else if (state.phase === 'voting') {
+    recordDayVote(state, currentPlayer, targetName, targetPlayer);
+  } else if (state.phase === 'night' && state.nightPhase === 'witch') {
+    // Witch needs the full response to tell save / poison / pass apart
+    recordWitchAction(state, currentPlayer, response, decision);
+  } else if (state.phase === 'night') {
+    recordNightAction(state, currentPlayer, targetName, targetPlayer);
+  }
+}
+
+/**
+ * Record day vote
+ */
+function recordDayVote(
+  state: GameState,
+  currentPlayer: Player,
+  targetName: string,
+  targetPlayer: Player | undefined,
+): void {
+  if (targetPlayer?.isAlive) {
+    state.votes.push({ from: currentPlayer.name, target: targetName, messageCount: state.messages.length });
+  }
+}
+
+/**
+ * Record night action
+ */
+function recordNightAction(
+  state: GameState,
+  currentPlayer: Player,
+  targetName: string,
+  targetPlayer: Player | undefined,
+): void {
+  if (state.nightPhase === 'listener' && currentPlayer.role === 'listener') {
+    recordListenerCheck(state, targetName, targetPlayer);
+  } else if (state.nightPhase === 'marked-vote' && currentPlayer.role === 'marked') {
+    recordMarkedVote(state, currentPlayer, targetName, targetPlayer);
+  } else if (state.nightPhase === 'guard' && currentPlayer.role === 'guard') {
+    recordGuardAction(state, currentPlayer, targetName, targetPlayer);
+  } else if (state.nightPhase === 'coroner' && currentPlayer.role === 'coroner') {
+    recordCoronerReport(state, targetName, targetPlayer);
+  }
+}
+
+/**
+ * Record listener check
+ */
+function recordListenerCheck(
+  state: GameState,
+  targetName: string,
+  targetPlayer: Player | undefined,
+): void {
+  if (!targetPlayer?.isAlive) return;
+
+  // Check if target is clean (not marked or heretic)
+  const isClean = targetPlayer.role !== 'marked' && targetPlayer.role !== 'heretic';
+
+  state.listenerChecks.push({
+    round: state.round,
+    target: targetName,
+    isClean,
+  });
+
+  const factionName = isClean ? '清白' : '污秽';
+
+  state.messages.push(
+    addMessage(
+      state,
+      '叙述者',
+      `倾听结果：${targetName} 的灵魂是 ${factionName} 的`,
+      'system',
+      'listener',
+    ),
+  );
+}
+
+/**
+ * Record coroner report - only a corpse that has not been examined yet
+ */
+function recordCoronerReport(
+  state: GameState,
+  targetName: string,
+  targetPlayer: Player | undefined,
+): void {
+  if (!targetPlayer || !getUnexaminedCorpses(state).includes(targetPlayer)) return;
+
+  const isClean = targetPlayer.role !== 'marked' && targetPlayer.role !== 'heretic';
+
+  state.coronerReports.push({
+    round: state.round,
+    target: targetName,
+    isClean,
+  });
+
+  const factionName = isClean ? '清白' : '污秽';
+
+  state.messages.push(
+    addMessage(
+      state,
+      '叙述者',
+      `食灰者在梦中品尝了 ${targetName} 的灵魂... 那是 ${factionName} 的味道`,
+      'system',
+      'coroner',
+    ),
+  );
+}
+
+/**
+ * Record marked vote
+ */
+function recordMarkedVote(
+  state: GameState,
+  currentPlayer: Player,
+  targetName: string,
+  targetPlayer: Player | undefined,
+): void {
+  if (targetPlayer?.isAlive && targetPlayer.role !== 'marked') {
+    state.nightVotes.push({ from: currentPlayer.name, target: targetName, messageCount: state.messages.length });
+  }
+}
+
+/**
+ * Record witch action - 解药 saves tonight's victim, 毒药 kills the named player, anything else passes
+ */
+function recordWitchAction(
+  state: GameState,
+  currentPlayer: Player,
+  response: string,
+  decision?: ActionDecision,
+): void {
+  if (currentPlayer.role !== 'witch') return;
+
+  const text = response.trim();
+  const potions = getRemainingPotions(state);
+  let result = '你没有动用药瓶。';
+  const choice = getWitchChoice(text, decision);
+
+  if (choice === 'pass') {
+    // Pass - keep both potions
+  } else if (choice === 'poison' && potions.poison) {
+    const alivePlayers = state.players.filter((p) => p.isAlive && p.id !== currentPlayer.id);
+    const targetName = extractPlayerName(decision ? decision.target ?? '' : text, alivePlayers);
+    if (targetName) {
+      state.nightActions.push({
+        playerId: currentPlayer.id,
+        action: 'poison',
+        target: targetName,
+        round: state.round,
+      });
+      result = `你把毒药倒进了 ${targetName} 的水杯。毒药已经用尽。`;
+    }
+  } else if (choice === 'save' && potions.antidote) {
+    const victim = getNightKillTarget(state);
+    if (victim) {
+      state.nightActions.push({
+        playerId: currentPlayer.id,
+        action: 'save',
+        target: victim.name,
+        round: state.round,
+      });
+      result = `你把解药留在了 ${victim.name} 的床边。解药已经用尽。`;
+    }
+  }
+
+  state.messages.push(
+    addMessage(state, '叙述者', result, 'system', 'witch'),
+  );
+}
+
+/**
+ * Record hunter's choice - the shot is fired when the game moves on
+ */
+function recordHunterShot(
+  state: GameState,
+  currentPlayer: Player,
+  targetName: string,
+  targetPlayer: Player | undefined,
+): void {
+  const shot = state.pendingHunterShot;
+  if (!shot || shot.hunter !== currentPlayer.name) return;
+
+  shot.target = targetPlayer?.isAlive && targetPlayer.id !== currentPlayer.id ? targetName : undefined;
+}
+
+/**
+ * Fire the pending hunter shot - the second death goes through the same death triggers
+ */
+function resolveHunterShot(state: GameState): void {
+  const shot = state.pendingHunterShot;
+  if (!shot) return;
+  state.pendingHunterShot = undefined;
+
+  const target = shot.target ? state.players.find((p) => p.name === shot.target) : undefined;
+  if (target?.isAlive) {
+    state.messages.push(
+      addMessage(
+        state,
+        '叙述者',
+        `枪声在山庄里回荡。${shot.hunter} 用最后的力气扣动了扳机，${target.name} 应声倒地。`,
+        'death',
+        'all',
+      ),
+    );
+    killPlayer(state, target, 'shot');
+    // 遗言对所有死者开放时，中枪的人也能说，之后照猎人倒下的原因继续
+    if (state.lastWordsMode === 'all') {
+      queueLastWords(state, [target], shot.cause);
+    }
+  } else {
+    state.messages.push(
+      addMessage(state, '叙述者', `${shot.hunter} 的手垂了下去。那一枪，终究没有响起。`, 'system', 'all'),
+    );
+  }
+}
+
+/**
+ * Continue the flow a death interrupted - a decided game ends on the next ADVANCE instead
+ */
+function continueAfterDeath(state: GameState, cause: 'night' | 'sacrifice'): void {
+  if (checkWinCondition(state)) return;
+  if (cause === 'night') {
+    startNewDay(state);
+    enterSecretMeeting(state, 'before_discussion');
+  } else {
+    enterNightPhase(state);
+  }
+}
+
+/**
+ * Queue last words for the dead if the game's last words rule covers this death
+ * The dead join anyone already waiting to speak
+ */
+function queueLastWords(state: GameState, dead: Player[], cause: 'night' | 'sacrifice'): void {
+  const mode = state.lastWordsMode ?? 'off';
+  const allowed = mode === 'all' || (mode === 'first_night' && cause === 'night' && state.round === 1);
+  if (!allowed || dead.length === 0) return;
+
+  const waiting = state.pendingLastWords?.players ?? [];
+  state.pendingLastWords = { players: [...waiting, ...dead.map((p) => p.name)], cause };
+}
+
+/**
+ * Open the last words - the dead speak in order on the following steps
+ */
+function announceLastWords(state: GameState): void {
+  state.currentPlayerIndex = 0;
+  const names = state.pendingLastWords?.players.join('、') ?? '';
+  state.messages.push(
+    addMessage(state, '叙述者', `${names} 还有最后的话要说。`, 'system', 'all'),
+  );
+}
+
+/**
+ * Queue the hunter's last shot - the game pauses until the hunter decides
+ */
+function queueHunterShot(state: GameState, hunter: Player, cause: 'night' | 'sacrifice'): void {
+  state.pendingHunterShot = { hunter: hunter.name, cause };
+  state.currentPlayerIndex = 0;
+  state.messages.push(
+    addMessage(
+      state,
+      '叙述者',
+      `${hunter.name} 倒下之前，颤抖着摸向了腰间的猎枪……`,
+      'system',
+      'all',
+    ),
+  );
+}
+
+/**
+ * Record guard action
+ */
+function recordGuardAction(
+  state: GameState,
+  currentPlayer: Player,
+  targetName: string,
+  targetPlayer: Player | undefined,
+): void {
+  if (!targetPlayer?.isAlive) return;
+
+  if (!state.rules.guardSelf && targetPlayer.id === currentPlayer.id) {
+    state.messages.push(
+      addMessage(
+        state,
+        '叙述者',
+        `你不能守护自己！守护失败。`,
+        'system',
+        'guard',
+      ),
+    );
+    return;
+  }
+
+  // Check if guard can protect this player (not the same as last night)
+  if (!state.rules.guardRepeat && state.lastGuardedPlayer === targetName) {
+    state.messages.push(
+      addMessage(
+        state,
+        '叙述者',
+        `你不能连续两晚守护同一个人！守护失败。`,
+        'system',
+        'guard',
+      ),
+    );
+    return;
+  }
+
+  // Record guard action
+  state.guardRecords.push({
+    round: state.round,
+    target: targetName,
+  });
+
+  // Update last guarded player
+  state.lastGuardedPlayer = targetName;
+
+  state.messages.push(
+    addMessage(
+      state,
+      '叙述者',
+      `你守护了 ${targetName}。门闩已经从外面锁好。`,
+      'system',
+      'guard',
+    ),
+  );
+}
+
+/**
+ * Helper function to handle day voting result
+ */
+function handleDayVotingResult(
+  state: GameState,
+  eliminated: Player | null,
+  isTied: boolean,
+  tiedPlayers: string[],
+): void {
+  if (isTied) {
+    if (state.isRevote && state.rules.dayTie === 'revote_then_random') {
+      // Second tie - fate picks one of the tied
+      const random = createRandom(state);
+      const chosen = getPlayerByName(state, tiedPlayers[Math.floor(random() * tiedPlayers.length)]);
+      state.messages.push(
+        addMessage(state, '叙述者', `再次平票！献祭石自己滚向了 ${chosen?.name}。${chosen?.name} 被推入白蜡篝火，化为灰烬。`, 'system', 'all'),
+      );
+      handleDayVotingResult(state, chosen ?? null, false, []);
+    } else if (state.isRevote || state.rules.dayTie === 'no_sacrifice') {
+      // Second tie (or no revotes at this table) - nobody gets eliminated
+      state.messages.push(
+        addMessage(state, '叙述者', state.isRevote ? '再次平票！本回合不淘汰任何人。' : '平票！本回合不淘汰任何人。', 'system', 'all'),
+      );
+      // Clear last sacrificed player since no one was eliminated
+      state.lastSacrificedPlayer = undefined;
+      enterNightPhase(state);
+    } else {
+      // First tie - enter revote discussion phase
+      state.isRevote = true;
+      state.tiedPlayers = tiedPlayers;
+      state.phase = 'day';
+      state.currentPlayerIndex = 0;
+      state.votes = [];
+      state.messages.push(
+        addMessage(
+          state,
+          '叙述者',
+          `平票玩家 ${tiedPlayers.join('、')} 不能发言。其他玩家请进行讨论并投票。`,
+          'system',
+          'all',
+        ),
+      );
+    }
+  } else {
+    // No tie - normal elimination
+    if (eliminated) {
+      const player = state.players.find((p) => p.id === eliminated.id);
+      if (player) {
+        killPlayer(state, player, 'sacrifice');
+        // Record sacrificed player for coroner
+        state.lastSacrificedPlayer = player.name;
+        queueLastWords(state, [player], 'sacrifice');
+        // 被献祭的鸣枪者可以开最后一枪，夜晚等枪响和遗言之后再降临
+        if (canHunterShoot(state, player)) {
+          queueHunterShot(state, player, 'sacrifice');
+          return;
+        }
+        if (state.pendingLastWords) {
+          announceLastWords(state);
+          return;
+        }
+      }
+    } else {
+      // No one eliminated - clear last sacrificed
+      state.lastSacrificedPlayer = undefined;
+    }
+    enterNightPhase(state);
+  }
+}
+
+/**
+ * Role names announced when the house rules reveal the dead
+ */
+const ROLE_NAMES: Record<Role, string> = {
+  marked: '烙印者',
+  heretic: '背誓者',
+  listener: '聆心者',
+  coroner: '食灰者',
+  twin: '共誓者',
+  guard: '设闩者',
+  witch: '秘药者',
+  hunter: '鸣枪者',
+  innocent: '无知者',
+};
+
+/**
+ * Mark a player dead and record the death - called right after the death is announced
+ */
+function killPlayer(state: GameState, player: Player, cause: DeathRecord['cause']): void {
+  player.isAlive = false;
+  state.deaths.push({ player: player.name, round: state.round, cause, messageCount: state.messages.length });
+  if (state.rules.revealRoleOnDeath) {
+    state.messages.push(
+      addMessage(state, '叙述者', `${player.name} 的身份是：${ROLE_NAMES[player.role]}。`, 'system', 'all'),
+    );
+  }
+  // Trigger emotional state changes for related characters
+  handleDeathTriggers(state, player.name);
+}
+
+/**
+ * Helper function to handle night kill result
+ */
+function handleNightKillResult(
+  state: GameState,
+  killedPlayer: Player | null,
+  message: Message,
+  poisonedPlayer: Player | null = null,
+): void {
+  state.messages.push(message);
+  const dead: Player[] = [];
+  [killedPlayer, poisonedPlayer].forEach((victim) => {
+    if (!victim) return;
+    const player = state.players.find((p) => p.id === victim.id);
+    if (player) {
+      killPlayer(state, player, victim === killedPlayer ? 'night' : 'poison');
+      dead.push(player);
+    }
+  });
+  queueLastWords(state, dead, 'night');
+
+  // 被利爪杀死的鸣枪者可以开最后一枪（被毒死则不行），天亮等枪响和遗言之后
+  if (killedPlayer && canHunterShoot(state, killedPlayer)) {
+    queueHunterShot(state, killedPlayer, 'night');
+    return;
+  }
+  if (state.pendingLastWords) {
+    announceLastWords(state);
+    return;
+  }
+
+  startNewDay(state);
+}
+
+/**
+ * Start the next day after the night's deaths are resolved
+ */
+function startNewDay(state: GameState): void {
+  state.round += 1;
+  state.phase = 'day';
+  state.currentPlayerIndex = 0;
+  state.isRevote = false;
+  state.tiedPlayers = [];
+  state.messages.push(
+    addMessage(state, '叙述者', `第 ${state.round} 回合。天亮了！`, 'system', 'all'),
+  );
+
+  // On the awakening day, reveal heretic existence to marked players and awaken the heretic
+  if (state.round === state.rules.hereticAwakenRound) {
+    const hereticPlayer = state.players.find((p) => p.role === 'heretic' && p.isAlive);
+    if (hereticPlayer) {
+      // Send awakening message to heretic only
+      state.messages.push(
+        addMessage(
+          state,
+          '山灵',
+          `【灵魂的堕落】
+
+昨夜，黑暗侵蚀了你的意识。
+
+你感到某种邪恶的力量在你体内苏醒。
+你的思想开始扭曲。你的欲望开始改变。
+
+你不再是"人"。
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+【你堕落成了背誓者】
+
+你的灵魂现在和那些"收割者"一样污秽。
+你渴望羔羊的失败。你渴望收割阵营的胜利。
+
+但你不知道收割者是谁。
+他们今天会知道"有背誓者存在"，但他们不知道是你。
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+【你现在的目标】
+
+- 制造混乱，误导羔羊们
+- 保护那些收割者（虽然你不知道他们是谁）
+- 用你的投票把羔羊引向错误的方向
+- 绝不暴露自己
+
+如果被聆心者查验，你会显示为"污秽"。
+如果被发现，你会被献祭。那是真正的死亡。
+
+你是孤独的。你是脆弱的。
+活下去。帮助收割阵营获胜。`,
+          'system',
+          { player: hereticPlayer.name },
+        ),
+      );
+
+      // Send existence notification to marked players
+      state.messages.push(
+        addMessage(
+          state,
+          '山灵',
+          `【暗语】
+
+昨夜，你们感受到了某种异样的气息。
+
+有人背叛了"人"。有人的灵魂已经污秽。
+
+但那个人不是你们选中的。那个人是自愿堕落的。
+
+【背誓者】已经出现。TA 的灵魂和你们一样污秽，但 TA 不知道你们是谁，你们也不知道 TA 是谁。
+
+TA 无法参与你们的夜晚狩猎，但 TA 会在白天帮助你们。
+
+寻找 TA。或者利用 TA。`,
+          'system',
+          'marked',
+        ),
+      );
+    }
+  }
+}
+
+/**
+ * Check if the twins get their night channel - both alive, or the survivor's first night alone
+ */
+function hasTwinNight(state: GameState): boolean {
+  if (!state.twinChannel || !state.twinPair) return false;
+  const aliveTwins = state.players.filter((p) => p.role === 'twin' && p.isAlive);
+  if (aliveTwins.length === 2) return true;
+  return aliveTwins.length === 1 && !state.twinPair.mourned;
+}
+
+/**
+ * Open the twins' night channel - a whispered talk, or a lone vigil for the dead partner
+ */
+function enterTwinNight(state: GameState): void {
+  state.nightPhase = 'twins';
+  state.currentPlayerIndex = 0;
+
+  const aliveTwins = state.players.filter((p) => p.role === 'twin' && p.isAlive);
+  if (aliveTwins.length === 1 && state.twinPair) {
+    // 同伴死后只守这一夜
+    state.twinPair.mourned = true;
+    state.messages.push(
+      addMessage(state, '叙述者', `${aliveTwins[0].name} 独自坐在黑暗里。身边那个位置，空了。`, 'system', 'twins'),
+    );
+  } else {
+    state.messages.push(
+      addMessage(state, '叙述者', '共誓者在黑暗中靠近彼此，低声交谈……', 'system', 'twins'),
+    );
+  }
+}
+
+/**
+ * Check if the marked sit out tonight - the first night under the first-night-no-kill house rule
+ */
+function isHuntSkipped(state: GameState): boolean {
+  return state.rules.firstNightNoKill && state.round === 1;
+}
+
+/**
+ * Enter the marked's hunt, or go straight to the other night abilities when the hunt is skipped
+ */
+function enterMarkedPhase(state: GameState): void {
+  if (isHuntSkipped(state)) {
+    state.messages.push(
+      addMessage(state, '叙述者', '第一夜，饥饿尚未苏醒。烙印者今晚不会出手。', 'system', 'marked'),
+    );
+    enterNightAbilities(state);
+    return;
+  }
+
+  state.nightPhase = 'marked-discuss';
+  state.currentPlayerIndex = 0;
+  state.messages.push(
+    addMessage(state, '叙述者', '饥饿的呼唤开始了...', 'system', 'marked'),
+  );
+}
+
+/**
+ * The hunt is settled - witch, guard and coroner in turn, then dawn
+ */
+function enterNightAbilities(state: GameState): void {
+  if (!enterWitchPhase(state) && !enterGuardPhase(state) && !enterCoronerPhase(state)) {
+    resolveNight(state);
+  }
+}
+
+/**
+ * Settle a marked tie without another round of discussion - fate picks one of the tied, or nobody dies
+ */
+function settleNightTie(state: GameState, tiedPlayers: string[]): void {
+  state.nightVoteHistory.push(...state.nightVotes.map((vote) => ({ ...vote, round: state.round })));
+  state.revoteRound = 0;
+
+  if (state.rules.nightTie === 'random') {
+    const random = createRandom(state);
+    const chosen = tiedPlayers[Math.floor(random() * tiedPlayers.length)];
+    // 只保留投给被选中者的票，之后的结算照常进行
+    state.nightVotes = state.nightVotes.filter((vote) => vote.target === chosen);
+    state.messages.push(
+      addMessage(state, '叙述者', `平票（${tiedPlayers.join('、')}）！命运替你们选中了 ${chosen}。`, 'system', 'marked'),
+    );
+  } else {
+    state.nightVotes = [];
+    state.messages.push(
+      addMessage(state, '叙述者', `平票（${tiedPlayers.join('、')}）！烙印者今晚空手而归。`, 'system', 'marked'),
+    );
+  }
+}
+
+/**
+ * Enter witch phase if an alive witch still has a potion - tells the witch tonight's victim
+ */
+function enterWitchPhase(state: GameState): boolean {
+  const witch = state.players.find((p) => p.role === 'witch' && p.isAlive);
+  const potions = getRemainingPotions(state);
+  if (!witch || (!potions.antidote && !potions.poison)) return false;
+
+  const victim = getNightKillTarget(state);
+  state.nightPhase = 'witch';
+  state.currentPlayerIndex = 0;
+  state.messages.push(
+    addMessage(
+      state,
+      '叙述者',
+      victim
+        ? `今晚，烙印者选中了 ${victim.name}。秘药者，你要动用药瓶吗？`
+        : '今晚，烙印者没有选中任何人。秘药者，你要动用药瓶吗？',
+      'system',
+      'witch',
+    ),
+  );
+  return true;
+}
+
+/**
+ * Enter guard phase if an alive guard exists
+ */
+function enterGuardPhase(state: GameState): boolean {
+  const guard = state.players.find((p) => p.role === 'guard' && p.isAlive);
+  if (!guard) return false;
+
+  state.nightPhase = 'guard';
+  state.currentPlayerIndex = 0;
+  state.messages.push(
+    addMessage(state, '叙述者', '设闩者，选择今晚要守护的人...', 'system', 'guard'),
+  );
+  return true;
+}
+
+/**
+ * Enter coroner phase if an alive coroner has a corpse left to examine
+ */
+function enterCoronerPhase(state: GameState): boolean {
+  const coroner = state.players.find((p) => p.role === 'coroner' && p.isAlive);
+  if (!coroner || getUnexaminedCorpses(state).length === 0) return false;
+
+  state.nightPhase = 'coroner';
+  state.currentPlayerIndex = 0;
+  state.messages.push(
+    addMessage(state, '叙述者', '食灰者，选择一具要品尝的尸体...', 'system', 'coroner'),
+  );
+  return true;
+}
+
+/**
+ * Helper function to enter night phase
+ */
+function enterNightPhase(state: GameState): void {
+  state.phase = 'night';
+  state.nightPhase = 'listener';
+  state.currentPlayerIndex = 0;
+  state.nightVotes = [];
+  state.isRevote = false;
+  state.tiedPlayers = [];
+
+  const listener = state.players.find((p) => p.role === 'listener' && p.isAlive);
+  if (listener) {
+    state.messages.push(
+      addMessage(state, '叙述者', '夜幕降临... 寂静山庄陷入黑暗。', 'system', 'all'),
+    );
+  } else if (hasTwinNight(state)) {
+    state.messages.push(
+      addMessage(state, '叙述者', '夜幕降临... 寂静山庄陷入黑暗。', 'system', 'all'),
+    );
+    enterTwinNight(state);
+  } else if (isHuntSkipped(state)) {
+    state.messages.push(
+      addMessage(state, '叙述者', '夜幕降临... 寂静山庄陷入黑暗。', 'system', 'all'),
+    );
+    enterMarkedPhase(state);
+  } else {
+    state.nightPhase = 'marked-discuss';
+    state.messages.push(
+      addMessage(state, '叙述者', '夜幕降临... 饥饿者的时刻到了。', 'system', 'all'),
+    );
+  }
+}
@@ -3,6 +3,8 @@
  * Events affect relationships between characters
  */
 
+import { shuffle, type RandomSource } from './random';
+
 export type EventType = 'positive' | 'negative' | 'neutral';
 
 export interface GameEvent {
@@ -225,21 +227,21 @@ export const GAME_EVENTS: GameEvent[] = [
 /**
  * Select a random event with specified number of participants
  */
-export function selectRandomEvent(participantCount: number): GameEvent | null {
+export function selectRandomEvent(participantCount: number, random: RandomSource): GameEvent | null {
   const validEvents = GAME_EVENTS.filter(e => e.participantCount === participantCount);
   if (validEvents.length === 0) return null;
 
-  const randomIndex = Math.floor(Math.random() * validEvents.length);
+  const randomIndex = Math.floor(random() * validEvents.length);
   return validEvents[randomIndex];
 }
 
 /**
  * Select random participants from alive players
  */
-export function selectRandomParticipants(alivePlayers: string[], count: number): string[] {
+export function selectRandomParticipants(alivePlayers: string[], count: number, random: RandomSource): string[] {
   if (alivePlayers.length < count) return [];
 
-  const shuffled = [...alivePlayers].sort(() => Math.random() - 0.5);
+  const shuffled = shuffle(alivePlayers, random);
   return shuffled.slice(0, count);
 }
 
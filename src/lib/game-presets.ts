@@ -0,0 +1,224 @@
+/**
+ * Role setup presets and validation
+ * 角色配置预设与校验
+ */
+
+import type { GameConfig, GamePreset, LastWordsMode, Role } from '@/types/game';
+import { CHARACTER_NAMES } from './game-engine';
+import { validateRules } from './house-rules';
+
+export const MIN_PLAYERS = 6;
+export const MAX_PLAYERS = CHARACTER_NAMES.length;
+
+/**
+ * Role order used when building role lists from counts
+ */
+export const ROLE_ORDER: Role[] = [
+  'marked', 'heretic', 'listener', 'coroner', 'twin', 'guard', 'witch', 'hunter', 'innocent',
+];
+
+/**
+ * Last words rules (遗言) offered in the setup
+ */
+export const LAST_WORDS_OPTIONS: { mode: LastWordsMode; name: string }[] = [
+  { mode: 'off', name: '无遗言' },
+  { mode: 'first_night', name: '仅首夜死者' },
+  { mode: 'all', name: '每位死者' },
+];
+
+/**
+ * Harvest faction roles (收割阵营)
+ */
+export function isHarvestRole(role: Role): boolean {
+  return role === 'marked' || role === 'heretic';
+}
+
+/**
+ * Build a role list from per-role counts
+ */
+export function buildRoles(counts: Partial<Record<Role, number>>): Role[] {
+  return ROLE_ORDER.flatMap((role) => Array<Role>(counts[role] ?? 0).fill(role));
+}
+
+/**
+ * Count roles in a role list
+ */
+export function countRoles(roles: Role[]): Record<Role, number> {
+  const counts = Object.fromEntries(ROLE_ORDER.map((role) => [role, 0])) as Record<Role, number>;
+  roles.forEach((role) => {
+    counts[role] += 1;
+  });
+  return counts;
+}
+
+/**
+ * Default 15-player setup - 白烬山口标准局
+ */
+export const DEFAULT_CONFIG: GameConfig = {
+  playerCount: 15,
+  roles: buildRoles({
+    marked: 3,
+    heretic: 1,
+    listener: 1,
+    coroner: 1,
+    twin: 2,
+    guard: 1,
+    innocent: 6,
+  }),
+  characters: [...CHARACTER_NAMES],
+  enableWitch: false,
+  enableHunter: false,
+  lastWords: 'all',
+  twinChannel: true,
+};
+
+/**
+ * Built-in presets
+ */
+export const BUILT_IN_PRESETS: GamePreset[] = [
+  {
+    id: 'preset-15-standard',
+    name: '15人标准局',
+    description: '完整的白烬山口：3烙印者 + 1背誓者 对 11羔羊',
+    config: DEFAULT_CONFIG,
+    builtIn: true,
+  },
+  {
+    id: 'preset-12-classic',
+    name: '12人经典局',
+    description: '2烙印者 + 1背誓者 对 9羔羊',
+    config: {
+      playerCount: 12,
+      roles: buildRoles({
+        marked: 2,
+        heretic: 1,
+        listener: 1,
+        coroner: 1,
+        twin: 2,
+        guard: 1,
+        innocent: 4,
+      }),
+      characters: CHARACTER_NAMES.slice(0, 12),
+      enableWitch: false,
+      enableHunter: false,
+      lastWords: 'all',
+      twinChannel: true,
+    },
+    builtIn: true,
+  },
+  {
+    id: 'preset-9-quick',
+    name: '9人速战局',
+    description: '2烙印者 对 7羔羊，无背誓者与共誓者',
+    config: {
+      playerCount: 9,
+      roles: buildRoles({
+        marked: 2,
+        listener: 1,
+        coroner: 1,
+        guard: 1,
+        innocent: 4,
+      }),
+      characters: CHARACTER_NAMES.slice(0, 9),
+      enableWitch: false,
+      enableHunter: false,
+      lastWords: 'all',
+    },
+    builtIn: true,
+  },
+  {
+    id: 'preset-6-test',
+    name: '6人测试局',
+    description: '1烙印者 对 5羔羊，适合快速验证流程',
+    config: {
+      playerCount: 6,
+      roles: buildRoles({
+        marked: 1,
+        listener: 1,
+        guard: 1,
+        innocent: 3,
+      }),
+      characters: CHARACTER_NAMES.slice(0, 6),
+      enableWitch: false,
+      enableHunter: false,
+      lastWords: 'all',
+    },
+    builtIn: true,
+  },
+];
+
+/**
+ * Validate a game config, returning a list of human-readable errors (empty = valid)
+ */
+// eslint-disable-next-line complexity
+export function validateGameConfig(config: GameConfig): string[] {
+  const errors: string[] = [];
+  const { playerCount, roles, characters } = config;
+  const counts = countRoles(roles);
+
+  if (playerCount < MIN_PLAYERS || playerCount > MAX_PLAYERS) {
+    errors.push(`人数必须在 ${MIN_PLAYERS}-${MAX_PLAYERS} 之间`);
+  }
+
+  if (roles.length !== playerCount) {
+    errors.push(`角色总数（${roles.length}）与人数（${playerCount}）不一致`);
+  }
+
+  if (characters) {
+    if (characters.length !== playerCount) {
+      errors.push(`已选择 ${characters.length} 名旅者，需要 ${playerCount} 名`);
+    }
+    if (new Set(characters).size !== characters.length) {
+      errors.push('旅者不能重复选择');
+    }
+    const unknown = characters.filter((name) => !CHARACTER_NAMES.includes(name));
+    if (unknown.length > 0) {
+      errors.push(`未知的旅者：${unknown.join('、')}`);
+    }
+  }
+
+  if (counts.marked < 1) {
+    errors.push('至少需要 1 名烙印者');
+  }
+
+  // 共誓者只能成对出现（目前仅支持一对）
+  if (counts.twin !== 0 && counts.twin !== 2) {
+    errors.push('共誓者必须成对出现（0 或 2 名）');
+  }
+
+  // 秘药者由 enableWitch 开关控制，最多一名
+  if (config.enableWitch && counts.witch !== 1) {
+    errors.push('启用秘药者时需要恰好 1 名秘药者');
+  }
+  if (!config.enableWitch && counts.witch > 0) {
+    errors.push('未启用秘药者，但角色中包含秘药者');
+  }
+
+  // 鸣枪者由 enableHunter 开关控制，最多一名
+  if (config.enableHunter && counts.hunter !== 1) {
+    errors.push('启用鸣枪者时需要恰好 1 名鸣枪者');
+  }
+  if (!config.enableHunter && counts.hunter > 0) {
+    errors.push('未启用鸣枪者，但角色中包含鸣枪者');
+  }
+
+  if (config.seed !== undefined && (!Number.isInteger(config.seed) || config.seed < 0 || config.seed > 0xffffffff)) {
+    errors.push('随机种子必须是 0-4294967295 之间的整数');
+  }
+
+  if (config.lastWords !== undefined && !LAST_WORDS_OPTIONS.some(({ mode }) => mode === config.lastWords)) {
+    errors.push('未知的遗言规则');
+  }
+
+  if (config.rules) {
+    errors.push(...validateRules(config.rules));
+  }
+
+  const harvestCount = roles.filter(isHarvestRole).length;
+  const lambCount = roles.length - harvestCount;
+  if (harvestCount >= lambCount) {
+    errors.push(`收割阵营（${harvestCount}）必须少于羔羊阵营（${lambCount}）`);
+  }
+
+  return errors;
+}
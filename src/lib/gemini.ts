@@ -3,8 +3,20 @@
  * 白烬山口 (Whitefire Pass) - AI驱动系统
  */
 
-import type { GameState, Player, APIType } from '@/types/game';
+import type { GameState, Player, APIType, RuleSet, PromptConfig } from '@/types/game';
+import { mergeUsage, PROVIDER_INFO, type TokenUsage } from './llm-providers';
+import { DEFAULT_PROMPT_CONFIG, renderPromptConfig, type PromptVariables } from './prompt-template';
+import { getRecentHistory, getRecentVotes, getVisibleMessages } from './player-memory';
+import { formatNotebook, notebookInstructions } from './notebook';
 import { EMOTIONAL_STATE_PROMPTS } from './emotional-prompts';
+import { toChineseNumber } from './utils';
+import {
+  getActingPlayers,
+  getNightKillTarget,
+  getPlayerActionType,
+  getRemainingPotions,
+  getUnexaminedCorpses,
+} from './game-engine';
 
 /**
  * OpenAI API configuration
@@ -13,10 +25,25 @@ interface GeminiConfig {
   apiKey: string;
   apiUrl?: string;
   model?: string;
-  apiType?: APIType;  // 'openai'
+  apiType?: APIType;  // 'openai' | 'anthropic' | 'gemini' | 'ollama'
   onRetry?: (info: { attempt: number; maxRetries: number; delay: number; reason: string }) => void;
+  onStream?: (text: string) => void;  // Streams speeches - called with the answer so far after each chunk
+  onUsage?: (usage: TokenUsage) => void;  // Token usage of the successful request, when the API reports it
+  promptConfig?: PromptConfig;  // Prompt template - the built-in one when unset
 }
 
+/**
+ * Pluggable source of player responses (API client, local model server, scripted responder)
+ * rejection is set when the player's last answer was illegal and they are asked again
+ * onUsage receives the token usage (and the model that answered) when the provider knows it
+ */
+export type ResponseProvider = (
+  player: Player,
+  gameState: GameState,
+  rejection?: string,
+  onUsage?: (usage: TokenUsage, model?: string) => void,
+) => Promise<string>;
+
 /**
  * Retry configuration
  */
@@ -27,6 +54,27 @@ const RETRY_CONFIG = {
   backoffMultiplier: 2,
 };
 
+/**
+ * Visible appearance of each character, keyed by name
+ */
+const CHARACTER_APPEARANCES: Record<string, string> = {
+  '诺拉·格雷': '（26岁，学者）- 深栗色长发挽起，金边眼镜，灰蓝色眼睛，冷静但疲惫，衣着朴素。',
+  '马库斯·霍克': '（34岁，猎人）- 脸上有疤，破旧皮夹克，腰间别着猎刀，粗犷但警惕。',
+  '艾琳·哈钦斯': '（43岁，清洁工）- 头发花白，黑头巾，手粗糙，衣着破旧，沉默寡言。',
+  '托马斯·克劳利': '（28岁，职员）- 衣领磨损，袖口打补丁，神情焦虑，显然缺钱。',
+  '莉迪亚·克劳利': '（25岁，教师）- 短发，灰色朴素长裙，表情严肃，说话简洁。',
+  '奥利弗·佩恩': '（31岁，药剂师）- 瘦削驼背，厚眼镜，手指有化学品味道，总在思考。',
+  '索菲亚·阿什福德': '（23岁，贵族）- 金色卷发，褪色丝绸裙，姿态骄傲，曾经的荣光。',
+  '塞缪尔·布莱克伍德': '（47岁，牧师）- 半白头发，风霜面容，黑袍，声音沉稳。',
+  '克莱尔·沃伦': '（19岁，女仆）- 娇小，亚麻色乱发，女仆制服，眼神惊恐。',
+  '维克多·斯通': '（39岁，军官）- 弓腰驼背但保持剃须，军人习惯，身有酒气。',
+  '艾米莉·卡特': '（32岁，护士）- 整洁发髻，干净白制服，手稳定，眼神专注。',
+  '本杰明·怀特': '（41岁，商人）- 昂贵但过时西装，金戒指，曾经富有的痕迹。',
+  '伊莎贝拉·费尔法克斯': '（29岁，名媛）- 黑色波浪长发，时尚服装，完美姿态，优雅高傲。',
+  '亚历山大·莫里斯': '（45岁，讨债人）- 一丝不苟的黑色三件套，冷漠眼神，令人不安。',
+  '夏洛特·温特斯': '（21岁，演员）- 红色短发，廉价鲜艳裙子，挑衅微笑，戏剧化举止。',
+};
+
 /**
  * Check if error is retryable
  */
@@ -52,10 +100,15 @@ function calculateBackoff(attempt: number): number {
 
 
 /**
- * Test if OpenAI compatible API key is valid with retry
+ * Test if the API key is valid with retry - OpenAI compatible unless another provider is given
  * Uses backend proxy to avoid CORS issues
  */
-export async function testOpenAIKey(apiKey: string, apiUrl: string, model: string = 'gpt-3.5-turbo'): Promise<boolean> {
+export async function testOpenAIKey(
+  apiKey: string,
+  apiUrl: string,
+  model: string = 'gpt-3.5-turbo',
+  apiType: APIType = 'openai',
+): Promise<boolean> {
   // Use fewer retries for test (2 retries max)
   const maxRetries = 2;
 
@@ -71,7 +124,7 @@ export async function testOpenAIKey(apiKey: string, apiUrl: string, model: strin
           apiKey,
           apiUrl,
           model,
-          apiType: 'openai',
+          apiType,
           prompt: '测试',
         }),
       });
@@ -114,23 +167,33 @@ export async function getAIResponse(
   player: Player,
   gameState: GameState,
   config: GeminiConfig,
+  rejection?: string,
 ): Promise<string> {
-  const prompt = buildPrompt(player, gameState);
-  const apiType = config.apiType ?? 'openai';
+  const prompt = buildPrompt(player, gameState, rejection, config.promptConfig);
+  // 投票与夜间目标要求 JSON 作答
+  const jsonMode = getPlayerActionType(gameState) !== 'SPEECH';
 
-  return getOpenAIResponse(prompt, config);
+  return getOpenAIResponse(prompt, config, jsonMode);
 }
 
+/**
+ * Ask the model to write a player's memory of the older rounds (see player-memory)
+ */
+export async function getSummaryResponse(prompt: string, config: GeminiConfig): Promise<string> {
+  return getOpenAIResponse(prompt, { ...config, onStream: undefined });
+}
 
 /**
- * Generate AI response using OpenAI compatible API with backend proxy
+ * Generate AI response through the backend proxy, which translates for the configured provider
  */
-async function getOpenAIResponse(prompt: string, config: GeminiConfig): Promise<string> {
+async function getOpenAIResponse(prompt: string, config: GeminiConfig, jsonMode = false): Promise<string> {
   if (!config.apiUrl) {
-    throw new Error('OpenAI API URL 不能为空');
+    throw new Error('API URL 不能为空');
   }
 
   const model = config.model ?? 'gpt-3.5-turbo';
+  // JSON 答案不适合边写边看，只有发言走流式
+  const stream = Boolean(config.onStream) && !jsonMode;
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
@@ -145,8 +208,10 @@ async function getOpenAIResponse(prompt: string, config: GeminiConfig): Promise<
           apiKey: config.apiKey,
           apiUrl: config.apiUrl,
           model,
-          apiType: 'openai',
+          apiType: config.apiType ?? 'openai',
           prompt,
+          jsonMode,
+          stream,
         }),
       });
 
@@ -161,12 +226,17 @@ async function getOpenAIResponse(prompt: string, config: GeminiConfig): Promise<
             try {
               // Attempt to parse as JSON
               const errorData = JSON.parse(errorText) as {
-                error?: {
+                error?: string | {
                   message?: string;
                   type?: string;
                 };
+                details?: string;
               };
-              errorMessage = errorData.error?.message ?? `HTTP ${response.status}: ${errorText.substring(0, 200)}`;
+              // 代理返回 { error, details }，details 是按服务商整理过的错误信息
+              const proxyError = typeof errorData.error === 'string'
+                ? [errorData.error, errorData.details].filter(Boolean).join(': ')
+                : errorData.error?.message;
+              errorMessage = proxyError || `HTTP ${response.status}: ${errorText.substring(0, 200)}`;
             } catch (jsonError) {
               // If JSON parsing fails, use the raw error text
               console.warn('无法解析错误响应JSON，使用原始错误文本');
@@ -210,108 +280,120 @@ async function getOpenAIResponse(prompt: string, config: GeminiConfig): Promise<
         throw new Error(errorMessage);
       }
 
-      let data;
-      try {
-        const responseText = await response.text();
-        if (!responseText || responseText.trim() === '') {
-          throw new Error('Empty response body');
-        }
-
-        data = JSON.parse(responseText) as {
-          text?: string;
-          error?: string;
-        };
-      } catch (parseError) {
-        // JSON parsing error is retryable
-        if (attempt < RETRY_CONFIG.maxRetries) {
-          const delay = calculateBackoff(attempt);
-          const reason = `JSON 解析失败: ${parseError instanceof Error ? parseError.message : 'Parse error'}`;
-
-          console.warn(
-            `JSON 解析失败, 重试 ${attempt + 1}/${RETRY_CONFIG.maxRetries}，等待 ${delay}ms...`,
-            parseError
-          );
+      let text: string;
+      if (stream && config.onStream && response.headers.get('content-type')?.includes('text/event-stream')) {
+        // A stream that breaks off throws here and is retried like any other failed request
+        text = await readCompletionStream(response, config.onStream, config.onUsage);
+      } else {
+        let data;
+        try {
+          const responseText = await response.text();
+          if (!responseText || responseText.trim() === '') {
+            throw new Error('Empty response body');
+          }
 
-          // Notify retry progress
-          config.onRetry?.({
-            attempt: attempt + 1,
-            maxRetries: RETRY_CONFIG.maxRetries,
-            delay,
-            reason,
-          });
+          data = JSON.parse(responseText) as {
+            text?: string;
+            error?: string;
+            usage?: TokenUsage;
+          };
+        } catch (parseError) {
+          // JSON parsing error is retryable
+          if (attempt < RETRY_CONFIG.maxRetries) {
+            const delay = calculateBackoff(attempt);
+            const reason = `JSON 解析失败: ${parseError instanceof Error ? parseError.message : 'Parse error'}`;
+
+            console.warn(
+              `JSON 解析失败, 重试 ${attempt + 1}/${RETRY_CONFIG.maxRetries}，等待 ${delay}ms...`,
+              parseError
+            );
+
+            // Notify retry progress
+            config.onRetry?.({
+              attempt: attempt + 1,
+              maxRetries: RETRY_CONFIG.maxRetries,
+              delay,
+              reason,
+            });
+
+            lastError = parseError instanceof Error ? parseError : new Error(String(parseError));
+            await sleep(delay);
+            continue; // Retry
+          }
 
-          lastError = parseError instanceof Error ? parseError : new Error(String(parseError));
-          await sleep(delay);
-          continue; // Retry
+          // All retries exhausted
+          console.error('JSON 解析失败 (重试已耗尽)');
+          throw new Error(`JSON 解析失败: ${parseError instanceof Error ? parseError.message : 'Parse error'}`);
         }
 
-        // All retries exhausted
-        console.error('JSON 解析失败 (重试已耗尽)');
-        throw new Error(`JSON 解析失败: ${parseError instanceof Error ? parseError.message : 'Parse error'}`);
-      }
-
-      // Check for backend error
-      if (data.error) {
-        const errorMessage = data.error;
-
-        // Check if error is retryable
-        if (attempt < RETRY_CONFIG.maxRetries) {
-          const delay = calculateBackoff(attempt);
-          console.warn(
-            `OpenAI API 请求失败, 重试 ${attempt + 1}/${RETRY_CONFIG.maxRetries}，等待 ${delay}ms...`,
-            errorMessage
-          );
-
-          // Notify retry progress
-          config.onRetry?.({
-            attempt: attempt + 1,
-            maxRetries: RETRY_CONFIG.maxRetries,
-            delay,
-            reason: errorMessage,
-          });
+        // Check for backend error
+        if (data.error) {
+          const errorMessage = data.error;
+
+          // Check if error is retryable
+          if (attempt < RETRY_CONFIG.maxRetries) {
+            const delay = calculateBackoff(attempt);
+            console.warn(
+              `OpenAI API 请求失败, 重试 ${attempt + 1}/${RETRY_CONFIG.maxRetries}，等待 ${delay}ms...`,
+              errorMessage
+            );
+
+            // Notify retry progress
+            config.onRetry?.({
+              attempt: attempt + 1,
+              maxRetries: RETRY_CONFIG.maxRetries,
+              delay,
+              reason: errorMessage,
+            });
+
+            lastError = new Error(errorMessage);
+            await sleep(delay);
+            continue; // Retry
+          }
 
-          lastError = new Error(errorMessage);
-          await sleep(delay);
-          continue; // Retry
+          throw new Error(errorMessage);
         }
 
-        throw new Error(errorMessage);
-      }
-
-      // Extract text from response (backend proxy format: { text, usage })
-      const text = data.text?.trim();
-
-      if (!text) {
-        // Empty response is retryable
-        if (attempt < RETRY_CONFIG.maxRetries) {
-          const delay = calculateBackoff(attempt);
-          const reason = 'AI 响应为空';
-
-          console.warn(
-            `OpenAI API 响应为空, 重试 ${attempt + 1}/${RETRY_CONFIG.maxRetries}，等待 ${delay}ms...`,
-            data
-          );
-
-          // Notify retry progress
-          config.onRetry?.({
-            attempt: attempt + 1,
-            maxRetries: RETRY_CONFIG.maxRetries,
-            delay,
-            reason,
-          });
+        // Extract text from response (backend proxy format: { text, usage })
+        const reply = data.text?.trim();
+
+        if (!reply) {
+          // Empty response is retryable
+          if (attempt < RETRY_CONFIG.maxRetries) {
+            const delay = calculateBackoff(attempt);
+            const reason = 'AI 响应为空';
+
+            console.warn(
+              `OpenAI API 响应为空, 重试 ${attempt + 1}/${RETRY_CONFIG.maxRetries}，等待 ${delay}ms...`,
+              data
+            );
+
+            // Notify retry progress
+            config.onRetry?.({
+              attempt: attempt + 1,
+              maxRetries: RETRY_CONFIG.maxRetries,
+              delay,
+              reason,
+            });
+
+            lastError = new Error('AI 响应为空');
+            await sleep(delay);
+            continue; // Retry
+          }
 
-          lastError = new Error('AI 响应为空');
-          await sleep(delay);
-          continue; // Retry
+          console.error('OpenAI API 响应为空 (重试已耗尽):', data);
+          throw new Error('AI 响应为空');
         }
 
-        console.error('OpenAI API 响应为空 (重试已耗尽):', data);
-        throw new Error('AI 响应为空');
+        if (data.usage) {
+          config.onUsage?.(data.usage);
+        }
+        text = reply;
       }
 
       // Success!
       if (attempt > 0) {
-        console.log(`OpenAI API 请求成功 (第 ${attempt + 1} 次尝试)`);
+        console.log(`${PROVIDER_INFO[config.apiType ?? 'openai'].label} 请求成功 (第 ${attempt + 1} 次尝试)`);
       }
       return text;
 
@@ -350,49 +432,128 @@ async function getOpenAIResponse(prompt: string, config: GeminiConfig): Promise<
 }
 
 /**
- * Build prompt for AI player based on game context
+ * Read the proxy's SSE stream, reporting the text so far after each delta
+ * Usage events are collected and reported once the answer is complete
+ * Throws when the stream breaks off before [DONE]
+ */
+async function readCompletionStream(
+  response: Response,
+  onStream: (text: string) => void,
+  onUsage?: (usage: TokenUsage) => void,
+): Promise<string> {
+  if (!response.body) {
+    throw new Error('Empty response body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let usage: TokenUsage | undefined;
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+
+    for (const event of events) {
+      const data = event.startsWith('data:') ? event.slice(5).trim() : '';
+      if (data === '[DONE]') {
+        if (!text.trim()) throw new Error('AI 响应为空');
+        if (usage) onUsage?.(usage);
+        return text.trim();
+      }
+      if (data) {
+        const payload = JSON.parse(data) as { text?: string; error?: string; usage?: TokenUsage };
+        if (payload.error) throw new Error(payload.error);
+        // 有的服务分两次报告输入与输出 token
+        if (payload.usage) {
+          usage = mergeUsage(usage, payload.usage);
+          continue;
+        }
+        text += payload.text ?? '';
+        onStream(text);
+      }
+    }
+  }
+
+  throw new Error('流式响应中断');
+}
+
+/**
+ * Build prompt for AI player by rendering the prompt template with the game context
+ * A rejected answer gets the reason appended so the player can choose again
+ */
+export function buildPrompt(
+  player: Player,
+  gameState: GameState,
+  rejection?: string,
+  promptConfig: PromptConfig = DEFAULT_PROMPT_CONFIG,
+): string {
+  const prompt = renderPromptConfig(promptConfig, buildPromptVariables(player, gameState));
+  if (!rejection) return prompt;
+
+  return `${prompt}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【你刚才的选择不成立】
+${rejection}。
+请重新选择，按上面的格式再回答一次。`;
+}
+
+/**
+ * Role names in Chinese
+ */
+const ROLE_NAMES: Record<string, string> = {
+  marked: '烙印者',
+  heretic: '背誓者',
+  listener: '聆心者',
+  coroner: '食灰者',
+  twin: '共誓者',
+  guard: '设闩者',
+  witch: '秘药者',
+  hunter: '鸣枪者',
+  innocent: '无知者',
+};
+
+/**
+ * The role the player believes they have - heretics don't know until their awakening day
+ */
+function getEffectiveRole(player: Player, gameState: GameState): string {
+  return player.role === 'heretic' && gameState.round < gameState.rules.hereticAwakenRound ? 'innocent' : player.role;
+}
+
+function getTwinPartner(player: Player, gameState: GameState): string | null {
+  if (player.role !== 'twin' || !gameState.twinPair) return null;
+  return gameState.twinPair.twin1 === player.name ? gameState.twinPair.twin2 : gameState.twinPair.twin1;
+}
+
+/**
+ * Values for the prompt template placeholders (see PROMPT_PLACEHOLDERS)
  */
 // eslint-disable-next-line complexity
-export function buildPrompt(player: Player, gameState: GameState): string {
-  const { phase, nightPhase, round, players, messages } = gameState;
+function buildPromptVariables(player: Player, gameState: GameState): PromptVariables {
+  const { phase, nightPhase, round, players, rules } = gameState;
 
   const alivePlayers = players.filter((p) => p.isAlive);
 
-  // Check if there is a heretic in the game
-  const hasHeretic = players.some((p) => p.role === 'heretic');
-
-  // Filter messages based on visibility
-  // eslint-disable-next-line complexity
-  const visibleMessages = messages.filter((m) => {
-    if (m.visibility === 'all') return true;
-    if (m.visibility === 'marked' && player.role === 'marked') return true;
-    if (m.visibility === 'listener' && player.role === 'listener') return true;
-    if (m.visibility === 'coroner' && player.role === 'coroner') return true;
-    if (m.visibility === 'guard' && player.role === 'guard') return true;
-    if (m.visibility === 'twins' && player.role === 'twin') return true;
-    if (typeof m.visibility === 'object') {
-      if ('player' in m.visibility && m.visibility.player === player.name) return true;
-      if ('secretMeeting' in m.visibility && m.visibility.secretMeeting.includes(player.name)) return true;
-    }
-    // AI can see its own thinking
-    if (m.type === 'thinking' && m.from === player.name) return true;
-    return false;
-  });
-
-  const recentMessages = visibleMessages
-    .filter((m) => m.type !== 'prompt')  // Exclude prompt messages to prevent identity leak
-    .filter((m) => m.type !== 'vote')    // Exclude vote messages (handled separately in voteHistory)
-    .slice(-20);  // 保留最近20条对话
-  const messageHistory = recentMessages
+  // 更早的回合已经压缩进记忆，这里只放之后的原文
+  const memory = gameState.memories?.[player.name];
+  const phaseTask = buildPhaseTask(player, gameState);
+  const messageHistory = getRecentHistory(player, gameState)
     .map((m) => `${m.from}: ${m.content}`)
     .join('\n');
 
   // Build voting history display
   const buildVoteHistory = () => {
-    if (gameState.voteHistory.length === 0) return '';
+    const recentVotes = getRecentVotes(player, gameState);
+    if (recentVotes.length === 0) return '';
 
     const votesByRound = new Map<number, typeof gameState.voteHistory>();
-    gameState.voteHistory.forEach(vote => {
+    recentVotes.forEach(vote => {
       if (vote.round !== undefined) {
         const roundVotes = votesByRound.get(vote.round) || [];
         roundVotes.push(vote);
@@ -417,51 +578,44 @@ export function buildPrompt(player: Player, gameState: GameState): string {
     return voteHistoryText;
   };
 
-  const voteHistory = buildVoteHistory();
-
-  const roleNames: Record<string, string> = {
-    marked: '烙印者',
-    heretic: '背誓者',
-    listener: '聆心者',
-    coroner: '食灰者',
-    twin: '共誓者',
-    guard: '设闩者',
-    innocent: '无知者',
-  };
-
   const phaseNames: Record<string, string> = {
+    prologue: '序章',
     setup: '准备',
     night: '夜晚',
     day: '白天',
     voting: '献祭投票',
+    secret_meeting: '密会',
+    event: '事件',
     end: '结束',
   };
 
   // Get phase display name
-  let phaseDisplay = phaseNames[phase];
+  let phaseDisplay = phaseNames[phase] ?? phase;
   if (phase === 'night' && nightPhase) {
     const nightPhaseNames: Record<string, string> = {
       'listener': '夜晚-聆心者查验',
+      'twins': '夜晚-共誓者密谈',
       'marked-discuss': '夜晚-烙印者讨论',
       'marked-vote': '夜晚-烙印者投票',
+      'witch': '夜晚-秘药者用药',
       'guard': '夜晚-设闩者守护',
       'coroner': '夜晚-食灰者验尸',
     };
     phaseDisplay = nightPhaseNames[nightPhase] || phaseDisplay;
   }
 
+  // 白天和密会时才回顾自己的查验与药瓶
+  const reviewsOwnInfo = phase === 'day' || phase === 'secret_meeting';
+
   // Get teammate information for marked
   const markedTeammates = player.role === 'marked'
     ? players.filter((p) => p.role === 'marked' && p.name !== player.name)
     : [];
 
-  // Get twin partner info
-  const twinPartner = player.role === 'twin' && gameState.twinPair
-    ? (gameState.twinPair.twin1 === player.name ? gameState.twinPair.twin2 : gameState.twinPair.twin1)
-    : null;
+  const twinPartner = getTwinPartner(player, gameState);
 
   // Get listener check info
-  const listenerCheckInfo = player.role === 'listener' && phase === 'day'
+  const listenerCheckInfo = player.role === 'listener' && reviewsOwnInfo
     ? `
 【你的查验记录】
 ${gameState.listenerChecks.length > 0
@@ -473,7 +627,7 @@ ${gameState.listenerChecks.length > 0
     : '';
 
   // Get coroner report info
-  const coronerInfo = player.role === 'coroner' && phase === 'day' && gameState.coronerReports.length > 0
+  const coronerInfo = player.role === 'coroner' && (reviewsOwnInfo || nightPhase === 'coroner') && gameState.coronerReports.length > 0
     ? `
 【你的验尸记录】（只有你自己知道这些信息）
 ${gameState.coronerReports.map((report) => `第${report.round}回合：${report.target} 的灵魂是 ${report.isClean ? '清白的' : '污秽的'}`).join('\n')}
@@ -486,9 +640,73 @@ ${gameState.coronerReports.map((report) => `第${report.round}回合：${report.
 `
     : '';
 
-  // Heretics don't know they are heretics until Day 2
-  const effectiveRole = (player.role === 'heretic' && round === 1) ? 'innocent' : player.role;
-  const displayRoleName = roleNames[effectiveRole];
+  // Get witch potion info
+  const potions = getRemainingPotions(gameState);
+  const witchInfo = player.role === 'witch' && reviewsOwnInfo
+    ? `
+【你的药瓶】（只有你自己知道）
+解药：${potions.antidote ? '还在' : '已用尽'}
+毒药：${potions.poison ? '还在' : '已用尽'}
+${gameState.nightActions.map((a) => `第${a.round ?? '?'}夜：${a.action === 'save' ? `用解药救了 ${a.target}` : `用毒药毒杀了 ${a.target}`}`).join('\n')}`
+    : '';
+
+  // Add emotional state prompt if character has changed state
+  const emotionalState = player.emotionalState && player.emotionalState !== 'normal'
+    ? EMOTIONAL_STATE_PROMPTS[player.name]?.[player.emotionalState] ?? ''
+    : '';
+
+  // Get speaking players for current phase
+  const speakingPlayers = getActingPlayers(gameState);
+  const currentIndex = speakingPlayers.findIndex(p => p.name === player.name);
+  const speakingOrder = currentIndex >= 0
+    ? `本轮发言顺序（你是第 ${currentIndex + 1}/${speakingPlayers.length} 位）：\n${speakingPlayers.map((p, idx) => {
+      const marker = p.name === player.name ? '→ ' : '  ';
+      return `${marker}${idx + 1}. ${p.name}`;
+    }).join('\n')}`
+    : '';
+
+  return {
+    playerName: player.name,
+    round: String(round),
+    markedCount: toChineseNumber(players.filter((p) => p.role === 'marked').length),
+    deadPlayers: alivePlayers.length < players.length ? `【已死亡者】
+${players.filter(p => !p.isAlive).map(p => (rules.revealRoleOnDeath ? `${p.name}（${ROLE_NAMES[p.role]}）` : p.name)).join('、')}
+他们的尸体堆在篝火旁。眼睛还睁着。喉咙还在流血。
+这就是你的下场，如果你做错了决定。` : '',
+    personality: player.personality || '你是一个普通的旅人，凭直觉和理性生存。',
+    emotionalState,
+    phase: phaseDisplay,
+    alivePlayers: `${alivePlayers.map((p) => p.name).join('、')}（${alivePlayers.length} 人还活着）`,
+    victory: `${VICTORY_TEXT[rules.victoryMode]}；收割者全灭则羔羊获胜${rules.roundLimit > 0 ? `；第 ${rules.roundLimit} 回合结束仍未分出胜负，存活人数多的一方获胜（持平算收割者）` : ''}`,
+    appearances: players.map((p) => `${p.name}${CHARACTER_APPEARANCES[p.name] ?? ''}`).join('\n'),
+    speakingOrder,
+    privateInfo: `${markedTeammates.length > 0 ? `【你感知到同类的气息】${markedTeammates.map((p) => p.name).join('、')}` : ''}
+${twinPartner ? `\n【你的同伴】${twinPartner}\n你们互相知道对方是清白的羔羊。你们是彼此唯一的、绝对的信任。` : ''}
+${listenerCheckInfo}
+${coronerInfo}
+${witchInfo}`,
+    notebook: formatNotebook(gameState.notebooks?.[player.name]),
+    memory: memory ? `【你记得的往事】（第 ${memory.throughRound} 回合及以前）\n${memory.summary}` : '',
+    roleInstructions: getRoleInstructions(getEffectiveRole(player, gameState), phase, nightPhase, round, player.role, rules),
+    visibleMessages: messageHistory || '（令人窒息的沉默）',
+    voteHistory: buildVoteHistory(),
+    phaseTask: phaseTask && `${phaseTask}\n\n${notebookInstructions(getPlayerActionType(gameState) !== 'SPEECH')}`,
+  };
+}
+
+/**
+ * What the player has to do right now and how to answer - empty when the phase asks nothing of them
+ */
+// eslint-disable-next-line complexity
+function buildPhaseTask(player: Player, gameState: GameState): string {
+  const { phase, nightPhase, round, players, rules } = gameState;
+
+  // Check if there is a heretic in the game
+  const hasHeretic = players.some((p) => p.role === 'heretic');
+  const twinPartner = getTwinPartner(player, gameState);
+  const potions = getRemainingPotions(gameState);
+  const effectiveRole = getEffectiveRole(player, gameState);
+  const displayRoleName = ROLE_NAMES[effectiveRole];
 
   // Handle secret meeting phase
   if (phase === 'secret_meeting' && gameState.pendingSecretMeeting?.selectedParticipants) {
@@ -499,7 +717,7 @@ ${gameState.coronerReports.map((report) => `第${report.round}回合：${report.
       const timingText = timing === 'before_discussion' ? '白天讨论开始前' : '献祭仪式之后';
 
       // Check if the other player has already spoken in this meeting
-      const otherPlayerHasSpoken = visibleMessages.some(
+      const otherPlayerHasSpoken = getVisibleMessages(player, gameState).some(
         m => m.type === 'secret' && m.from === otherPlayer
       );
 
@@ -515,37 +733,6 @@ ${otherPlayer} 已经完成了发言（见上方对话）。
 ${otherPlayer} 还没有说话，你应该主动开启话题、询问或试探。`;
 
       return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-【白烬山口 - 寂静山庄 - 第 ${round} 夜】
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-你是 ${player.name}。
-你的职业：${player.occupation}
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-【你的身份】
-
-重要：只有你自己知道你的真实身份，不要随便暴露！
-
-你的角色：${displayRoleName}
-${effectiveRole === 'marked' ? `
-你是收割阵营的一员。你的目标是消灭所有羔羊。
-${markedTeammates.length > 0
-  ? `你的队友：${markedTeammates.map(p => p.name).join('、')}（你们都是烙印者）`
-  : '你是唯一的烙印者'}
-` : effectiveRole === 'listener' ? `
-你是羔羊阵营。你每晚可以查验一名玩家的灵魂是"清白"还是"污秽"。
-${listenerCheckInfo}
-` : effectiveRole === 'coroner' ? `
-你是羔羊阵营。每次白天献祭后，你会在当晚得知被献祭者的灵魂是"清白"还是"污秽"。
-${coronerInfo}
-` : effectiveRole === 'twin' ? `
-你是羔羊阵营。${twinPartner ? `${twinPartner} 是你的共誓者，你们互相知道对方的身份。` : ''}
-` : effectiveRole === 'guard' ? `
-你是羔羊阵营。你每晚可以守护一名玩家（不能是自己），被守护者当晚不会被杀。
-` : effectiveRole === 'innocent' ? `
-你是羔羊阵营。你没有特殊能力，但你可以通过观察和推理找出收割者。
-` : ''}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【密会时刻 - ${timingText}】
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
@@ -555,14 +742,6 @@ ${coronerInfo}
 
 ${speakingOrderReminder}
 
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-【对话历史】
-${messageHistory || '（对话刚刚开始）'}
-${voteHistory}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-【你的性格】
-${player.personality || '你是一个普通的旅人，凭直觉和理性生存。'}
-
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 请按照以下格式回复：
 
@@ -585,114 +764,51 @@ ${player.personality || '你是一个普通的旅人，凭直觉和理性生存
     }
   }
 
-  const basePrompt = `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-【白烬山口 - 寂静山庄 - 第 ${round} 夜】
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // Hunter's last shot - takes priority over the current phase
+  if (gameState.pendingHunterShot?.hunter === player.name) {
+    const deathScene = gameState.pendingHunterShot.cause === 'night'
+      ? '利爪撕开了你的喉咙。血从指缝间涌出。'
+      : '献祭的火焰舔上了你的衣角。众人的目光冰冷如铁。';
 
-你是 ${player.name}。
-你被困在这座被非自然暴风雪封锁的古老山庄中。
-外面的风暴在咆哮。篝火发出刺骨的白光，但毫无温度。
-山灵的契约已成。"饥饿"在人群中蔓延。
+    return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【最后一枪 - 鸣枪者的遗志】
 
-【这不是游戏。这是真实的生死存亡。】
+${deathScene}
+你就要死了。
 
-遗书说，你们中混入了三个"非人者"。
-他们会在夜晚猎杀真正的人类。
-每晚，会有一个人被撕开喉咙，永远消失。
+但你的手还握着那把猎枪。
+枪膛里只有一颗子弹。
 
-${alivePlayers.length < 15 ? `
-【已死亡者】
-${players.filter(p => !p.isAlive).map(p => p.name).join('、')}
-他们的尸体堆在篝火旁。眼睛还睁着。喉咙还在流血。
-这就是你的下场，如果你做错了决定。` : ''}
+你可以带走一个人。
+或者，放下枪，安静地死去。
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-【你的性格】
-${player.personality || '你是一个普通的旅人，凭直觉和理性生存。'}
-${(() => {
-  // Add emotional state prompt if character has changed state
-  const emotionalState = player.emotionalState;
-  if (!emotionalState || emotionalState === 'normal') return '';
+【思考】
+（你生命最后的念头。200字左右。）
 
-  const statePrompts = EMOTIONAL_STATE_PROMPTS[player.name];
-  if (!statePrompts) return '';
+作为 ${player.name}：
+- 谁最可能是杀死你的怪物？谁把你推上了祭坛？
+- 你有多确定？打错了人，你会带走一个无辜者。
+- 你的死亡和这一枪，会给活着的人留下什么信息？
+
+${decisionFormat('要射杀的玩家名字，放弃开枪则写 null')}
 
-  const statePrompt = statePrompts[emotionalState];
-  return statePrompt || '';
-})()}
+必须是一个存活玩家的名字（不能是你自己）。
+枪声响起之后，那个人就永远不会醒来。
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-【当前局势】
-阶段：${phaseDisplay}
-存活者：${alivePlayers.map((p) => p.name).join('、')}（${alivePlayers.length} 人还活着）
-
-【在场之人】
-这七天的相处，你观察到在场每个人的模样：
-
-诺拉·格雷（26岁，学者）- 深栗色长发挽起，金边眼镜，灰蓝色眼睛，冷静但疲惫，衣着朴素。
-马库斯·霍克（34岁，猎人）- 脸上有疤，破旧皮夹克，腰间别着猎刀，粗犷但警惕。
-艾琳·哈钦斯（43岁，清洁工）- 头发花白，黑头巾，手粗糙，衣着破旧，沉默寡言。
-托马斯·克劳利（28岁，职员）- 衣领磨损，袖口打补丁，神情焦虑，显然缺钱。
-莉迪亚·克劳利（25岁，教师）- 短发，灰色朴素长裙，表情严肃，说话简洁。
-奥利弗·佩恩（31岁，药剂师）- 瘦削驼背，厚眼镜，手指有化学品味道，总在思考。
-索菲亚·阿什福德（23岁，贵族）- 金色卷发，褪色丝绸裙，姿态骄傲，曾经的荣光。
-塞缪尔·布莱克伍德（47岁，牧师）- 半白头发，风霜面容，黑袍，声音沉稳。
-克莱尔·沃伦（19岁，女仆）- 娇小，亚麻色乱发，女仆制服，眼神惊恐。
-维克多·斯通（39岁，军官）- 弓腰驼背但保持剃须，军人习惯，身有酒气。
-艾米莉·卡特（32岁，护士）- 整洁发髻，干净白制服，手稳定，眼神专注。
-本杰明·怀特（41岁，商人）- 昂贵但过时西装，金戒指，曾经富有的痕迹。
-伊莎贝拉·费尔法克斯（29岁，名媛）- 黑色波浪长发，时尚服装，完美姿态，优雅高傲。
-亚历山大·莫里斯（45岁，讨债人）- 一丝不苟的黑色三件套，冷漠眼神，令人不安。
-夏洛特·温特斯（21岁，演员）- 红色短发，廉价鲜艳裙子，挑衅微笑，戏剧化举止。
-
-这些是你不需要交流就能观察到的信息。但灵魂的颜色，只有倾听才能知晓。
-
-【发言顺序】
-${(() => {
-  // Get speaking players for current phase
-  let speakingPlayers = alivePlayers;
-  if (phase === 'night' && nightPhase === 'listener') {
-    speakingPlayers = alivePlayers.filter(p => p.role === 'listener');
-  } else if (phase === 'night' && (nightPhase === 'marked-discuss' || nightPhase === 'marked-vote')) {
-    speakingPlayers = alivePlayers.filter(p => p.role === 'marked');
-  } else if (phase === 'night' && nightPhase === 'guard') {
-    speakingPlayers = alivePlayers.filter(p => p.role === 'guard');
-  } else if (phase === 'day' && gameState.isRevote) {
-    speakingPlayers = alivePlayers.filter(p => !gameState.tiedPlayers.includes(p.name));
+【重要】
+你不是在"发动技能"。
+你在用生命的最后一秒，决定另一个人的生死。`;
   }
 
-  const currentIndex = speakingPlayers.findIndex(p => p.name === player.name);
-  const totalSpeakers = speakingPlayers.length;
-
-  if (currentIndex >= 0) {
-    const order = speakingPlayers.map((p, idx) => {
-      const marker = p.name === player.name ? '→ ' : '  ';
-      return `${marker}${idx + 1}. ${p.name}`;
-    }).join('\n');
-    return `本轮发言顺序（你是第 ${currentIndex + 1}/${totalSpeakers} 位）：\n${order}`;
+  // Last words - spoken after the hunter's shot, before the game moves on
+  if (!gameState.pendingHunterShot && gameState.pendingLastWords?.players.includes(player.name)) {
+    return buildLastWordsSection(player, gameState, displayRoleName);
   }
-  return '';
-})()}
-
-${markedTeammates.length > 0 ? `\n【你感知到同类的气息】${markedTeammates.map((p) => p.name).join('、')}` : ''}
-${twinPartner ? `\n【你的同伴】${twinPartner}\n你们互相知道对方是清白的羔羊。你们是彼此唯一的、绝对的信任。` : ''}
-
-${listenerCheckInfo}
-${coronerInfo}
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${getRoleInstructions(effectiveRole, phase, nightPhase, round, player.role)}
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-【最近的对话与事件】
-${messageHistory || '（令人窒息的沉默）'}
-${voteHistory}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-`;
 
   if (phase === 'day') {
-    return `${basePrompt}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+    return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【黎明 - 投票前的最后讨论】
 
 天亮了。但阳光照不进这座山庄。
@@ -759,8 +875,7 @@ ${player.personality ? `- 用 ${player.name} 的语气和性格说话
     if (isHarvester) {
       // Harvester faction voting prompt
       if (effectiveRole === 'marked') {
-        return `${basePrompt}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+        return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【献祭仪式 - 你必须选择】
 
 黄昏降临。白蜡篝火在呼唤。
@@ -791,8 +906,7 @@ ${player.personality ? `- 用 ${player.name} 的语气和性格说话
 这是艰难的抉择。你的阵营需要你冷酷，但你的人性让你痛苦。
 ${player.personality ? `\n记住你是 ${player.name}：${player.personality}` : ''}
 
-【发言】
-（只写要投票的玩家名字。）
+${decisionFormat('要投票的玩家名字')}
 
 必须写一个存活玩家的名字。
 那个人可能会死。即使他们可能是无辜的。
@@ -806,8 +920,7 @@ ${player.personality ? `\n记住你是 ${player.name}：${player.personality}` :
 用 ${player.name} 的心去感受这份重量。`;
       } else {
         // Heretic voting prompt
-        return `${basePrompt}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+        return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【献祭仪式 - 背誓者的孤独抉择】
 
 黄昏降临。白蜡篝火在呼唤。
@@ -838,8 +951,7 @@ ${player.personality ? `\n记住你是 ${player.name}：${player.personality}` :
 你的阵营需要你冷酷，你的伪装需要你正义，但你的心——它还在吗？
 ${player.personality ? `\n记住你是 ${player.name}：${player.personality}` : ''}
 
-【发言】
-（只写要投票的玩家名字。）
+${decisionFormat('要投票的玩家名字')}
 
 必须写一个存活玩家的名字。
 那个人可能会死。也许他们该死，也许他们无辜。
@@ -854,8 +966,7 @@ ${player.personality ? `\n记住你是 ${player.name}：${player.personality}` :
       }
     } else {
       // Innocent faction voting prompt
-      return `${basePrompt}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+      return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【献祭仪式 - 无辜者的重负】
 
 黄昏降临。白蜡篝火在呼唤。
@@ -886,8 +997,7 @@ ${player.personality ? `\n记住你是 ${player.name}：${player.personality}` :
 这是生存本能与人性的对抗。这是恐惧与愧疚的交织。
 ${player.personality ? `\n记住你是 ${player.name}：${player.personality}` : ''}
 
-【发言】
-（只写要投票的玩家名字。）
+${decisionFormat('要投票的玩家名字')}
 
 必须写一个存活玩家的名字。
 那个人会死。那个真实的、活着的人。
@@ -906,8 +1016,7 @@ ${player.personality ? `\n记住你是 ${player.name}：${player.personality}` :
   if (phase === 'night') {
     // Listener check phase
     if (nightPhase === 'listener' && player.role === 'listener') {
-      return `${basePrompt}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+      return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【深夜 - 聆心者的诅咒】
 
 你的烙印在燃烧。
@@ -931,8 +1040,7 @@ ${player.personality ? `\n记住你是 ${player.name}：${player.personality}` :
 - 沉默，你能多活几天，但更多人会死在黑夜中...
 - 这份能力是天赋还是诅咒？
 
-【发言】
-（只写要倾听的玩家名字）
+${decisionFormat('要倾听的玩家名字')}
 
 必须写一个存活玩家的名字。
 明天你会知道TA的真相。
@@ -944,10 +1052,71 @@ ${player.personality ? `\n记住你是 ${player.name}：${player.personality}` :
 那份真相，会成为你的武器，或你的墓志铭。`;
     }
 
+    // Twins whisper phase
+    if (nightPhase === 'twins' && player.role === 'twin') {
+      const partnerAlive = players.some((p) => p.name === twinPartner && p.isAlive);
+      if (!partnerAlive) {
+        return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【深夜 - 空着的位置】
+
+往常这个时候，${twinPartner ?? '你的同伴'} 会在黑暗里靠过来，压低声音和你说话。
+今晚没有人来。
+
+这是你第一个独自度过的夜晚。
+世上唯一能证明你清白的人，已经不在了。
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【思考】
+（你内心的真实感受。200字左右。）
+
+作为 ${player.name}，此刻你在想什么？
+- 你还记得TA最后对你说的话吗？
+- 是谁害死了TA？你有怀疑的人吗？
+- 你要为TA复仇，还是只想活下去？
+- 失去了唯一的信任，明天你还能相信谁？
+
+【发言】
+（对着空位低声说的话。50字以内。没有人会听到。）
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【重要】
+这不是游戏里的"队友阵亡"。
+你失去了一个人。用 ${player.name} 的心去承受。`;
+      }
+
+      return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【深夜 - 共誓者的低语】
+
+黑暗中，${twinPartner} 靠了过来。
+只有你们两个人能听到彼此的声音。
+
+你们是彼此唯一的、绝对的清白证明。
+在这座山庄里，这是你唯一可以说真话的时刻。
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【思考】
+（你内心的真实想法。150字左右。）
+
+作为 ${player.name}，此刻你在想什么？
+- 白天谁的发言最可疑？谁的投票最奇怪？
+- 你们要不要公开共誓者的身份？
+- 明天你们要怎么配合？
+
+【发言】
+（对 ${twinPartner} 的悄悄话。100字以内。）
+
+说出你怀疑的人和理由，或者回应同伴刚才的话。
+这段话只有你们两个人能听到。
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【重要】
+明天你们可能有一个会死。
+珍惜这段只属于你们的低语。`;
+    }
+
     // Marked discuss phase
     if (nightPhase === 'marked-discuss' && player.role === 'marked') {
-      return `${basePrompt}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+      return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【深夜 - 收割时刻】
 
 "饥饿"吞噬了你的人性。
@@ -957,7 +1126,7 @@ ${player.personality ? `\n记住你是 ${player.name}：${player.personality}` :
 但你们也不是无敌的——白天你可能被识破，被献祭，被烧死。
 
 现在，你们必须决定：今晚谁会死在你们的利爪下。
-${hasHeretic && round >= 2 ? `
+${hasHeretic && round >= rules.hereticAwakenRound ? `
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【背誓者的存在】
 
@@ -1001,8 +1170,7 @@ ${hasHeretic && round >= 2 ? `
 
     // Marked vote phase
     if (nightPhase === 'marked-vote' && player.role === 'marked') {
-      return `${basePrompt}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+      return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【收割时刻 - 最终决定】
 
 讨论结束了。
@@ -1026,8 +1194,7 @@ TA的家人永远等不到TA回家。
 - 明天白天，你要假装悲伤，假装震惊...
 - 但你是凶手。你永远是凶手。
 
-【发言】
-（只写要猎杀的玩家名字）
+${decisionFormat('要猎杀的玩家名字')}
 
 必须写一个存活玩家的名字。
 那个人会死。
@@ -1040,10 +1207,54 @@ TA的家人永远等不到TA回家。
 即使你是为了活下去，那也是谋杀。`;
     }
 
+    // Witch phase
+    if (nightPhase === 'witch' && player.role === 'witch') {
+      const victim = getNightKillTarget(gameState);
+      const options = [
+        potions.antidote && victim ? `- "action": "save"：用解药救活 ${victim.name}` : '',
+        potions.poison ? '- "action": "poison"：用毒药毒杀 target 写的那名存活玩家' : '',
+        '- "action": "pass"：今晚什么都不做',
+      ].filter(Boolean).join('\n');
+
+      return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【深夜 - 秘药者的抉择】
+
+走廊里传来拖拽的声音。
+你知道那意味着什么。
+
+${victim ? `今晚，烙印者选中了 ${victim.name}。
+如果你什么都不做，TA明早就会变成一具冰冷的尸体。` : '今晚，你没有听到利爪的声音。'}
+
+你的药箱里：
+解药：${potions.antidote ? '还在' : '已用尽'}
+毒药：${potions.poison ? '还在' : '已用尽'}
+
+每一瓶药，一生只能用一次。
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【思考】
+（你内心的挣扎。200字左右。）
+
+作为 ${player.name}：
+- ${victim ? `${victim.name} 值得你用掉唯一的解药吗？` : '今晚没有人需要解药。'}
+- 如果今晚用掉了解药，下一次有人倒下时你只能旁观...
+- 你确定谁是烙印者吗？毒药不会分辨清白与污秽。
+- 毒错了人，你就是杀死无辜者的凶手。
+
+${decisionFormat('毒药的目标，不用毒药则写 null', true)}
+
+action 只能是以下其中一种：
+${options}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【重要】
+你不是在"使用技能"。
+你手里握着两个人的命。一个可以被你救回来，一个可以被你带走。`;
+    }
+
     // Guard phase
     if (nightPhase === 'guard' && player.role === 'guard') {
-      return `${basePrompt}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+      return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【深夜 - 设闩者的职责】
 
 你手中的门闩是这座山庄唯一的防御。
@@ -1052,9 +1263,9 @@ TA的家人永远等不到TA回家。
 那扇门后的人，会在黑夜中幸存。
 其他人？只能祈祷怪物不会选择他们。
 
-你不能守护自己。
-你不能连续两晚守护同一人。
-${gameState.lastGuardedPlayer ? `昨晚你守护了 ${gameState.lastGuardedPlayer}（今晚不能再守护TA）` : '这是第一夜。'}
+${rules.guardSelf ? '你可以守护自己。' : '你不能守护自己。'}
+${rules.guardRepeat ? '你可以连续两晚守护同一人。' : '你不能连续两晚守护同一人。'}
+${gameState.lastGuardedPlayer ? `昨晚你守护了 ${gameState.lastGuardedPlayer}${rules.guardRepeat ? '' : '（今晚不能再守护TA）'}` : '这是第一夜。'}
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【思考】
@@ -1068,10 +1279,9 @@ ${gameState.lastGuardedPlayer ? `昨晚你守护了 ${gameState.lastGuardedPlaye
 - 你想公开你的能力吗？那会让你成为下一个目标...
 - 一个门闩，拯救不了所有人。你只能选择一个。
 
-【发言】
-（只写要守护的玩家名字）
+${decisionFormat('要守护的玩家名字')}
 
-必须写一个存活玩家的名字（不能是你自己，不能是昨晚守护的人）。
+必须写一个存活玩家的名字${guardLimits(rules)}。
 你在用一把门闩，赌一个人的命。
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -1083,36 +1293,43 @@ ${gameState.lastGuardedPlayer ? `昨晚你守护了 ${gameState.lastGuardedPlaye
 
     // Coroner phase
     if (nightPhase === 'coroner' && player.role === 'coroner') {
-      return `${basePrompt}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+      const causeNames: Record<string, string> = {
+        sacrifice: '在篝火前被献祭',
+        night: '死于黑夜',
+        poison: '死于黑夜',
+        shot: '死于枪声',
+      };
+      const corpses = getUnexaminedCorpses(gameState).map((corpse) => {
+        const death = gameState.deaths.find((d) => d.player === corpse.name);
+        return `- ${corpse.name}${death ? `（第${death.round}回合${causeNames[death.cause]}）` : ''}`;
+      });
+
+      return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【深夜 - 食灰者的诅咒】
 
 白蜡篝火的灰烬在召唤你。
 你对死者有着病态的痴迷。
 
-黄昏时刻，有人在篝火前被献祭。
-今夜，你将在梦中"品尝"TA的灵魂。
-明早醒来，你会知道TA是清白的，还是污秽的。
+今夜，你可以在梦中"品尝"一个死者的灵魂。
+醒来时，你会知道TA是清白的，还是污秽的。
 
-你会知道，你们是否杀错了人。
+【还没有品尝过的死者】
+${corpses.join('\n')}
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【思考】
-（你内心的预感。200字左右。）
+（你内心的推理与挣扎。200字左右。）
 
 作为 ${player.name}：
-- 今晚你会梦到那个被献祭者的灵魂...
-- 如果TA是清白的，你们杀错了人。无辜者的血在你们手上。
-- 如果TA是污秽的，那你们做对了。但怪物们会知道你的能力...
-- 你要说出真相吗？说出来，你可能成为下一个目标。
-- 沉默，你能活得更久，但无辜者会继续死去...
-- 这份能力是天赋还是诅咒？
+- 哪个死者的真相最能改变局势？
+- 被献祭的人——如果TA是清白的，你们杀错了人，带头投票的人值得怀疑
+- 夜里被杀的人——烙印者为什么选择TA？TA生前在怀疑谁？
+- 谁在为某个死者辩护，又是谁急着让TA死？
+- 你要说出真相吗？说出来，你可能成为下一个目标
 
-【发言】
-（写"等待梦境"或类似的话）
+${decisionFormat('要品尝的死者名字')}
 
-你不需要做任何选择。
-梦境会自动降临。
+必须从上面的名单中写一个名字。
 明早，你会知道真相。
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -1123,7 +1340,98 @@ ${gameState.lastGuardedPlayer ? `昨晚你守护了 ${gameState.lastGuardedPlaye
     }
   }
 
-  return basePrompt;
+  return '';
+}
+
+/**
+ * Answer format for votes and night targets - a single JSON object, so the proxy can switch on JSON mode
+ */
+function decisionFormat(targetHint: string, witch = false): string {
+  return `【回复格式】
+只输出一个 JSON 对象，不要输出任何其他文字：
+{"thinking": "你的内心独白", ${witch ? '"action": "pass", ' : ''}"target": "${targetHint}", "confidence": 0.7, "reason": "一句话理由"}
+
+- thinking：按上面【思考】的要求写下你的内心独白
+${witch ? '- action：你今晚的选择\n' : ''}- target：写完整的玩家名字；放弃则写 null
+- confidence：0 到 1 之间的数字，你对这个选择有多确定
+- reason：一句话说明你的理由（30字以内）`;
+}
+
+/**
+ * When the harvest side wins under each victory mode
+ */
+const VICTORY_TEXT: Record<RuleSet['victoryMode'], string> = {
+  parity: '收割者人数不少于羔羊时收割者获胜',
+  slaughter_side: '身怀异能的羔羊或无知者任意一边死光时收割者获胜',
+  slaughter_all: '所有羔羊死光时收割者才获胜',
+};
+
+/**
+ * What a marked tie leads to under each house rule
+ */
+const NIGHT_TIE_TEXT: Record<RuleSet['nightTie'], string> = {
+  revote: '平票必须重新商议，直到达成一致',
+  random: '平票将由命运从平票目标中随机选一人',
+  no_kill: '平票将导致无人死亡（浪费了一次杀戮机会）',
+};
+
+/**
+ * Guard target limits for the answer line, e.g. "（不能是你自己，不能是昨晚守护的人）"
+ */
+function guardLimits(rules: RuleSet): string {
+  const limits = [
+    ...(rules.guardSelf ? [] : ['不能是你自己']),
+    ...(rules.guardRepeat ? [] : ['不能是昨晚守护的人']),
+  ];
+  return limits.length > 0 ? `（${limits.join('，')}）` : '';
+}
+
+/**
+ * Last words prompt - the dying character looks back on their own thoughts and speaks once more
+ */
+function buildLastWordsSection(player: Player, gameState: GameState, displayRoleName: string): string {
+  const deathScene = gameState.pendingLastWords?.cause === 'night'
+    ? '天亮时，众人在走廊尽头找到了你。你的呼吸已经很微弱了。'
+    : '献祭的火焰已经燃起。在烈焰吞没你之前，他们允许你说最后几句话。';
+
+  // 自己这几天的内心独白（别人看不到）
+  const ownThoughts = gameState.messages
+    .filter((m) => m.type === 'thinking' && m.from === player.name)
+    .slice(-8)
+    .map((m) => `第${m.round ?? '?'}回合：${m.content}`)
+    .join('\n');
+
+  return `
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【遗言 - ${player.name} 的最后时刻】
+
+${deathScene}
+你就要死了。这是你最后一次开口的机会，所有人都会听到。
+
+【你这几天的心事】（只有你自己知道）
+${ownThoughts || '（你一直把心事藏得很深）'}
+
+你的真实身份是：${displayRoleName}。
+你可以：
+- 说出你的怀疑，把你看到的一切留给活着的人
+- 亮明身份，让他们相信你
+- 撒谎——如果谎言对你的阵营更有利
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+请按照以下格式回复：
+
+【思考】
+（你生命最后的念头。150字左右。）
+
+作为 ${player.name}：
+- 你的死，会让谁松一口气？
+- 你的阵营还有机会吗？你最后的话能帮到谁，又会害了谁？
+- 说真话还是说谎？亮明身份还是带着秘密离开？
+
+【发言】
+（你的遗言。100字以内，第一人称，说给所有人听。）
+
+你是一个真实的人，在死亡面前说出最后的话。`;
 }
 
 /**
@@ -1133,12 +1441,13 @@ ${gameState.lastGuardedPlayer ? `昨晚你守护了 ${gameState.lastGuardedPlaye
 function getRoleInstructions(
   role: string,
   phase: string,
-  nightPhase?: string,
-  round?: number,
-  actualRole?: string,
+  nightPhase: string | undefined,
+  round: number,
+  actualRole: string,
+  rules: RuleSet,
 ): string {
-  // Special handling for heretic on Day 2 awakening
-  if (actualRole === 'heretic' && round === 2 && role === 'heretic') {
+  // Special handling for heretic on the awakening day
+  if (actualRole === 'heretic' && round === rules.hereticAwakenRound && role === 'heretic') {
     return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【你的灵魂堕落了】
 
@@ -1201,8 +1510,8 @@ function getRoleInstructions(
 今晚，谁的喉咙会被撕开？
 
 【重要】投票决定击杀目标
-- 只回复玩家名字
-- 平票将导致无人死亡（浪费了一次杀戮机会）
+- 按回复格式写出 JSON，target 填玩家名字
+- ${NIGHT_TIE_TEXT[rules.nightTie]}
 
 【警告】
 - 你在收割别人的生命
@@ -1238,7 +1547,7 @@ function getRoleInstructions(
 【你的处境】
 - 你不知道烙印者是谁
 - 第一天，烙印者也不知道你的存在
-- 第二天，烙印者会知道"有背誓者存在"，但不知道是谁
+- 第 ${rules.hereticAwakenRound} 天，烙印者会知道"有背誓者存在"，但不知道是谁
 - 你无法参与烙印者的夜晚讨论和杀人
 - 你只能在白天通过发言和投票帮助收割阵营
 
@@ -1268,9 +1577,9 @@ function getRoleInstructions(
 你必须倾听一个灵魂的声音。
 
 【重要】选择一个人查验
-- 只回复玩家名字
+- 按回复格式写出 JSON，target 填玩家名字
 - 明天你会知道TA是"清白"还是"污秽"
-- "清白"= 羔羊阵营（聆心者、食灰者、共誓者、设闩者、无知者）
+- "清白"= 羔羊阵营（聆心者、食灰者、共誓者、设闩者、秘药者、鸣枪者、无知者）
 - "污秽"= 收割阵营（烙印者、背誓者）
 
 【警告】
@@ -1307,10 +1616,11 @@ function getRoleInstructions(
 【食灰者身份】
 
 你对白蜡篝火有着病态的痴迷。
-每当有人被献祭，你将在梦中"品尝"TA的灵魂。
+每个夜晚，你可以在梦中"品尝"一个死者的灵魂。
 
 【能力说明】
-- 每次白天献祭后，当晚你会得知被献祭者是"清白"还是"污秽"
+- 每晚选择一具还没验过的尸体——被献祭的、夜里被杀的都可以
+- 你会得知死者是"清白"还是"污秽"
 - 这个信息只有你知道
 - 你可以选择公开或隐藏
 
@@ -1324,7 +1634,7 @@ function getRoleInstructions(
 - 风险：信息无法帮助羔羊阵营
 
 【更危险的是】
-- 如果你验出被献祭者是烙印者（污秽）
+- 如果你验出死者是烙印者（污秽）
 - 其他烙印者会知道你有这个能力
 - 你公开的那一刻，就是你被盯上的时刻
 
@@ -1366,9 +1676,9 @@ function getRoleInstructions(
 你的选择决定了谁能活到明天。
 
 【守护规则】
-- 每晚选择一个人守护（不能是自己）
+- 每晚选择一个人守护${rules.guardSelf ? '（可以是自己）' : '（不能是自己）'}
 - 如果烙印者袭击了被守护的人，攻击会失败
-- 【限制】不能连续两晚守护同一人
+- ${rules.guardRepeat ? '可以连续两晚守护同一人' : '【限制】不能连续两晚守护同一人'}
 - 只有你知道守护了谁
 
 【这是巨大的压力】
@@ -1378,7 +1688,7 @@ function getRoleInstructions(
 
 【你也在危险中】
 - 如果你暴露了设闩者身份，你会成为烙印者的优先目标
-- 你不能守护自己
+- ${rules.guardSelf ? '你可以守护自己，但那样今晚其他人就无人守护' : '你不能守护自己'}
 - 一旦被盯上，你会死
 
 【策略建议】
@@ -1394,6 +1704,73 @@ function getRoleInstructions(
 - 每一次选择都是生死决定
 - 守错了，有人死。可能明天就是你。
 - 活下去`;
+    case 'witch':
+      if (phase === 'night' && nightPhase === 'witch') {
+        return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【秘药者身份 - 用药阶段】
+
+你知道今晚谁会死。
+你的药瓶能改变这一切。
+
+【重要】选择一种行动
+- 解药：救活今晚的猎物（只能用一次）
+- 毒药：毒杀一名存活玩家（只能用一次）
+- 放弃：保留药瓶
+
+【警告】
+- 毒药不会分辨清白与污秽
+- 用掉的药瓶不会再回来`;
+      }
+      return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【秘药者身份】
+
+你带着一只旧药箱上山。
+里面只有两瓶药：一瓶能把人从死亡边缘拉回来，一瓶能让人永远睡去。
+
+【能力说明】
+- 烙印者投票后，你会得知当晚的猎物是谁
+- 解药可以救活当晚的猎物，毒药可以毒杀任意一名存活玩家
+- 两瓶药各只能使用一次
+- 只有你知道自己用过什么药
+
+【这是把双刃剑】
+公开身份：
+- 优势：你知道谁在夜里被袭击，这是羔羊们最缺的信息
+- 风险：烙印者会优先除掉你，而你救不了自己第二次
+
+隐藏身份：
+- 优势：活得更久，药瓶留到最关键的时刻
+- 风险：你救下的人不知道是谁救了TA
+
+【记住】
+- 毒错了人，你就是凶手
+- 解药用掉之后，你只能看着别人死去
+- 活下去`;
+    case 'hunter':
+      return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+【鸣枪者身份】
+
+你随身带着一把老猎枪。枪膛里只有一颗子弹。
+这颗子弹，是留给你死去的那一刻的。
+
+【能力说明】
+- 夜晚被杀或白天被献祭时，你可以立即开枪带走一名存活的人
+- 你也可以选择放下枪
+- 如果你是被毒死的，你来不及开枪
+
+【这是最后的威慑】
+公开身份：
+- 优势：烙印者不敢轻易杀你，羔羊们不敢轻易献祭你
+- 风险：烙印者会想办法让你无声无息地死去
+
+隐藏身份：
+- 优势：你的枪声会成为最后的惊喜
+- 风险：你可能被羔羊们误献祭
+
+【记住】
+- 那颗子弹只有一次机会
+- 打错了人，你带走的是一个无辜者
+- 但首先，活下去`;
     case 'innocent':
       return `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 【无知者身份】
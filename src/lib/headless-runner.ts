@@ -0,0 +1,126 @@
+/**
+ * Headless game runner - drives a full game from createGame to a winner without the browser
+ * 无界面对局 - 用于批量运行与结果统计
+ */
+
+import type { GameConfig, GameState, Message } from '@/types/game';
+import type { ResponseProvider } from './gemini';
+import { createHeadlessGameStore } from '@/stores/game-store';
+
+/**
+ * Options for a headless run
+ */
+export interface HeadlessRunOptions {
+  config: GameConfig;
+  provider: ResponseProvider;
+  chooseSecretMeeting?: (gameState: GameState) => [string, string] | null;  // null skips the meeting (default)
+  maxSteps?: number;  // Safety limit against stuck games
+}
+
+/**
+ * One line of the readable transcript
+ */
+export interface TranscriptEntry {
+  round: number;
+  phase?: Message['phase'];
+  from: string;
+  type: Message['type'];
+  content: string;
+}
+
+/**
+ * Outcome of a headless run, ready to be written as JSON
+ */
+export interface HeadlessRunResult {
+  seed: number;
+  winner?: GameState['winner'];
+  steps: number;
+  error?: string;
+  gameState: GameState;
+  transcript: TranscriptEntry[];
+}
+
+const DEFAULT_MAX_STEPS = 2000;
+
+/**
+ * Run one game to completion with the given response provider
+ */
+export async function runHeadlessGame(options: HeadlessRunOptions): Promise<HeadlessRunResult> {
+  const { config, provider, chooseSecretMeeting, maxSteps = DEFAULT_MAX_STEPS } = options;
+  const store = createHeadlessGameStore(provider);
+
+  // 无界面对局全部由 AI 扮演
+  store.getState().startGame({ ...config, humanPlayerName: undefined });
+
+  let steps = 0;
+  let error: string | undefined;
+
+  while (steps < maxSteps) {
+    const { gameState } = store.getState();
+    if (!gameState || gameState.phase === 'end') break;
+
+    if (gameState.phase === 'secret_meeting') {
+      const participants = chooseSecretMeeting?.(gameState) ?? null;
+      if (participants) {
+        store.getState().setSecretMeetingParticipants(participants);
+        await store.getState().executeSecretMeeting();
+      } else {
+        store.getState().skipSecretMeeting();
+      }
+    } else {
+      await store.getState().executeNextStep();
+    }
+    steps += 1;
+
+    // Failed requests are retried on a timer - wait until the store settles
+    await waitUntilIdle(() => store.getState().isProcessing);
+
+    const { lastError } = store.getState();
+    if (lastError) {
+      error = lastError;
+      break;
+    }
+  }
+
+  const finalState = store.getState().gameState;
+  if (!finalState) {
+    throw new Error('Game was not created');
+  }
+
+  if (!error && finalState.phase !== 'end') {
+    error = `Stopped after ${maxSteps} steps without a winner`;
+  }
+
+  return {
+    seed: finalState.seed,
+    winner: finalState.winner,
+    steps,
+    error,
+    gameState: finalState,
+    transcript: buildTranscript(finalState),
+  };
+}
+
+/**
+ * Readable transcript of the game (prompts are left out - they live in the API logs)
+ */
+export function buildTranscript(gameState: GameState): TranscriptEntry[] {
+  return gameState.messages
+    .filter((m) => m.type !== 'prompt')
+    .map((m) => ({
+      round: m.round ?? 0,
+      phase: m.phase,
+      from: m.from,
+      type: m.type,
+      content: m.content,
+    }));
+}
+
+/**
+ * Poll until the busy check returns false
+ */
+async function waitUntilIdle(isBusy: () => boolean): Promise<void> {
+  while (isBusy()) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * House rules - defaults and the choices offered in the setup
+ * 房规 - 各桌常有争议的规则变体
+ */
+
+import type { DayTieRule, NightTieRule, RuleSet, VictoryMode } from '@/types/game';
+
+/**
+ * The rules the game was designed around
+ */
+export const DEFAULT_RULES: RuleSet = {
+  guardSelf: false,
+  guardRepeat: false,
+  dayTie: 'revote',
+  nightTie: 'revote',
+  hereticAwakenRound: 2,
+  firstNightNoKill: false,
+  revealRoleOnDeath: false,
+  victoryMode: 'parity',
+  roundLimit: 0,
+};
+
+/**
+ * Day tie rules offered in the setup
+ */
+export const DAY_TIE_OPTIONS: { rule: DayTieRule; name: string }[] = [
+  { rule: 'revote', name: '重新投票，再平则无人献祭' },
+  { rule: 'revote_then_random', name: '重新投票，再平则随机献祭' },
+  { rule: 'no_sacrifice', name: '平票即无人献祭' },
+];
+
+/**
+ * Night tie rules offered in the setup
+ */
+export const NIGHT_TIE_OPTIONS: { rule: NightTieRule; name: string }[] = [
+  { rule: 'revote', name: '重新商议直到一致' },
+  { rule: 'random', name: '从平票目标中随机选一人' },
+  { rule: 'no_kill', name: '当晚无人死亡' },
+];
+
+/**
+ * Victory modes offered in the setup
+ */
+export const VICTORY_MODE_OPTIONS: { mode: VictoryMode; name: string; description: string }[] = [
+  { mode: 'parity', name: '人数压制', description: '收割者数量不少于羔羊时，收割阵营获胜' },
+  { mode: 'slaughter_side', name: '屠边', description: '身怀异能的羔羊或无知者任意一边全灭时，收割阵营获胜' },
+  { mode: 'slaughter_all', name: '屠城', description: '所有羔羊全灭时，收割阵营获胜' },
+];
+
+/**
+ * Round limits offered in the setup (0 = no limit)
+ */
+export const ROUND_LIMIT_OPTIONS = [0, 5, 6, 7, 8, 10];
+
+/**
+ * Days the heretic may awaken on
+ */
+export const HERETIC_AWAKEN_ROUNDS = [2, 3, 4];
+
+/**
+ * Fill in the unset rules with the defaults
+ */
+export function resolveRules(rules: Partial<RuleSet> | undefined): RuleSet {
+  return { ...DEFAULT_RULES, ...rules };
+}
+
+/**
+ * Validate house rules, returning a list of human-readable errors (empty = valid)
+ */
+export function validateRules(rules: Partial<RuleSet>): string[] {
+  const errors: string[] = [];
+  if (rules.dayTie !== undefined && !DAY_TIE_OPTIONS.some(({ rule }) => rule === rules.dayTie)) {
+    errors.push('未知的白天平票规则');
+  }
+  if (rules.nightTie !== undefined && !NIGHT_TIE_OPTIONS.some(({ rule }) => rule === rules.nightTie)) {
+    errors.push('未知的夜晚平票规则');
+  }
+  if (rules.victoryMode !== undefined && !VICTORY_MODE_OPTIONS.some(({ mode }) => mode === rules.victoryMode)) {
+    errors.push('未知的胜利条件');
+  }
+  if (rules.roundLimit !== undefined && (!Number.isInteger(rules.roundLimit) || rules.roundLimit < 0)) {
+    errors.push('回合上限必须是非负整数');
+  }
+  if (rules.hereticAwakenRound !== undefined && !HERETIC_AWAKEN_ROUNDS.includes(rules.hereticAwakenRound)) {
+    errors.push(`背誓者只能在第 ${HERETIC_AWAKEN_ROUNDS.join('/')} 天觉醒`);
+  }
+  return errors;
+}
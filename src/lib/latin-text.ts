@@ -38,6 +38,16 @@ export const ROLE_MOTTOS = {
     english: 'Night Guardian',
     chinese: '夜之守护',
   },
+  witch: {
+    latin: 'Remedium et Venenum',
+    english: 'Cure and Poison',
+    chinese: '解药与毒药',
+  },
+  hunter: {
+    latin: 'Ultimus Ictus',
+    english: 'The Final Shot',
+    chinese: '最后一击',
+  },
   innocent: {
     latin: 'Spes Ultima',
     english: 'Final Hope',
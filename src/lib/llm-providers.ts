@@ -0,0 +1,515 @@
+/**
+ * Model provider adapters for the /api/gemini proxy
+ * 模型服务适配 - 每家服务各自处理请求格式、响应解析、错误信息与用量统计
+ */
+
+import type { APIType } from '@/types/game';
+
+/**
+ * Token usage in the OpenAI shape, whatever the provider reports
+ */
+export interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+/**
+ * Combine usage reported in parts - later values win, missing ones keep the earlier value
+ */
+export function mergeUsage(base: TokenUsage | undefined, next: TokenUsage): TokenUsage {
+  const promptTokens = next.prompt_tokens ?? base?.prompt_tokens;
+  const completionTokens = next.completion_tokens ?? base?.completion_tokens;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: next.total_tokens ?? ((promptTokens ?? 0) + (completionTokens ?? 0)),
+  };
+}
+
+/**
+ * One completion request as the proxy receives it
+ */
+export interface CompletionRequest {
+  apiKey?: string;
+  apiUrl: string;
+  model: string;
+  prompt: string;
+  temperature: number;
+  jsonMode: boolean;
+  stream: boolean;
+}
+
+/**
+ * Upstream fetch call built by an adapter
+ */
+export interface UpstreamRequest {
+  url: string;
+  init: RequestInit;
+}
+
+/**
+ * Parsed completion - error is set when the provider answered without any text (blocked, refused ...)
+ */
+export interface CompletionResult {
+  text: string;
+  usage?: TokenUsage;
+  error?: string;
+}
+
+/**
+ * One line of an upstream stream - done marks a complete answer
+ */
+export interface StreamChunk {
+  text?: string;
+  usage?: TokenUsage;
+  done?: boolean;
+}
+
+/**
+ * Request/response translation for one provider
+ */
+export interface ProviderAdapter {
+  buildCompletion: (request: CompletionRequest) => UpstreamRequest;
+  parseCompletion: (data: unknown) => CompletionResult;
+  /** Stream lines: SSE "data:" lines, or NDJSON lines for Ollama */
+  parseStreamLine: (line: string) => StreamChunk;
+  /** Readable error message from the provider's error body */
+  parseError: (status: number, body: string) => string;
+  buildModelList: (apiUrl: string, apiKey?: string) => UpstreamRequest;
+  parseModelList: (data: unknown) => string[];
+  streamContentType: string;
+}
+
+/**
+ * What the settings dialog shows for each provider
+ */
+export interface ProviderInfo {
+  label: string;
+  description: string;
+  defaultUrl: string;
+  urlHint: string;
+  requiresApiKey: boolean;
+  keyHint: string;
+  modelPlaceholder: string;
+}
+
+export const PROVIDER_INFO: Record<APIType, ProviderInfo> = {
+  openai: {
+    label: 'OpenAI 兼容',
+    description: 'OpenAI 及任何兼容 /v1/chat/completions 的服务',
+    defaultUrl: 'https://api.openai.com/v1',
+    urlHint: '例如: https://api.openai.com/v1 或其他 OpenAI 兼容 API 的基础 URL',
+    requiresApiKey: true,
+    keyHint: "输入 Bearer token（不需要 'Bearer ' 前缀）",
+    modelPlaceholder: '例如: gpt-4 或 gpt-3.5-turbo',
+  },
+  anthropic: {
+    label: 'Anthropic',
+    description: 'Anthropic Messages API（/v1/messages）',
+    defaultUrl: 'https://api.anthropic.com',
+    urlHint: '一般保持默认，使用中转服务时填写中转地址',
+    requiresApiKey: true,
+    keyHint: '以 x-api-key 请求头发送',
+    modelPlaceholder: '例如: claude-sonnet-4-5',
+  },
+  gemini: {
+    label: 'Google Gemini',
+    description: 'Google Generative Language API（generateContent）',
+    defaultUrl: 'https://generativelanguage.googleapis.com',
+    urlHint: '一般保持默认，会自动补上 /v1beta',
+    requiresApiKey: true,
+    keyHint: '在 Google AI Studio 创建的 API Key',
+    modelPlaceholder: '例如: gemini-2.5-flash',
+  },
+  ollama: {
+    label: 'Ollama',
+    description: '本地 Ollama 服务（/api/chat），不需要 API Key',
+    defaultUrl: 'http://localhost:11434',
+    urlHint: 'Ollama 服务地址，默认端口 11434',
+    requiresApiKey: false,
+    keyHint: '可留空；经反向代理访问时填写 Bearer token',
+    modelPlaceholder: '例如: qwen2.5:14b',
+  },
+};
+
+export const API_TYPES = Object.keys(PROVIDER_INFO) as APIType[];
+
+/**
+ * Whether the settings are complete enough to send requests
+ */
+export function isAPIConfigured(apiType: APIType, apiKey: string, apiUrl: string): boolean {
+  return Boolean(apiUrl.trim()) && (!PROVIDER_INFO[apiType].requiresApiKey || Boolean(apiKey.trim()));
+}
+
+/**
+ * Endpoint under the API version - the version segment is added unless the base URL already ends with it
+ */
+function versionedUrl(apiUrl: string, version: string, path: string): string {
+  const base = apiUrl.replace(/\/+$/, '');
+  return base.endsWith(`/${version}`) ? `${base}${path}` : `${base}/${version}${path}`;
+}
+
+/**
+ * JSON body of an SSE data line, null for other lines and the [DONE] marker
+ */
+function parseSSEData(line: string): unknown {
+  if (!line.startsWith('data:')) return null;
+  const data = line.slice(5).trim();
+  if (!data || data === '[DONE]') return null;
+  return JSON.parse(data) as unknown;
+}
+
+/**
+ * Error message from the usual { error: { message } } or { error: "..." } body
+ */
+function readErrorMessage(status: number, body: string): string {
+  try {
+    const data = JSON.parse(body) as { error?: string | { message?: string } };
+    const message = typeof data.error === 'string' ? data.error : data.error?.message;
+    if (message) return message;
+  } catch {
+    // 不是 JSON，直接用原文
+  }
+  return body.trim() ? body.slice(0, 200) : `HTTP ${status}`;
+}
+
+/**
+ * Hint for the common failure statuses, shared by every provider
+ */
+function statusHint(status: number): string {
+  if (status === 401 || status === 403) return 'API Key 无效或没有权限';
+  if (status === 404) return '接口地址或模型名称不存在';
+  if (status === 429) return '请求过于频繁或额度已用完';
+  return '';
+}
+
+function withHint(status: number, message: string): string {
+  const hint = statusHint(status);
+  return hint ? `${hint}：${message}` : message;
+}
+
+const openaiAdapter: ProviderAdapter = {
+  buildCompletion: ({ apiKey, apiUrl, model, prompt, temperature, jsonMode, stream }) => ({
+    url: versionedUrl(apiUrl, 'v1', '/chat/completions'),
+    init: {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey ?? ''}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature,
+        ...(jsonMode && { response_format: { type: 'json_object' } }),
+        // 流式响应默认不带用量，要显式请求最后一个 usage 块
+        ...(stream && { stream: true, stream_options: { include_usage: true } }),
+      }),
+    },
+  }),
+
+  parseCompletion: (data) => {
+    const response = data as {
+      choices?: Array<{ message?: { content?: string } }>;
+      content?: Array<{ type: string; text?: string }>;
+      usage?: TokenUsage;
+    };
+    // 部分中转服务会原样返回 Claude 格式
+    const text = response.choices?.[0]?.message?.content
+      || response.content?.find((item) => item.type === 'text')?.text
+      || '';
+    return { text, usage: response.usage };
+  },
+
+  parseStreamLine: (line) => {
+    if (line.startsWith('data:') && line.slice(5).trim() === '[DONE]') return { done: true };
+    const chunk = parseSSEData(line) as { choices?: Array<{ delta?: { content?: string } }>; usage?: TokenUsage } | null;
+    return { text: chunk?.choices?.[0]?.delta?.content ?? '', usage: chunk?.usage ?? undefined };
+  },
+
+  parseError: (status, body) => withHint(status, readErrorMessage(status, body)),
+
+  buildModelList: (apiUrl, apiKey) => ({
+    url: versionedUrl(apiUrl, 'v1', '/models'),
+    init: { method: 'GET', headers: { 'Authorization': `Bearer ${apiKey ?? ''}` } },
+  }),
+
+  parseModelList: (data) => (data as { data?: Array<{ id: string }> }).data?.map((m) => m.id) ?? [],
+
+  streamContentType: 'text/event-stream',
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+const anthropicAdapter: ProviderAdapter = {
+  buildCompletion: ({ apiKey, apiUrl, model, prompt, temperature, stream }) => ({
+    // Messages API 没有 JSON 模式，答案格式完全靠提示词
+    url: versionedUrl(apiUrl, 'v1', '/messages'),
+    init: {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey ?? '',
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        messages: [{ role: 'user', content: prompt }],
+        temperature,
+        ...(stream && { stream: true }),
+      }),
+    },
+  }),
+
+  parseCompletion: (data) => {
+    const response = data as {
+      content?: Array<{ type: string; text?: string }>;
+      stop_reason?: string;
+      usage?: { input_tokens?: number; output_tokens?: number };
+    };
+    const text = (response.content ?? [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
+      .join('');
+    return {
+      text,
+      usage: anthropicUsage(response.usage),
+      ...(!text && response.stop_reason === 'refusal' && { error: '模型拒绝回答' }),
+    };
+  },
+
+  parseStreamLine: (line) => {
+    const event = parseSSEData(line) as {
+      type?: string;
+      delta?: { type?: string; text?: string };
+      message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+      usage?: { input_tokens?: number; output_tokens?: number };
+    } | null;
+    if (!event) return {};
+    if (event.type === 'message_stop') return { done: true };
+    if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      return { text: event.delta.text ?? '' };
+    }
+    if (event.type === 'message_start') return { usage: anthropicUsage(event.message?.usage) };
+    if (event.type === 'message_delta') return { usage: anthropicUsage(event.usage) };
+    return {};
+  },
+
+  // { type: 'error', error: { type: 'overloaded_error', message } }
+  parseError: (status, body) => {
+    const message = readErrorMessage(status, body);
+    return status === 529 ? `Anthropic 服务过载：${message}` : withHint(status, message);
+  },
+
+  buildModelList: (apiUrl, apiKey) => ({
+    url: versionedUrl(apiUrl, 'v1', '/models'),
+    init: { method: 'GET', headers: { 'x-api-key': apiKey ?? '', 'anthropic-version': ANTHROPIC_VERSION } },
+  }),
+
+  parseModelList: (data) => (data as { data?: Array<{ id: string }> }).data?.map((m) => m.id) ?? [],
+
+  streamContentType: 'text/event-stream',
+};
+
+function anthropicUsage(usage?: { input_tokens?: number; output_tokens?: number }): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    prompt_tokens: usage.input_tokens,
+    completion_tokens: usage.output_tokens,
+    ...(usage.input_tokens !== undefined && usage.output_tokens !== undefined && {
+      total_tokens: usage.input_tokens + usage.output_tokens,
+    }),
+  };
+}
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string; thought?: boolean }> };
+    finishReason?: string;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+}
+
+const geminiAdapter: ProviderAdapter = {
+  buildCompletion: ({ apiKey, apiUrl, model, prompt, temperature, jsonMode, stream }) => ({
+    url: versionedUrl(
+      apiUrl,
+      'v1beta',
+      `/models/${geminiModelName(model)}:${stream ? 'streamGenerateContent?alt=sse' : 'generateContent'}`,
+    ),
+    init: {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey ?? '',
+      },
+      body: JSON.stringify({
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature,
+          ...(jsonMode && { responseMimeType: 'application/json' }),
+        },
+      }),
+    },
+  }),
+
+  parseCompletion: (data) => {
+    const response = data as GeminiResponse;
+    const blockReason = response.promptFeedback?.blockReason;
+    return {
+      text: geminiText(response),
+      usage: geminiUsage(response),
+      ...(blockReason && { error: `提示词被安全策略拦截 (${blockReason})` }),
+    };
+  },
+
+  // 每个 SSE 事件都是一段 GenerateContentResponse，带 finishReason 的是最后一段
+  parseStreamLine: (line) => {
+    const chunk = parseSSEData(line) as GeminiResponse | null;
+    if (!chunk) return {};
+    return {
+      text: geminiText(chunk),
+      usage: geminiUsage(chunk),
+      done: Boolean(chunk.candidates?.[0]?.finishReason),
+    };
+  },
+
+  // { error: { code, message, status: 'INVALID_ARGUMENT' } }
+  parseError: (status, body) => withHint(status, readErrorMessage(status, body)),
+
+  buildModelList: (apiUrl, apiKey) => ({
+    url: versionedUrl(apiUrl, 'v1beta', '/models?pageSize=1000'),
+    init: { method: 'GET', headers: { 'x-goog-api-key': apiKey ?? '' } },
+  }),
+
+  parseModelList: (data) =>
+    ((data as { models?: Array<{ name: string; supportedGenerationMethods?: string[] }> }).models ?? [])
+      .filter((m) => m.supportedGenerationMethods?.includes('generateContent') ?? true)
+      .map((m) => geminiModelName(m.name)),
+
+  streamContentType: 'text/event-stream',
+};
+
+/**
+ * Model id without the "models/" prefix the model list returns
+ */
+function geminiModelName(model: string): string {
+  return model.replace(/^models\//, '');
+}
+
+function geminiText(response: GeminiResponse): string {
+  // 思考模型的思考片段不算答案
+  return (response.candidates?.[0]?.content?.parts ?? [])
+    .filter((part) => !part.thought)
+    .map((part) => part.text ?? '')
+    .join('');
+}
+
+function geminiUsage(response: GeminiResponse): TokenUsage | undefined {
+  const usage = response.usageMetadata;
+  if (!usage) return undefined;
+  return {
+    prompt_tokens: usage.promptTokenCount,
+    completion_tokens: usage.candidatesTokenCount,
+    total_tokens: usage.totalTokenCount,
+  };
+}
+
+interface OllamaResponse {
+  message?: { content?: string };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+const ollamaAdapter: ProviderAdapter = {
+  buildCompletion: ({ apiKey, apiUrl, model, prompt, temperature, jsonMode, stream }) => ({
+    url: `${ollamaBaseUrl(apiUrl)}/api/chat`,
+    init: {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...ollamaAuth(apiKey) },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        options: { temperature },
+        // Ollama 默认流式，普通请求要显式关掉
+        stream,
+        ...(jsonMode && { format: 'json' }),
+      }),
+    },
+  }),
+
+  parseCompletion: (data) => {
+    const response = data as OllamaResponse;
+    return { text: response.message?.content ?? '', usage: ollamaUsage(response) };
+  },
+
+  // NDJSON：每行一个对象，最后一行 done: true
+  parseStreamLine: (line) => {
+    if (!line.trim()) return {};
+    const chunk = JSON.parse(line) as OllamaResponse;
+    if (chunk.error) throw new Error(chunk.error);
+    return {
+      text: chunk.message?.content ?? '',
+      done: chunk.done === true,
+      ...(chunk.done && { usage: ollamaUsage(chunk) }),
+    };
+  },
+
+  // { error: "model 'x' not found, try pulling it first" }
+  parseError: (status, body) => {
+    const message = readErrorMessage(status, body);
+    return status === 404 ? `模型不存在，请先 ollama pull：${message}` : withHint(status, message);
+  },
+
+  buildModelList: (apiUrl, apiKey) => ({
+    url: `${ollamaBaseUrl(apiUrl)}/api/tags`,
+    init: { method: 'GET', headers: ollamaAuth(apiKey) },
+  }),
+
+  parseModelList: (data) => ((data as { models?: Array<{ name: string }> }).models ?? []).map((m) => m.name),
+
+  streamContentType: 'application/x-ndjson',
+};
+
+/**
+ * Ollama server root - tolerates a pasted ".../api" or OpenAI style ".../v1" address
+ */
+function ollamaBaseUrl(apiUrl: string): string {
+  return apiUrl.replace(/\/+$/, '').replace(/\/(api|v1)$/, '');
+}
+
+/**
+ * Ollama itself has no auth - a key is only sent for servers behind a reverse proxy
+ */
+function ollamaAuth(apiKey?: string): Record<string, string> {
+  return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+}
+
+function ollamaUsage(response: OllamaResponse): TokenUsage | undefined {
+  if (response.prompt_eval_count === undefined && response.eval_count === undefined) return undefined;
+  return {
+    prompt_tokens: response.prompt_eval_count,
+    completion_tokens: response.eval_count,
+    total_tokens: (response.prompt_eval_count ?? 0) + (response.eval_count ?? 0),
+  };
+}
+
+const ADAPTERS: Record<APIType, ProviderAdapter> = {
+  openai: openaiAdapter,
+  anthropic: anthropicAdapter,
+  gemini: geminiAdapter,
+  ollama: ollamaAdapter,
+};
+
+/**
+ * Adapter for a provider, null for an unknown api type
+ */
+export function getProviderAdapter(apiType: string): ProviderAdapter | null {
+  return (API_TYPES as string[]).includes(apiType) ? ADAPTERS[apiType as APIType] : null;
+}
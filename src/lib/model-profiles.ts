@@ -0,0 +1,66 @@
+/**
+ * Per-player model profiles - pit models against each other
+ * 模型分配 - 阵营默认模型与单个角色的模型
+ */
+
+import type { APIType, ModelAssignment, ModelProfile, Player } from '@/types/game';
+import { PROVIDER_INFO } from './llm-providers';
+
+/**
+ * Connection settings for one request
+ */
+export interface ModelSettings {
+  apiType: APIType;
+  apiUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+/**
+ * Drop blank fields - undefined when nothing is left, so an untouched profile means "use the global settings"
+ */
+export function cleanModelProfile(profile?: ModelProfile): ModelProfile | undefined {
+  if (!profile) return undefined;
+  const cleaned: ModelProfile = {
+    ...(profile.apiType && { apiType: profile.apiType }),
+    ...(profile.apiUrl?.trim() && { apiUrl: profile.apiUrl.trim() }),
+    ...(profile.apiKey?.trim() && { apiKey: profile.apiKey.trim() }),
+    ...(profile.model?.trim() && { model: profile.model.trim() }),
+  };
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+}
+
+/**
+ * The profile a player gets at the start of a game - the character's own profile, else the faction default
+ */
+export function getAssignedModelProfile(player: Player, assignment?: ModelAssignment): ModelProfile | undefined {
+  if (!assignment) return undefined;
+  const faction = player.role === 'marked' || player.role === 'heretic' ? 'marked' : 'lamb';
+  return cleanModelProfile(assignment.characters?.[player.name]) ?? cleanModelProfile(assignment[faction]);
+}
+
+/**
+ * Merge a player's profile over the global settings
+ * Another provider does not inherit the global URL, key or model - its own default URL is used instead
+ */
+export function resolveModelSettings(global: ModelSettings, profile?: ModelProfile): ModelSettings {
+  if (!profile) return global;
+
+  const apiType = profile.apiType ?? global.apiType;
+  const sameProvider = apiType === global.apiType;
+  return {
+    apiType,
+    apiUrl: profile.apiUrl ?? (sameProvider ? global.apiUrl : PROVIDER_INFO[apiType].defaultUrl),
+    apiKey: profile.apiKey ?? (sameProvider ? global.apiKey : ''),
+    model: profile.model ?? (sameProvider ? global.model : ''),
+  };
+}
+
+/**
+ * Short label for a profile, e.g. "Anthropic · claude-sonnet-4-5"
+ */
+export function describeModelProfile(profile?: ModelProfile): string {
+  if (!profile) return '全局设置';
+  const provider = profile.apiType ? PROVIDER_INFO[profile.apiType].label : '';
+  return [provider, profile.model].filter(Boolean).join(' · ') || '自定义连接';
+}
@@ -0,0 +1,143 @@
+/**
+ * Character notebooks - suspicions, trusted players and own claims, kept across rounds
+ * 私人笔记 - AI 在回复的【笔记】段落（或 JSON 的 notebook 字段）里更新，之后每次 prompt 都会带上
+ */
+
+import type { NotebookEntry, NotebookUpdate, Player, PlayerNotebook } from '@/types/game';
+
+/**
+ * Claims kept per notebook - older ones are dropped
+ */
+const MAX_CLAIMS = 10;
+
+const EMPTY_VALUES = ['无', '暂无', '没有', '（无）'];
+
+/**
+ * Body of the 【笔记】 section - null when the answer has none
+ */
+export function extractNotebookSection(response: string): string | null {
+  const match = response.match(/【笔记】\s*([\s\S]*?)(?=【思考】|【发言】|$)/);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * The answer without its 【笔记】 section
+ */
+export function stripNotebookSection(response: string): string {
+  return response.replace(/【笔记】[\s\S]*?(?=【思考】|【发言】|$)/, '').trim();
+}
+
+/**
+ * Resolve a written name to a player - exact, or the only player whose name contains it
+ */
+function findPlayerName(written: string, players: Player[]): string | null {
+  const exact = players.find((p) => p.name === written);
+  if (exact) return exact.name;
+  const partial = written.length >= 2 ? players.filter((p) => p.name.includes(written)) : [];
+  return partial.length === 1 ? partial[0].name : null;
+}
+
+/**
+ * "名字（理由）；名字、名字" - unknown names are dropped
+ */
+function parseEntries(value: string, players: Player[]): NotebookEntry[] {
+  return value
+    .split(/[；;]/)
+    .map((part) => part.trim())
+    .filter((part) => part !== '')
+    .flatMap((part) => {
+      const withReason = part.match(/^(.+?)\s*[（(](.+)[）)]$/);
+      if (withReason) return [{ name: withReason[1].trim(), reason: withReason[2].trim() }];
+      return part.split(/[、，,]/).map((name) => ({ name: name.trim() }));
+    })
+    .flatMap((entry) => {
+      const name = findPlayerName(entry.name, players);
+      return name ? [{ ...entry, name }] : [];
+    });
+}
+
+/**
+ * Read the lines of a notebook section - null when no line is recognized
+ */
+export function parseNotebookUpdate(text: string, players: Player[], self: string): NotebookUpdate | null {
+  const others = players.filter((p) => p.name !== self);
+  const update: NotebookUpdate = {};
+
+  text.split('\n').forEach((line) => {
+    const match = line.trim().replace(/^[-•*]\s*/, '').match(/^(怀疑|信任|说法|我的说法)\s*[:：]\s*(.*)$/);
+    if (!match) return;
+    const value = EMPTY_VALUES.includes(match[2].trim()) ? '' : match[2];
+
+    if (match[1] === '怀疑') {
+      update.suspects = parseEntries(value, others);
+    } else if (match[1] === '信任') {
+      update.trusted = parseEntries(value, others);
+    } else {
+      update.claims = [...(update.claims ?? []), ...value.split(/[；;]/).map((claim) => claim.trim()).filter((claim) => claim !== '')];
+    }
+  });
+
+  return Object.keys(update).length > 0 ? update : null;
+}
+
+/**
+ * Apply an update - given lists replace the old ones, new claims are appended
+ */
+export function applyNotebookUpdate(
+  notebook: PlayerNotebook | undefined,
+  update: NotebookUpdate,
+  round: number,
+): PlayerNotebook {
+  const claims = notebook?.claims ?? [];
+  const newClaims = (update.claims ?? []).filter((claim) => !claims.includes(claim));
+  return {
+    suspects: update.suspects ?? notebook?.suspects ?? [],
+    trusted: update.trusted ?? notebook?.trusted ?? [],
+    claims: [...claims, ...newClaims].slice(-MAX_CLAIMS),
+    updatedRound: round,
+  };
+}
+
+/**
+ * "名字（理由）；名字" - or 无
+ */
+export function formatEntries(entries: NotebookEntry[]): string {
+  if (entries.length === 0) return '无';
+  return entries.map((entry) => (entry.reason ? `${entry.name}（${entry.reason}）` : entry.name)).join('；');
+}
+
+/**
+ * The notebook as shown back to its owner in the prompt
+ */
+export function formatNotebook(notebook: PlayerNotebook | undefined): string {
+  if (!notebook) {
+    return '【你的笔记】（只有你自己能看到）\n还是空的。';
+  }
+
+  const claims = notebook.claims.length > 0 ? notebook.claims.map((claim) => `- ${claim}`).join('\n') : '无';
+  return `【你的笔记】（只有你自己能看到，第 ${notebook.updatedRound} 回合更新）
+怀疑：${formatEntries(notebook.suspects)}
+信任：${formatEntries(notebook.trusted)}
+你公开说过的话：
+${claims}
+
+前后说法要一致；改变立场时，想好怎么向别人解释。`;
+}
+
+/**
+ * How to update the notebook - a trailing 【笔记】 section, or a notebook field in JSON answers
+ */
+export function notebookInstructions(jsonMode: boolean): string {
+  const lines = `怀疑：名字（理由）；名字（理由）
+信任：名字（理由）
+说法：这次你公开说出的身份、查验结果或行踪（没有就省略这一行）`;
+
+  const where = jsonMode
+    ? '可以在 JSON 里加一个 "notebook" 字段（字符串，用 \\n 换行）更新你的笔记，格式：'
+    : '可以在回复最后加上【笔记】段落更新你的笔记，格式：\n【笔记】';
+
+  return `【更新笔记】（可选）
+${where}
+${lines}
+省略的行保持原样，写"无"清空该项。`;
+}
@@ -0,0 +1,265 @@
+/**
+ * Long-game memory - what each player remembers of the older rounds
+ * 长局记忆 - 旧回合按每名旅者能看到的内容压缩成摘要，最近的回合保留原文
+ */
+
+import type { GameState, MemorySettings, MemorySummarizer, Message, Player, PlayerMemory, Vote } from '@/types/game';
+
+/**
+ * Memory is on by default - a 15-player game passes the budget around round 3
+ */
+export const DEFAULT_MEMORY_SETTINGS: MemorySettings = {
+  enabled: true,
+  tokenBudget: 6000,
+  recentRounds: 1,
+  summarizer: 'extractive',
+};
+
+/**
+ * Budgets offered in the setup
+ */
+export const MEMORY_BUDGET_OPTIONS = [3000, 6000, 12000, 24000];
+
+/**
+ * Rounds kept verbatim, offered in the setup
+ */
+export const MEMORY_RECENT_ROUND_OPTIONS = [1, 2, 3];
+
+/**
+ * Summarizers offered in the setup
+ */
+export const MEMORY_SUMMARIZER_OPTIONS: { summarizer: MemorySummarizer; name: string; description: string }[] = [
+  { summarizer: 'extractive', name: '摘录', description: '从记录中摘出每回合的死亡、发言要点和投票，不额外请求模型' },
+  { summarizer: 'model', name: '模型总结', description: '由该旅者所用的模型以第一人称写回忆，每次压缩多一次请求；失败时退回摘录' },
+];
+
+/**
+ * Fill in unset memory settings with the defaults
+ */
+export function resolveMemorySettings(memory?: Partial<MemorySettings>): MemorySettings {
+  return { ...DEFAULT_MEMORY_SETTINGS, ...memory };
+}
+
+/**
+ * Rough token count - CJK characters are about one token each, other text about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uff00-\uffef]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * Messages the player can see
+ */
+export function getVisibleMessages(player: Player, gameState: GameState): Message[] {
+  // eslint-disable-next-line complexity
+  return gameState.messages.filter((m) => {
+    if (m.visibility === 'all') return true;
+    if (m.visibility === 'marked' && player.role === 'marked') return true;
+    if (m.visibility === 'listener' && player.role === 'listener') return true;
+    if (m.visibility === 'coroner' && player.role === 'coroner') return true;
+    if (m.visibility === 'guard' && player.role === 'guard') return true;
+    if (m.visibility === 'witch' && player.role === 'witch') return true;
+    if (m.visibility === 'twins' && player.role === 'twin') return true;
+    if (typeof m.visibility === 'object') {
+      if ('player' in m.visibility && m.visibility.player === player.name) return true;
+      if ('secretMeeting' in m.visibility && m.visibility.secretMeeting.includes(player.name)) return true;
+    }
+    // AI can see its own thinking
+    if (m.type === 'thinking' && m.from === player.name) return true;
+    return false;
+  });
+}
+
+/**
+ * Messages that belong in the conversation history
+ * Prompts would leak identities and votes are listed separately in the vote history
+ */
+function isHistoryMessage(m: Message): boolean {
+  return m.type !== 'prompt' && m.type !== 'vote';
+}
+
+/**
+ * The history the player sees verbatim - everything after their memory, or the last 20 messages with memory off
+ */
+export function getRecentHistory(player: Player, gameState: GameState): Message[] {
+  const covered = gameState.memories?.[player.name]?.messageCount ?? 0;
+  const seen = new Set(gameState.messages.slice(covered));
+  const recent = getVisibleMessages(player, gameState).filter((m) => seen.has(m) && isHistoryMessage(m));
+  return gameState.memory?.enabled ? recent : recent.slice(-20);  // 保留最近20条对话
+}
+
+/**
+ * Votes from the rounds the player's memory does not cover yet
+ */
+export function getRecentVotes(player: Player, gameState: GameState): Vote[] {
+  const throughRound = gameState.memories?.[player.name]?.throughRound ?? 0;
+  return gameState.voteHistory.filter((vote) => vote.round !== undefined && vote.round > throughRound);
+}
+
+/**
+ * Round of every message - system messages without one belong to the round before them
+ */
+function messageRounds(messages: Message[]): number[] {
+  let round = 0;
+  return messages.map((m) => {
+    round = m.round ?? round;
+    return round;
+  });
+}
+
+/**
+ * Older rounds to fold into a player's memory
+ */
+export interface MemoryUpdate {
+  messages: Message[];  // 要压缩的、该旅者能看到的消息
+  rounds: number[];  // messages 对应的回合
+  votes: Vote[];
+  throughRound: number;
+  messageCount: number;
+  summaryBudget: number;  // 摘要最多占的 token，留出另一半给最近的原文
+}
+
+/**
+ * Tokens the summary may take - half the budget, the rest is left for the recent rounds
+ */
+export function getSummaryBudget(settings: MemorySettings): number {
+  return Math.floor(settings.tokenBudget / 2);
+}
+
+/**
+ * Forget the oldest memories until the summary fits
+ * Whole rounds go first, then the oldest lines of the round that is left
+ */
+export function trimSummary(summary: string, maxTokens: number): string {
+  const sections = summary.split('\n\n');
+  while (sections.length > 1 && estimateTokens(sections.join('\n\n')) > maxTokens) {
+    sections.shift();
+  }
+
+  const [header, ...lines] = sections.join('\n\n').split('\n');
+  const keepsHeader = /^第 \d+ 回合：$/.test(header);
+  const rest = keepsHeader ? lines : [header, ...lines];
+  const join = () => (keepsHeader ? [header, ...rest] : rest).join('\n');
+  while (rest.length > 1 && estimateTokens(join()) > maxTokens) {
+    rest.shift();
+  }
+
+  // 只剩一行还放不下时截掉开头
+  const text = join();
+  return estimateTokens(text) > maxTokens ? `…${text.slice(-(maxTokens - 1))}` : text;
+}
+
+/**
+ * Decide whether a player's summary and history have outgrown the budget
+ * Returns the older rounds to summarize, or null when everything still fits or only recent rounds are left
+ */
+export function planMemoryUpdate(player: Player, gameState: GameState): MemoryUpdate | null {
+  const settings = gameState.memory;
+  if (!settings?.enabled) return null;
+
+  const memory = gameState.memories?.[player.name];
+  const history = formatHistory(getRecentHistory(player, gameState), getRecentVotes(player, gameState));
+  if (estimateTokens(memory?.summary ?? '') + estimateTokens(history) <= settings.tokenBudget) return null;
+
+  const throughRound = gameState.round - settings.recentRounds;
+  if (throughRound <= (memory?.throughRound ?? 0)) return null;
+
+  const rounds = messageRounds(gameState.messages);
+  const covered = memory?.messageCount ?? 0;
+  const firstKept = rounds.findIndex((round, index) => index >= covered && round > throughRound);
+  const messageCount = firstKept < 0 ? gameState.messages.length : firstKept;
+
+  const visible = new Set(getVisibleMessages(player, gameState));
+  const messages: Message[] = [];
+  const messageRoundList: number[] = [];
+  gameState.messages.slice(covered, messageCount).forEach((m, offset) => {
+    if (!visible.has(m) || !isHistoryMessage(m)) return;
+    messages.push(m);
+    messageRoundList.push(rounds[covered + offset]);
+  });
+
+  return {
+    messages,
+    rounds: messageRoundList,
+    votes: gameState.voteHistory.filter(
+      (vote) => vote.round !== undefined && vote.round > (memory?.throughRound ?? 0) && vote.round <= throughRound,
+    ),
+    throughRound,
+    messageCount,
+    summaryBudget: getSummaryBudget(settings),
+  };
+}
+
+/**
+ * Conversation and vote history as it appears in the prompt
+ */
+export function formatHistory(messages: Message[], votes: Vote[]): string {
+  return [...messages.map((m) => `${m.from}: ${m.content}`), ...votes.map((v) => `${v.from} 投给了 ${v.target}`)].join('\n');
+}
+
+/**
+ * First sentence of a message, cut to a length
+ */
+function gist(content: string, maxLength: number): string {
+  const firstLine = content.trim().split('\n').find((line) => line.trim() !== '') ?? '';
+  const sentence = firstLine.split(/(?<=[。！？!?])/)[0].trim();
+  return sentence.length > maxLength ? `${sentence.slice(0, maxLength)}…` : sentence;
+}
+
+/**
+ * Summary without a model - per round, the gist of each message and who voted for whom, trimmed to the summary budget
+ */
+export function buildExtractiveSummary(previous: string, update: MemoryUpdate, player: Player): string {
+  const byRound = new Map<number, string[]>();
+  const linesFor = (round: number) => {
+    const lines = byRound.get(round) ?? [];
+    byRound.set(round, lines);
+    return lines;
+  };
+
+  update.messages.forEach((m, index) => {
+    const lines = linesFor(update.rounds[index]);
+    if (m.type === 'thinking') {
+      lines.push(`（我当时想）${gist(m.content, 60)}`);
+    } else if (m.type === 'speech' || m.type === 'secret' || m.type === 'last_words') {
+      lines.push(`${m.from === player.name ? '我' : m.from}${m.type === 'secret' ? '（密会）' : ''}：${gist(m.content, 50)}`);
+    } else {
+      lines.push(gist(m.content, 80));
+    }
+  });
+
+  update.votes.forEach((vote) => {
+    linesFor(vote.round ?? 0).push(`投票：${vote.from} → ${vote.target}`);
+  });
+
+  const sections = [...byRound.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([round, lines]) => `第 ${round} 回合：\n${lines.filter((line) => line !== '').map((line) => `- ${line}`).join('\n')}`);
+
+  return trimSummary([previous, ...sections].filter((text) => text !== '').join('\n\n'), update.summaryBudget);
+}
+
+/**
+ * Prompt asking the player's own model to write their memory of the older rounds
+ */
+export function buildSummaryPrompt(previous: string, update: MemoryUpdate, player: Player): string {
+  return `你是 ${player.name}，被困在白烬山口的寂静山庄里。
+下面是你记得的、第 ${update.throughRound} 回合及以前发生的事（只有你亲眼所见、亲耳所闻）。
+
+${previous ? `【更早的回忆】\n${previous}\n\n` : ''}【新的记录】
+${formatHistory(update.messages, update.votes)}
+
+请用第一人称，把以上内容整理成你的回忆，400字以内：
+- 每回合谁死了、怎么死的，谁被献祭
+- 每个人的关键发言、立场和投票，以及前后矛盾之处
+- 你自己掌握的秘密信息和当时的判断
+只输出回忆本身，不要输出其他文字。`;
+}
+
+/**
+ * Store the new summary for a player
+ */
+export function withPlayerMemory(gameState: GameState, playerName: string, memory: PlayerMemory): GameState {
+  return { ...gameState, memories: { ...gameState.memories, [playerName]: memory } };
+}
@@ -0,0 +1,157 @@
+/**
+ * File-backed prompt configuration store with version history
+ * Prompt 配置的服务端存储 - 数据目录下的一个 JSON 文件（Docker 部署时挂载为数据卷）
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { PromptConfig, PromptConfigVersion, PromptRevisionInfo } from '@/types/game';
+
+/**
+ * Versions kept per config - older ones are dropped
+ */
+const MAX_VERSIONS = 50;
+
+interface StoredPromptConfig {
+  config: PromptConfig;
+  versions: PromptConfigVersion[];  // Oldest first, the last one is the current config
+}
+
+interface PromptConfigFile {
+  configs: Record<string, StoredPromptConfig>;
+}
+
+/**
+ * Fields a PUT may change
+ */
+export type PromptConfigPatch = Partial<Pick<PromptConfig, 'name' | 'description' | 'items'>>;
+
+export interface PromptConfigStore {
+  list: () => Promise<PromptConfig[]>;
+  get: (id: string) => Promise<PromptConfig | null>;
+  /** Create or replace a config - every save adds a version */
+  save: (config: PromptConfig, revision?: PromptRevisionInfo) => Promise<PromptConfig>;
+  /** null when the config does not exist */
+  update: (id: string, patch: PromptConfigPatch, revision?: PromptRevisionInfo) => Promise<PromptConfig | null>;
+  remove: (id: string) => Promise<boolean>;
+  listVersions: (id: string) => Promise<PromptConfigVersion[] | null>;
+  /** Save an old version again as the newest one - null when the config or version does not exist */
+  restore: (id: string, version: number, revision?: PromptRevisionInfo) => Promise<PromptConfig | null>;
+}
+
+async function readStore(file: string): Promise<PromptConfigFile> {
+  try {
+    return JSON.parse(await readFile(file, 'utf-8')) as PromptConfigFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { configs: {} };
+    throw error;
+  }
+}
+
+/**
+ * Write through a temp file so a crash never leaves half a JSON file behind
+ */
+async function writeStore(file: string, data: PromptConfigFile): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.tmp`;
+  await writeFile(temp, JSON.stringify(data, null, 2), 'utf-8');
+  await rename(temp, file);
+}
+
+/**
+ * Record a new version of the config and make it current
+ */
+function addVersion(
+  stored: StoredPromptConfig | undefined,
+  config: PromptConfig,
+  revision: PromptRevisionInfo = {},
+  restoredFrom?: number,
+): StoredPromptConfig {
+  const now = Date.now();
+  const versions = stored?.versions ?? [];
+  const version = (versions.at(-1)?.version ?? 0) + 1;
+  const saved: PromptConfig = {
+    ...config,
+    items: [...config.items].sort((a, b) => a.order - b.order),
+    createdAt: stored?.config.createdAt ?? (config.createdAt || now),
+    updatedAt: now,
+    version,
+  };
+
+  return {
+    config: saved,
+    versions: [
+      ...versions,
+      { version, savedAt: now, config: saved, restoredFrom, author: revision.author?.trim() || undefined, note: revision.note?.trim() || undefined },
+    ].slice(-MAX_VERSIONS),
+  };
+}
+
+/**
+ * Store backed by a JSON file - writes are queued so concurrent requests don't lose each other's changes
+ */
+export function createPromptConfigStore(file: string): PromptConfigStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const mutate = <T>(change: (data: PromptConfigFile) => T): Promise<T> => {
+    const run = queue.then(async () => {
+      const data = await readStore(file);
+      const result = change(data);
+      await writeStore(file, data);
+      return result;
+    });
+    // 一次写入失败不影响后面的写入
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    list: async () => Object.values((await readStore(file)).configs).map((stored) => stored.config),
+
+    get: async (id) => (await readStore(file)).configs[id]?.config ?? null,
+
+    save: (config, revision) =>
+      mutate((data) => {
+        data.configs[config.id] = addVersion(data.configs[config.id], config, revision);
+        return data.configs[config.id].config;
+      }),
+
+    update: (id, patch, revision) =>
+      mutate((data) => {
+        const stored = data.configs[id];
+        if (!stored) return null;
+        data.configs[id] = addVersion(stored, { ...stored.config, ...patch }, revision);
+        return data.configs[id].config;
+      }),
+
+    remove: (id) =>
+      mutate((data) => {
+        if (!data.configs[id]) return false;
+        delete data.configs[id];
+        return true;
+      }),
+
+    listVersions: async (id) => (await readStore(file)).configs[id]?.versions ?? null,
+
+    restore: (id, version, revision) =>
+      mutate((data) => {
+        const stored = data.configs[id];
+        const snapshot = stored?.versions.find((v) => v.version === version);
+        if (!stored || !snapshot) return null;
+        data.configs[id] = addVersion(stored, snapshot.config, revision, version);
+        return data.configs[id].config;
+      }),
+  };
+}
+
+let defaultStore: PromptConfigStore | null = null;
+
+/**
+ * The server's store - WHITEFIRE_DATA_DIR, or ./data under the working directory
+ */
+export function getPromptConfigStore(): PromptConfigStore {
+  defaultStore ??= createPromptConfigStore(
+    path.join(process.env.WHITEFIRE_DATA_DIR ?? path.join(process.cwd(), 'data'), 'prompt-configs.json'),
+  );
+  return defaultStore;
+}
@@ -0,0 +1,132 @@
+/**
+ * Diff two versions of a prompt configuration, item by item
+ * Prompt 版本对比 - 按条目 id 配对，内容按行做并排对比
+ */
+
+import type { PromptConfig, PromptItem } from '@/types/game';
+
+/**
+ * One row of a side-by-side diff - a side is missing when the line only exists in the other version
+ */
+export interface DiffRow {
+  left?: string;
+  right?: string;
+  changed: boolean;
+}
+
+export type PromptItemChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface PromptItemDiff {
+  id: string;
+  label: string;
+  change: PromptItemChange;
+  notes: string[];  // 内容以外的改动：启用状态、类型、位置、名称
+  rows: DiffRow[];
+}
+
+/**
+ * Side-by-side line diff (longest common subsequence) - removed and added lines in the same gap share rows
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = a[i..] 与 b[j..] 的最长公共子序列长度
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k], changed: true });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ left: a[i], right: b[j], changed: false });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+const ITEM_TYPE_NAMES: Record<PromptItem['type'], string> = {
+  system: '系统',
+  user: '用户',
+  assistant: '助手',
+  placeholder: '占位符',
+};
+
+function describeItemChanges(before: PromptItem, after: PromptItem, moved: boolean): string[] {
+  const notes: string[] = [];
+  if (before.enabled !== after.enabled) notes.push(after.enabled ? '已启用' : '已停用');
+  if (before.type !== after.type) notes.push(`类型 ${ITEM_TYPE_NAMES[before.type]} → ${ITEM_TYPE_NAMES[after.type]}`);
+  if (before.label !== after.label) notes.push(`名称「${before.label}」→「${after.label}」`);
+  if (moved) notes.push('顺序调整');
+  return notes;
+}
+
+function sortedItems(config: PromptConfig): PromptItem[] {
+  return [...config.items].sort((a, b) => a.order - b.order);
+}
+
+function oneSided(content: string, side: 'left' | 'right'): DiffRow[] {
+  return content.split('\n').map((line) => ({ [side]: line, changed: true }));
+}
+
+/**
+ * Item-level diff in the newer version's order; removed items come last
+ */
+export function diffPromptConfigs(before: PromptConfig, after: PromptConfig): PromptItemDiff[] {
+  const beforeItems = sortedItems(before);
+  const afterItems = sortedItems(after);
+
+  // 只比较两边都有的条目之间的相对顺序，增删条目不算移动
+  const keptBefore = beforeItems.filter((old) => afterItems.some((item) => item.id === old.id)).map((old) => old.id);
+  const keptAfter = afterItems.filter((item) => keptBefore.includes(item.id)).map((item) => item.id);
+
+  const diffs = afterItems.map((item): PromptItemDiff => {
+    const old = beforeItems.find((candidate) => candidate.id === item.id);
+    if (!old) {
+      return { id: item.id, label: item.label, change: 'added', notes: [], rows: oneSided(item.content, 'right') };
+    }
+
+    const notes = describeItemChanges(old, item, keptBefore.indexOf(item.id) !== keptAfter.indexOf(item.id));
+    const rows = diffLines(old.content, item.content);
+    const contentChanged = rows.some((row) => row.changed);
+    return {
+      id: item.id,
+      label: item.label,
+      change: contentChanged || notes.length > 0 ? 'changed' : 'unchanged',
+      notes,
+      rows,
+    };
+  });
+
+  beforeItems
+    .filter((old) => !keptBefore.includes(old.id))
+    .forEach((old) => {
+      diffs.push({ id: old.id, label: old.label, change: 'removed', notes: [], rows: oneSided(old.content, 'left') });
+    });
+
+  return diffs;
+}
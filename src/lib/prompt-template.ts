@@ -0,0 +1,126 @@
+/**
+ * Prompt templates - the AI prompt is assembled from a PromptConfig
+ * 提示词模板 - 按配置中启用的条目顺序拼出发给模型的 prompt
+ */
+
+import type { PromptConfig, PromptItem } from '@/types/game';
+
+/**
+ * Placeholder values for one player at one moment, keyed by name without braces
+ */
+export type PromptVariables = Record<string, string>;
+
+/**
+ * Placeholders filled from the game state - shown in the prompt editor
+ */
+export const PROMPT_PLACEHOLDERS: { name: string; description: string }[] = [
+  { name: 'playerName', description: '角色名字' },
+  { name: 'round', description: '当前回合' },
+  { name: 'markedCount', description: '烙印者人数（中文数字）' },
+  { name: 'deadPlayers', description: '已死亡者' },
+  { name: 'personality', description: '角色性格' },
+  { name: 'emotionalState', description: '角色当前的情绪状态' },
+  { name: 'phase', description: '当前阶段' },
+  { name: 'alivePlayers', description: '存活者名单' },
+  { name: 'victory', description: '胜负条件' },
+  { name: 'appearances', description: '在场之人的外貌' },
+  { name: 'speakingOrder', description: '本轮发言顺序' },
+  { name: 'privateInfo', description: '只有自己知道的信息（同伴、查验、验尸、药瓶）' },
+  { name: 'notebook', description: '自己的私人笔记（怀疑、信任、说过的话）' },
+  { name: 'roleInstructions', description: '角色指引' },
+  { name: 'memory', description: '更早回合的记忆摘要（长局记忆开启后才有）' },
+  { name: 'visibleMessages', description: '自己能看到的最近对话' },
+  { name: 'voteHistory', description: '献祭投票历史' },
+  { name: 'phaseTask', description: '当前阶段的任务与回复格式' },
+];
+
+const DIVIDER = '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━';
+
+function defaultItem(id: string, type: PromptItem['type'], label: string, content: string): PromptItem {
+  return { id: `default-${id}`, type, label, content, order: 0, enabled: true, isDynamic: type === 'placeholder' };
+}
+
+/**
+ * Built-in prompt - used when no custom config is selected, and the starting point for editing
+ */
+export const DEFAULT_PROMPT_CONFIG: PromptConfig = {
+  id: 'default',
+  name: '内置 Prompt',
+  description: '游戏自带的 prompt 模板',
+  items: [
+    defaultItem('scene', 'system', '场景', `${DIVIDER}
+【白烬山口 - 寂静山庄 - 第 {{round}} 夜】
+${DIVIDER}
+
+你是 {{playerName}}。
+你被困在这座被非自然暴风雪封锁的古老山庄中。
+外面的风暴在咆哮。篝火发出刺骨的白光，但毫无温度。
+山灵的契约已成。"饥饿"在人群中蔓延。
+
+【这不是游戏。这是真实的生死存亡。】
+
+遗书说，你们中混入了{{markedCount}}个"非人者"。
+他们会在夜晚猎杀真正的人类。
+每晚，会有一个人被撕开喉咙，永远消失。`),
+    defaultItem('dead', 'placeholder', '已死亡者', '{{deadPlayers}}'),
+    defaultItem('personality', 'system', '性格与情绪', `${DIVIDER}
+【你的性格】
+{{personality}}
+{{emotionalState}}`),
+    defaultItem('situation', 'system', '当前局势', `${DIVIDER}
+【当前局势】
+阶段：{{phase}}
+存活者：{{alivePlayers}}
+胜负：{{victory}}
+
+【在场之人】
+这七天的相处，你观察到在场每个人的模样：
+
+{{appearances}}
+
+这些是你不需要交流就能观察到的信息。但灵魂的颜色，只有倾听才能知晓。
+
+【发言顺序】
+{{speakingOrder}}`),
+    defaultItem('private', 'placeholder', '私密信息', '{{privateInfo}}'),
+    defaultItem('notebook', 'placeholder', '私人笔记', `${DIVIDER}
+{{notebook}}`),
+    defaultItem('role', 'placeholder', '角色指引', `${DIVIDER}
+{{roleInstructions}}`),
+    defaultItem('memory', 'placeholder', '记忆', '{{memory}}'),
+    defaultItem('history', 'placeholder', '最近的对话与事件', `${DIVIDER}
+【最近的对话与事件】
+{{visibleMessages}}
+{{voteHistory}}`),
+    defaultItem('task', 'placeholder', '阶段任务', '{{phaseTask}}'),
+  ].map((item, order) => ({ ...item, order })),
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+/**
+ * The selected config, or the built-in one when nothing (or a deleted config) is selected
+ */
+export function getActivePromptConfig(configs: PromptConfig[], currentId: string | null): PromptConfig {
+  return configs.find((config) => config.id === currentId) ?? DEFAULT_PROMPT_CONFIG;
+}
+
+/**
+ * Render the enabled items in order, filling {{name}} placeholders
+ * Unknown placeholders are left as written so a typo shows up in the prompt log;
+ * items that render empty (e.g. no dead players yet) are dropped
+ */
+export function renderPromptConfig(config: PromptConfig, variables: PromptVariables): string {
+  return [...config.items]
+    .filter((item) => item.enabled)
+    .sort((a, b) => a.order - b.order)
+    .map((item) =>
+      item.content
+        .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => variables[name] ?? match)
+        // 空的占位符会留下多余的空行
+        .replace(/\n{3,}/g, '\n\n')
+        .replace(/^\n+|\s+$/g, ''),
+    )
+    .filter((text) => text !== '')
+    .join('\n\n');
+}
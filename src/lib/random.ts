@@ -0,0 +1,53 @@
+/**
+ * Seeded random number generator (mulberry32)
+ * 可复现的随机数 - 相同的种子产生相同的发牌、事件与情感结果
+ */
+
+/**
+ * Random source returning a float in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Anything that carries the generator state (GameState does)
+ */
+export interface RandomState {
+  rngState: number;
+}
+
+/**
+ * Create a new random seed (32-bit unsigned integer)
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Advance the generator stored on the holder and return the next value in [0, 1)
+ */
+export function nextRandom(holder: RandomState): number {
+  holder.rngState = (holder.rngState + 0x6d2b79f5) | 0;
+  let t = holder.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+}
+
+/**
+ * Bind a random source to a holder so every call advances its state
+ */
+export function createRandom(holder: RandomState): RandomSource {
+  return () => nextRandom(holder);
+}
+
+/**
+ * Fisher-Yates shuffle using the given random source
+ */
+export function shuffle<T>(array: T[], random: RandomSource): T[] {
+  const result = [...array];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
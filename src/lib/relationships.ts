@@ -3,7 +3,7 @@
  * Defines how characters react to each other's deaths
  */
 
-import type { CharacterRelationship } from '@/types/game';
+import type { CharacterRelationship, TwinPair } from '@/types/game';
 
 /**
  * Relationship graph
@@ -317,6 +317,34 @@ export function getTriggeredStateChanges(
   return CHARACTER_RELATIONSHIPS.filter(rel => rel.target === deadCharacterName);
 }
 
+/**
+ * Twin bond triggered by a twin's death - whoever drew the twin cards, the survivor may be changed by the loss
+ * (skipped when the two characters already have a relationship of their own)
+ */
+export function getTwinBondTrigger(
+  twinPair: TwinPair | undefined,
+  deadCharacterName: string,
+): CharacterRelationship[] {
+  if (!twinPair) return [];
+  const { twin1, twin2 } = twinPair;
+  if (deadCharacterName !== twin1 && deadCharacterName !== twin2) return [];
+
+  const survivor = deadCharacterName === twin1 ? twin2 : twin1;
+  const hasOwnRelationship = CHARACTER_RELATIONSHIPS.some(
+    (rel) => rel.character === survivor && rel.target === deadCharacterName,
+  );
+  if (hasOwnRelationship) return [];
+
+  return [{
+    character: survivor,
+    target: deadCharacterName,
+    type: 'twin',
+    virtueChance: 0.45,  // 45%为同伴复仇而清醒
+    viceChance: 0.45,    // 45%失去唯一的信任而崩溃
+    // 10%保持正常
+  }];
+}
+
 /**
  * Get relationship type label in Chinese
  */
@@ -328,6 +356,7 @@ export function getRelationshipLabel(type: CharacterRelationship['type']): strin
     rival: '宿敌',
     debtor: '债务关系',
     acquaintance: '旧识',
+    twin: '共誓者',
   };
   return labels[type];
 }
@@ -0,0 +1,125 @@
+/**
+ * Replay helpers - rebuild what the board looked like at any point of a saved or finished game
+ * 对局回放 - 按消息逐条重建场上状态
+ */
+
+import type { DeathRecord, GamePhase, GameState, Vote } from '@/types/game';
+
+/**
+ * A stretch of the timeline that shares one round and phase
+ */
+export interface ReplaySegment {
+  round: number;
+  phase?: GamePhase;
+  start: number;  // First step of the segment
+  end: number;  // Last step of the segment
+}
+
+/**
+ * Replay timeline - every step is one message (prompts are left out, they live in the API logs)
+ */
+export interface ReplayTimeline {
+  steps: number[];  // Index into gameState.messages for each step
+  segments: ReplaySegment[];
+  deaths: DeathRecord[];  // Recorded deaths, plus best guesses for saves that predate them
+}
+
+/**
+ * The board after a given step
+ */
+export interface ReplayFrame {
+  step: number;
+  segmentIndex: number;
+  speaker?: string;  // Who said the message at this step (undefined for the narrator)
+  state: GameState;  // Game state as it looked at this step - feed it to the usual board components
+}
+
+/**
+ * Build the timeline for a game
+ */
+export function buildReplayTimeline(gameState: GameState): ReplayTimeline {
+  const steps: number[] = [];
+  gameState.messages.forEach((message, index) => {
+    if (message.type !== 'prompt') steps.push(index);
+  });
+
+  const segments: ReplaySegment[] = [];
+  steps.forEach((messageIndex, step) => {
+    const { round = 0, phase } = gameState.messages[messageIndex];
+    const last = segments[segments.length - 1];
+    if (last && last.round === round && last.phase === phase) {
+      last.end = step;
+    } else {
+      segments.push({ round, phase, start: step, end: step });
+    }
+  });
+
+  return { steps, segments, deaths: collectDeaths(gameState) };
+}
+
+/**
+ * Rebuild the board after the given step
+ */
+export function getReplayFrame(gameState: GameState, timeline: ReplayTimeline, step: number): ReplayFrame {
+  const lastStep = timeline.steps.length - 1;
+  const clampedStep = Math.max(0, Math.min(step, lastStep));
+  const isLastStep = clampedStep === lastStep;
+  const messageCount = lastStep < 0 ? 0 : timeline.steps[clampedStep] + 1;
+  const current = gameState.messages[messageCount - 1] as GameState['messages'][number] | undefined;
+  const round = current?.round ?? 0;
+
+  const deaths = timeline.deaths.filter((death) => death.messageCount <= messageCount);
+  const deadNames = new Set(deaths.map((death) => death.player));
+
+  // 旧存档的投票没有时间点，等到下一回合再显示
+  const isCast = (vote: Vote): boolean =>
+    vote.messageCount !== undefined
+      ? vote.messageCount <= messageCount
+      : isLastStep || (vote.round ?? 0) < round;
+  // 查验与验尸在夜里发生，天亮后才显示
+  const isRevealed = (record: { round: number }): boolean => isLastStep || record.round < round;
+
+  const state: GameState = {
+    ...gameState,
+    phase: current?.phase ?? gameState.phase,
+    round,
+    players: gameState.players.map((player) => ({ ...player, isAlive: !deadNames.has(player.name) })),
+    messages: gameState.messages.slice(0, messageCount).filter((m) => m.type !== 'prompt'),
+    votes: [],
+    nightVotes: [],
+    voteHistory: gameState.voteHistory.filter(isCast),
+    nightVoteHistory: gameState.nightVoteHistory.filter(isCast),
+    listenerChecks: gameState.listenerChecks.filter(isRevealed),
+    coronerReports: gameState.coronerReports.filter(isRevealed),
+    deaths,
+    winner: isLastStep ? gameState.winner : undefined,
+  };
+
+  return {
+    step: clampedStep,
+    segmentIndex: Math.max(0, timeline.segments.findIndex((s) => s.start <= clampedStep && clampedStep <= s.end)),
+    speaker: current && current.from !== '叙述者' ? current.from : undefined,
+    state,
+  };
+}
+
+/**
+ * Recorded deaths - saves from before death records get one guessed from the first death message naming the player
+ */
+function collectDeaths(gameState: GameState): DeathRecord[] {
+  const recorded = (gameState.deaths as DeathRecord[] | undefined) ?? [];
+  const guessed = gameState.players
+    .filter((player) => !player.isAlive && !recorded.some((death) => death.player === player.name))
+    .map((player): DeathRecord => {
+      const index = gameState.messages.findIndex((m) => m.type === 'death' && m.content.includes(player.name));
+      const message = index >= 0 ? gameState.messages[index] : undefined;
+      return {
+        player: player.name,
+        round: message?.round ?? gameState.round,
+        cause: message?.phase === 'voting' ? 'sacrifice' : 'night',
+        messageCount: index >= 0 ? index + 1 : gameState.messages.length,
+      };
+    });
+
+  return [...recorded, ...guessed].sort((a, b) => a.messageCount - b.messageCount);
+}
@@ -0,0 +1,137 @@
+/**
+ * Response providers for headless runs
+ * 无界面对局 - 脚本应答与本地模型服务
+ */
+
+import type { GameState, Player } from '@/types/game';
+import { buildPrompt, type ResponseProvider } from './gemini';
+import { getAlivePlayers, getPlayerActionType, getUnexaminedCorpses } from './game-engine';
+import { createRandom, type RandomSource } from './random';
+import type { TokenUsage } from './llm-providers';
+
+/**
+ * OpenAI compatible endpoint (OpenAI, vLLM, llama.cpp, Ollama ...)
+ */
+export interface OpenAIProviderConfig {
+  apiUrl: string;
+  apiKey?: string;
+  model?: string;
+  temperature?: number;
+}
+
+/**
+ * Call an OpenAI compatible chat completions endpoint directly (no Next.js proxy needed in Node)
+ */
+export function createOpenAIProvider(config: OpenAIProviderConfig): ResponseProvider {
+  // Same URL rule as the /api/gemini proxy
+  const completionsUrl = config.apiUrl.endsWith('/v1')
+    ? `${config.apiUrl}/chat/completions`
+    : `${config.apiUrl}/v1/chat/completions`;
+
+  return async (
+    player: Player,
+    gameState: GameState,
+    rejection?: string,
+    onUsage?: (usage: TokenUsage, model?: string) => void,
+  ): Promise<string> => {
+    const prompt = buildPrompt(player, gameState, rejection);
+    const requestCompletion = (jsonMode: boolean) =>
+      fetch(completionsUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${config.apiKey ?? ''}`,
+        },
+        body: JSON.stringify({
+          model: config.model ?? 'gpt-3.5-turbo',
+          messages: [{ role: 'user', content: prompt }],
+          temperature: config.temperature ?? 0.9,
+          ...(jsonMode && { response_format: { type: 'json_object' } }),
+        }),
+      });
+
+    // Votes and night targets ask for JSON mode - same fallback as the proxy when the server rejects it
+    const jsonMode = getPlayerActionType(gameState) !== 'SPEECH';
+    let response = await requestCompletion(jsonMode);
+    if (jsonMode && (response.status === 400 || response.status === 422)) {
+      response = await requestCompletion(false);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`HTTP ${response.status}: ${errorText.substring(0, 200)}`);
+    }
+
+    const data = (await response.json()) as {
+      choices?: Array<{ message?: { content?: string } }>;
+      model?: string;
+      usage?: TokenUsage;
+    };
+    const text = data.choices?.[0]?.message?.content ?? '';
+    if (!text) {
+      throw new Error('AI 响应为空');
+    }
+    if (data.usage) {
+      onUsage?.(data.usage, data.model ?? config.model);
+    }
+    return text;
+  };
+}
+
+/**
+ * Scripted responder - answers every request with a legal move, no model needed.
+ * Useful for smoke-testing the game flow and batch runs; the seed makes it reproducible.
+ */
+export function createScriptedProvider(seed = 1): ResponseProvider {
+  const random = createRandom({ rngState: seed });
+
+  return (player: Player, gameState: GameState): Promise<string> => {
+    return Promise.resolve(scriptedResponse(player, gameState, random));
+  };
+}
+
+/**
+ * Pick the scripted answer for the current phase
+ */
+function scriptedResponse(player: Player, gameState: GameState, random: RandomSource): string {
+  const others = getAlivePlayers(gameState).filter((p) => p.name !== player.name);
+  const pick = (): string | null => others[Math.floor(random() * others.length)]?.name ?? null;
+  // 投票与夜间目标按结构化格式作答
+  const decide = (thinking: string, target: string | null): string =>
+    JSON.stringify({ thinking, target, confidence: 0.5, reason: '直觉' });
+
+  if (gameState.pendingHunterShot) {
+    return decide('最后一枪。', pick());
+  }
+
+  if (gameState.pendingLastWords) {
+    return `【思考】最后说几句吧。\n【发言】我是${player.name}，我是清白的。请大家小心。`;
+  }
+
+  if (gameState.phase === 'voting') {
+    return decide('随便选一个吧。', pick());
+  }
+
+  if (gameState.phase === 'night') {
+    switch (gameState.nightPhase) {
+      case 'marked-vote': {
+        // 烙印者统一投座位最靠前的羔羊，避免平票
+        const target = others.find((p) => p.role !== 'marked');
+        return decide('按约定行动。', target?.name ?? null);
+      }
+      case 'witch':
+        return JSON.stringify({ thinking: '再等等。', action: 'pass', target: null });
+      case 'coroner': {
+        const [corpse] = getUnexaminedCorpses(gameState);
+        return decide('就品尝这个人。', corpse?.name ?? null);
+      }
+      case 'listener':
+      case 'guard':
+        return decide('就选这个人。', pick());
+      default:
+        break;
+    }
+  }
+
+  return `【思考】先观察一下。\n【发言】我是${player.name}，暂时没有什么要说的。`;
+}
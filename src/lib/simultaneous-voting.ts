@@ -0,0 +1,65 @@
+/**
+ * Simultaneous voting - every voter answers at once without seeing the others, then the votes are revealed together
+ * 同时投票 - 白天献祭投票与烙印者夜间投票并行请求，全部收齐后按座次一起揭晓
+ */
+
+import type { GameState, VotingMode, VotingSettings } from '@/types/game';
+
+/**
+ * Votes are sequential unless the setup asks otherwise - that is how every older game was played
+ */
+export const DEFAULT_VOTING_SETTINGS: VotingSettings = {
+  mode: 'sequential',
+  parallelism: 4,
+};
+
+/**
+ * Voting modes offered in the setup
+ */
+export const VOTING_MODE_OPTIONS: { mode: VotingMode; name: string; description: string }[] = [
+  { mode: 'sequential', name: '依次投票', description: '按座次一个接一个投票，后投的人能看到前面的票' },
+  { mode: 'simultaneous', name: '同时投票', description: '所有人同时投票、互相看不到，收齐后一起揭晓；请求并行发出，大局投票快得多' },
+];
+
+/**
+ * Parallel request caps offered in the setup
+ */
+export const VOTE_PARALLELISM_OPTIONS = [2, 4, 8, 16];
+
+/**
+ * Fill in unset voting settings with the defaults
+ */
+export function resolveVotingSettings(voting?: Partial<VotingSettings>): VotingSettings {
+  return { ...DEFAULT_VOTING_SETTINGS, ...voting };
+}
+
+/**
+ * Whether the current step is a vote to collect all at once
+ * A hunter's shot and last words interrupt the vote and are still asked one by one
+ */
+export function isSimultaneousVote(state: GameState): boolean {
+  if (state.voting?.mode !== 'simultaneous') return false;
+  if (state.pendingHunterShot || state.pendingLastWords) return false;
+  return state.phase === 'voting' || (state.phase === 'night' && state.nightPhase === 'marked-vote');
+}
+
+/**
+ * Identifies one vote - collected votes only count for the vote they were asked for
+ */
+export function getVoteStep(state: GameState): string {
+  return `${state.round}:${state.phase}:${state.nightPhase ?? ''}`;
+}
+
+/**
+ * Run a task for every item with at most `limit` running at once
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await task(item);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+}
@@ -0,0 +1,122 @@
+/**
+ * Token usage and cost roll-ups from the API logs
+ * 用量统计 - 按角色、阶段、回合与模型汇总 token 和费用
+ */
+
+import type { APILog, ModelPrice } from '@/types/game';
+
+/**
+ * Token totals for one group - cost is null until at least one request has a price
+ */
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null;
+  unpricedRequests: number;  // 报告了用量但模型没有设置价格的请求
+}
+
+/**
+ * One row of a breakdown, largest first
+ */
+export interface UsageRow extends UsageTotals {
+  key: string;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byPlayer: UsageRow[];
+  byPhase: UsageRow[];
+  byRound: UsageRow[];
+  byModel: UsageRow[];
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, cost: null, unpricedRequests: 0 };
+}
+
+/**
+ * Cost of one request, null when its model has no price
+ */
+export function getRequestCost(log: APILog, prices: Record<string, ModelPrice>): number | null {
+  const price = log.model ? prices[log.model] : undefined;
+  if (!price) return null;
+  return ((log.promptTokens ?? 0) * price.input + (log.completionTokens ?? 0) * price.output) / 1_000_000;
+}
+
+function addRequest(totals: UsageTotals, log: APILog, prices: Record<string, ModelPrice>): void {
+  totals.requests += 1;
+  totals.promptTokens += log.promptTokens ?? 0;
+  totals.completionTokens += log.completionTokens ?? 0;
+
+  const hasUsage = log.promptTokens !== undefined || log.completionTokens !== undefined;
+  const cost = getRequestCost(log, prices);
+  if (cost !== null) {
+    totals.cost = (totals.cost ?? 0) + cost;
+  } else if (hasUsage) {
+    totals.unpricedRequests += 1;
+  }
+}
+
+/**
+ * Roll the successful requests up by player, phase, round and model
+ * Logs from before usage was recorded count as requests with no tokens
+ */
+export function summarizeUsage(apiLogs: APILog[], prices: Record<string, ModelPrice> = {}): UsageSummary {
+  const total = emptyTotals();
+  const groups = {
+    byPlayer: new Map<string, UsageTotals>(),
+    byPhase: new Map<string, UsageTotals>(),
+    byRound: new Map<string, UsageTotals>(),
+    byModel: new Map<string, UsageTotals>(),
+  };
+
+  const addTo = (group: Map<string, UsageTotals>, key: string, log: APILog) => {
+    const totals = group.get(key) ?? emptyTotals();
+    addRequest(totals, log, prices);
+    group.set(key, totals);
+  };
+
+  apiLogs
+    .filter((log) => log.type === 'response')
+    .forEach((log) => {
+      addRequest(total, log, prices);
+      addTo(groups.byPlayer, log.playerName ?? '未知', log);
+      addTo(groups.byPhase, log.phase ?? '未知', log);
+      addTo(groups.byRound, log.round !== undefined ? String(log.round) : '未知', log);
+      addTo(groups.byModel, log.model ?? '未知', log);
+    });
+
+  const toRows = (group: Map<string, UsageTotals>) =>
+    [...group.entries()]
+      .map(([key, totals]) => ({ key, ...totals }))
+      .sort((a, b) => b.promptTokens + b.completionTokens - (a.promptTokens + a.completionTokens));
+
+  // 回合按时间顺序，没有记录回合的旧日志排最后
+  const roundOrder = (key: string) => (key === '未知' ? Infinity : Number(key));
+
+  return {
+    total,
+    byPlayer: toRows(groups.byPlayer),
+    byPhase: toRows(groups.byPhase),
+    byRound: toRows(groups.byRound).sort((a, b) => roundOrder(a.key) - roundOrder(b.key)),
+    byModel: toRows(groups.byModel),
+  };
+}
+
+/**
+ * Compact token count, e.g. 12.3k, 1.2M
+ */
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+/**
+ * Cost in dollars, "—" when nothing was priced
+ */
+export function formatCost(cost: number | null): string {
+  if (cost === null) return '—';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
@@ -2,28 +2,54 @@
  * Game state management using Zustand
  */
 
-import { create } from 'zustand';
+import { create, type StateCreator } from 'zustand';
+import { createStore, type StoreApi } from 'zustand/vanilla';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import type { GameState, GameConfig, Message, Player, SavedGame, Clue, APIType, PromptConfig, APILog } from '@/types/game';
+import type {
+  APILog,
+  APIType,
+  Clue,
+  GameAction,
+  GameConfig,
+  GamePreset,
+  GameState,
+  ModelPrice,
+  Player,
+  PlayerAction,
+  PromptConfig,
+  RuleSet,
+  SavedGame,
+  StreamingResponse,
+} from '@/types/game';
 import {
-  generateId,
   createGame,
-  checkWinCondition,
-  processNightPhase,
-  processVoting,
   addMessage,
-  getAlivePlayers,
-  getPlayerByName,
-  handleDeathTriggers,
-  initSecretMeetingPhase,
-  setSecretMeetingParticipants as engineSetSecretMeetingParticipants,
-  skipSecretMeeting as engineSkipSecretMeeting,
-  completeSecretMeeting,
-  generateGameEvent,
-  advancePhase,
+  gameReducer,
+  getActingPlayers,
+  getPlayerActionType,
+  shouldAdvance,
+  validatePlayerAction,
 } from '@/lib/game-engine';
-import { getAIResponse, buildPrompt } from '@/lib/gemini';
+import { getAIResponse, getSummaryResponse, buildPrompt, type ResponseProvider } from '@/lib/gemini';
 import { getInitialClues } from '@/lib/clues-data';
+import { DEFAULT_CONFIG } from '@/lib/game-presets';
+import { createSeed } from '@/lib/random';
+import { resolveRules } from '@/lib/house-rules';
+import { describeDecision, parseActionDecision } from '@/lib/action-decision';
+import { resolveModelSettings } from '@/lib/model-profiles';
+import type { TokenUsage } from '@/lib/llm-providers';
+import { getActivePromptConfig } from '@/lib/prompt-template';
+import { buildExtractiveSummary, buildSummaryPrompt, planMemoryUpdate, trimSummary, withPlayerMemory } from '@/lib/player-memory';
+import { extractNotebookSection, parseNotebookUpdate, stripNotebookSection } from '@/lib/notebook';
+import { getVoteStep, isSimultaneousVote, resolveVotingSettings, runWithConcurrency } from '@/lib/simultaneous-voting';
+
+/**
+ * Simultaneous votes already answered but not revealed yet
+ */
+interface CollectedVotes {
+  step: string;  // getVoteStep of the vote they belong to
+  actions: PlayerAction[];
+}
 
 /**
  * Game store state
@@ -31,18 +57,23 @@ import { getInitialClues } from '@/lib/clues-data';
 interface GameStore {
   gameState: GameState | null;
   isProcessing: boolean;
-  apiType: APIType;  // 'openai'
+  apiType: APIType;  // 'openai' | 'anthropic' | 'gemini' | 'ollama'
   apiKey: string;
   apiUrl: string;
   model: string;
   availableModels: string[];  // List of available models from API
+  modelPrices: Record<string, ModelPrice>;  // Optional price table for cost estimates, keyed by model name
   lastError: string | null;
   retryCount: number;  // Current retry attempt count
+  responseProvider: ResponseProvider | null;  // Replaces the API client (headless runs)
+  streamingResponse: StreamingResponse | null;  // AI speech still arriving from the API
+  collectedVotes: CollectedVotes | null;  // Simultaneous votes kept until everyone has answered
   clues: Clue[];  // Collected clues/documents
 
   // Prompt configuration
   promptConfigs: PromptConfig[];  // Saved prompt configurations
   currentPromptConfigId: string | null;  // Currently selected prompt config
+  promptAuthor: string;  // Name recorded on saved prompt versions
 
   // Phase transition animation
   showTransition: boolean;
@@ -55,16 +86,27 @@ interface GameStore {
   // Auto execution control
   isAutoExecuting: boolean;
 
+  // Human player control
+  humanPlayerName: string | null;  // Character claimed by the user for the next game
+  awaitingHumanInput: boolean;  // Paused on the human player's turn
+
+  // Role setup
+  gameConfig: GameConfig;  // Setup used for the next game
+  gamePresets: GamePreset[];  // User-saved setup presets
+
   // Actions
   setApiType: (type: APIType) => void;
   setApiKey: (key: string) => void;
   setApiUrl: (url: string) => void;
   setModel: (model: string) => void;
   setAvailableModels: (models: string[]) => void;
+  setModelPrice: (model: string, price: ModelPrice | null) => void;
   addPromptConfig: (config: PromptConfig) => void;
   updatePromptConfig: (config: PromptConfig) => void;
   deletePromptConfig: (configId: string) => void;
+  mergePromptConfigs: (configs: PromptConfig[]) => void;
   setCurrentPromptConfig: (configId: string | null) => void;
+  setPromptAuthor: (author: string) => void;
   startGame: (config: GameConfig) => void;
   resetGame: () => void;
   executeNextStep: () => Promise<void>;
@@ -74,6 +116,11 @@ interface GameStore {
   retryLastAIResponse: () => Promise<void>;
   clearError: () => void;
   updatePlayerPersonality: (playerId: string, personality: string) => void;
+  setHumanPlayerName: (name: string | null) => void;
+  setGameConfig: (config: GameConfig) => void;
+  saveGamePreset: (name: string, config: GameConfig, description?: string) => void;
+  deleteGamePreset: (presetId: string) => void;
+  submitHumanAction: (content: string) => void;
 
   // Clue actions
   addClue: (clue: Clue) => void;
@@ -99,21 +146,14 @@ interface GameStore {
   skipSecretMeeting: () => void;
   executeSecretMeeting: () => Promise<void>;
 
-  // Event actions
-  generateEvent: () => void;
-
   // Internal actions
-  advanceToNextPhase: () => void;
-  advanceNightPhase: () => void;
   executeCurrentPlayerAction: () => Promise<void>;
 }
 
 /**
- * Create game store with persistence
+ * Store state and actions, shared by the persisted browser store and headless stores
  */
-export const useGameStore = create<GameStore>()(
-  persist(
-    (set, get) => ({
+const gameStoreCreator: StateCreator<GameStore> = (set, get) => ({
   gameState: null,
   isProcessing: false,
   apiType: 'openai',
@@ -121,11 +161,16 @@ export const useGameStore = create<GameStore>()(
   apiUrl: '',
   model: 'gpt-3.5-turbo',
   availableModels: [],
+  modelPrices: {},
   lastError: null,
   retryCount: 0,
+  responseProvider: null,
+  streamingResponse: null,
+  collectedVotes: null,
   clues: [],
   promptConfigs: [],
   currentPromptConfigId: null,
+  promptAuthor: '',
 
   // Phase transition
   showTransition: false,
@@ -138,6 +183,14 @@ export const useGameStore = create<GameStore>()(
   // Auto execution control
   isAutoExecuting: false,
 
+  // Human player control
+  humanPlayerName: null,
+  awaitingHumanInput: false,
+
+  // Role setup
+  gameConfig: DEFAULT_CONFIG,
+  gamePresets: [],
+
   /**
    * Set API type (Gemini or OpenAI)
    */
@@ -173,6 +226,14 @@ export const useGameStore = create<GameStore>()(
     set({ availableModels: models });
   },
 
+  /**
+   * Set or clear the price of a model (USD per million tokens)
+   */
+  setModelPrice: (model: string, price: ModelPrice | null) => {
+    const { [model]: _previous, ...others } = get().modelPrices;
+    set({ modelPrices: price ? { ...others, [model]: price } : others });
+  },
+
   /**
    * Add a new prompt configuration
    */
@@ -198,6 +259,22 @@ export const useGameStore = create<GameStore>()(
     set({ promptConfigs: promptConfigs.filter((c) => c.id !== configId) });
   },
 
+  /**
+   * Take in configs saved on the server - unknown ones are added, newer copies replace local ones
+   */
+  mergePromptConfigs: (configs: PromptConfig[]) => {
+    const merged = [...get().promptConfigs];
+    configs.forEach((config) => {
+      const index = merged.findIndex((c) => c.id === config.id);
+      if (index < 0) {
+        merged.push(config);
+      } else if (config.updatedAt > merged[index].updatedAt) {
+        merged[index] = config;
+      }
+    });
+    set({ promptConfigs: merged });
+  },
+
   /**
    * Set the current active prompt configuration
    */
@@ -205,6 +282,13 @@ export const useGameStore = create<GameStore>()(
     set({ currentPromptConfigId: configId });
   },
 
+  /**
+   * Remember who is editing prompts, for the version history
+   */
+  setPromptAuthor: (author: string) => {
+    set({ promptAuthor: author });
+  },
+
   /**
    * Start new game
    */
@@ -214,9 +298,11 @@ export const useGameStore = create<GameStore>()(
     set({
       gameState,
       isProcessing: false,
+      awaitingHumanInput: false,
       clues: initialClues,
       lastError: null,
       retryCount: 0,
+      collectedVotes: null,
     });
   },
 
@@ -224,7 +310,7 @@ export const useGameStore = create<GameStore>()(
    * Reset game
    */
   resetGame: () => {
-    set({ gameState: null, isProcessing: false, lastError: null });
+    set({ gameState: null, isProcessing: false, awaitingHumanInput: false, lastError: null, collectedVotes: null });
   },
 
   /**
@@ -241,10 +327,86 @@ export const useGameStore = create<GameStore>()(
     const { gameState } = get();
     if (!gameState) return;
 
-    const player = gameState.players.find((p) => p.id === playerId);
-    if (player) {
-      player.personality = personality;
-      set({ gameState: { ...gameState } });
+    set({
+      gameState: {
+        ...gameState,
+        players: gameState.players.map((p) => (p.id === playerId ? { ...p, personality } : p)),
+      },
+    });
+  },
+
+  /**
+   * Claim a character for the user in the next game (null = spectate only)
+   */
+  setHumanPlayerName: (name: string | null) => {
+    set({ humanPlayerName: name });
+  },
+
+  /**
+   * Set the role setup used for the next game
+   */
+  setGameConfig: (config: GameConfig) => {
+    set({ gameConfig: config });
+  },
+
+  /**
+   * Save a role setup as a named preset
+   */
+  saveGamePreset: (name: string, config: GameConfig, description?: string) => {
+    const { gamePresets } = get();
+    const preset: GamePreset = {
+      id: `preset-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      name,
+      description,
+      config: JSON.parse(JSON.stringify(config)) as GameConfig,
+    };
+    set({ gamePresets: [...gamePresets, preset] });
+  },
+
+  /**
+   * Delete a user-saved preset
+   */
+  deleteGamePreset: (presetId: string) => {
+    const { gamePresets } = get();
+    set({ gamePresets: gamePresets.filter((p) => p.id !== presetId) });
+  },
+
+  /**
+   * Submit the human player's speech, vote or night target
+   * Goes through the same reducer actions as AI responses
+   */
+  submitHumanAction: (content: string) => {
+    const { gameState, awaitingHumanInput } = get();
+    if (!gameState || !awaitingHumanInput) return;
+
+    // 同时投票时人类不一定坐在当前座次
+    const simultaneous = isSimultaneousVote(gameState);
+    const currentPlayer = simultaneous
+      ? getUnansweredVoters(gameState, getCollectedVotes(get(), gameState)).find((p) => !p.isAI)
+      : getActingPlayers(gameState)[gameState.currentPlayerIndex];
+    const text = content.trim();
+    if (!currentPlayer || currentPlayer.isAI || !text) return;
+
+    const action: PlayerAction = {
+      type: getPlayerActionType(gameState),
+      player: currentPlayer.name,
+      content: text,
+    };
+    if (simultaneous) {
+      // 收下人类的票，下一步和 AI 的票一起揭晓
+      set({
+        collectedVotes: { step: getVoteStep(gameState), actions: [...getCollectedVotes(get(), gameState), action] },
+        awaitingHumanInput: false,
+      });
+      return;
+    }
+
+    dispatchGameAction(get, set, action);
+    set({ awaitingHumanInput: false });
+
+    // 密会中人类说完后，轮到另一位参与者
+    if (gameState.phase === 'secret_meeting') {
+      void get().executeSecretMeeting();
     }
   },
 
@@ -295,9 +457,7 @@ export const useGameStore = create<GameStore>()(
   clearPendingStateChanges: () => {
     const { gameState } = get();
     if (!gameState) return;
-    // Ensure pendingStateChanges exists and clear it
-    gameState.pendingStateChanges = [];
-    set({ gameState: { ...gameState } });
+    set({ gameState: { ...gameState, pendingStateChanges: [] } });
   },
 
   /**
@@ -319,9 +479,14 @@ export const useGameStore = create<GameStore>()(
    */
   setSecretMeetingParticipants: (participants: [string, string]) => {
     const { gameState } = get();
-    if (!gameState) return;
-    engineSetSecretMeetingParticipants(gameState, participants);
-    set({ gameState: { ...gameState } });
+    if (!gameState?.pendingSecretMeeting) return;
+    set({
+      gameState: {
+        ...gameState,
+        currentPlayerIndex: 0,
+        pendingSecretMeeting: { ...gameState.pendingSecretMeeting, selectedParticipants: participants },
+      },
+    });
   },
 
   /**
@@ -329,218 +494,68 @@ export const useGameStore = create<GameStore>()(
    */
   skipSecretMeeting: () => {
     const { gameState } = get();
-    if (!gameState || !gameState.pendingSecretMeeting) return;
-
-    // Save timing before skipping (which clears pendingSecretMeeting)
-    const meetingTiming = gameState.pendingSecretMeeting.timing;
-
-    engineSkipSecretMeeting(gameState);
-
-    // Determine next phase based on timing
-    if (meetingTiming === 'before_discussion') {
-      gameState.phase = 'day';
-      gameState.currentPlayerIndex = 0;
-      gameState.messages.push(
-        addMessage(gameState, '叙述者', '跳过密会。白天讨论开始。', 'system', 'all')
-      );
-      set({ gameState: { ...gameState }, isProcessing: false, showSecretMeetingSelector: false });
-      get().triggerTransition('day', gameState.round);
-    } else if (meetingTiming === 'after_sacrifice') {
-      gameState.phase = 'event';
-      set({ gameState: { ...gameState }, isProcessing: false, showSecretMeetingSelector: false });
-      get().triggerTransition('event', gameState.round);
-    }
+    if (!gameState?.pendingSecretMeeting) return;
+
+    // ADVANCE closes a meeting nobody spoke in as skipped
+    dispatchGameAction(get, set, { type: 'ADVANCE' });
+    set({ isProcessing: false, showSecretMeetingSelector: false });
   },
 
   /**
    * Execute secret meeting between two players
+   * Pauses on the human participant's turn - submitHumanAction picks the meeting up again
    */
   executeSecretMeeting: async () => {
-    const { gameState, apiKey, apiUrl, apiType, model } = get();
-    if (!gameState || !gameState.pendingSecretMeeting?.selectedParticipants) return;
-
-    const [player1Name, player2Name] = gameState.pendingSecretMeeting.selectedParticipants;
-    const player1 = getPlayerByName(gameState, player1Name);
-    const player2 = getPlayerByName(gameState, player2Name);
-
-    if (!player1 || !player2) return;
+    const { gameState, awaitingHumanInput } = get();
+    const participants = gameState?.pendingSecretMeeting?.selectedParticipants;
+    if (!gameState || !participants || awaitingHumanInput) return;
 
     set({ isProcessing: true });
 
-    const messageIds: string[] = [];
+    // A failed meeting rolls back to here so it can be retried from the same speaker
+    const snapshot = gameState;
 
     try {
-      // Add system message announcing the secret meeting
-      const meetingStartMsg = addMessage(
-        gameState,
-        '叙述者',
-        `${player1.name} 和 ${player2.name} 在暗处进行了一次私密的交谈...\n\n（此对话仅存在于两人的记忆中）`,
-        'system',
-        { secretMeeting: [player1.name, player2.name] },
-      );
-      gameState.messages.push(meetingStartMsg);
-      messageIds.push(meetingStartMsg.id);
-
-      // Build and record Player 1's prompt for transparency
-      const fullPrompt1 = buildPrompt(player1, gameState);
-      const promptMsg1 = addMessage(
-        gameState,
-        `${player1.name} (神谕)`,
-        fullPrompt1,
-        'prompt',
-        { secretMeeting: [player1.name, player2.name] },
-      );
-      gameState.messages.push(promptMsg1);
-      messageIds.push(promptMsg1.id);
-
-      // Player 1 speaks
-      const startTime1 = Date.now();
-      const response1 = await getAIResponse(player1, gameState, {
-        apiKey,
-        apiUrl,
-        apiType,
-        model,
-        onRetry: (info) => {
-          set({
-            lastError: `${player1.name} 请求失败，正在重试 (${info.attempt}/${info.maxRetries})...\n原因: ${info.reason}\n等待 ${(info.delay / 1000).toFixed(1)}秒 后重试`,
-          });
-        },
-      });
-      const duration1 = Date.now() - startTime1;
-
-      // Log Player 1's request and response
-      addAPILog(gameState, 'request', player1.name, fullPrompt1);
-      addAPILog(gameState, 'response', player1.name, undefined, response1, undefined, duration1);
-
-      const { thinking: thinking1, speech: speech1 } = parseAIResponse(response1);
-
-      if (thinking1) {
-        const thinkingMsg1 = addMessage(
-          gameState,
-          player1.name,
-          thinking1,
-          'thinking',
-          { player: player1.name },  // Thinking is private, only visible to the player themselves
-        );
-        gameState.messages.push(thinkingMsg1);
-        messageIds.push(thinkingMsg1.id);
-      }
-
-      const speechMsg1 = addMessage(
-        gameState,
-        player1.name,
-        speech1,
-        'secret',
-        { secretMeeting: [player1.name, player2.name] },
-      );
-      gameState.messages.push(speechMsg1);
-      messageIds.push(speechMsg1.id);
-
-      // Build and record Player 2's prompt for transparency
-      const fullPrompt2 = buildPrompt(player2, gameState);
-      const promptMsg2 = addMessage(
-        gameState,
-        `${player2.name} (神谕)`,
-        fullPrompt2,
-        'prompt',
-        { secretMeeting: [player1.name, player2.name] },
-      );
-      gameState.messages.push(promptMsg2);
-      messageIds.push(promptMsg2.id);
-
-      // Player 2 responds
-      const startTime2 = Date.now();
-      const response2 = await getAIResponse(player2, gameState, {
-        apiKey,
-        apiUrl,
-        apiType,
-        model,
-        onRetry: (info) => {
-          set({
-            lastError: `${player2.name} 请求失败，正在重试 (${info.attempt}/${info.maxRetries})...\n原因: ${info.reason}\n等待 ${(info.delay / 1000).toFixed(1)}秒 后重试`,
-          });
-        },
-      });
-      const duration2 = Date.now() - startTime2;
-
-      // Log Player 2's request and response
-      addAPILog(gameState, 'request', player2.name, fullPrompt2);
-      addAPILog(gameState, 'response', player2.name, undefined, response2, undefined, duration2);
-
-      const { thinking: thinking2, speech: speech2 } = parseAIResponse(response2);
-
-      if (thinking2) {
-        const thinkingMsg2 = addMessage(
-          gameState,
-          player2.name,
-          thinking2,
-          'thinking',
-          { player: player2.name },  // Thinking is private, only visible to the player themselves
-        );
-        gameState.messages.push(thinkingMsg2);
-        messageIds.push(thinkingMsg2.id);
-      }
-
-      const speechMsg2 = addMessage(
-        gameState,
-        player2.name,
-        speech2,
-        'secret',
-        { secretMeeting: [player1.name, player2.name] },
-      );
-      gameState.messages.push(speechMsg2);
-      messageIds.push(speechMsg2.id);
-
-      // Save timing before completing (which clears pendingSecretMeeting)
-      const meetingTiming = gameState.pendingSecretMeeting.timing;
-
-      // Complete the meeting
-      completeSecretMeeting(gameState, messageIds);
-
-      // Determine next phase based on timing
-      if (meetingTiming === 'before_discussion') {
-        gameState.phase = 'day';
-        gameState.currentPlayerIndex = 0;
-        gameState.messages.push(
-          addMessage(gameState, '叙述者', '密会结束。白天讨论开始。', 'system', 'all')
-        );
-
-        set({
-          gameState: { ...gameState },
-          isProcessing: false,
-          lastError: null,
-          showSecretMeetingSelector: false,
-        });
-
-        get().triggerTransition('day', gameState.round);
-      } else if (meetingTiming === 'after_sacrifice') {
-        gameState.phase = 'event';
-
+      // Announce the meeting to the two participants - only once, a resumed meeting has already started
+      if (gameState.currentPlayerIndex === 0) {
         set({
-          gameState: { ...gameState },
-          isProcessing: false,
-          lastError: null,
-          showSecretMeetingSelector: false,
+          gameState: {
+            ...gameState,
+            messages: [
+              ...gameState.messages,
+              addMessage(
+                gameState,
+                '叙述者',
+                `${participants[0]} 和 ${participants[1]} 在暗处进行了一次私密的交谈...\n\n（此对话仅存在于两人的记忆中）`,
+                'system',
+                { secretMeeting: participants },
+              ),
+            ],
+          },
         });
+      }
 
-        get().triggerTransition('event', gameState.round);
+      // Each participant speaks once, in the chosen order
+      for (;;) {
+        const current = get().gameState;
+        const player = current && getActingPlayers(current)[current.currentPlayerIndex];
+        if (!player) break;
+        if (!player.isAI) {
+          set({ isProcessing: false, awaitingHumanInput: true });
+          return;
+        }
+        await playAITurn(get, set, player);
       }
+
+      // Record the meeting and move on to the day
+      dispatchGameAction(get, set, { type: 'ADVANCE' });
+      set({ isProcessing: false, lastError: null, showSecretMeetingSelector: false });
     } catch (error) {
       console.error('Secret meeting error:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
-      // Log API error for secret meeting
-      addAPILog(gameState, 'error', 'Secret Meeting', '', undefined, errorMessage);
-
-      // Clean up failed messages
-      if (messageIds.length > 0) {
-        gameState.messages = gameState.messages.filter(
-          (m) => !messageIds.includes(m.id)
-        );
-      }
-
       set({
-        gameState: { ...gameState },
+        gameState: withAPILog(snapshot, 'error', 'Secret Meeting', '', undefined, errorMessage),
         isProcessing: false,
         lastError: `密会执行失败: ${errorMessage}`,
         // Keep selector open on error to allow retry
@@ -548,35 +563,6 @@ export const useGameStore = create<GameStore>()(
     }
   },
 
-  /**
-   * Generate and apply a random game event
-   */
-  generateEvent: () => {
-    const { gameState } = get();
-    if (!gameState) return;
-
-    // Generate event
-    const event = generateGameEvent(gameState);
-
-    if (event) {
-      // Event was generated successfully, message already added to game log
-      set({ gameState: { ...gameState } });
-    }
-
-    // Change phase before advancing (prevent infinite loop)
-    const nextPhase = advancePhase(gameState);
-    gameState.phase = nextPhase;
-
-    // Trigger phase transition
-    if (nextPhase === 'night') {
-      get().triggerTransition('night', gameState.round);
-    } else if (nextPhase === 'end') {
-      get().triggerTransition('end', gameState.round);
-    }
-
-    set({ isProcessing: false, gameState: { ...gameState } });
-  },
-
   /**
    * Save current game state
    */
@@ -614,10 +600,17 @@ export const useGameStore = create<GameStore>()(
       return false;
     }
 
+    const gameState = JSON.parse(JSON.stringify(savedGame.state)) as GameState; // Deep clone
+    ensureRandomState(gameState);
+    ensureDeathRecords(gameState);
+    ensureRules(gameState);
+
     set({
-      gameState: JSON.parse(JSON.stringify(savedGame.state)) as GameState, // Deep clone
+      gameState,
       isProcessing: false,
+      awaitingHumanInput: false,
       lastError: null,
+      collectedVotes: null,
     });
 
     return true;
@@ -643,23 +636,23 @@ export const useGameStore = create<GameStore>()(
    * Retry current step after error (called manually by user or automatically)
    */
   retryCurrentStep: async () => {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { gameState, retryCount } = get();
+    const { gameState } = get();
     if (!gameState) return;
 
     // Check if we're in secret meeting phase
     if (gameState.phase === 'secret_meeting' && gameState.pendingSecretMeeting?.selectedParticipants) {
-      // Retry secret meeting
-      set({ gameState: { ...gameState }, lastError: null, retryCount: 0 });
+      // Retry secret meeting (a failed meeting has already rolled back)
+      set({ lastError: null, retryCount: 0 });
       await get().executeSecretMeeting();
       return;
     }
 
     // Clean up failed attempt for normal phases
-    cleanupFailedAttempt(gameState);
+    const currentPlayer = getActingPlayers(gameState)[gameState.currentPlayerIndex];
+    const cleaned = currentPlayer ? withoutFailedPrompt(gameState, currentPlayer) : gameState;
 
     // Reset retry count when manually retrying
-    set({ gameState: { ...gameState }, lastError: null, retryCount: 0 });
+    set({ gameState: cleaned, lastError: null, retryCount: 0 });
     await get().executeCurrentPlayerAction();
   },
 
@@ -677,15 +670,18 @@ export const useGameStore = create<GameStore>()(
 
     // Get the previous player (the one we want to retry)
     const previousPlayerIndex = gameState.currentPlayerIndex - 1;
-    const alivePlayers = getAlivePlayers(gameState);
-    const previousPlayer = alivePlayers[previousPlayerIndex];
+    const actingPlayers = getActingPlayers(gameState);
+    const previousPlayer = actingPlayers[previousPlayerIndex];
     if (!previousPlayer) return;
 
     set({ isProcessing: true, lastError: null });
 
+    // Undo on a copy - the stored state is never mutated
+    const draft = structuredClone(gameState);
+
     // Remove last AI messages (thinking, speech/vote, prompt)
-    const initialMessageCount = gameState.messages.length;
-    const messagesToKeep = gameState.messages.filter(msg => {
+    const initialMessageCount = draft.messages.length;
+    const messagesToKeep = draft.messages.filter(msg => {
       // Keep all messages except the last AI player's messages
       return msg.from !== previousPlayer.name && msg.from !== `${previousPlayer.name} (神谕)`;
     });
@@ -696,46 +692,66 @@ export const useGameStore = create<GameStore>()(
       return;
     }
 
-    gameState.messages = messagesToKeep;
+    draft.messages = messagesToKeep;
+
+    // Clear hunter decision
+    if (draft.pendingHunterShot) {
+      draft.pendingHunterShot.target = undefined;
+    }
 
     // Remove last vote if in voting phase
-    if (gameState.phase === 'voting') {
-      const lastVoteIndex = gameState.votes.findIndex(v => v.from === previousPlayer.name);
+    if (draft.phase === 'voting') {
+      const lastVoteIndex = draft.votes.findIndex(v => v.from === previousPlayer.name);
       if (lastVoteIndex >= 0) {
-        gameState.votes.splice(lastVoteIndex, 1);
+        draft.votes.splice(lastVoteIndex, 1);
       }
     }
 
     // Remove last night action if in night phase
-    if (gameState.phase === 'night') {
+    if (draft.phase === 'night') {
       // Remove night vote
-      const lastNightVoteIndex = gameState.nightVotes.findIndex(v => v.from === previousPlayer.name);
+      const lastNightVoteIndex = draft.nightVotes.findIndex(v => v.from === previousPlayer.name);
       if (lastNightVoteIndex >= 0) {
-        gameState.nightVotes.splice(lastNightVoteIndex, 1);
+        draft.nightVotes.splice(lastNightVoteIndex, 1);
       }
 
       // Remove listener check
-      if (gameState.nightPhase === 'listener') {
-        const lastCheckIndex = gameState.listenerChecks.length - 1;
+      if (draft.nightPhase === 'listener') {
+        const lastCheckIndex = draft.listenerChecks.length - 1;
         if (lastCheckIndex >= 0) {
-          gameState.listenerChecks.splice(lastCheckIndex, 1);
+          draft.listenerChecks.splice(lastCheckIndex, 1);
         }
       }
 
+      // Remove potion usage
+      if (draft.nightPhase === 'witch') {
+        draft.nightActions = draft.nightActions.filter(
+          (a) => !(a.playerId === previousPlayer.id && a.round === draft.round),
+        );
+      }
+
       // Remove guard record
-      if (gameState.nightPhase === 'guard') {
-        const lastGuardIndex = gameState.guardRecords.length - 1;
+      if (draft.nightPhase === 'guard') {
+        const lastGuardIndex = draft.guardRecords.length - 1;
         if (lastGuardIndex >= 0) {
-          gameState.guardRecords.splice(lastGuardIndex, 1);
+          draft.guardRecords.splice(lastGuardIndex, 1);
+        }
+      }
+
+      // Remove coroner report
+      if (draft.nightPhase === 'coroner') {
+        const lastReportIndex = draft.coronerReports.length - 1;
+        if (lastReportIndex >= 0 && draft.coronerReports[lastReportIndex].round === draft.round) {
+          draft.coronerReports.splice(lastReportIndex, 1);
         }
       }
     }
 
     // Go back to previous player
-    gameState.currentPlayerIndex = previousPlayerIndex;
+    draft.currentPlayerIndex = previousPlayerIndex;
 
     // Update state
-    set({ gameState: { ...gameState }, retryCount: 0 });
+    set({ gameState: draft, retryCount: 0, collectedVotes: null });
 
     // Re-execute the action
     await get().executeCurrentPlayerAction();
@@ -745,43 +761,14 @@ export const useGameStore = create<GameStore>()(
    * Execute next step in the game
    */
   executeNextStep: async () => {
-    const { gameState, isProcessing } = get();
+    const { gameState, isProcessing, awaitingHumanInput } = get();
 
-    if (!gameState || isProcessing || gameState.phase === 'end') return;
+    if (!gameState || isProcessing || awaitingHumanInput || gameState.phase === 'end') return;
 
     set({ isProcessing: true });
 
     try {
-      // Handle prologue phase - display all story messages and transition to day
-      if (gameState.phase === 'prologue') {
-        get().advanceToNextPhase();
-        set({ gameState: { ...gameState }, isProcessing: false });
-        return;
-      }
-
-      // Check win condition
-      const winner = checkWinCondition(gameState);
-      if (winner) {
-        gameState.winner = winner;
-        gameState.phase = 'end';
-
-        // Add atmospheric ending message based on winner
-        const endingMessage = winner === 'marked'
-          ? `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n山灵的收割已然完成。\n\n黎明不再降临白烬山口，永夜吞噬了最后的希望。\n血肉献祭，灵魂皈依，收割者的呼唤得到了回应。\n\n这座村庄的故事，就此终结。\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`
-          : `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n黎明的光芒刺破了永夜。\n\n最后的收割者倒在了祭坛之前，山灵的诅咒终于被打破。\n幸存的羔羊们围聚在一起，泪水与血迹交织。\n\n白烬山口迎来了久违的宁静。\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`;
-
-        gameState.messages.push(
-          addMessage(
-            gameState,
-            '叙述者',
-            endingMessage,
-            'system',
-          ),
-        );
-        set({ gameState: { ...gameState }, isProcessing: false });
-        return;
-      }
-
+      // Prologue, a decided game and finished phases all ADVANCE here
       await get().executeCurrentPlayerAction();
     } catch (error) {
       console.error('Execute step error:', error);
@@ -811,7 +798,8 @@ export const useGameStore = create<GameStore>()(
         return (
           currentPhase === startingPhase &&
           currentRound === startingRound &&
-          state.isAutoExecuting
+          state.isAutoExecuting &&
+          !state.awaitingHumanInput
         );
       };
 
@@ -840,450 +828,38 @@ export const useGameStore = create<GameStore>()(
   },
 
   /**
-   * Advance to next night sub-phase
+   * Execute current player's action - or ADVANCE once everyone in the phase has acted
    */
-  // eslint-disable-next-line complexity
-  advanceNightPhase: () => {
-    const { gameState } = get();
-    if (!gameState || gameState.phase !== 'night') return;
-
-    if (gameState.nightPhase === 'listener') {
-      // Listener phase ended, go to marked discuss
-      gameState.nightPhase = 'marked-discuss';
-      gameState.currentPlayerIndex = 0;
-      gameState.messages.push(
-        addMessage(gameState, '叙述者', '饥饿的呼唤开始了...', 'system', 'marked'),
-      );
-    } else if (gameState.nightPhase === 'marked-discuss') {
-      // Marked discuss ended, go to marked vote
-      gameState.nightPhase = 'marked-vote';
-      gameState.currentPlayerIndex = 0;
-      gameState.messages.push(
-        addMessage(gameState, '叙述者', '烙印者请投票选择今晚的猎物', 'system', 'marked'),
-      );
-    } else if (gameState.nightPhase === 'marked-vote') {
-      // Check werewolf votes for ties
-      const { isTied, tiedPlayers } = processNightPhase(gameState);
-
-      if (isTied) {
-        // Save night votes to history before clearing for revote
-        if (gameState.nightVotes.length > 0) {
-          const nightVotesWithRound = gameState.nightVotes.map((vote) => ({
-            ...vote,
-            round: gameState.round
-          }));
-          gameState.nightVoteHistory.push(...nightVotesWithRound);
-        }
-
-        // Tie - go back to discussion
-        gameState.revoteRound += 1;
-        gameState.nightPhase = 'marked-discuss';
-        gameState.currentPlayerIndex = 0;
-        gameState.nightVotes = [];  // Clear votes for new round
-        gameState.messages.push(
-          addMessage(
-            gameState,
-            '叙述者',
-            `第 ${gameState.revoteRound} 次平票（${tiedPlayers.join('、')}）！烙印者必须重新讨论并达成一致。`,
-            'system',
-            'marked',
-          ),
-        );
-      } else {
-        // Save successful night votes to history
-        if (gameState.nightVotes.length > 0) {
-          const nightVotesWithRound = gameState.nightVotes.map((vote) => ({
-            ...vote,
-            round: gameState.round
-          }));
-          gameState.nightVoteHistory.push(...nightVotesWithRound);
-        }
-
-        // Don't clear nightVotes here - they're needed for processNightPhase later
-        // They will be cleared when entering the next night phase
-
-        // No tie - proceed to guard phase
-        gameState.revoteRound = 0;
-        const guard = gameState.players.find((p) => p.role === 'guard' && p.isAlive);
-        if (guard) {
-          gameState.nightPhase = 'guard';
-          gameState.currentPlayerIndex = 0;
-          gameState.messages.push(
-            addMessage(gameState, '叙述者', '设闩者，选择今晚要守护的人...', 'system', 'guard'),
-          );
-        } else {
-          // No guard, proceed to coroner phase
-          gameState.nightPhase = 'coroner';
-          gameState.currentPlayerIndex = 0;
-          get().advanceNightPhase(); // Auto-advance coroner phase
-          return;
-        }
-      }
-    } else if (gameState.nightPhase === 'guard') {
-      // Guard phase ended, go to coroner phase (passive ability)
-      gameState.nightPhase = 'coroner';
-      gameState.currentPlayerIndex = 0;
-
-      // Coroner is passive - auto-process and move to day
-      const coroner = gameState.players.find((p) => p.role === 'coroner' && p.isAlive);
-      if (coroner && gameState.lastSacrificedPlayer) {
-        // Add coroner report
-        const sacrificedPlayer = gameState.players.find((p) => p.name === gameState.lastSacrificedPlayer);
-        if (sacrificedPlayer) {
-          const isClean = sacrificedPlayer.role !== 'marked' && sacrificedPlayer.role !== 'heretic';
-          gameState.coronerReports.push({
-            round: gameState.round,
-            target: sacrificedPlayer.name,
-            isClean,
-          });
-          gameState.messages.push(
-            addMessage(
-              gameState,
-              '叙述者',
-              `食灰者在梦中品尝了 ${sacrificedPlayer.name} 的灵魂...`,
-              'system',
-              'coroner',
-            ),
-          );
-        }
-      }
-
-      // Proceed to day phase
-      get().advanceToNextPhase();
-      return;
-    }
-
-    set({ gameState: { ...gameState } });
-  },
-
-  /**
-   * Advance to next phase
-   */
-  // eslint-disable-next-line complexity
-  advanceToNextPhase: () => {
+  executeCurrentPlayerAction: async () => {
     const { gameState } = get();
     if (!gameState) return;
 
-    if (gameState.phase === 'prologue') {
-      // Prologue: Display all story messages at once and transition to day
-      // Count roles for the final message
-      const roleCounts = gameState.players.reduce(
-        (acc, player) => {
-          acc[player.role] = (acc[player.role] || 0) + 1;
-          return acc;
-        },
-        {} as Record<string, number>,
-      );
-
-      // Add all story messages at once
-      const storyMessages = [
-        {
-          from: '叙述者',
-          content: `一份神秘的委托书，将十五个陌生人聚集在一起。
-
-有人为了钱，有人为了逃避，有人为了寻找，有人为了赎罪。他们从伦敦、爱丁堡、曼彻斯特等地出发，在1913年深冬的暴雪前夕，抵达了白烬山口。
-
-委托人承诺：完成任务，每人可得五百英镑——足以改变命运的金额。`,
-        },
-        {
-          from: '叙述者',
-          content: `第一天，他们在山口的寂静山庄集合。
-
-第二天，委托人没有出现。取而代之的是，暴风雪如约而至——一场诡异的、不合时节的暴雪，封死了下山的所有道路。
-
-第三天，他们在山庄的地窖里发现了一封遗书。`,
-        },
-        {
-          from: '叙述者',
-          content: `遗书是旧主人留下的，字迹潦草，像是在极度恐惧中写成：
-
-"山灵警告：你们之中混入了三个非人者。它们会在夜晚猎杀真正的人类。你们必须在白昼找出这三个非人者并献祭，否则所有人都会死。"
-
-"在收割与羔羊的对抗结束之前，暴风雪永远不会停止。"`,
-        },
-        {
-          from: '叙述者',
-          content: `一开始，没有人相信。
-
-有人说这是恶作剧，有人说委托人在戏弄他们。但暴风雪始终没有停止。
-
-第四天、第五天、第六天……食物越来越少，寒冷越来越深。有人开始发烧，有人开始绝望。
-
-这样下去，所有人都会饿死，或冻死。`,
-        },
-        {
-          from: '叙述者',
-          content: `今天，是第七天。
-
-在绝望与恐惧的驱使下，他们决定：按照遗书的指示，举行献祭仪式。
-
-无论这是真是假，他们已经没有别的选择。
-
-黎明到来。游戏，正式开始。`,
-        },
-        {
-          from: '叙述者',
-          content: `【身份已被烙印】
-
-收割阵营：${roleCounts['marked'] || 0}名烙印者
-羔羊阵营：${roleCounts['listener'] || 0}名聆心者、${roleCounts['coroner'] || 0}名食灰者、${roleCounts['twin'] || 0}名共誓者、${roleCounts['guard'] || 0}名设闩者、${roleCounts['innocent'] || 0}名无知者
-
-【角色说明】
-
-▸ 烙印者（收割阵营）
-  - 每晚集体投票杀死一名玩家
-  - 白天必须伪装成羔羊
-  - 目标：消灭所有羔羊
-
-▸ 聆心者（羔羊阵营）
-  - 每晚可查验一名玩家是"清白"还是"污秽"
-  - 掌握关键信息，但容易成为目标
-
-▸ 食灰者（羔羊阵营）
-  - 每次白天献祭后，当晚会得知被献祭者是"清白"还是"污秽"
-
-▸ 共誓者（羔羊阵营）
-  - 两名共誓者互相知晓身份
-  - 是彼此唯一的绝对信任
-
-▸ 设闩者（羔羊阵营）
-  - 每晚可守护一名玩家（不能是自己）
-  - 被守护者当晚不会被杀
-  - 不能连续两晚守护同一人
-
-▸ 无知者（羔羊阵营）
-  - 没有特殊能力
-  - 依靠观察和推理找出收割者
-
-天亮了。第一个白天，开始讨论...`,
-        },
-      ];
-
-      // Add all messages
-      storyMessages.forEach((msg) => {
-        gameState.messages.push(
-          addMessage(gameState, msg.from, msg.content, 'system', 'all')
-        );
-      });
-
-      // Transition to secret meeting phase with animation (before first day discussion)
-      gameState.phase = 'secret_meeting';
-      gameState.round = 1;
-      gameState.currentPlayerIndex = 0;
-
-      // Initialize secret meeting phase
-      initSecretMeetingPhase(gameState, 'before_discussion');
-
-      // Trigger transition animation
-      get().triggerTransition('secret_meeting', 1);
-    } else if (gameState.phase === 'secret_meeting') {
-      // Secret meeting phase transition is handled in executeSecretMeeting
-      // This shouldn't be called during secret_meeting phase normally
-      return;
-    } else if (gameState.phase === 'day') {
-      // Day phase ended, go to voting
-      gameState.phase = 'voting';
-      gameState.currentPlayerIndex = 0;
-      gameState.votes = [];
-      gameState.messages.push(
-        addMessage(gameState, '叙述者', '讨论结束。现在开始投票！', 'system', 'all'),
-      );
-
-      // Trigger transition animation
-      get().triggerTransition('voting', gameState.round);
-    } else if (gameState.phase === 'voting') {
-      // Voting phase ended, process votes and check for ties
-      const { eliminated, message, isTied, tiedPlayers } = processVoting(gameState);
-      gameState.messages.push(message);
-
-      // Save votes to history before processing
-      if (gameState.votes.length > 0) {
-        const votesWithRound = gameState.votes.map((vote) => ({
-          ...vote,
-          round: gameState.round
-        }));
-        gameState.voteHistory.push(...votesWithRound);
-      }
-
-      const phaseBefore = gameState.phase;
-      handleDayVotingResult(gameState, eliminated, isTied, tiedPlayers);
-
-      // After voting, go to secret meeting (after sacrifice)
-      if (phaseBefore === 'voting' && gameState.phase === 'voting') {
-        gameState.phase = 'secret_meeting';
-        initSecretMeetingPhase(gameState, 'after_sacrifice');
-        get().triggerTransition('secret_meeting', gameState.round);
-      }
-    } else if (gameState.phase === 'event') {
-      // Event phase - auto-generate and complete
-      get().generateEvent();
-      // generateEvent will call advanceToNextPhase, so return here
+    if (shouldAdvance(gameState)) {
+      dispatchGameAction(get, set, { type: 'ADVANCE' });
+      set({ isProcessing: false });
       return;
-    } else if (gameState.phase === 'night') {
-      // Night phase ended, process night actions and go to day
-      const { killedPlayer, message, isTied } = processNightPhase(gameState);
-
-      // Only process kill if not tied (tie is handled in advanceNightPhase)
-      if (!isTied) {
-        const phaseBefore = gameState.phase;
-        handleNightKillResult(gameState, killedPlayer, message);
-
-        // Trigger transition to secret meeting (before next day discussion)
-        if (phaseBefore === 'night' && (gameState.phase as string) === 'day') {
-          // Instead of going directly to day, go to secret meeting first
-          gameState.phase = 'secret_meeting';
-          initSecretMeetingPhase(gameState, 'before_discussion');
-          get().triggerTransition('secret_meeting', gameState.round);
-        }
-      }
     }
 
-    set({ gameState: { ...gameState } });
-  },
+    const currentPlayer = getActingPlayers(gameState)[gameState.currentPlayerIndex];
+    // 同时投票时一次问完所有还没投票的人，人类的票也先收着
+    const simultaneous = isSimultaneousVote(gameState);
 
-  /**
-   * Execute current player's action
-   */
-  // eslint-disable-next-line complexity
-  executeCurrentPlayerAction: async () => {
-    const { gameState, apiKey, apiUrl, apiType, model } = get();
-    if (!gameState) return;
-
-    // Get active players based on current phase
-    let alivePlayers = getAlivePlayers(gameState);
-
-    // Filter players based on night sub-phase
-    if (gameState.phase === 'night' && gameState.nightPhase) {
-      if (gameState.nightPhase === 'listener') {
-        // Only listener acts
-        alivePlayers = alivePlayers.filter((p) => p.role === 'listener');
-      } else if (gameState.nightPhase === 'marked-discuss' || gameState.nightPhase === 'marked-vote') {
-        // Only marked act
-        alivePlayers = alivePlayers.filter((p) => p.role === 'marked');
-      } else if (gameState.nightPhase === 'guard') {
-        // Only guard acts
-        alivePlayers = alivePlayers.filter((p) => p.role === 'guard');
-      }
-    }
-
-    // Filter out tied players during revote discussion
-    if (gameState.phase === 'day' && gameState.isRevote && gameState.tiedPlayers.length > 0) {
-      alivePlayers = alivePlayers.filter((p) => !gameState.tiedPlayers.includes(p.name));
-    }
-
-    // If all players in current phase have acted, advance to next phase
-    if (gameState.currentPlayerIndex >= alivePlayers.length) {
-      if (gameState.phase === 'night') {
-        get().advanceNightPhase();
-      } else {
-        get().advanceToNextPhase();
-      }
-      set({ isProcessing: false });
+    // Human turn - pause until submitHumanAction is called
+    if (!simultaneous && !currentPlayer.isAI) {
+      set({ isProcessing: false, awaitingHumanInput: true });
       return;
     }
 
-    const currentPlayer = alivePlayers[gameState.currentPlayerIndex];
-
-    // Build full prompt outside try block so it's accessible in catch
-    const fullPrompt = buildPrompt(currentPlayer, gameState);
+    const requester = simultaneous ? '投票' : currentPlayer.name;
 
     try {
-      // Determine message visibility based on phase and role
-      let visibility: Message['visibility'] = 'all';
-      if (gameState.phase === 'night') {
-        if (gameState.nightPhase === 'listener' && currentPlayer.role === 'listener') {
-          visibility = 'listener';  // Only listener can see their check
-        } else if (gameState.nightPhase === 'guard' && currentPlayer.role === 'guard') {
-          visibility = 'guard';  // Only guard can see their guard action
-        } else if (currentPlayer.role === 'marked') {
-          visibility = 'marked'; // Only marked can see night discussion
-        }
-      }
-
-      set({ gameState: { ...gameState } });
-      gameState.messages.push(
-        addMessage(
-          gameState,
-          `${currentPlayer.name} (神谕)`,
-          fullPrompt,
-          'prompt',
-          { player: currentPlayer.name },
-        ),
-      );
-
-      // Get AI response
-      const startTime = Date.now();
-      const response = await getAIResponse(currentPlayer, gameState, {
-        apiKey,
-        apiUrl,
-        apiType,
-        model,
-        onRetry: (info) => {
-          set({
-            lastError: `${currentPlayer.name} 请求失败，正在重试 (${info.attempt}/${info.maxRetries})...\n原因: ${info.reason}\n等待 ${(info.delay / 1000).toFixed(1)}秒 后重试`,
-          });
-        },
-      });
-      const duration = Date.now() - startTime;
-
-      // Log successful request and response
-      addAPILog(gameState, 'request', currentPlayer.name, fullPrompt);
-      addAPILog(gameState, 'response', currentPlayer.name, undefined, response, undefined, duration);
-
-      // Parse thinking and speech
-      const { thinking, speech } = parseAIResponse(response);
-
-      // Add thinking message (only visible to the player itself and user)
-      if (thinking) {
-        gameState.messages.push(
-          addMessage(
-            gameState,
-            currentPlayer.name,
-            thinking,
-            'thinking',
-            { player: currentPlayer.name },
-          ),
-        );
-      }
-
-      // Add speech/vote message
-      if (gameState.phase === 'voting') {
-        // Add vote message with type 'vote' for voting phase
-        gameState.messages.push(
-          addMessage(gameState, currentPlayer.name, speech, 'vote', visibility),
-        );
-        // Record vote using helper function (voting is stored in voteHistory, not messages)
-        recordVote(gameState, currentPlayer, speech);
-      } else if (gameState.phase === 'night' &&
-                 (gameState.nightPhase === 'listener' ||
-                  gameState.nightPhase === 'marked-vote' ||
-                  gameState.nightPhase === 'guard')) {
-        // Night phase actions (listener check, marked vote, guard protect)
-        // Add speech message
-        gameState.messages.push(
-          addMessage(gameState, currentPlayer.name, speech, 'speech', visibility),
-        );
-        // Record night action
-        recordVote(gameState, currentPlayer, speech);
-      } else {
-        // Add speech message for other phases
-        gameState.messages.push(
-          addMessage(gameState, currentPlayer.name, speech, 'speech', visibility),
-        );
-      }
-
-      // Move to next player only on success
-      gameState.currentPlayerIndex += 1;
-
-      set({ gameState: { ...gameState }, isProcessing: false, lastError: null, retryCount: 0 });
+      await (simultaneous ? playSimultaneousVotes(get, set) : playAITurn(get, set, currentPlayer));
+      set({ isProcessing: false, lastError: null, retryCount: 0 });
     } catch (error) {
-      console.error(`Error executing action for ${currentPlayer.name}:`, error);
+      console.error(`Error executing action for ${requester}:`, error);
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
 
-      // Log API error
-      addAPILog(gameState, 'error', currentPlayer.name, fullPrompt, undefined, errorMessage);
-
       const { retryCount } = get();
       const maxRetries = 10;
 
@@ -1295,13 +871,12 @@ export const useGameStore = create<GameStore>()(
 
         console.log(`Auto-retrying (${nextRetryCount}/${maxRetries}) after ${delayMs}ms...`);
 
-        // Clean up failed attempt
-        cleanupFailedAttempt(gameState);
-
+        // Clean up failed attempt - a failed simultaneous vote has already removed its own prompts
+        const latest = get().gameState;
         set({
-          gameState: { ...gameState },
+          gameState: latest && (simultaneous ? latest : withoutFailedPrompt(latest, currentPlayer)),
           isProcessing: true,
-          lastError: `${currentPlayer.name} 请求失败，${(delayMs / 1000).toFixed(0)}秒后自动重试 (${nextRetryCount}/${maxRetries})...`,
+          lastError: `${requester} 请求失败，${(delayMs / 1000).toFixed(0)}秒后自动重试 (${nextRetryCount}/${maxRetries})...`,
           retryCount: nextRetryCount,
         });
 
@@ -1313,13 +888,20 @@ export const useGameStore = create<GameStore>()(
         // Max retries reached, show error to user
         set({
           isProcessing: false,
-          lastError: `${currentPlayer.name} 的 AI 请求失败 (已重试${maxRetries}次): ${errorMessage}`,
+          lastError: `${requester} 的 AI 请求失败 (已重试${maxRetries}次): ${errorMessage}`,
           retryCount: 0,
         });
       }
     }
   },
-}),
+});
+
+/**
+ * Create game store with persistence
+ */
+export const useGameStore = create<GameStore>()(
+  persist(
+    gameStoreCreator,
     {
       name: 'werewolf-game-storage',
       storage: createJSONStorage(() => localStorage),
@@ -1330,466 +912,404 @@ export const useGameStore = create<GameStore>()(
         apiUrl: state.apiUrl,
         model: state.model,
         availableModels: state.availableModels,
+        modelPrices: state.modelPrices,
         clues: state.clues,
+        humanPlayerName: state.humanPlayerName,
+        gameConfig: state.gameConfig,
+        gamePresets: state.gamePresets,
         promptConfigs: state.promptConfigs,
         currentPromptConfigId: state.currentPromptConfigId,
+        promptAuthor: state.promptAuthor,
       }),
       onRehydrateStorage: () => (state) => {
         // Ensure pendingStateChanges exists in rehydrated state
         if (state?.gameState && !state.gameState.pendingStateChanges) {
           state.gameState.pendingStateChanges = [];
         }
+        // Games saved before seeding or death records need the newer fields
+        if (state?.gameState) {
+          ensureRandomState(state.gameState);
+          ensureDeathRecords(state.gameState);
+          ensureRules(state.gameState);
+          ensureWinnerResult(state.gameState);
+        }
       },
     },
   ),
 );
 
 /**
- * Parse AI response into thinking and speech parts
+ * Create a standalone in-memory store (no localStorage) for running games outside the browser
  */
-function parseAIResponse(response: string): {
-  thinking: string;
-  speech: string;
-} {
-  const thinkingMatch = response.match(/【思考】\s*([\s\S]*?)(?=【发言】|$)/);
-  const speechMatch = response.match(/【发言】\s*([\s\S]*?)$/);
-
-  const thinking = thinkingMatch?.[1]?.trim() || '';
-  const speech = speechMatch?.[1]?.trim() || response.trim();
-
-  return { thinking, speech };
+export function createHeadlessGameStore(responseProvider: ResponseProvider): StoreApi<GameStore> {
+  const store = createStore<GameStore>()(gameStoreCreator);
+  store.setState({ responseProvider });
+  return store;
 }
 
 /**
- * Extract player name from AI response text
- * Tries to intelligently match player names even if AI added extra text
+ * Ask a player for a response through the injected provider, or the configured API otherwise
  */
-// eslint-disable-next-line max-depth
-function extractPlayerName(text: string, allPlayers: Player[]): string | null {
-  const cleanedText = text.trim();
-
-  // Try exact match first
-  const exactMatch = allPlayers.find(p => cleanedText === p.name);
-  if (exactMatch) return exactMatch.name;
+function requestAIResponse(
+  get: () => GameStore,
+  set: (partial: Partial<GameStore>) => void,
+  player: Player,
+  gameState: GameState,
+  rejection: string | undefined,
+  onUsage: (usage: TokenUsage, model?: string) => void,
+): Promise<string> {
+  const { responseProvider, apiKey, apiUrl, apiType, model, promptConfigs, currentPromptConfigId } = get();
+  if (responseProvider) {
+    return responseProvider(player, gameState, rejection, onUsage);
+  }
 
-  // Try to find any player name mentioned in the text
-  // Sort by name length (descending) to prioritize longer names
-  const sortedPlayers = [...allPlayers].sort((a, b) => b.name.length - a.name.length);
+  // 角色单独指定的模型优先于全局设置
+  const settings = resolveModelSettings({ apiKey, apiUrl, apiType, model }, player.modelProfile);
+  return getAIResponse(player, gameState, {
+    ...settings,
+    promptConfig: getActivePromptConfig(promptConfigs, currentPromptConfigId),
+    onUsage: (usage) => onUsage(usage, settings.model),
+    onRetry: (info) => {
+      // 断掉的流已经显示了一半，重试前清空
+      set({
+        streamingResponse: null,
+        lastError: `${player.name} 请求失败，正在重试 (${info.attempt}/${info.maxRetries})...\n原因: ${info.reason}\n等待 ${(info.delay / 1000).toFixed(1)}秒 后重试`,
+      });
+    },
+    onStream: (text) => {
+      set({ streamingResponse: { player: player.name, ...parseStreamingResponse(text) } });
+    },
+  }, rejection);
+}
 
-  for (const player of sortedPlayers) {
-    if (cleanedText.includes(player.name)) {
-      return player.name;
-    }
+/**
+ * Fold the player's older rounds into their memory once their history outgrows the budget
+ * The model summarizer needs the configured API - with an injected provider, or when the request fails, the extractive summary is kept
+ */
+async function updatePlayerMemory(
+  get: () => GameStore,
+  set: (partial: Partial<GameStore>) => void,
+  player: Player,
+): Promise<void> {
+  const { gameState, responseProvider, apiKey, apiUrl, apiType, model } = get();
+  if (!gameState) return;
+
+  const update = planMemoryUpdate(player, gameState);
+  if (!update) return;
+
+  const previous = gameState.memories?.[player.name]?.summary ?? '';
+  const memory = { summary: buildExtractiveSummary(previous, update, player), throughRound: update.throughRound, messageCount: update.messageCount };
+
+  if (gameState.memory?.summarizer !== 'model' || responseProvider) {
+    set({ gameState: withPlayerMemory(gameState, player.name, memory) });
+    return;
   }
 
-  // Try partial match (first or last name)
-  for (const player of sortedPlayers) {
-    const nameParts = player.name.split('·');
-    for (const part of nameParts) {
-      if (cleanedText.includes(part) && part.length >= 2) {
-        // Additional check: make sure this partial match uniquely identifies the player
-        const matchingPlayers = allPlayers.filter(p => p.name.includes(part));
-        // eslint-disable-next-line max-depth
-        if (matchingPlayers.length === 1) {
-          return player.name;
-        }
-      }
-    }
+  const settings = resolveModelSettings({ apiKey, apiUrl, apiType, model }, player.modelProfile);
+  const prompt = buildSummaryPrompt(previous, update, player);
+  const reported: { usage?: TokenUsage } = {};
+  const startTime = Date.now();
+  try {
+    const response = await getSummaryResponse(prompt, { ...settings, onUsage: (usage) => { reported.usage = usage; } });
+    let logged = withAPILog(get().gameState ?? gameState, 'request', player.name, prompt);
+    logged = withAPILog(logged, 'response', player.name, undefined, response, undefined, Date.now() - startTime, {
+      model: settings.model,
+      promptTokens: reported.usage?.prompt_tokens,
+      completionTokens: reported.usage?.completion_tokens,
+    });
+    set({ gameState: withPlayerMemory(logged, player.name, { ...memory, summary: trimSummary(response.trim(), update.summaryBudget) || memory.summary }) });
+  } catch (error) {
+    // 总结失败不影响游戏，用摘录代替
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const logged = withAPILog(get().gameState ?? gameState, 'error', player.name, prompt, undefined, errorMessage);
+    set({ gameState: withPlayerMemory(logged, player.name, memory) });
   }
-
-  return null;
 }
 
 /**
- * Record vote or action based on player response
+ * Run an action through the engine reducer - phase changes play the transition animation
  */
-function recordVote(
-  gameState: GameState,
-  currentPlayer: Player,
-  response: string,
+function dispatchGameAction(
+  get: () => GameStore,
+  set: (partial: Partial<GameStore>) => void,
+  action: GameAction,
 ): void {
-  // Try to extract player name intelligently
-  const extractedName = extractPlayerName(response, gameState.players);
-  const targetName = extractedName || response.trim();
-  const targetPlayer = getPlayerByName(gameState, targetName);
-
-  if (gameState.phase === 'voting') {
-    recordDayVote(gameState, currentPlayer, targetName, targetPlayer);
-  } else if (gameState.phase === 'night') {
-    recordNightAction(gameState, currentPlayer, targetName, targetPlayer);
+  const { gameState } = get();
+  if (!gameState) return;
+
+  const next = gameReducer(gameState, action);
+  set({ gameState: next });
+
+  if (next.phase !== gameState.phase && next.phase !== 'end') {
+    get().triggerTransition(next.phase, next.round);
   }
 }
 
 /**
- * Record day vote
+ * How many times an AI is asked again after an illegal vote or target before it counts as passing
  */
-function recordDayVote(
-  gameState: GameState,
-  currentPlayer: Player,
-  targetName: string,
-  targetPlayer: Player | undefined,
-): void {
-  if (targetPlayer?.isAlive) {
-    gameState.votes.push({ from: currentPlayer.name, target: targetName });
+const MAX_ACTION_REJECTIONS = 2;
+
+/**
+ * Ask an AI player until the answer is legal
+ * Illegal votes and targets are logged and re-prompted with the reason; after the limit the player passes
+ */
+async function decideAIAction(
+  get: () => GameStore,
+  set: (partial: Partial<GameStore>) => void,
+  player: Player,
+): Promise<PlayerAction | null> {
+  let rejection: string | undefined;
+  let action: PlayerAction | null = null;
+
+  for (let attempt = 0; attempt <= MAX_ACTION_REJECTIONS; attempt++) {
+    action = await requestPlayerAction(get, set, player, rejection);
+    const { gameState } = get();
+    if (!action || !gameState) return null;
+
+    rejection = validatePlayerAction(gameState, action) ?? undefined;
+    if (!rejection) return action;
+    set({ gameState: withAPILog(gameState, 'rejected', player.name, undefined, action.content, rejection) });
   }
+
+  return action && { ...action, content: '放弃', decision: { target: null } };
 }
 
 /**
- * Record night action
+ * Play an AI player's turn - decide, then dispatch
  */
-function recordNightAction(
-  gameState: GameState,
-  currentPlayer: Player,
-  targetName: string,
-  targetPlayer: Player | undefined,
-): void {
-  if (gameState.nightPhase === 'listener' && currentPlayer.role === 'listener') {
-    recordListenerCheck(gameState, targetName, targetPlayer);
-  } else if (gameState.nightPhase === 'marked-vote' && currentPlayer.role === 'marked') {
-    recordMarkedVote(gameState, currentPlayer, targetName, targetPlayer);
-  } else if (gameState.nightPhase === 'guard' && currentPlayer.role === 'guard') {
-    recordGuardAction(gameState, targetName, targetPlayer);
+async function playAITurn(
+  get: () => GameStore,
+  set: (partial: Partial<GameStore>) => void,
+  player: Player,
+): Promise<void> {
+  const action = await decideAIAction(get, set, player);
+  if (action) {
+    dispatchGameAction(get, set, action);
   }
 }
 
 /**
- * Record listener check
+ * Simultaneous vote - ask every AI voter who has not answered yet at once (up to the parallelism cap),
+ * then reveal the collected votes together in seat order
+ * Answers survive a failed request, so the retry only asks the voters whose requests failed
  */
-function recordListenerCheck(
-  gameState: GameState,
-  targetName: string,
-  targetPlayer: Player | undefined,
-): void {
-  if (!targetPlayer?.isAlive) return;
+async function playSimultaneousVotes(
+  get: () => GameStore,
+  set: (partial: Partial<GameStore>) => void,
+): Promise<void> {
+  const { gameState } = get();
+  if (!gameState) return;
+
+  const step = getVoteStep(gameState);
+  const answered = () => getCollectedVotes(get(), gameState);
+  const voters = getUnansweredVoters(gameState, answered()).filter((p) => p.isAI);
+
+  const failed: { player: Player; error: unknown }[] = [];
+  await runWithConcurrency(voters, resolveVotingSettings(gameState.voting).parallelism, async (player) => {
+    try {
+      const action = await decideAIAction(get, set, player);
+      if (action) set({ collectedVotes: { step, actions: [...answered(), action] } });
+    } catch (error) {
+      failed.push({ player, error });
+    }
+  });
 
-  // Check if target is clean (not marked or heretic)
-  const isClean = targetPlayer.role !== 'marked' && targetPlayer.role !== 'heretic';
+  if (failed.length > 0) {
+    // 失败的请求只留下了 prompt，撤掉它们；已经收到的票留到重试后一起揭晓
+    const latest = get().gameState;
+    set({ gameState: latest && withoutFailedPrompts(latest, failed.map(({ player }) => player)) });
+    const { player, error } = failed[0];
+    throw new Error(`${failed.map((f) => f.player.name).join('、')} 的投票请求失败（${player.name}: ${error instanceof Error ? error.message : String(error)}）`);
+  }
 
-  gameState.listenerChecks.push({
-    round: gameState.round,
-    target: targetName,
-    isClean,
-  });
+  // 人类还没投票时先不揭晓，等 submitHumanAction 收下人类的票
+  if (getUnansweredVoters(gameState, answered()).length > 0) {
+    set({ awaitingHumanInput: true });
+    return;
+  }
 
-  const factionName = isClean ? '清白' : '污秽';
+  revealCollectedVotes(get, set);
+}
 
-  gameState.messages.push(
-    addMessage(
-      gameState,
-      '叙述者',
-      `倾听结果：${targetName} 的灵魂是 ${factionName} 的`,
-      'system',
-      'listener',
-    ),
-  );
+/**
+ * Votes collected so far for the current simultaneous vote
+ */
+function getCollectedVotes(store: Pick<GameStore, 'collectedVotes'>, gameState: GameState): PlayerAction[] {
+  return store.collectedVotes?.step === getVoteStep(gameState) ? store.collectedVotes.actions : [];
 }
 
 /**
- * Record marked vote
+ * Voters from the current seat on who have not answered the simultaneous vote yet
  */
-function recordMarkedVote(
-  gameState: GameState,
-  currentPlayer: Player,
-  targetName: string,
-  targetPlayer: Player | undefined,
-): void {
-  if (targetPlayer?.isAlive && targetPlayer.role !== 'marked') {
-    gameState.nightVotes.push({ from: currentPlayer.name, target: targetName });
-  }
+function getUnansweredVoters(gameState: GameState, answered: PlayerAction[]): Player[] {
+  return getActingPlayers(gameState)
+    .slice(gameState.currentPlayerIndex)
+    .filter((p) => !answered.some((action) => action.player === p.name));
 }
 
 /**
- * Record guard action
+ * Dispatch the collected votes in seat order, all at once
  */
-function recordGuardAction(
-  gameState: GameState,
-  targetName: string,
-  targetPlayer: Player | undefined,
+function revealCollectedVotes(
+  get: () => GameStore,
+  set: (partial: Partial<GameStore>) => void,
 ): void {
-  if (!targetPlayer?.isAlive) return;
-
-  // Check if guard can protect this player (not the same as last night)
-  if (gameState.lastGuardedPlayer === targetName) {
-    gameState.messages.push(
-      addMessage(
-        gameState,
-        '叙述者',
-        `你不能连续两晚守护同一个人！守护失败。`,
-        'system',
-        'guard',
-      ),
-    );
-    return;
-  }
+  for (;;) {
+    const { gameState, collectedVotes } = get();
+    if (!gameState || !collectedVotes || collectedVotes.step !== getVoteStep(gameState)) return;
 
-  // Record guard action
-  gameState.guardRecords.push({
-    round: gameState.round,
-    target: targetName,
-  });
-
-  // Update last guarded player
-  gameState.lastGuardedPlayer = targetName;
+    const voter = getActingPlayers(gameState)[gameState.currentPlayerIndex];
+    const action = collectedVotes.actions.find((a) => a.player === voter?.name);
+    if (!action) return;
 
-  gameState.messages.push(
-    addMessage(
-      gameState,
-      '叙述者',
-      `你守护了 ${targetName}。门闩已经从外面锁好。`,
-      'system',
-      'guard',
-    ),
-  );
+    set({ collectedVotes: { ...collectedVotes, actions: collectedVotes.actions.filter((a) => a !== action) } });
+    dispatchGameAction(get, set, action);
+  }
 }
 
 /**
- * Helper function to handle day voting result
+ * Ask an AI player for their action - log the prompt and API call, then parse the answer
+ * Throws when the request fails; nothing but the prompt has been recorded by then
  */
-function handleDayVotingResult(
-  gameState: GameState,
-  eliminated: Player | null,
-  isTied: boolean,
-  tiedPlayers: string[],
-): void {
-  if (isTied) {
-    if (gameState.isRevote) {
-      // Second tie - nobody gets eliminated
-      gameState.messages.push(
-        addMessage(gameState, '叙述者', '再次平票！本回合不淘汰任何人。', 'system', 'all'),
-      );
-      // Clear last sacrificed player since no one was eliminated
-      gameState.lastSacrificedPlayer = undefined;
-      enterNightPhase(gameState);
-    } else {
-      // First tie - enter revote discussion phase
-      gameState.isRevote = true;
-      gameState.tiedPlayers = tiedPlayers;
-      gameState.phase = 'day';
-      gameState.currentPlayerIndex = 0;
-      gameState.votes = [];
-      gameState.messages.push(
-        addMessage(
-          gameState,
-          '叙述者',
-          `平票玩家 ${tiedPlayers.join('、')} 不能发言。其他玩家请进行讨论并投票。`,
-          'system',
-          'all',
-        ),
-      );
-    }
-  } else {
-    // No tie - normal elimination
-    if (eliminated) {
-      const player = gameState.players.find((p) => p.id === eliminated.id);
-      if (player) {
-        player.isAlive = false;
-        // Record sacrificed player for coroner
-        gameState.lastSacrificedPlayer = player.name;
-        // Trigger emotional state changes for related characters
-        handleDeathTriggers(gameState, player.name);
-      }
-    } else {
-      // No one eliminated - clear last sacrificed
-      gameState.lastSacrificedPlayer = undefined;
-    }
-    enterNightPhase(gameState);
+async function requestPlayerAction(
+  get: () => GameStore,
+  set: (partial: Partial<GameStore>) => void,
+  player: Player,
+  rejection: string | undefined,
+): Promise<PlayerAction | null> {
+  await updatePlayerMemory(get, set, player);
+  const { gameState, promptConfigs, currentPromptConfigId } = get();
+  if (!gameState) return null;
+
+  // Record the full prompt for transparency
+  const fullPrompt = buildPrompt(player, gameState, rejection, getActivePromptConfig(promptConfigs, currentPromptConfigId));
+  const prompted: GameState = {
+    ...gameState,
+    messages: [
+      ...gameState.messages,
+      addMessage(gameState, `${player.name} (神谕)`, fullPrompt, 'prompt', { player: player.name }),
+    ],
+  };
+  set({ gameState: prompted });
+
+  const startTime = Date.now();
+  const reported: { usage?: TokenUsage; model?: string } = {};
+  let response: string;
+  try {
+    response = await requestAIResponse(get, set, player, prompted, rejection, (usage, model) => {
+      reported.usage = usage;
+      reported.model = model;
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    set({ gameState: withAPILog(get().gameState ?? prompted, 'error', player.name, fullPrompt, undefined, errorMessage) });
+    throw error;
+  } finally {
+    set({ streamingResponse: null });
   }
+  const duration = Date.now() - startTime;
+
+  // Log successful request and response
+  let logged = withAPILog(get().gameState ?? prompted, 'request', player.name, fullPrompt);
+  logged = withAPILog(logged, 'response', player.name, undefined, response, undefined, duration, {
+    model: reported.model,
+    promptTokens: reported.usage?.prompt_tokens,
+    completionTokens: reported.usage?.completion_tokens,
+  });
+  set({ gameState: logged });
+
+  const type = getPlayerActionType(logged);
+  const { thinking, speech } = parseAIResponse(response);
+  // 投票与夜间目标优先读 JSON 答案，解析失败才按原文找名字
+  const structured = type === 'SPEECH' ? null : parseActionDecision(response);
+  const notebookText = structured?.notebook ?? extractNotebookSection(response);
+  return {
+    type,
+    player: player.name,
+    content: structured ? describeDecision(structured.decision) : speech,
+    thinking: structured?.thinking || thinking || undefined,
+    decision: structured?.decision,
+    notebook: (notebookText && parseNotebookUpdate(notebookText, logged.players, player.name)) || undefined,
+  };
 }
 
 /**
- * Helper function to handle night kill result
+ * Parse AI response into thinking and speech parts
  */
-function handleNightKillResult(
-  gameState: GameState,
-  killedPlayer: Player | null,
-  message: Message,
-): void {
-  if (killedPlayer) {
-    const player = gameState.players.find((p) => p.id === killedPlayer.id);
-    if (player) {
-      player.isAlive = false;
-      // Trigger emotional state changes for related characters
-      handleDeathTriggers(gameState, player.name);
-    }
-  }
-  gameState.messages.push(message);
-  gameState.round += 1;
-  gameState.phase = 'day';
-  gameState.currentPlayerIndex = 0;
-  gameState.isRevote = false;
-  gameState.tiedPlayers = [];
-  gameState.messages.push(
-    addMessage(gameState, '叙述者', `第 ${gameState.round} 回合。天亮了！`, 'system', 'all'),
-  );
-
-  // On Day 2, reveal heretic existence to marked players and awaken the heretic
-  if (gameState.round === 2) {
-    const hereticPlayer = gameState.players.find((p) => p.role === 'heretic' && p.isAlive);
-    if (hereticPlayer) {
-      // Send awakening message to heretic only
-      gameState.messages.push(
-        addMessage(
-          gameState,
-          '山灵',
-          `【灵魂的堕落】
-
-昨夜，黑暗侵蚀了你的意识。
-
-你感到某种邪恶的力量在你体内苏醒。
-你的思想开始扭曲。你的欲望开始改变。
-
-你不再是"人"。
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-【你堕落成了背誓者】
-
-你的灵魂现在和那些"收割者"一样污秽。
-你渴望羔羊的失败。你渴望收割阵营的胜利。
-
-但你不知道收割者是谁。
-他们今天会知道"有背誓者存在"，但他们不知道是你。
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-【你现在的目标】
-
-- 制造混乱，误导羔羊们
-- 保护那些收割者（虽然你不知道他们是谁）
-- 用你的投票把羔羊引向错误的方向
-- 绝不暴露自己
-
-如果被聆心者查验，你会显示为"污秽"。
-如果被发现，你会被献祭。那是真正的死亡。
-
-你是孤独的。你是脆弱的。
-活下去。帮助收割阵营获胜。`,
-          'system',
-          { player: hereticPlayer.name },
-        ),
-      );
-
-      // Send existence notification to marked players
-      gameState.messages.push(
-        addMessage(
-          gameState,
-          '山灵',
-          `【暗语】
-
-昨夜，你们感受到了某种异样的气息。
-
-有人背叛了"人"。有人的灵魂已经污秽。
-
-但那个人不是你们选中的。那个人是自愿堕落的。
-
-【背誓者】已经出现。TA 的灵魂和你们一样污秽，但 TA 不知道你们是谁，你们也不知道 TA 是谁。
+function parseAIResponse(response: string): {
+  thinking: string;
+  speech: string;
+} {
+  const thinkingMatch = response.match(/【思考】\s*([\s\S]*?)(?=【发言】|【笔记】|$)/);
+  const speechMatch = response.match(/【发言】\s*([\s\S]*?)(?=【笔记】|$)/);
 
-TA 无法参与你们的夜晚狩猎，但 TA 会在白天帮助你们。
+  const thinking = thinkingMatch?.[1]?.trim() || '';
+  const speech = speechMatch?.[1]?.trim() || stripNotebookSection(response);
 
-寻找 TA。或者利用 TA。`,
-          'system',
-          'marked',
-        ),
-      );
-    }
-  }
+  return { thinking, speech };
 }
 
 /**
- * Helper function to enter night phase
+ * Split a partly streamed answer - the speech stays empty until 【发言】 arrives
  */
-function enterNightPhase(gameState: GameState): void {
-  gameState.phase = 'night';
-  gameState.nightPhase = 'listener';
-  gameState.currentPlayerIndex = 0;
-  gameState.nightVotes = [];
-  gameState.isRevote = false;
-  gameState.tiedPlayers = [];
-
-  const listener = gameState.players.find((p) => p.role === 'listener' && p.isAlive);
-  if (listener) {
-    gameState.messages.push(
-      addMessage(gameState, '叙述者', '夜幕降临... 寂静山庄陷入黑暗。', 'system', 'all'),
-    );
-  } else {
-    gameState.nightPhase = 'marked-discuss';
-    gameState.messages.push(
-      addMessage(gameState, '叙述者', '夜幕降临... 饥饿者的时刻到了。', 'system', 'all'),
-    );
-  }
+function parseStreamingResponse(text: string): { thinking: string; speech: string } {
+  const { thinking, speech } = parseAIResponse(text);
+  return { thinking, speech: text.includes('【发言】') || !text.includes('【思考】') ? speech : '' };
 }
 
 /**
- * Clean up messages and actions from a failed AI attempt
+ * Drop the prompt left by a failed AI attempt - nothing else is recorded until the action succeeds
  */
-// eslint-disable-next-line complexity
-function cleanupFailedAttempt(gameState: GameState): void {
-  // Get current player
-  let alivePlayers = getAlivePlayers(gameState);
-  if (gameState.phase === 'night' && gameState.nightPhase) {
-    if (gameState.nightPhase === 'listener') {
-      alivePlayers = alivePlayers.filter((p) => p.role === 'listener');
-    } else if (gameState.nightPhase === 'marked-discuss' || gameState.nightPhase === 'marked-vote') {
-      alivePlayers = alivePlayers.filter((p) => p.role === 'marked');
-    } else if (gameState.nightPhase === 'guard') {
-      alivePlayers = alivePlayers.filter((p) => p.role === 'guard');
-    }
-  }
-  if (gameState.phase === 'day' && gameState.isRevote && gameState.tiedPlayers.length > 0) {
-    alivePlayers = alivePlayers.filter((p) => !gameState.tiedPlayers.includes(p.name));
-  }
+function withoutFailedPrompt(gameState: GameState, player: Player): GameState {
+  const last = gameState.messages[gameState.messages.length - 1];
+  if (last?.type !== 'prompt' || last.from !== `${player.name} (神谕)`) return gameState;
+  return { ...gameState, messages: gameState.messages.slice(0, -1) };
+}
 
-  const currentPlayer = alivePlayers[gameState.currentPlayerIndex];
-  if (!currentPlayer) return;
-
-  // Remove all messages from this player in current round/phase
-  // Use filter to avoid index shifting issues with splice
-  gameState.messages = gameState.messages.filter(msg => {
-    // Keep messages that are NOT from current player in current round/phase
-    if (msg.from === currentPlayer.name &&
-        msg.round === gameState.round &&
-        msg.phase === gameState.phase &&
-        (msg.type === 'prompt' || msg.type === 'thinking' || msg.type === 'speech')) {
-      // This message should be removed
-      return false;
-    }
-    // Keep all other messages
-    return true;
-  });
+/**
+ * Drop the prompts left by failed simultaneous requests - each failed voter's newest prompt
+ */
+function withoutFailedPrompts(gameState: GameState, players: Player[]): GameState {
+  const failedPrompts = new Set(
+    players.map((player) => gameState.messages.findLast((m) => m.type === 'prompt' && m.from === `${player.name} (神谕)`)),
+  );
+  return { ...gameState, messages: gameState.messages.filter((m) => !failedPrompts.has(m)) };
+}
 
-  // Also clean up any votes/actions that might have been recorded
-  // Remove day votes from this player
-  const dayVoteIndex = gameState.votes.findIndex((v) => v.from === currentPlayer.name);
-  if (dayVoteIndex !== -1) {
-    gameState.votes.splice(dayVoteIndex, 1);
+/**
+ * Give games saved before seeding existed a fresh seed so the engine can keep rolling
+ */
+function ensureRandomState(gameState: GameState): void {
+  if (typeof gameState.rngState !== 'number') {
+    gameState.seed = createSeed();
+    gameState.rngState = gameState.seed;
   }
+}
 
-  // Remove night votes from this player
-  const nightVoteIndex = gameState.nightVotes.findIndex((v) => v.from === currentPlayer.name);
-  if (nightVoteIndex !== -1) {
-    gameState.nightVotes.splice(nightVoteIndex, 1);
+/**
+ * Games saved before death records existed start with an empty list (replays fall back to the messages)
+ */
+function ensureDeathRecords(gameState: GameState): void {
+  if (!Array.isArray(gameState.deaths)) {
+    gameState.deaths = [];
   }
+}
 
-  // Remove listener check from this round if this player is listener
-  if (currentPlayer.role === 'listener') {
-    const listenerCheckIndex = gameState.listenerChecks.findLastIndex(
-      (c) => c.round === gameState.round
-    );
-    if (listenerCheckIndex !== -1) {
-      gameState.listenerChecks.splice(listenerCheckIndex, 1);
-    }
-  }
+/**
+ * Saves from before house rules were played under the default rules
+ */
+function ensureRules(gameState: GameState): void {
+  gameState.rules = resolveRules(gameState.rules as Partial<RuleSet> | undefined);
+}
 
-  // Remove guard record from this round if this player is guard
-  if (currentPlayer.role === 'guard') {
-    const guardRecordIndex = gameState.guardRecords.findLastIndex(
-      (r) => r.round === gameState.round
-    );
-    if (guardRecordIndex !== -1) {
-      gameState.guardRecords.splice(guardRecordIndex, 1);
-      // Also reset lastGuardedPlayer if we're removing the record
-      gameState.lastGuardedPlayer = gameState.guardRecords[gameState.guardRecords.length - 1]?.target;
-    }
+/**
+ * Saves from before win reasons only stored the winning side - the only conditions back then were these two
+ */
+function ensureWinnerResult(gameState: GameState): void {
+  const winner = gameState.winner as GameState['winner'] | 'marked' | 'lamb';
+  if (typeof winner === 'string') {
+    gameState.winner = { faction: winner, reason: winner === 'lamb' ? 'harvest_eliminated' : 'parity' };
   }
 }
 
@@ -1800,37 +1320,47 @@ function getSavedGamesFromStorage(): SavedGame[] {
   try {
     const saved = localStorage.getItem('werewolf-saved-games');
     if (!saved) return [];
-    return JSON.parse(saved) as SavedGame[];
+    const saves = JSON.parse(saved) as SavedGame[];
+    saves.forEach((save) => ensureWinnerResult(save.state));
+    return saves;
   } catch {
     return [];
   }
 }
 
 /**
- * Add API log entry to game state
+ * Append an API log entry (returns a new game state)
  */
-function addAPILog(
+function withAPILog(
   gameState: GameState,
-  type: 'request' | 'response' | 'error',
+  type: APILog['type'],
   playerName: string,
   prompt?: string,
   response?: string,
   error?: string,
-  duration?: number
-): void {
-  // Ensure apiLogs array exists (defensive against undefined from old saved games)
-  if (!gameState.apiLogs) {
-    gameState.apiLogs = [];
-  }
-
-  gameState.apiLogs.push({
-    id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-    timestamp: Date.now(),
-    type,
-    playerName,
-    prompt: prompt || '',
-    response,
-    error,
-    duration,
-  });
+  duration?: number,
+  details?: Pick<APILog, 'model' | 'promptTokens' | 'completionTokens'>,
+): GameState {
+  // apiLogs may be missing from old saved games
+  const apiLogs = gameState.apiLogs ?? [];
+
+  return {
+    ...gameState,
+    apiLogs: [
+      ...apiLogs,
+      {
+        id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        timestamp: Date.now(),
+        type,
+        playerName,
+        prompt: prompt || '',
+        response,
+        error,
+        duration,
+        round: gameState.round,
+        phase: gameState.phase,
+        ...details,
+      },
+    ],
+  };
 }
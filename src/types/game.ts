@@ -5,7 +5,26 @@
 /**
  * API type selection
  */
-export type APIType = 'openai';
+export type APIType = 'openai' | 'anthropic' | 'gemini' | 'ollama';
+
+/**
+ * Model a player is driven by - blank fields fall back to the global API settings
+ */
+export interface ModelProfile {
+  apiType?: APIType;
+  apiUrl?: string;
+  apiKey?: string;
+  model?: string;
+}
+
+/**
+ * Model assignment for a game - per-character profiles override the faction defaults
+ */
+export interface ModelAssignment {
+  marked?: ModelProfile;  // 收割阵营（烙印者、背誓者）
+  lamb?: ModelProfile;  // 羔羊阵营
+  characters?: Record<string, ModelProfile>;  // 按角色名单独指定
+}
 
 /**
  * Player roles in the game
@@ -19,6 +38,8 @@ export type Role =
   | 'coroner'     // 食灰者 (The Ash-Walker) - 验尸官
   | 'twin'        // 共誓者 (The Co-Sworn) - 双子
   | 'guard'       // 设闩者 (The Bar-Setter) - 守卫
+  | 'witch'       // 秘药者 (The Apothecary) - 女巫
+  | 'hunter'      // 鸣枪者 (The Last Shot) - 猎人
   | 'innocent';   // 无知者 (The Unknowing) - 平民
 
 /**
@@ -31,8 +52,10 @@ export type GamePhase = 'prologue' | 'setup' | 'night' | 'day' | 'secret_meeting
  */
 export type NightPhase =
   | 'listener'          // 聆心者查验
+  | 'twins'             // 共誓者密谈
   | 'marked-discuss'    // 烙印者讨论
   | 'marked-vote'       // 烙印者投票
+  | 'witch'             // 秘药者用药
   | 'guard'             // 设闩者守护
   | 'coroner';          // 食灰者验尸（在白天处决后的夜晚）
 
@@ -48,6 +71,7 @@ export type MessageType =
   | 'prompt'      // AI prompt
   | 'thinking'    // AI thinking process
   | 'secret'      // Secret meeting conversation
+  | 'last_words'  // A dead player's final statement
   | 'event';      // Game event
 
 /**
@@ -70,7 +94,8 @@ export type RelationshipType =
   | 'crush'       // 单恋
   | 'rival'       // 情敌/仇敌
   | 'debtor'      // 债务关系
-  | 'acquaintance'; // 旧识
+  | 'acquaintance' // 旧识
+  | 'twin';       // 共誓者
 
 /**
  * Character relationship definition
@@ -100,6 +125,7 @@ export interface Player {
   trait?: string;  // Character trait/personality tag
   height?: string;
   bloodType?: string;
+  modelProfile?: ModelProfile;  // 驱动该角色的模型（为空则使用全局 API 设置）
 }
 
 /**
@@ -111,6 +137,7 @@ export type MessageVisibility =
   | 'listener'      // Only 聆心者 can see (check results)
   | 'coroner'       // Only 食灰者 can see (autopsy results)
   | 'guard'         // Only 设闩者 can see (guard actions)
+  | 'witch'         // Only 秘药者 can see (potion actions)
   | 'twins'         // Only 共誓者 can see (twin communication)
   | { player: string }  // Only specific player can see
   | { secretMeeting: [string, string] };  // Only two specific players can see (secret meeting)
@@ -136,6 +163,7 @@ export interface Vote {
   from: string;
   target: string;
   round?: number;  // Which round this vote belongs to
+  messageCount?: number;  // Messages in the log when the vote was cast (for replays)
 }
 
 /**
@@ -145,6 +173,7 @@ export interface NightAction {
   playerId: string;
   action: 'check' | 'save' | 'poison';
   target?: string;
+  round?: number;  // Which night this action was taken
 }
 
 /**
@@ -173,12 +202,195 @@ export interface GuardRecord {
   target: string;
 }
 
+/**
+ * A player's turn for the game reducer - speech, day vote or target choice
+ * NIGHT_ACTION covers every target choice, including the 鸣枪者's last shot
+ */
+export interface PlayerAction {
+  type: 'SPEECH' | 'VOTE' | 'NIGHT_ACTION';
+  player: string;  // Acting player's name (must be the current actor)
+  content: string;  // Speech text or chosen target
+  thinking?: string;  // Private reasoning, visible only to the player
+  decision?: ActionDecision;  // Structured choice from the AI's JSON answer - preferred over reading names out of content
+  notebook?: NotebookUpdate;  // The AI's notebook changes, kept across rounds
+}
+
+/**
+ * AI answer while it is still streaming in - split into thinking and speech like the final answer
+ */
+export interface StreamingResponse {
+  player: string;
+  thinking: string;  // 【思考】 so far - private to the player
+  speech: string;  // 【发言】 so far
+}
+
+/**
+ * Structured answer for votes and night targets
+ */
+export interface ActionDecision {
+  target: string | null;  // Chosen player, null to pass
+  action?: 'save' | 'poison' | 'pass';  // 秘药者 only
+  confidence?: number;  // 0-1
+  reason?: string;
+}
+
+/**
+ * Actions accepted by the game reducer - ADVANCE moves on once everyone has acted
+ */
+export type GameAction = PlayerAction | { type: 'ADVANCE' };
+
+/**
+ * 鸣枪者's pending last shot - resolved before the game moves on
+ */
+export interface HunterShot {
+  hunter: string;
+  cause: 'night' | 'sacrifice';  // 夜晚被杀 or 白天被献祭
+  target?: string;  // 选定的目标（放弃开枪则为空）
+}
+
+/**
+ * Who gets last words (遗言): nobody, only the first night's dead, or everyone sacrificed or killed at night
+ */
+export type LastWordsMode = 'off' | 'first_night' | 'all';
+
+/**
+ * Day tie (白天平票): revote once then nobody dies, revote once then fate picks one of the tied, or nobody dies at once
+ */
+export type DayTieRule = 'revote' | 'revote_then_random' | 'no_sacrifice';
+
+/**
+ * Night tie (烙印者平票): discuss again until agreed, fate picks one of the tied, or nobody dies tonight
+ */
+export type NightTieRule = 'revote' | 'random' | 'no_kill';
+
+/**
+ * Victory mode (胜利条件): outnumber the lambs, slaughter one side (屠边) or slaughter every lamb (屠城)
+ */
+export type VictoryMode = 'parity' | 'slaughter_side' | 'slaughter_all';
+
+/**
+ * Why the game ended
+ */
+export type WinReason =
+  | 'harvest_eliminated'  // 收割阵营全灭
+  | 'parity'  // 收割者不少于羔羊
+  | 'specials_eliminated'  // 屠边：身怀异能的羔羊全灭
+  | 'innocents_eliminated'  // 屠边：无知者全灭
+  | 'lambs_eliminated'  // 屠城：羔羊全灭
+  | 'round_limit';  // 回合上限到达，按存活人数决胜
+
+/**
+ * Game result - the winning side and the condition that ended the game
+ */
+export interface GameResult {
+  faction: 'marked' | 'lamb';  // 收割 or 羔羊
+  reason: WinReason;
+}
+
+/**
+ * House rules - the rule variants each table sets for itself
+ */
+export interface RuleSet {
+  guardSelf: boolean;  // 设闩者可以守护自己
+  guardRepeat: boolean;  // 设闩者可以连续两晚守护同一人
+  dayTie: DayTieRule;
+  nightTie: NightTieRule;
+  hereticAwakenRound: number;  // 背誓者在第几天觉醒
+  firstNightNoKill: boolean;  // 首夜烙印者不出手
+  revealRoleOnDeath: boolean;  // 死者的身份公开
+  victoryMode: VictoryMode;
+  roundLimit: number;  // 回合上限，过后按存活人数决胜（0 = 不限）
+}
+
+/**
+ * How older rounds are condensed - extracted from the log, or written by the model
+ */
+export type MemorySummarizer = 'extractive' | 'model';
+
+/**
+ * Long-game memory - once a player's history outgrows the budget, older rounds fold into a summary
+ */
+export interface MemorySettings {
+  enabled: boolean;
+  tokenBudget: number;  // 对话与投票历史的估算 token 数超过它时压缩旧回合
+  recentRounds: number;  // 最近几回合始终保留原文
+  summarizer: MemorySummarizer;
+}
+
+/**
+ * What one player remembers of the rounds before the verbatim window - built only from what they could see
+ */
+export interface PlayerMemory {
+  summary: string;
+  throughRound: number;  // 摘要覆盖到第几回合（含）
+  messageCount: number;  // 摘要覆盖了 messages 的前多少条
+}
+
+/**
+ * How votes are collected - one voter after another, or all at once and revealed together
+ */
+export type VotingMode = 'sequential' | 'simultaneous';
+
+/**
+ * Day votes and the marked night vote - simultaneous votes are requested in parallel, up to the cap
+ */
+export interface VotingSettings {
+  mode: VotingMode;
+  parallelism: number;  // 同时进行的请求数上限
+}
+
+/**
+ * A player on a notebook's suspicion or trust list
+ */
+export interface NotebookEntry {
+  name: string;
+  reason?: string;
+}
+
+/**
+ * A character's private notebook - kept across rounds and shown back to them in every prompt
+ */
+export interface PlayerNotebook {
+  suspects: NotebookEntry[];
+  trusted: NotebookEntry[];
+  claims: string[];  // 自己公开说过的话（身份、查验结果、行踪），最早的在前
+  updatedRound: number;
+}
+
+/**
+ * Notebook changes from one answer - lists left out stay as they were, claims are appended
+ */
+export interface NotebookUpdate {
+  suspects?: NotebookEntry[];
+  trusted?: NotebookEntry[];
+  claims?: string[];
+}
+
+/**
+ * Last words waiting to be spoken - the dead speak in order before the game moves on
+ */
+export interface PendingLastWords {
+  players: string[];
+  cause: 'night' | 'sacrifice';  // 夜晚死亡 or 白天被献祭
+}
+
+/**
+ * Death record - who died, when and how (for replays)
+ */
+export interface DeathRecord {
+  player: string;
+  round: number;
+  cause: 'sacrifice' | 'night' | 'poison' | 'shot';  // 献祭 / 利爪 / 毒药 / 枪击
+  messageCount: number;  // Messages in the log when the death was announced
+}
+
 /**
  * 共誓者配对信息
  */
 export interface TwinPair {
   twin1: string;
   twin2: string;
+  mourned?: boolean;  // 同伴死后，幸存者已独自守过一夜
 }
 
 /**
@@ -203,14 +415,23 @@ export interface GameState {
   messages: Message[];
   votes: Vote[];  // Day voting (current round)
   nightVotes: Vote[];  // Night 烙印者 voting for kill (current round)
-  nightActions: NightAction[];
+  nightActions: NightAction[];  // 秘药者's potion usage (save / poison)
   listenerChecks: ListenerCheck[];  // 聆心者's check history
   coronerReports: CoronerReport[];  // 食灰者's autopsy history
   guardRecords: GuardRecord[];  // 设闩者's guard history
   twinPair?: TwinPair;  // 共誓者配对（游戏开始时确定）
-  lastGuardedPlayer?: string;  // 上一晚被守护的玩家（守卫不能连续守护同一人）
-  lastSacrificedPlayer?: string;  // 上一轮白天被献祭的玩家（用于食灰者验尸）
-  winner?: 'marked' | 'lamb';  // 收割 or 羔羊
+  lastGuardedPlayer?: string;  // 上一晚被守护的玩家（房规不允许时不能连续守护同一人）
+  lastSacrificedPlayer?: string;  // 上一轮白天被献祭的玩家
+  pendingHunterShot?: HunterShot;  // 鸣枪者死亡后等待开枪
+  pendingLastWords?: PendingLastWords;  // 等待发表遗言的死者
+  lastWordsMode?: LastWordsMode;  // 遗言规则（旧存档没有则不发表遗言）
+  twinChannel?: boolean;  // 共誓者夜间密谈是否开启
+  rules: RuleSet;  // 房规
+  memory?: MemorySettings;  // 长局记忆（旧存档没有则不压缩）
+  memories?: Record<string, PlayerMemory>;  // 每名旅者的记忆摘要
+  notebooks?: Record<string, PlayerNotebook>;  // 每名旅者的私人笔记（旧存档没有）
+  voting?: VotingSettings;  // 投票方式（旧存档没有则依次投票）
+  winner?: GameResult;
   createdAt: number;
   lastUpdated: number;
   currentPlayerIndex: number; // Current player index for manual stepping
@@ -224,6 +445,7 @@ export interface GameState {
   // Vote history for all rounds
   voteHistory: Vote[];  // All day votes with round numbers
   nightVoteHistory: Vote[];  // All night votes with round numbers
+  deaths: DeathRecord[];  // Every death in order
 
   // Story progression (for setup phase)
   storyProgress?: number;  // 0-5: Track which story message to show next (0=not started)
@@ -243,6 +465,10 @@ export interface GameState {
 
   // API request/response logs
   apiLogs: APILog[];  // All API requests and responses for debugging
+
+  // Seeded randomness
+  seed: number;  // 本局的随机种子（相同种子可复现发牌、事件与情感结果）
+  rngState: number;  // 随机数生成器的当前状态
 }
 
 /**
@@ -253,6 +479,26 @@ export interface GameConfig {
   roles: Role[];
   enableWitch: boolean;
   enableHunter: boolean;
+  humanPlayerName?: string;  // 由真人玩家接管的角色（为空则全部由 AI 扮演）
+  characters?: string[];  // 参与本局的角色名（为空则按默认顺序取前 playerCount 名）
+  seed?: number;  // 随机种子（为空则每局随机生成）
+  lastWords?: LastWordsMode;  // 遗言规则（为空则不发表遗言）
+  twinChannel?: boolean;  // 共誓者夜间密谈（为空则关闭）
+  rules?: Partial<RuleSet>;  // 房规（未设置的项使用默认规则）
+  models?: ModelAssignment;  // 各阵营/角色使用的模型（为空则全部使用全局 API 设置）
+  memory?: Partial<MemorySettings>;  // 长局记忆（未设置的项使用默认值）
+  voting?: Partial<VotingSettings>;  // 投票方式（未设置则依次投票）
+}
+
+/**
+ * Saved role setup preset
+ */
+export interface GamePreset {
+  id: string;
+  name: string;
+  description?: string;
+  config: GameConfig;
+  builtIn?: boolean;
 }
 
 /**
@@ -304,12 +550,25 @@ export interface SecretMeeting {
 export interface APILog {
   id: string;
   timestamp: number;
-  type: 'request' | 'response' | 'error';
+  type: 'request' | 'response' | 'error' | 'rejected';  // rejected = an illegal vote or target, asked again
   playerName?: string;  // Which player this request was for
   prompt: string;       // The prompt sent to AI
   response?: string;    // The AI response
-  error?: string;       // Error message if failed
+  error?: string;       // Error message if failed, or why the answer was rejected
   duration?: number;    // Time taken in ms
+  round?: number;       // Round and phase the request was made in
+  phase?: GamePhase;
+  model?: string;       // Model that answered
+  promptTokens?: number;      // Token usage reported by the API
+  completionTokens?: number;
+}
+
+/**
+ * Model price in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
 }
 
 /**
@@ -353,4 +612,25 @@ export interface PromptConfig {
   items: PromptItem[];
   createdAt: number;
   updatedAt: number;
+  version?: number;  // Latest saved version on the server
+}
+
+/**
+ * One saved version of a prompt configuration
+ */
+export interface PromptConfigVersion {
+  version: number;
+  savedAt: number;
+  config: PromptConfig;
+  restoredFrom?: number;  // Set when this version restored an older one
+  author?: string;
+  note?: string;  // What changed and why
+}
+
+/**
+ * Who saved a prompt config version and why
+ */
+export interface PromptRevisionInfo {
+  author?: string;
+  note?: string;
 }